@@ -0,0 +1,529 @@
+/**
+ * Account Lifecycle Service
+ * Opens accounts and manages their status, holders and signing rules
+ */
+
+import {
+  Account,
+  AccountStatus,
+  Balance,
+  Currency,
+  AuditEntry,
+  Customer,
+  AccountHolder,
+  AccountHolderRole,
+  SigningRule,
+} from '../core/domain';
+import { AccountValidator } from '../core/validators';
+import {
+  AccountNotFoundError,
+  AccountClosedError,
+  CustomerNotVerifiedError,
+  ProductNotFoundError,
+  ValidationError,
+} from '../utils/errors';
+import { IdGenerator } from '../utils/id-generator';
+import { normaliseIban } from '../utils/iban';
+import { BankingRepositories } from '../persistence/repositories';
+import { DomainEvents } from '../events/domain-events';
+import { accountHolders, canHoldAccounts, ownerType } from '../customers';
+import { Result, success, failure } from '../api/result';
+import { BankingContext, isInternalAccount } from '../api/banking-context';
+import { TransactionService } from '../transactions/transaction-service';
+
+/**
+ * Holder added to an account alongside its primary holder
+ */
+export interface AccountHolderRequest {
+  customerId: string;
+  role: AccountHolderRole;
+}
+
+/**
+ * Account creation request
+ */
+export interface CreateAccountRequest {
+  /** Primary holder */
+  customerId: string;
+  /** Taken from the customer record for customers in the customer information file */
+  customerType?: 'INDIVIDUAL' | 'BUSINESS' | 'JOINT';
+  /** Further holders; a secondary holder makes the account JOINT */
+  holders?: AccountHolderRequest[];
+  /** Signatures outgoing transactions need (default ANY_ONE) */
+  signingRule?: SigningRule;
+  /** 6-digit branch the account number is issued under (default: the configured branch) */
+  branchCode?: string;
+  productId: string;
+  initialDeposit?: number;
+  currency?: Currency;
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * An audited account status change
+ */
+export interface StatusChange {
+  /** Audit action recorded */
+  action: string;
+  /** Who made the change */
+  actor: string;
+  reason: string | null;
+  /** Extra audit detail */
+  details?: Record<string, unknown>;
+  /** Account metadata to set alongside the status */
+  accountMetadata?: Record<string, unknown>;
+}
+
+/**
+ * Customer accounts from opening to closure: status changes are audited with
+ * the actor and reason, and holder changes are checked against the signing rule
+ */
+export class AccountLifecycleService {
+  constructor(
+    private readonly context: BankingContext,
+    private readonly transactions: TransactionService
+  ) {}
+
+  /**
+   * Create a new bank account
+   */
+  async createAccount(request: CreateAccountRequest): Promise<Result<Account>> {
+    await this.context.ready;
+    return this.context.inUnitOfWork((repos) => this.openAccount(repos, request));
+  }
+
+  private async openAccount(
+    repos: BankingRepositories,
+    request: CreateAccountRequest
+  ): Promise<Result<Account>> {
+    const customer = await this.findEligibleHolder(repos, request.customerId);
+    if (!customer.success) {
+      return customer;
+    }
+    const customerType = customer.data?.type ?? request.customerType;
+    if (!customerType) {
+      return failure(new ValidationError('customerType', 'Customer type is required'));
+    }
+
+    const now = new Date();
+    const holders: AccountHolder[] = [
+      { customerId: request.customerId, role: AccountHolderRole.PRIMARY, addedAt: now },
+    ];
+    for (const holder of request.holders ?? []) {
+      const eligible = await this.findEligibleHolder(repos, holder.customerId);
+      if (!eligible.success) {
+        return eligible;
+      }
+      holders.push({ customerId: holder.customerId, role: holder.role, addedAt: now });
+    }
+    const signingRule = request.signingRule ?? SigningRule.ANY_ONE;
+    const holderValidation = AccountValidator.validateHolders(holders, signingRule);
+    if (!holderValidation.isValid) {
+      return failure(holderValidation.errors[0]!);
+    }
+
+    // Validate product exists
+    const product = await repos.products.findById(request.productId);
+    if (!product) {
+      return failure(new ProductNotFoundError(request.productId));
+    }
+
+    if (!product.isActive) {
+      return failure(new ValidationError('productId', 'Product is not active'));
+    }
+
+    if (request.branchCode !== undefined && !/^\d{6}$/.test(request.branchCode)) {
+      return failure(new ValidationError('branchCode', 'Branch code must be 6 digits'));
+    }
+
+    // Generate account number
+    const accountNumber = await this.context.accountNumbers.generate(
+      repos.sequences,
+      request.branchCode
+    );
+    const accountId = IdGenerator.accountId();
+    const currency = request.currency || product.currency;
+
+    // Create account
+    const account: Account = {
+      id: accountId,
+      accountNumber,
+      iban: this.context.issueIban(accountNumber),
+      customerId: {
+        value: request.customerId,
+        type: ownerType(holders, customerType),
+      },
+      holders,
+      signingRule,
+      productId: request.productId,
+      status: AccountStatus.ACTIVE,
+      currency,
+      createdAt: now,
+      updatedAt: now,
+      closedAt: null,
+      overdraftLimit: product.overdraftLimit,
+      metadata: request.metadata || {},
+      version: 1,
+    };
+
+    await repos.accounts.save(account);
+    await repos.balances.save(this.context.openingBalance(accountId, currency));
+    await this.context.enqueue(repos, DomainEvents.accountOpened(account));
+
+    // Process initial deposit if provided; a failure discards the whole unit of work
+    if (request.initialDeposit && request.initialDeposit > 0) {
+      const depositResult = await this.transactions.postDeposit(repos, {
+        accountId,
+        amount: request.initialDeposit,
+        currency,
+        description: 'Initial deposit',
+      });
+
+      if (!depositResult.success) {
+        return depositResult as Result<Account>;
+      }
+    }
+
+    return success(account);
+  }
+
+  /**
+   * Get account by ID
+   */
+  async getAccount(accountId: string): Promise<Result<Account>> {
+    await this.context.ready;
+
+    const account = await this.context.repositories.accounts.findById(accountId);
+    if (!account) {
+      return failure(new AccountNotFoundError(accountId));
+    }
+    return success(account);
+  }
+
+  /**
+   * Get account by IBAN (spaces and letter case are ignored)
+   */
+  async getAccountByIban(iban: string): Promise<Result<Account>> {
+    await this.context.ready;
+
+    const account = await this.context.repositories.accounts.findByIban(normaliseIban(iban));
+    if (!account) {
+      return failure(new AccountNotFoundError(iban));
+    }
+    return success(account);
+  }
+
+  /**
+   * Get account balance
+   */
+  async getBalance(accountId: string): Promise<Result<Balance>> {
+    await this.context.ready;
+
+    const { accounts, balances } = this.context.repositories;
+    const account = await accounts.findById(accountId);
+    const balance = account ? await balances.findByAccountId(accountId) : null;
+    if (!balance) {
+      return failure(new AccountNotFoundError(accountId));
+    }
+    return success(balance);
+  }
+
+  /**
+   * Update account status.
+   * A dormant account can only be made active again through reactivateAccount.
+   */
+  async updateAccountStatus(
+    accountId: string,
+    newStatus: AccountStatus,
+    reason?: string,
+    changedBy: string = 'BANKING_API'
+  ): Promise<Result<Account>> {
+    await this.context.ready;
+    return this.context.inUnitOfWork(async (repos) => {
+      const account = await repos.accounts.findById(accountId);
+      if (account?.status === AccountStatus.DORMANT && newStatus === AccountStatus.ACTIVE) {
+        return failure(
+          new ValidationError('status', 'Dormant accounts must be reactivated with a verified reactivation')
+        );
+      }
+
+      return this.changeAccountStatus(repos, accountId, newStatus, {
+        action: 'STATUS_CHANGED',
+        actor: changedBy,
+        reason: reason ?? null,
+      });
+    });
+  }
+
+  /**
+   * Change an account's status, recording who changed it and why in the audit log
+   */
+  async changeAccountStatus(
+    repos: BankingRepositories,
+    accountId: string,
+    newStatus: AccountStatus,
+    change: StatusChange
+  ): Promise<Result<Account>> {
+    const account = await repos.accounts.findById(accountId);
+    if (!account) {
+      return failure(new AccountNotFoundError(accountId));
+    }
+
+    // Validate status transition
+    const validationResult = AccountValidator.canTransitionTo(account, newStatus);
+    if (!validationResult.isValid) {
+      return failure(validationResult.errors[0]!);
+    }
+
+    // For closing, validate balance is zero
+    if (newStatus === AccountStatus.CLOSED) {
+      const balance = (await repos.balances.findByAccountId(accountId))!;
+      const closeValidation = AccountValidator.canClose(account, balance);
+      if (!closeValidation.isValid) {
+        return failure(closeValidation.errors[0]!);
+      }
+    }
+
+    // Update account
+    const updatedAccount: Account = {
+      ...account,
+      status: newStatus,
+      updatedAt: new Date(),
+      closedAt: newStatus === AccountStatus.CLOSED ? new Date() : account.closedAt,
+      metadata: { ...account.metadata, ...change.accountMetadata },
+      version: account.version + 1,
+    };
+
+    await repos.accounts.save(updatedAccount);
+
+    await repos.auditLog.save({
+      id: IdGenerator.auditId(),
+      entityType: 'Account',
+      entityId: accountId,
+      action: change.action,
+      actor: change.actor,
+      changes: { status: { from: account.status, to: newStatus } },
+      metadata: { reason: change.reason, ...change.details },
+      createdAt: updatedAccount.updatedAt,
+    });
+
+    await this.context.enqueue(
+      repos,
+      DomainEvents.accountStatusChanged(account, updatedAccount, change.reason)
+    );
+
+    return success(updatedAccount);
+  }
+
+  /**
+   * Get the audit trail of an account, oldest first
+   */
+  async getAccountAuditTrail(accountId: string): Promise<Result<AuditEntry[]>> {
+    await this.context.ready;
+
+    const account = await this.context.repositories.accounts.findById(accountId);
+    if (!account) {
+      return failure(new AccountNotFoundError(accountId));
+    }
+
+    return success(await this.context.repositories.auditLog.findByEntity('Account', accountId));
+  }
+
+  /**
+   * Add a holder to an account in any role but primary. Holders in the customer
+   * information file must be verified; a secondary holder makes the account JOINT.
+   */
+  async addAccountHolder(
+    accountId: string,
+    customerId: string,
+    role: AccountHolderRole,
+    changedBy: string = 'BANKING_API'
+  ): Promise<Result<Account>> {
+    await this.context.ready;
+
+    return this.context.inUnitOfWork(async (repos) => {
+      const account = await repos.accounts.findById(accountId);
+      if (!account || isInternalAccount(account)) {
+        return failure(new AccountNotFoundError(accountId));
+      }
+      if (account.status === AccountStatus.CLOSED) {
+        return failure(new AccountClosedError(accountId));
+      }
+      if (role === AccountHolderRole.PRIMARY) {
+        return failure(new ValidationError('role', 'An account must have exactly one primary holder'));
+      }
+
+      const eligible = await this.findEligibleHolder(repos, customerId);
+      if (!eligible.success) {
+        return eligible;
+      }
+
+      const holders = [...accountHolders(account), { customerId, role, addedAt: new Date() }];
+      return this.changeAccountHolders(
+        repos,
+        account,
+        holders,
+        account.signingRule ?? SigningRule.ANY_ONE,
+        'HOLDER_ADDED',
+        changedBy
+      );
+    });
+  }
+
+  /**
+   * Remove a holder other than the primary holder from an account
+   */
+  async removeAccountHolder(
+    accountId: string,
+    customerId: string,
+    changedBy: string = 'BANKING_API'
+  ): Promise<Result<Account>> {
+    await this.context.ready;
+
+    return this.context.inUnitOfWork(async (repos) => {
+      const account = await repos.accounts.findById(accountId);
+      if (!account || isInternalAccount(account)) {
+        return failure(new AccountNotFoundError(accountId));
+      }
+
+      const holder = accountHolders(account).find((h) => h.customerId === customerId);
+      if (!holder) {
+        return failure(
+          new ValidationError('customerId', `${customerId} does not hold account ${accountId}`)
+        );
+      }
+      if (holder.role === AccountHolderRole.PRIMARY) {
+        return failure(new ValidationError('customerId', 'The primary holder cannot be removed'));
+      }
+
+      return this.changeAccountHolders(
+        repos,
+        account,
+        accountHolders(account).filter((h) => h !== holder),
+        account.signingRule ?? SigningRule.ANY_ONE,
+        'HOLDER_REMOVED',
+        changedBy
+      );
+    });
+  }
+
+  /**
+   * Change the signatures an account's outgoing transactions need
+   */
+  async setSigningRule(
+    accountId: string,
+    signingRule: SigningRule,
+    changedBy: string = 'BANKING_API'
+  ): Promise<Result<Account>> {
+    await this.context.ready;
+
+    return this.context.inUnitOfWork(async (repos) => {
+      const account = await repos.accounts.findById(accountId);
+      if (!account || isInternalAccount(account)) {
+        return failure(new AccountNotFoundError(accountId));
+      }
+
+      return this.changeAccountHolders(
+        repos,
+        account,
+        accountHolders(account),
+        signingRule,
+        'SIGNING_RULE_CHANGED',
+        changedBy
+      );
+    });
+  }
+
+  /**
+   * Look up a prospective account holder; holders in the customer information
+   * file must be verified, other identifiers are taken as given
+   */
+  private async findEligibleHolder(
+    repos: BankingRepositories,
+    customerId: string
+  ): Promise<Result<Customer | null>> {
+    const customer = await repos.customers.findById(customerId);
+    if (customer && !canHoldAccounts(customer)) {
+      return failure(new CustomerNotVerifiedError(customer.id, customer.status));
+    }
+    return success(customer);
+  }
+
+  /**
+   * Replace an account's holders and signing rule, recording the change in the
+   * audit log
+   */
+  private async changeAccountHolders(
+    repos: BankingRepositories,
+    account: Account,
+    holders: readonly AccountHolder[],
+    signingRule: SigningRule,
+    action: string,
+    actor: string
+  ): Promise<Result<Account>> {
+    const validation = AccountValidator.validateHolders(holders, signingRule);
+    if (!validation.isValid) {
+      return failure(validation.errors[0]!);
+    }
+
+    // Going back to a single owner restores the primary holder's own type
+    let primaryType = account.customerId.type;
+    if (primaryType === 'JOINT') {
+      const primary = await repos.customers.findById(account.customerId.value);
+      primaryType = primary?.type ?? 'INDIVIDUAL';
+    }
+
+    const updatedAccount: Account = {
+      ...account,
+      customerId: { ...account.customerId, type: ownerType(holders, primaryType) },
+      holders,
+      signingRule,
+      updatedAt: new Date(),
+      version: account.version + 1,
+    };
+    await repos.accounts.save(updatedAccount);
+
+    const describe = (list: readonly AccountHolder[]) =>
+      list.map((h) => ({ customerId: h.customerId, role: h.role }));
+    const changes: Record<string, { from: unknown; to: unknown }> = {};
+    const [fromHolders, toHolders] = [describe(accountHolders(account)), describe(holders)];
+    if (JSON.stringify(fromHolders) !== JSON.stringify(toHolders)) {
+      changes['holders'] = { from: fromHolders, to: toHolders };
+    }
+    const previousRule = account.signingRule ?? SigningRule.ANY_ONE;
+    if (signingRule !== previousRule) {
+      changes['signingRule'] = { from: previousRule, to: signingRule };
+    }
+    await repos.auditLog.save({
+      id: IdGenerator.auditId(),
+      entityType: 'Account',
+      entityId: account.id,
+      action,
+      actor,
+      changes,
+      metadata: {},
+      createdAt: updatedAccount.updatedAt,
+    });
+
+    return success(updatedAccount);
+  }
+
+  /**
+   * Get every account a customer holds, in any role. Customers in the customer
+   * information file must be verified for their holdings to be listed.
+   */
+  async getAccountsByCustomer(customerId: string): Promise<Result<Account[]>> {
+    await this.context.ready;
+
+    const customer = await this.context.repositories.customers.findById(customerId);
+    if (customer && !canHoldAccounts(customer)) {
+      return failure(new CustomerNotVerifiedError(customer.id, customer.status));
+    }
+
+    const accounts = await this.context.repositories.accounts.findByCustomerId({
+      value: customerId,
+      type: 'INDIVIDUAL',
+    });
+    return success(accounts);
+  }
+}
@@ -1,129 +1,126 @@
 /**
  * Account Number Generator
- * Generates unique account numbers with validation
- * Format: 2-digit branch code + 8-digit sequence + 2-digit checksum
+ * Issues account numbers from sequences kept per bank and branch in a
+ * SequenceRepository, so numbers stay unique across restarts and processes:
+ * units of work (in this process or another sharing the store) drawing the
+ * same value conflict on commit and the loser draws again.
+ * Format: 2-digit bank code + 6-digit branch code + 8-digit sequence + 2 check digits
  */
 
+import { AccountNumber, CheckDigitScheme, SequenceRepository } from '../core/domain';
 import { ValidationError } from '../core/errors';
+import { ACCOUNT_NUMBER_LENGTH, calculateCheckDigits, checkAccountNumber } from './check-digits';
 
 export interface AccountNumberConfig {
+  /** 2-digit bank code (default 01) */
+  bankCode?: string;
+  /** 6-digit branch code used when none is given (default 000001) */
   branchCode?: string;
-  sequenceLength?: number;
-  checksumLength?: number;
+  /** Check-digit algorithm (default LUHN) */
+  checkDigitScheme?: CheckDigitScheme;
 }
 
-export class AccountNumberGenerator {
-  private readonly branchCodeLength = 2;
-  private readonly sequenceLength = 8;
-  private readonly checksumLength = 2;
-  private readonly totalLength = 12; // 2 + 8 + 2
+/**
+ * Value each branch's sequence starts after
+ */
+const ACCOUNT_SEQUENCE_START = 10000000;
+
+/**
+ * Largest sequence that fits the 8-digit sequence field
+ */
+const ACCOUNT_SEQUENCE_END = 99999999;
+
+/**
+ * Bank and branch whose numbers were issued from a single sequence before
+ * sequences were kept per branch
+ */
+const LEGACY_BANK_CODE = '01';
+const LEGACY_BRANCH_CODE = '000001';
 
-  private defaultBranchCode: string;
-  private sequenceCounter: number = 0;
-  private usedNumbers: Set<string> = new Set();
+/**
+ * Name of the sequence a bank and branch draw account numbers from. The legacy
+ * branch keeps the original sequence so none of its numbers is reissued.
+ */
+export function accountNumberSequence(bankCode: string, branchCode: string): string {
+  if (bankCode === LEGACY_BANK_CODE && branchCode === LEGACY_BRANCH_CODE) {
+    return 'accountNumber';
+  }
+  return `accountNumber:${bankCode}:${branchCode}`;
+}
+
+export class AccountNumberGenerator {
+  private readonly bankCode: string;
+  private readonly defaultBranchCode: string;
+  readonly checkDigitScheme: CheckDigitScheme;
 
   constructor(config?: AccountNumberConfig) {
-    this.defaultBranchCode = config?.branchCode || '01';
+    this.bankCode = config?.bankCode ?? LEGACY_BANK_CODE;
+    this.defaultBranchCode = config?.branchCode ?? LEGACY_BRANCH_CODE;
+    this.checkDigitScheme = config?.checkDigitScheme ?? CheckDigitScheme.LUHN;
 
-    if (this.defaultBranchCode.length !== this.branchCodeLength) {
-      throw new ValidationError(
-        `Branch code must be ${this.branchCodeLength} digits`,
-        [this.defaultBranchCode]
-      );
+    if (!/^\d{2}$/.test(this.bankCode)) {
+      throw new ValidationError('Bank code must be 2 digits', [this.bankCode]);
     }
-
-    if (!/^\d+$/.test(this.defaultBranchCode)) {
-      throw new ValidationError('Branch code must contain only digits', [this.defaultBranchCode]);
+    this.assertBranchCode(this.defaultBranchCode);
+    if (!Object.values(CheckDigitScheme).includes(this.checkDigitScheme)) {
+      throw new ValidationError('Unknown check-digit scheme', [this.checkDigitScheme]);
     }
   }
 
   /**
-   * Generates a unique account number
-   * Format: BB-SSSSSSSS-CC
-   * BB = Branch code (2 digits)
-   * SSSSSSSS = Sequence number (8 digits)
-   * CC = Checksum (2 digits, Luhn algorithm)
+   * Issues the next account number for a branch (default: the configured branch)
    */
-  generate(branchCode?: string): string {
-    const branch = branchCode || this.defaultBranchCode;
-
-    if (branch.length !== this.branchCodeLength || !/^\d+$/.test(branch)) {
-      throw new ValidationError(
-        `Branch code must be ${this.branchCodeLength} digits`,
-        [branch]
-      );
-    }
-
-    let accountNumber: string;
-    let attempts = 0;
-    const maxAttempts = 1000;
+  async generate(sequences: SequenceRepository, branchCode?: string): Promise<AccountNumber> {
+    const branch = branchCode ?? this.defaultBranchCode;
+    this.assertBranchCode(branch);
 
-    // Generate unique account number
-    do {
-      if (attempts >= maxAttempts) {
-        throw new Error('Failed to generate unique account number after maximum attempts');
-      }
-
-      const sequence = this.generateSequence();
-      const baseNumber = branch + sequence;
-      const checksum = this.calculateChecksum(baseNumber);
-      accountNumber = baseNumber + checksum;
+    const next = await sequences.next(
+      accountNumberSequence(this.bankCode, branch),
+      ACCOUNT_SEQUENCE_START
+    );
+    if (next > ACCOUNT_SEQUENCE_END) {
+      throw new Error(`Account number sequence exhausted for branch ${branch}`);
+    }
 
-      attempts++;
-    } while (this.usedNumbers.has(accountNumber));
+    const accountSequence = next.toString().padStart(8, '0');
+    const checkDigit = calculateCheckDigits(
+      this.checkDigitScheme,
+      `${this.bankCode}${branch}${accountSequence}`
+    );
 
-    this.usedNumbers.add(accountNumber);
-    return accountNumber;
+    return {
+      value: `${this.bankCode}${branch}${accountSequence}${checkDigit}`,
+      bankCode: this.bankCode,
+      branchCode: branch,
+      accountSequence,
+      checkDigit,
+    };
   }
 
   /**
-   * Validates an account number format and checksum
+   * Validates an account number's format and check digits under the configured scheme
    */
   validate(accountNumber: string): boolean {
-    // Remove any formatting (dashes, spaces)
-    const cleaned = accountNumber.replace(/[-\s]/g, '');
-
-    // Check length
-    if (cleaned.length !== this.totalLength) {
-      return false;
-    }
-
-    // Check if all digits
-    if (!/^\d+$/.test(cleaned)) {
-      return false;
-    }
-
-    // Extract parts
-    const baseNumber = cleaned.substring(0, this.totalLength - this.checksumLength);
-    const providedChecksum = cleaned.substring(this.totalLength - this.checksumLength);
-
-    // Validate checksum
-    const calculatedChecksum = this.calculateChecksum(baseNumber);
-
-    return providedChecksum === calculatedChecksum;
+    return checkAccountNumber(accountNumber, this.checkDigitScheme).valid;
   }
 
   /**
    * Formats an account number for display
-   * Example: 01-12345678-42
+   * Example: 01-000001-10000001-42
    */
   format(accountNumber: string): string {
     const cleaned = accountNumber.replace(/[-\s]/g, '');
 
-    if (cleaned.length !== this.totalLength) {
+    if (cleaned.length !== ACCOUNT_NUMBER_LENGTH) {
       throw new ValidationError('Invalid account number length for formatting', [accountNumber]);
     }
 
-    const branch = cleaned.substring(0, this.branchCodeLength);
-    const sequence = cleaned.substring(
-      this.branchCodeLength,
-      this.branchCodeLength + this.sequenceLength
-    );
-    const checksum = cleaned.substring(
-      this.branchCodeLength + this.sequenceLength
-    );
-
-    return `${branch}-${sequence}-${checksum}`;
+    return [
+      cleaned.substring(0, 2),
+      cleaned.substring(2, 8),
+      cleaned.substring(8, 16),
+      cleaned.substring(16),
+    ].join('-');
   }
 
   /**
@@ -132,77 +129,16 @@ export class AccountNumberGenerator {
   extractBranchCode(accountNumber: string): string {
     const cleaned = accountNumber.replace(/[-\s]/g, '');
 
-    if (cleaned.length !== this.totalLength) {
+    if (cleaned.length !== ACCOUNT_NUMBER_LENGTH) {
       throw new ValidationError('Invalid account number length', [accountNumber]);
     }
 
-    return cleaned.substring(0, this.branchCodeLength);
-  }
-
-  /**
-   * Resets the generator state (mainly for testing)
-   */
-  reset(): void {
-    this.sequenceCounter = 0;
-    this.usedNumbers.clear();
-  }
-
-  /**
-   * Gets the count of generated account numbers
-   */
-  getGeneratedCount(): number {
-    return this.usedNumbers.size;
+    return cleaned.substring(2, 8);
   }
 
-  // ============================================================================
-  // Private Helper Methods
-  // ============================================================================
-
-  /**
-   * Generates a sequential 8-digit number
-   */
-  private generateSequence(): string {
-    this.sequenceCounter++;
-
-    // Add some randomness to avoid predictable sequences
-    const timestamp = Date.now() % 10000; // Last 4 digits of timestamp
-    const sequence = (this.sequenceCounter * 10000 + timestamp) % 100000000;
-
-    return sequence.toString().padStart(this.sequenceLength, '0');
-  }
-
-  /**
-   * Calculates checksum using Luhn algorithm (mod 10)
-   * Returns 2-digit checksum
-   */
-  private calculateChecksum(baseNumber: string): string {
-    // Luhn algorithm
-    let sum = 0;
-    let isEven = false;
-
-    // Process digits from right to left
-    for (let i = baseNumber.length - 1; i >= 0; i--) {
-      let digit = parseInt(baseNumber[i], 10);
-
-      if (isEven) {
-        digit *= 2;
-        if (digit > 9) {
-          digit -= 9;
-        }
-      }
-
-      sum += digit;
-      isEven = !isEven;
+  private assertBranchCode(branchCode: string): void {
+    if (!/^\d{6}$/.test(branchCode)) {
+      throw new ValidationError('Branch code must be 6 digits', [branchCode]);
     }
-
-    // Calculate check digit
-    const checkDigit = (10 - (sum % 10)) % 10;
-
-    // For 2-digit checksum, add a secondary check based on sum of all digits
-    const digitSum = baseNumber.split('').reduce((acc, d) => acc + parseInt(d, 10), 0);
-    const secondCheckDigit = digitSum % 10;
-
-    return `${checkDigit}${secondCheckDigit}`;
   }
-
 }
@@ -10,7 +10,8 @@ import {
   Currency,
   Money,
   AccountNumber,
-  CustomerId
+  CustomerId,
+  SequenceRepository
 } from '../core/domain';
 import {
   ValidationError,
@@ -54,7 +55,8 @@ export class AccountService {
   constructor(
     private readonly repository: AccountRepository,
     private readonly accountNumberGenerator: AccountNumberGenerator,
-    private readonly auditLogger: AuditLogger
+    private readonly auditLogger: AuditLogger,
+    private readonly sequences: SequenceRepository
   ) {}
 
   /**
@@ -65,8 +67,10 @@ export class AccountService {
     this.validateCreateParams(params);
 
     // Generate unique account number
-    const accountNumberValue = this.accountNumberGenerator.generate(params.branchCode);
-    const accountNumber: AccountNumber = this.parseAccountNumber(accountNumberValue);
+    const accountNumber: AccountNumber = await this.accountNumberGenerator.generate(
+      this.sequences,
+      params.branchCode
+    );
 
     // Create customer ID
     const customerId: CustomerId = {
@@ -378,8 +382,8 @@ export class AccountService {
       }
     }
 
-    if (params.branchCode && !/^\d{2}$/.test(params.branchCode)) {
-      errors.push('Branch code must be 2 digits');
+    if (params.branchCode && !/^\d{6}$/.test(params.branchCode)) {
+      errors.push('Branch code must be 6 digits');
     }
 
     if (errors.length > 0) {
@@ -387,18 +391,6 @@ export class AccountService {
     }
   }
 
-  private parseAccountNumber(accountNumberValue: string): AccountNumber {
-    const cleaned = accountNumberValue.replace(/[-\s]/g, '');
-
-    return {
-      value: cleaned,
-      bankCode: cleaned.substring(0, 2),
-      branchCode: cleaned.substring(2, 8),
-      accountSequence: cleaned.substring(8, 16),
-      checkDigit: cleaned.substring(16, 18) || '00'
-    };
-  }
-
   private getCurrencyScale(currency: Currency): number {
     // Most currencies use 2 decimal places, JPY uses 0
     return currency === Currency.JPY ? 0 : 2;
@@ -0,0 +1,110 @@
+/**
+ * Account Number Check Digits
+ * The check-digit schemes an account number can be issued under, and bulk
+ * validation of numbers already issued
+ */
+
+import { CheckDigitScheme } from '../core/domain';
+import { mod97 } from '../utils/iban';
+
+/**
+ * Digits in an account number: 2-digit bank code, 6-digit branch code,
+ * 8-digit sequence and 2 check digits
+ */
+export const ACCOUNT_NUMBER_LENGTH = 18;
+
+/**
+ * Outcome of validating one account number
+ */
+export interface AccountNumberCheck {
+  accountNumber: string;
+  valid: boolean;
+  /** Why the number is invalid (null when valid) */
+  reason: string | null;
+}
+
+/**
+ * Luhn (mod 10) check digit: every second digit from the right is doubled
+ */
+export function luhnCheckDigit(payload: string): number {
+  let sum = 0;
+  for (let i = 0; i < payload.length; i++) {
+    let digit = Number(payload[payload.length - 1 - i]);
+    if (i % 2 === 0) {
+      digit *= 2;
+      if (digit > 9) {
+        digit -= 9;
+      }
+    }
+    sum += digit;
+  }
+  return (10 - (sum % 10)) % 10;
+}
+
+/**
+ * ISO 7064 MOD 97-10 check digits, as used by IBANs
+ */
+export function mod97CheckDigits(payload: string): number {
+  return 98 - mod97(`${payload}00`);
+}
+
+/**
+ * Weighted mod 11 check digit: weights 2 to 7 repeat from the right; the
+ * result runs from 0 to 10
+ */
+export function mod11CheckDigit(payload: string): number {
+  let sum = 0;
+  for (let i = 0; i < payload.length; i++) {
+    sum += Number(payload[payload.length - 1 - i]) * ((i % 6) + 2);
+  }
+  return (11 - (sum % 11)) % 11;
+}
+
+/**
+ * Check digits for an account number payload under a scheme, always written as
+ * two digits
+ */
+export function calculateCheckDigits(scheme: CheckDigitScheme, payload: string): string {
+  let value: number;
+  switch (scheme) {
+    case CheckDigitScheme.MOD97_10:
+      value = mod97CheckDigits(payload);
+      break;
+    case CheckDigitScheme.MOD11:
+      value = mod11CheckDigit(payload);
+      break;
+    default:
+      value = luhnCheckDigit(payload);
+  }
+  return value.toString().padStart(2, '0');
+}
+
+/**
+ * Validate one account number's length, digits and check digits under a scheme;
+ * dashes and spaces used when writing it out are ignored
+ */
+export function checkAccountNumber(accountNumber: string, scheme: CheckDigitScheme): AccountNumberCheck {
+  const value = accountNumber.replace(/[-\s]/g, '');
+  const invalid = (reason: string): AccountNumberCheck => ({ accountNumber, valid: false, reason });
+
+  if (!/^\d+$/.test(value) || value.length !== ACCOUNT_NUMBER_LENGTH) {
+    return invalid(`Account number must be ${ACCOUNT_NUMBER_LENGTH} digits`);
+  }
+
+  const payload = value.slice(0, -2);
+  if (calculateCheckDigits(scheme, payload) !== value.slice(-2)) {
+    return invalid(`Check digits do not match ${scheme}`);
+  }
+
+  return { accountNumber, valid: true, reason: null };
+}
+
+/**
+ * Validate existing account numbers in bulk, one result per number in the order given
+ */
+export function validateAccountNumbers(
+  accountNumbers: string[],
+  scheme: CheckDigitScheme
+): AccountNumberCheck[] {
+  return accountNumbers.map((accountNumber) => checkAccountNumber(accountNumber, scheme));
+}
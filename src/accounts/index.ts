@@ -16,8 +16,21 @@ export {
 // Account number generation
 export {
   AccountNumberGenerator,
-  AccountNumberConfig
+  AccountNumberConfig,
+  accountNumberSequence
 } from './account-number-generator';
 
+// Check digits
+export {
+  ACCOUNT_NUMBER_LENGTH,
+  AccountNumberCheck,
+  luhnCheckDigit,
+  mod97CheckDigits,
+  mod11CheckDigit,
+  calculateCheckDigits,
+  checkAccountNumber,
+  validateAccountNumbers
+} from './check-digits';
+
 // Balance management
 export { BalanceService, BalanceRepository } from './balance-service';
@@ -8,228 +8,305 @@ import {
   Account,
   AccountStatus,
   Transaction,
-  TransactionType,
-  TransactionStatus,
   Balance,
   ProductConfiguration,
   Money,
-  Currency,
-  LedgerEntry,
-  EntryType,
-  AccountNumber,
-  CustomerId,
-  TransactionId,
+  DirectDebitMandate,
+  DirectDebitReturn,
+  StandingOrder,
+  StandingOrderExecution,
+  BillingSummary,
+  AuditEntry,
+  Authorization,
+  Customer,
+  CustomerStatus,
+  AccountHolderRole,
+  SigningRule,
+  CheckDigitScheme,
 } from '../core/domain';
+import { ProductValidator } from '../core/validators';
+import { ProductNotFoundError } from '../utils/errors';
+import { IdGenerator } from '../utils/id-generator';
+import { AccountNumberConfig, AccountNumberGenerator } from '../accounts/account-number-generator';
+import { AccountNumberCheck, validateAccountNumbers } from '../accounts/check-digits';
+import { BankingRepositories, createInMemoryRepositories } from '../persistence/repositories';
+import { EventBus, EventErrorHandler, logEventError } from '../events/event-bus';
+import { OutboxDispatcher } from '../events/outbox-dispatcher';
+import { RenderedStatement } from '../statements';
+import { ExchangeRateProvider } from '../fx';
+import { Result, success, failure } from './result';
+import { BankingContext, IbanConfig } from './banking-context';
+import { OverdraftService } from '../interest/overdraft-service';
+import { InterestRunSummary, InterestReport, InterestService } from '../interest/interest-service';
 import {
-  AccountValidator,
-  TransactionValidator,
-  ProductValidator,
-  ValidationResult,
-  combineValidationResults,
-} from '../core/validators';
+  TransferRequest,
+  DepositRequest,
+  WithdrawalRequest,
+  PaymentRequest,
+  AdjustmentRequest,
+  PaymentSettlement,
+  TransactionService,
+} from '../transactions/transaction-service';
+import { ApprovalService } from '../transactions/approval-service';
+import { AuthorizationDetails, AuthorizationService } from '../transactions/authorization-service';
 import {
-  BankingError,
-  AccountNotFoundError,
-  ProductNotFoundError,
-  TransactionNotFoundError,
-  InvalidTransactionError,
-  ValidationError,
-} from '../utils/errors';
-import { IdGenerator } from '../utils/id-generator';
-
-/**
- * Result type for API operations
- */
-export type Result<T, E = BankingError> =
-  | { success: true; data: T }
-  | { success: false; error: E };
-
-/**
- * Create a success result
- */
-export function success<T>(data: T): Result<T> {
-  return { success: true, data };
-}
-
-/**
- * Create a failure result
- */
-export function failure<E extends BankingError>(error: E): Result<never, E> {
-  return { success: false, error };
-}
-
-/**
- * Account creation request
- */
-export interface CreateAccountRequest {
-  customerId: string;
-  customerType: 'INDIVIDUAL' | 'BUSINESS' | 'JOINT';
-  productId: string;
-  initialDeposit?: number;
-  currency?: Currency;
-  metadata?: Record<string, unknown>;
-}
+  CreateMandateRequest,
+  DirectDebitCollectionRequest,
+  DirectDebitCollection,
+  DirectDebitService,
+} from '../transactions/direct-debit-service';
+import {
+  CreateStandingOrderRequest,
+  StandingOrderRetryPolicy,
+  StandingOrderService,
+} from '../standing-orders/standing-order-service';
+import { BillingRunSummary, BillingService } from '../fees/billing-service';
+import {
+  CreateCustomerRequest,
+  UpdateCustomerRequest,
+  CustomerService,
+} from '../customers/customer-service';
+import {
+  CreateAccountRequest,
+  AccountLifecycleService,
+} from '../accounts/account-lifecycle-service';
+import { ReactivationRequest, DormancyService } from '../dormancy/dormancy-service';
+import {
+  StatementRequest,
+  AccountStatement,
+  StatementService,
+} from '../statements/statement-service';
+
+export { Result, success, failure } from './result';
+export { IbanConfig } from './banking-context';
+export { InterestRunSummary, InterestReport } from '../interest/interest-service';
+export {
+  TransferRequest,
+  DepositRequest,
+  WithdrawalRequest,
+  WithdrawalChannel,
+  PaymentRequest,
+  AdjustmentRequest,
+  PaymentSettlement,
+} from '../transactions/transaction-service';
+export { AuthorizationDetails } from '../transactions/authorization-service';
+export {
+  CreateMandateRequest,
+  DirectDebitCollectionRequest,
+  DirectDebitCollection,
+} from '../transactions/direct-debit-service';
+export {
+  CreateStandingOrderRequest,
+  StandingOrderRetryPolicy,
+} from '../standing-orders/standing-order-service';
+export { BillingRunSummary } from '../fees/billing-service';
+export {
+  CustomerAddress,
+  CreateCustomerRequest,
+  UpdateCustomerRequest,
+} from '../customers/customer-service';
+export { AccountHolderRequest, CreateAccountRequest } from '../accounts/account-lifecycle-service';
+export { ReactivationVerification, ReactivationRequest } from '../dormancy/dormancy-service';
+export {
+  StatementRequest,
+  StatementEntry,
+  AccountStatement,
+} from '../statements/statement-service';
 
 /**
- * Transfer request
+ * BankingAPI tuning options
  */
-export interface TransferRequest {
-  sourceAccountId: string;
-  destinationAccountId: string;
-  amount: number;
-  currency: Currency;
-  description?: string;
-  reference?: string;
-  idempotencyKey?: string;
+export interface BankingAPIOptions {
+  /** How long an idempotency key is honoured, in milliseconds (default 24 hours) */
+  idempotencyKeyTtlMs?: number;
+  /** How often an operation is re-run after an optimistic-locking conflict (default 3) */
+  maxConcurrencyRetries?: number;
+  /** Source of exchange rates; cross-currency transfers fail without one */
+  exchangeRates?: ExchangeRateProvider;
+  /** Spread charged on conversions, as a fraction of the mid rate (default 0) */
+  fxSpread?: number;
+  /** How failed standing order instalments are retried (default 3 attempts) */
+  standingOrderRetryPolicy?: StandingOrderRetryPolicy;
+  /** Months without customer activity before an account becomes dormant (default 12) */
+  dormancyMonths?: number;
+  /**
+   * Transactions above this amount wait for a second user's approval (default: none;
+   * adjustments always wait). Other currencies are converted at the mid rate.
+   */
+  approvalThreshold?: Money;
+  /** How many days in the past a value date may be (default 30) */
+  backdatingWindowDays?: number;
+  /** Country and bank code IBANs are issued under (default GB, CORE) */
+  iban?: IbanConfig;
+  /**
+   * Reports subscriber failures on the default event bus and outbox relay failures
+   * after commit; neither fails the operation (default: logs to the console)
+   */
+  onError?: EventErrorHandler;
+  /** Bank code, default branch and check-digit scheme for account numbers (default 01, 000001, LUHN) */
+  accountNumbering?: AccountNumberConfig;
 }
 
 /**
- * Deposit request
+ * Default lifetime of an idempotency key
  */
-export interface DepositRequest {
-  accountId: string;
-  amount: number;
-  currency: Currency;
-  description?: string;
-  reference?: string;
-  idempotencyKey?: string;
-}
+const DEFAULT_IDEMPOTENCY_KEY_TTL_MS = 24 * 60 * 60 * 1000;
 
 /**
- * Withdrawal request
+ * Default number of retries after an optimistic-locking conflict
  */
-export interface WithdrawalRequest {
-  accountId: string;
-  amount: number;
-  currency: Currency;
-  description?: string;
-  reference?: string;
-  idempotencyKey?: string;
-}
+const DEFAULT_MAX_CONCURRENCY_RETRIES = 3;
 
 /**
- * Account statement request
+ * Default retry policy for standing order instalments
  */
-export interface StatementRequest {
-  accountId: string;
-  fromDate: Date;
-  toDate: Date;
-  format?: 'json' | 'csv';
-}
+const DEFAULT_STANDING_ORDER_RETRY_POLICY: StandingOrderRetryPolicy = { maxAttempts: 3 };
 
 /**
- * Account statement entry
+ * Default months without customer activity before an account becomes dormant
  */
-export interface StatementEntry {
-  date: Date;
-  description: string;
-  reference: string | null;
-  debit: number | null;
-  credit: number | null;
-  balance: number;
-}
+const DEFAULT_DORMANCY_MONTHS = 12;
 
 /**
- * Account statement response
+ * Default number of days a value date may be backdated
  */
-export interface AccountStatement {
-  accountId: string;
-  accountNumber: string;
-  currency: Currency;
-  openingBalance: number;
-  closingBalance: number;
-  fromDate: Date;
-  toDate: Date;
-  entries: StatementEntry[];
-  totalDebits: number;
-  totalCredits: number;
-}
+const DEFAULT_BACKDATING_WINDOW_DAYS = 30;
 
 /**
- * In-memory storage for the banking API (would be replaced with actual repositories)
+ * Default country and bank code for IBANs
  */
-class InMemoryStorage {
-  accounts: Map<string, Account> = new Map();
-  balances: Map<string, Balance> = new Map();
-  transactions: Map<string, Transaction> = new Map();
-  ledgerEntries: Map<string, LedgerEntry[]> = new Map();
-  products: Map<string, ProductConfiguration> = new Map();
-  idempotencyKeys: Map<string, string> = new Map();
-  accountSequence: number = 10000000;
-}
+const DEFAULT_IBAN_CONFIG: IbanConfig = { country: 'GB', bankCode: 'CORE' };
 
 /**
  * Core Banking API
  *
- * Provides a unified interface for all banking operations
+ * Provides a unified interface for all banking operations, delegating each
+ * subsystem to its service; the services share one BankingContext.
+ * State lives in the supplied repositories; defaults to in-memory storage.
+ * Every state change writes its domain events to the outbox in the same unit
+ * of work; committed events are then relayed to subscribers on `events`.
  */
 export class BankingAPI {
-  private storage: InMemoryStorage;
+  private readonly context: BankingContext;
+  private readonly overdraft: OverdraftService;
+  private readonly interest: InterestService;
+  private readonly transactions: TransactionService;
+  private readonly approvals: ApprovalService;
+  private readonly authorizations: AuthorizationService;
+  private readonly directDebits: DirectDebitService;
+  private readonly standingOrders: StandingOrderService;
+  private readonly billing: BillingService;
+  private readonly customers: CustomerService;
+  private readonly accounts: AccountLifecycleService;
+  private readonly dormancy: DormancyService;
+  private readonly statements: StatementService;
+  readonly events: EventBus;
+  readonly outbox: OutboxDispatcher;
+
+  constructor(
+    repositories: BankingRepositories = createInMemoryRepositories(),
+    eventBus?: EventBus,
+    options: BankingAPIOptions = {}
+  ) {
+    const onError = options.onError ?? logEventError;
+    this.context = new BankingContext(repositories, eventBus ?? new EventBus(onError), {
+      idempotencyKeyTtlMs: options.idempotencyKeyTtlMs ?? DEFAULT_IDEMPOTENCY_KEY_TTL_MS,
+      maxConcurrencyRetries: options.maxConcurrencyRetries ?? DEFAULT_MAX_CONCURRENCY_RETRIES,
+      exchangeRates: options.exchangeRates ?? null,
+      fxSpread: options.fxSpread ?? 0,
+      iban: options.iban ?? DEFAULT_IBAN_CONFIG,
+      accountNumbers: new AccountNumberGenerator(options.accountNumbering),
+      onError,
+    });
+    this.overdraft = new OverdraftService(this.context);
+    this.interest = new InterestService(this.context, this.overdraft);
+    this.transactions = new TransactionService(
+      this.context,
+      this.overdraft,
+      options.approvalThreshold ?? null,
+      options.backdatingWindowDays ?? DEFAULT_BACKDATING_WINDOW_DAYS
+    );
+    this.approvals = new ApprovalService(this.context, this.transactions);
+    this.authorizations = new AuthorizationService(this.context);
+    this.directDebits = new DirectDebitService(this.context, this.overdraft);
+    this.standingOrders = new StandingOrderService(
+      this.context,
+      this.transactions,
+      options.standingOrderRetryPolicy ?? DEFAULT_STANDING_ORDER_RETRY_POLICY
+    );
+    this.billing = new BillingService(this.context);
+    this.customers = new CustomerService(this.context);
+    this.accounts = new AccountLifecycleService(this.context, this.transactions);
+    this.dormancy = new DormancyService(
+      this.context,
+      this.accounts,
+      options.dormancyMonths ?? DEFAULT_DORMANCY_MONTHS
+    );
+    this.statements = new StatementService(this.context);
+    this.events = this.context.events;
+    this.outbox = this.context.outbox;
+  }
+
+  // ============================================================================
+  // Customer Operations
+  // ============================================================================
+
+  /**
+   * Register a customer in the customer information file
+   */
+  createCustomer(request: CreateCustomerRequest): Promise<Result<Customer>> {
+    return this.customers.createCustomer(request);
+  }
 
-  constructor() {
-    this.storage = new InMemoryStorage();
-    this.initializeDefaultProducts();
+  /**
+   * Get customer by ID
+   */
+  getCustomer(customerId: string): Promise<Result<Customer>> {
+    return this.customers.getCustomer(customerId);
   }
 
   /**
-   * Initialize default product configurations
+   * List customers, oldest first, optionally only those in one status
    */
-  private initializeDefaultProducts(): void {
-    const defaultProducts: ProductConfiguration[] = [
-      this.createDefaultProduct('Basic Current Account', 'BASIC_ACCOUNT', 0, null),
-      this.createDefaultProduct('Standard Current Account', 'CURRENT_ACCOUNT', 100, 500),
-      this.createDefaultProduct('Premium Current Account', 'PREMIUM_CURRENT', 1000, 5000),
-      this.createDefaultProduct('Business Current Account', 'BUSINESS_ACCOUNT', 500, 10000),
-      this.createDefaultProduct('Student Account', 'STUDENT_ACCOUNT', 0, 100),
-    ];
+  listCustomers(status?: CustomerStatus): Promise<Result<Customer[]>> {
+    return this.customers.listCustomers(status);
+  }
 
-    defaultProducts.forEach((p) => this.storage.products.set(p.id, p));
+  /**
+   * Change a customer's names, address or contact details
+   */
+  updateCustomer(
+    customerId: string,
+    request: UpdateCustomerRequest,
+    changedBy: string = 'BANKING_API'
+  ): Promise<Result<Customer>> {
+    return this.customers.updateCustomer(customerId, request, changedBy);
   }
 
-  private createDefaultProduct(
-    name: string,
-    type: string,
-    minBalance: number,
-    overdraft: number | null
-  ): ProductConfiguration {
-    const currency = Currency.USD;
-    return {
-      id: IdGenerator.productId(),
-      name,
-      type: type as any,
-      currency,
-      minimumBalance: { amount: minBalance, currency, scale: 2 },
-      overdraftLimit: overdraft ? { amount: overdraft, currency, scale: 2 } : null,
-      interestRate: 0.001,
-      fees: {
-        monthlyFee: { amount: type === 'PREMIUM_CURRENT' ? 25 : 0, currency, scale: 2 },
-        transactionFee: null,
-        overdraftFee: overdraft ? { amount: 35, currency, scale: 2 } : null,
-        atmFee: null,
-        foreignTransactionFeeRate: 0.03,
-        minimumBalanceFee: minBalance > 0 ? { amount: 15, currency, scale: 2 } : null,
-      },
-      isActive: true,
-      features: {
-        overdraftAllowed: overdraft !== null,
-        paysInterest: type === 'PREMIUM_CURRENT',
-        freeTransactionsPerMonth: type === 'BASIC_ACCOUNT' ? 10 : null,
-        debitCardIncluded: true,
-        onlineBankingEnabled: true,
-        mobileAppEnabled: true,
-        additionalFeatures: [],
-      },
-      limits: {
-        maxTransactionAmount: { amount: type === 'BUSINESS_ACCOUNT' ? 100000 : 10000, currency, scale: 2 },
-        maxDailyAmount: { amount: type === 'BUSINESS_ACCOUNT' ? 500000 : 50000, currency, scale: 2 },
-        maxMonthlyAmount: null,
-        maxTransactionsPerDay: null,
-        maxAtmWithdrawalPerDay: { amount: 1000, currency, scale: 2 },
-      },
-      createdAt: new Date(),
-      updatedAt: new Date(),
-      version: 1,
-    };
+  /**
+   * Record that a customer's identity has been verified, allowing accounts to be opened for them
+   */
+  verifyCustomer(customerId: string, verifiedBy: string): Promise<Result<Customer>> {
+    return this.customers.verifyCustomer(customerId, verifiedBy);
+  }
+
+  /**
+   * Suspend, reinstate or close a customer
+   */
+  updateCustomerStatus(
+    customerId: string,
+    newStatus: CustomerStatus,
+    reason?: string,
+    changedBy: string = 'BANKING_API'
+  ): Promise<Result<Customer>> {
+    return this.customers.updateCustomerStatus(customerId, newStatus, reason, changedBy);
+  }
+
+  /**
+   * Remove a customer registered in error
+   */
+  deleteCustomer(customerId: string): Promise<Result<null>> {
+    return this.customers.deleteCustomer(customerId);
   }
 
   // ============================================================================
@@ -239,150 +316,103 @@ export class BankingAPI {
   /**
    * Create a new bank account
    */
-  async createAccount(request: CreateAccountRequest): Promise<Result<Account>> {
-    // Validate product exists
-    const product = this.storage.products.get(request.productId);
-    if (!product) {
-      return failure(new ProductNotFoundError(request.productId));
-    }
-
-    if (!product.isActive) {
-      return failure(new ValidationError('productId', 'Product is not active'));
-    }
-
-    // Generate account number
-    const accountNumber = this.generateAccountNumber();
-    const accountId = IdGenerator.accountId();
-    const currency = request.currency || product.currency;
-
-    // Create account
-    const account: Account = {
-      id: accountId,
-      accountNumber,
-      customerId: {
-        value: request.customerId,
-        type: request.customerType,
-      },
-      productId: request.productId,
-      status: AccountStatus.ACTIVE,
-      currency,
-      createdAt: new Date(),
-      updatedAt: new Date(),
-      closedAt: null,
-      overdraftLimit: product.overdraftLimit,
-      metadata: request.metadata || {},
-      version: 1,
-    };
-
-    // Create initial balance
-    const balance: Balance = {
-      accountId,
-      availableBalance: { amount: 0, currency, scale: 2 },
-      ledgerBalance: { amount: 0, currency, scale: 2 },
-      pendingBalance: { amount: 0, currency, scale: 2 },
-      heldBalance: { amount: 0, currency, scale: 2 },
-      currency,
-      lastUpdatedAt: new Date(),
-      lastPostingDate: new Date(),
-      overdraftUsage: null,
-      version: 1,
-    };
-
-    this.storage.accounts.set(accountId, account);
-    this.storage.balances.set(accountId, balance);
-    this.storage.ledgerEntries.set(accountId, []);
-
-    // Process initial deposit if provided
-    if (request.initialDeposit && request.initialDeposit > 0) {
-      const depositResult = await this.deposit({
-        accountId,
-        amount: request.initialDeposit,
-        currency,
-        description: 'Initial deposit',
-      });
-
-      if (!depositResult.success) {
-        // Rollback account creation
-        this.storage.accounts.delete(accountId);
-        this.storage.balances.delete(accountId);
-        this.storage.ledgerEntries.delete(accountId);
-        return depositResult as Result<Account>;
-      }
-    }
-
-    return success(account);
+  createAccount(request: CreateAccountRequest): Promise<Result<Account>> {
+    return this.accounts.createAccount(request);
   }
 
   /**
    * Get account by ID
    */
-  async getAccount(accountId: string): Promise<Result<Account>> {
-    const account = this.storage.accounts.get(accountId);
-    if (!account) {
-      return failure(new AccountNotFoundError(accountId));
-    }
-    return success(account);
+  getAccount(accountId: string): Promise<Result<Account>> {
+    return this.accounts.getAccount(accountId);
+  }
+
+  /**
+   * Get account by IBAN (spaces and letter case are ignored)
+   */
+  getAccountByIban(iban: string): Promise<Result<Account>> {
+    return this.accounts.getAccountByIban(iban);
   }
 
   /**
    * Get account balance
    */
-  async getBalance(accountId: string): Promise<Result<Balance>> {
-    const balance = this.storage.balances.get(accountId);
-    if (!balance) {
-      return failure(new AccountNotFoundError(accountId));
-    }
-    return success(balance);
+  getBalance(accountId: string): Promise<Result<Balance>> {
+    return this.accounts.getBalance(accountId);
   }
 
   /**
    * Update account status
    */
-  async updateAccountStatus(
+  updateAccountStatus(
     accountId: string,
     newStatus: AccountStatus,
-    reason?: string
+    reason?: string,
+    changedBy: string = 'BANKING_API'
   ): Promise<Result<Account>> {
-    const account = this.storage.accounts.get(accountId);
-    if (!account) {
-      return failure(new AccountNotFoundError(accountId));
-    }
+    return this.accounts.updateAccountStatus(accountId, newStatus, reason, changedBy);
+  }
 
-    // Validate status transition
-    const validationResult = AccountValidator.canTransitionTo(account, newStatus);
-    if (!validationResult.isValid) {
-      return failure(validationResult.errors[0]!);
-    }
+  /**
+   * Mark ACTIVE accounts without customer activity for the configured number of months as DORMANT
+   */
+  runDormancyCheck(asOf: Date = new Date()): Promise<Result<Account[]>> {
+    return this.dormancy.runDormancyCheck(asOf);
+  }
 
-    // For closing, validate balance is zero
-    if (newStatus === AccountStatus.CLOSED) {
-      const balance = this.storage.balances.get(accountId)!;
-      const closeValidation = AccountValidator.canClose(account, balance);
-      if (!closeValidation.isValid) {
-        return failure(closeValidation.errors[0]!);
-      }
-    }
+  /**
+   * Return a dormant account to ACTIVE once the holder's identity has been verified
+   */
+  reactivateAccount(request: ReactivationRequest): Promise<Result<Account>> {
+    return this.dormancy.reactivateAccount(request);
+  }
 
-    // Update account
-    const updatedAccount: Account = {
-      ...account,
-      status: newStatus,
-      updatedAt: new Date(),
-      closedAt: newStatus === AccountStatus.CLOSED ? new Date() : account.closedAt,
-    };
+  /**
+   * Get the audit trail of an account, oldest first
+   */
+  getAccountAuditTrail(accountId: string): Promise<Result<AuditEntry[]>> {
+    return this.accounts.getAccountAuditTrail(accountId);
+  }
 
-    this.storage.accounts.set(accountId, updatedAccount);
-    return success(updatedAccount);
+  /**
+   * Add a holder to an account in any role but primary
+   */
+  addAccountHolder(
+    accountId: string,
+    customerId: string,
+    role: AccountHolderRole,
+    changedBy: string = 'BANKING_API'
+  ): Promise<Result<Account>> {
+    return this.accounts.addAccountHolder(accountId, customerId, role, changedBy);
   }
 
   /**
-   * Get accounts by customer ID
+   * Remove a holder other than the primary holder from an account
    */
-  async getAccountsByCustomer(customerId: string): Promise<Result<Account[]>> {
-    const accounts = Array.from(this.storage.accounts.values()).filter(
-      (a) => a.customerId.value === customerId
-    );
-    return success(accounts);
+  removeAccountHolder(
+    accountId: string,
+    customerId: string,
+    changedBy: string = 'BANKING_API'
+  ): Promise<Result<Account>> {
+    return this.accounts.removeAccountHolder(accountId, customerId, changedBy);
+  }
+
+  /**
+   * Change the signatures an account's outgoing transactions need
+   */
+  setSigningRule(
+    accountId: string,
+    signingRule: SigningRule,
+    changedBy: string = 'BANKING_API'
+  ): Promise<Result<Account>> {
+    return this.accounts.setSigningRule(accountId, signingRule, changedBy);
+  }
+
+  /**
+   * Get every account a customer holds, in any role
+   */
+  getAccountsByCustomer(customerId: string): Promise<Result<Account[]>> {
+    return this.accounts.getAccountsByCustomer(customerId);
   }
 
   // ============================================================================
@@ -390,381 +420,307 @@ export class BankingAPI {
   // ============================================================================
 
   /**
-   * Process a transfer between accounts
+   * Process a transfer between accounts; either account may be given by IBAN
    */
-  async transfer(request: TransferRequest): Promise<Result<Transaction>> {
-    // Check idempotency
-    if (request.idempotencyKey) {
-      const existingTxId = this.storage.idempotencyKeys.get(request.idempotencyKey);
-      if (existingTxId) {
-        const existingTx = this.storage.transactions.get(existingTxId);
-        if (existingTx) {
-          return success(existingTx);
-        }
-      }
-    }
+  transfer(request: TransferRequest): Promise<Result<Transaction>> {
+    return this.transactions.transfer(request);
+  }
 
-    // Get accounts
-    const sourceAccount = this.storage.accounts.get(request.sourceAccountId);
-    const destAccount = this.storage.accounts.get(request.destinationAccountId);
+  /**
+   * Process a deposit
+   */
+  deposit(request: DepositRequest): Promise<Result<Transaction>> {
+    return this.transactions.deposit(request);
+  }
 
-    if (!sourceAccount) {
-      return failure(new AccountNotFoundError(request.sourceAccountId));
-    }
-    if (!destAccount) {
-      return failure(new AccountNotFoundError(request.destinationAccountId));
-    }
+  /**
+   * Process a withdrawal
+   */
+  withdraw(request: WithdrawalRequest): Promise<Result<Transaction>> {
+    return this.transactions.withdraw(request);
+  }
 
-    const sourceBalance = this.storage.balances.get(request.sourceAccountId)!;
-    const amount: Money = { amount: request.amount, currency: request.currency, scale: 2 };
+  /**
+   * Send a payment to an external beneficiary
+   */
+  pay(request: PaymentRequest): Promise<Result<Transaction>> {
+    return this.transactions.pay(request);
+  }
 
-    // Validate transfer
-    const validation = TransactionValidator.validateTransfer(
-      sourceAccount,
-      destAccount,
-      amount,
-      sourceBalance
-    );
+  /**
+   * Apply a settlement confirmation to a pending payment
+   */
+  confirmPaymentSettlement(settlement: PaymentSettlement): Promise<Result<Transaction>> {
+    return this.transactions.confirmPaymentSettlement(settlement);
+  }
 
-    if (!validation.isValid) {
-      return failure(validation.errors[0]!);
-    }
+  /**
+   * Correct an account balance against the adjustments account
+   */
+  adjust(request: AdjustmentRequest): Promise<Result<Transaction>> {
+    return this.transactions.adjust(request);
+  }
 
-    // Create transaction
-    const transactionId = IdGenerator.transactionId();
-    const transaction: Transaction = {
-      id: {
-        value: transactionId,
-        generatedAt: new Date(),
-        source: 'BANKING_API',
-      },
-      sourceAccountId: request.sourceAccountId,
-      destinationAccountId: request.destinationAccountId,
-      amount,
-      currency: request.currency,
-      type: TransactionType.TRANSFER,
-      status: TransactionStatus.COMPLETED,
-      reference: request.reference || IdGenerator.reference(),
-      description: request.description || 'Transfer',
-      createdAt: new Date(),
-      completedAt: new Date(),
-      initiatedBy: 'CUSTOMER',
-      authorizationCode: null,
-      fee: null,
-      exchangeRate: null,
-      originalTransactionId: null,
-      failureReason: null,
-      metadata: {},
-      version: 1,
-    };
+  /**
+   * Reverse a completed deposit, withdrawal or transfer
+   */
+  reverseTransaction(
+    transactionId: string,
+    reason: string,
+    idempotencyKey?: string
+  ): Promise<Result<Transaction>> {
+    return this.transactions.reverseTransaction(transactionId, reason, idempotencyKey);
+  }
 
-    // Update balances
-    this.updateBalancesForTransfer(
-      request.sourceAccountId,
-      request.destinationAccountId,
-      amount
-    );
+  /**
+   * Get transaction by ID
+   */
+  getTransaction(transactionId: string): Promise<Result<Transaction>> {
+    return this.transactions.getTransaction(transactionId);
+  }
 
-    // Create ledger entries
-    this.createLedgerEntriesForTransfer(
-      request.sourceAccountId,
-      request.destinationAccountId,
-      transactionId,
-      amount,
-      request.description || 'Transfer'
-    );
+  /**
+   * Get transactions for an account
+   */
+  getTransactions(accountId: string, limit: number = 50): Promise<Result<Transaction[]>> {
+    return this.transactions.getTransactions(accountId, limit);
+  }
+
+  /**
+   * Get account statement
+   */
+  getStatement(request: StatementRequest): Promise<Result<AccountStatement>> {
+    return this.statements.getStatement(request);
+  }
 
-    // Store transaction
-    this.storage.transactions.set(transactionId, transaction);
+  /**
+   * Get an account statement rendered in the requested format
+   * (JSON, CSV, SWIFT MT940 or ISO 20022 camt.053)
+   */
+  exportStatement(request: StatementRequest): Promise<Result<RenderedStatement>> {
+    return this.statements.exportStatement(request);
+  }
 
-    // Store idempotency key
-    if (request.idempotencyKey) {
-      this.storage.idempotencyKeys.set(request.idempotencyKey, transactionId);
-    }
+  // ============================================================================
+  // Approval Operations
+  // ============================================================================
 
-    return success(transaction);
+  /**
+   * Get transactions waiting for approval, oldest first
+   */
+  getPendingApprovals(): Promise<Result<Transaction[]>> {
+    return this.approvals.getPendingApprovals();
   }
 
   /**
-   * Process a deposit
+   * Approve a held transaction and post it
    */
-  async deposit(request: DepositRequest): Promise<Result<Transaction>> {
-    // Check idempotency
-    if (request.idempotencyKey) {
-      const existingTxId = this.storage.idempotencyKeys.get(request.idempotencyKey);
-      if (existingTxId) {
-        const existingTx = this.storage.transactions.get(existingTxId);
-        if (existingTx) {
-          return success(existingTx);
-        }
-      }
-    }
+  approveTransaction(transactionId: string, approvedBy: string): Promise<Result<Transaction>> {
+    return this.approvals.approveTransaction(transactionId, approvedBy);
+  }
 
-    const account = this.storage.accounts.get(request.accountId);
-    if (!account) {
-      return failure(new AccountNotFoundError(request.accountId));
-    }
+  /**
+   * Reject a held transaction
+   */
+  rejectTransaction(
+    transactionId: string,
+    rejectedBy: string,
+    reason: string
+  ): Promise<Result<Transaction>> {
+    return this.approvals.rejectTransaction(transactionId, rejectedBy, reason);
+  }
 
-    const amount: Money = { amount: request.amount, currency: request.currency, scale: 2 };
+  /**
+   * Post every future-dated transaction whose value date has arrived by a business date
+   */
+  runFutureDatedPostings(businessDate: Date = new Date()): Promise<Result<Transaction[]>> {
+    return this.transactions.runFutureDatedPostings(businessDate);
+  }
 
-    // Validate deposit
-    const validation = TransactionValidator.validateDeposit(account, amount);
-    if (!validation.isValid) {
-      return failure(validation.errors[0]!);
-    }
+  // ============================================================================
+  // Authorization Operations
+  // ============================================================================
 
-    // Create transaction
-    const transactionId = IdGenerator.transactionId();
-    const transaction: Transaction = {
-      id: {
-        value: transactionId,
-        generatedAt: new Date(),
-        source: 'BANKING_API',
-      },
-      sourceAccountId: null,
-      destinationAccountId: request.accountId,
-      amount,
-      currency: request.currency,
-      type: TransactionType.DEPOSIT,
-      status: TransactionStatus.COMPLETED,
-      reference: request.reference || IdGenerator.reference(),
-      description: request.description || 'Deposit',
-      createdAt: new Date(),
-      completedAt: new Date(),
-      initiatedBy: 'CUSTOMER',
-      authorizationCode: null,
-      fee: null,
-      exchangeRate: null,
-      originalTransactionId: null,
-      failureReason: null,
-      metadata: {},
-      version: 1,
-    };
+  /**
+   * Hold funds for a card-style authorisation
+   */
+  authorize(
+    accountId: string,
+    amount: number,
+    expiresAt: Date,
+    details: AuthorizationDetails = {}
+  ): Promise<Result<Authorization>> {
+    return this.authorizations.authorize(accountId, amount, expiresAt, details);
+  }
 
-    // Update balance
-    const balance = this.storage.balances.get(request.accountId)!;
-    const newBalance: Balance = {
-      ...balance,
-      availableBalance: {
-        ...balance.availableBalance,
-        amount: balance.availableBalance.amount + request.amount,
-      },
-      ledgerBalance: {
-        ...balance.ledgerBalance,
-        amount: balance.ledgerBalance.amount + request.amount,
-      },
-      lastUpdatedAt: new Date(),
-      lastPostingDate: new Date(),
-      version: balance.version + 1,
-    };
-    this.storage.balances.set(request.accountId, newBalance);
-
-    // Create ledger entry
-    this.createLedgerEntry(
-      request.accountId,
-      transactionId,
-      EntryType.CREDIT,
-      amount,
-      newBalance.ledgerBalance,
-      request.description || 'Deposit'
-    );
+  /**
+   * Capture an authorisation, posting the debit as a PAYMENT to the card settlement account
+   */
+  capture(authorizationId: string, amount?: number): Promise<Result<Transaction>> {
+    return this.authorizations.capture(authorizationId, amount);
+  }
 
-    // Store transaction
-    this.storage.transactions.set(transactionId, transaction);
+  /**
+   * Cancel an authorisation that has not been captured and release its hold
+   */
+  void(authorizationId: string): Promise<Result<Authorization>> {
+    return this.authorizations.void(authorizationId);
+  }
 
-    if (request.idempotencyKey) {
-      this.storage.idempotencyKeys.set(request.idempotencyKey, transactionId);
-    }
+  /**
+   * Expire authorisations that were not captured before their expiry time and release their holds
+   */
+  runAuthorizationExpiry(asOf: Date = new Date()): Promise<Result<Authorization[]>> {
+    return this.authorizations.runAuthorizationExpiry(asOf);
+  }
 
-    return success(transaction);
+  /**
+   * Get an authorisation by ID
+   */
+  getAuthorization(authorizationId: string): Promise<Result<Authorization>> {
+    return this.authorizations.getAuthorization(authorizationId);
   }
 
   /**
-   * Process a withdrawal
+   * Get the authorisations placed on an account, oldest first
    */
-  async withdraw(request: WithdrawalRequest): Promise<Result<Transaction>> {
-    // Check idempotency
-    if (request.idempotencyKey) {
-      const existingTxId = this.storage.idempotencyKeys.get(request.idempotencyKey);
-      if (existingTxId) {
-        const existingTx = this.storage.transactions.get(existingTxId);
-        if (existingTx) {
-          return success(existingTx);
-        }
-      }
-    }
+  getAuthorizationsByAccount(accountId: string): Promise<Result<Authorization[]>> {
+    return this.authorizations.getAuthorizationsByAccount(accountId);
+  }
 
-    const account = this.storage.accounts.get(request.accountId);
-    if (!account) {
-      return failure(new AccountNotFoundError(request.accountId));
-    }
+  // ============================================================================
+  // Direct Debit Operations
+  // ============================================================================
+
+  /**
+   * Register a debtor's direct debit mandate for a creditor
+   */
+  createMandate(request: CreateMandateRequest): Promise<Result<DirectDebitMandate>> {
+    return this.directDebits.createMandate(request);
+  }
 
-    const balance = this.storage.balances.get(request.accountId)!;
-    const amount: Money = { amount: request.amount, currency: request.currency, scale: 2 };
+  /**
+   * Revoke a mandate; later collections under it are returned as MD01
+   */
+  revokeMandate(mandateId: string, reason?: string): Promise<Result<DirectDebitMandate>> {
+    return this.directDebits.revokeMandate(mandateId, reason);
+  }
 
-    // Validate withdrawal
-    const validation = TransactionValidator.validateWithdrawal(account, amount, balance);
-    if (!validation.isValid) {
-      return failure(validation.errors[0]!);
-    }
+  /**
+   * Get mandate by ID
+   */
+  getMandate(mandateId: string): Promise<Result<DirectDebitMandate>> {
+    return this.directDebits.getMandate(mandateId);
+  }
 
-    // Create transaction
-    const transactionId = IdGenerator.transactionId();
-    const transaction: Transaction = {
-      id: {
-        value: transactionId,
-        generatedAt: new Date(),
-        source: 'BANKING_API',
-      },
-      sourceAccountId: request.accountId,
-      destinationAccountId: null,
-      amount,
-      currency: request.currency,
-      type: TransactionType.WITHDRAWAL,
-      status: TransactionStatus.COMPLETED,
-      reference: request.reference || IdGenerator.reference(),
-      description: request.description || 'Withdrawal',
-      createdAt: new Date(),
-      completedAt: new Date(),
-      initiatedBy: 'CUSTOMER',
-      authorizationCode: null,
-      fee: null,
-      exchangeRate: null,
-      originalTransactionId: null,
-      failureReason: null,
-      metadata: {},
-      version: 1,
-    };
+  /**
+   * Get the mandates granted on an account
+   */
+  getMandatesByAccount(accountId: string): Promise<Result<DirectDebitMandate[]>> {
+    return this.directDebits.getMandatesByAccount(accountId);
+  }
 
-    // Update balance
-    const newBalance: Balance = {
-      ...balance,
-      availableBalance: {
-        ...balance.availableBalance,
-        amount: balance.availableBalance.amount - request.amount,
-      },
-      ledgerBalance: {
-        ...balance.ledgerBalance,
-        amount: balance.ledgerBalance.amount - request.amount,
-      },
-      lastUpdatedAt: new Date(),
-      lastPostingDate: new Date(),
-      version: balance.version + 1,
-    };
-    this.storage.balances.set(request.accountId, newBalance);
-
-    // Create ledger entry
-    this.createLedgerEntry(
-      request.accountId,
-      transactionId,
-      EntryType.DEBIT,
-      amount,
-      newBalance.ledgerBalance,
-      request.description || 'Withdrawal'
-    );
+  /**
+   * Collect a direct debit presented by a creditor
+   */
+  collectDirectDebit(
+    request: DirectDebitCollectionRequest
+  ): Promise<Result<DirectDebitCollection>> {
+    return this.directDebits.collectDirectDebit(request);
+  }
 
-    // Store transaction
-    this.storage.transactions.set(transactionId, transaction);
+  /**
+   * Get the direct debits returned unpaid from an account
+   */
+  getReturnedDirectDebits(accountId: string): Promise<Result<DirectDebitReturn[]>> {
+    return this.directDebits.getReturnedDirectDebits(accountId);
+  }
 
-    if (request.idempotencyKey) {
-      this.storage.idempotencyKeys.set(request.idempotencyKey, transactionId);
-    }
+  // ============================================================================
+  // Standing Order Operations
+  // ============================================================================
 
-    return success(transaction);
+  /**
+   * Set up a recurring transfer
+   */
+  createStandingOrder(request: CreateStandingOrderRequest): Promise<Result<StandingOrder>> {
+    return this.standingOrders.createStandingOrder(request);
   }
 
   /**
-   * Get transaction by ID
+   * Cancel a standing order; no further instalments are executed
    */
-  async getTransaction(transactionId: string): Promise<Result<Transaction>> {
-    const transaction = this.storage.transactions.get(transactionId);
-    if (!transaction) {
-      return failure(new TransactionNotFoundError(transactionId));
-    }
-    return success(transaction);
+  cancelStandingOrder(standingOrderId: string): Promise<Result<StandingOrder>> {
+    return this.standingOrders.cancelStandingOrder(standingOrderId);
   }
 
   /**
-   * Get transactions for an account
+   * Get standing order by ID
    */
-  async getTransactions(
-    accountId: string,
-    limit: number = 50
-  ): Promise<Result<Transaction[]>> {
-    const account = this.storage.accounts.get(accountId);
-    if (!account) {
-      return failure(new AccountNotFoundError(accountId));
-    }
+  getStandingOrder(standingOrderId: string): Promise<Result<StandingOrder>> {
+    return this.standingOrders.getStandingOrder(standingOrderId);
+  }
 
-    const transactions = Array.from(this.storage.transactions.values())
-      .filter(
-        (t) =>
-          t.sourceAccountId === accountId || t.destinationAccountId === accountId
-      )
-      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
-      .slice(0, limit);
+  /**
+   * Get the standing orders paid from an account
+   */
+  getStandingOrdersByAccount(accountId: string): Promise<Result<StandingOrder[]>> {
+    return this.standingOrders.getStandingOrdersByAccount(accountId);
+  }
 
-    return success(transactions);
+  /**
+   * Get every execution attempt made for a standing order
+   */
+  getStandingOrderExecutions(standingOrderId: string): Promise<Result<StandingOrderExecution[]>> {
+    return this.standingOrders.getStandingOrderExecutions(standingOrderId);
   }
 
   /**
-   * Get account statement
+   * Execute every standing order instalment due on or before a business date
    */
-  async getStatement(request: StatementRequest): Promise<Result<AccountStatement>> {
-    const account = this.storage.accounts.get(request.accountId);
-    if (!account) {
-      return failure(new AccountNotFoundError(request.accountId));
-    }
+  runStandingOrders(businessDate: Date = new Date()): Promise<Result<StandingOrderExecution[]>> {
+    return this.standingOrders.runStandingOrders(businessDate);
+  }
 
-    const entries = this.storage.ledgerEntries.get(request.accountId) || [];
-    const filteredEntries = entries.filter(
-      (e) => e.createdAt >= request.fromDate && e.createdAt <= request.toDate
-    );
+  // ============================================================================
+  // Interest Operations
+  // ============================================================================
 
-    // Calculate opening balance
-    const entriesBefore = entries.filter((e) => e.createdAt < request.fromDate);
-    const openingBalance =
-      entriesBefore.length > 0
-        ? entriesBefore[entriesBefore.length - 1]!.balance.amount
-        : 0;
-
-    // Build statement entries
-    let runningBalance = openingBalance;
-    const statementEntries: StatementEntry[] = filteredEntries.map((e) => {
-      const isDebit = e.entryType === EntryType.DEBIT;
-      runningBalance = e.balance.amount;
-      return {
-        date: e.createdAt,
-        description: e.description,
-        reference: null,
-        debit: isDebit ? e.amount.amount : null,
-        credit: !isDebit ? e.amount.amount : null,
-        balance: runningBalance,
-      };
-    });
+  /**
+   * Accrue a business day's interest on every account whose product pays it
+   */
+  runInterestAccrual(businessDate: Date = new Date()): Promise<Result<InterestRunSummary>> {
+    return this.interest.runInterestAccrual(businessDate);
+  }
 
-    const totalDebits = filteredEntries
-      .filter((e) => e.entryType === EntryType.DEBIT)
-      .reduce((sum, e) => sum + e.amount.amount, 0);
-
-    const totalCredits = filteredEntries
-      .filter((e) => e.entryType === EntryType.CREDIT)
-      .reduce((sum, e) => sum + e.amount.amount, 0);
-
-    const statement: AccountStatement = {
-      accountId: request.accountId,
-      accountNumber: account.accountNumber.value,
-      currency: account.currency,
-      openingBalance,
-      closingBalance: runningBalance,
-      fromDate: request.fromDate,
-      toDate: request.toDate,
-      entries: statementEntries,
-      totalDebits,
-      totalCredits,
-    };
+  /**
+   * Interest an account earned and was paid over a period of business dates
+   */
+  getInterestReport(
+    accountId: string,
+    fromDate: Date,
+    toDate: Date
+  ): Promise<Result<InterestReport>> {
+    return this.interest.getInterestReport(accountId, fromDate, toDate);
+  }
+
+  // ============================================================================
+  // Billing Operations
+  // ============================================================================
+
+  /**
+   * Bill every active account its monthly fees for the month containing `period`
+   * (default: the previous month)
+   */
+  runMonthlyBilling(period?: Date): Promise<Result<BillingRunSummary>> {
+    return this.billing.runMonthlyBilling(period);
+  }
 
-    return success(statement);
+  /**
+   * Get the billing summaries written for the month containing `period`
+   */
+  getBillingSummaries(period: Date): Promise<Result<BillingSummary[]>> {
+    return this.billing.getBillingSummaries(period);
   }
 
   // ============================================================================
@@ -775,7 +731,9 @@ export class BankingAPI {
    * Get all products
    */
   async getProducts(): Promise<Result<ProductConfiguration[]>> {
-    const products = Array.from(this.storage.products.values());
+    await this.context.ready;
+
+    const products = await this.context.repositories.products.findAll();
     return success(products);
   }
 
@@ -783,7 +741,9 @@ export class BankingAPI {
    * Get product by ID
    */
   async getProduct(productId: string): Promise<Result<ProductConfiguration>> {
-    const product = this.storage.products.get(productId);
+    await this.context.ready;
+
+    const product = await this.context.repositories.products.findById(productId);
     if (!product) {
       return failure(new ProductNotFoundError(productId));
     }
@@ -796,6 +756,8 @@ export class BankingAPI {
   async createProduct(
     config: Omit<ProductConfiguration, 'id' | 'createdAt' | 'updatedAt' | 'version'>
   ): Promise<Result<ProductConfiguration>> {
+    await this.context.ready;
+
     const validation = ProductValidator.validateConfiguration(config);
     if (!validation.isValid) {
       return failure(validation.errors[0]!);
@@ -809,8 +771,10 @@ export class BankingAPI {
       version: 1,
     };
 
-    this.storage.products.set(product.id, product);
-    return success(product);
+    return this.context.inUnitOfWork(async (repos) => {
+      await repos.products.save(product);
+      return success(product);
+    });
   }
 
   /**
@@ -820,156 +784,63 @@ export class BankingAPI {
     productId: string,
     isActive: boolean
   ): Promise<Result<ProductConfiguration>> {
-    const product = this.storage.products.get(productId);
-    if (!product) {
-      return failure(new ProductNotFoundError(productId));
-    }
+    await this.context.ready;
 
-    const updatedProduct: ProductConfiguration = {
-      ...product,
-      isActive,
-      updatedAt: new Date(),
-    };
+    return this.context.inUnitOfWork(async (repos) => {
+      const product = await repos.products.findById(productId);
+      if (!product) {
+        return failure(new ProductNotFoundError(productId));
+      }
+
+      const updatedProduct: ProductConfiguration = {
+        ...product,
+        isActive,
+        updatedAt: new Date(),
+      };
 
-    this.storage.products.set(productId, updatedProduct);
-    return success(updatedProduct);
+      await repos.products.save(updatedProduct);
+      return success(updatedProduct);
+    });
   }
 
   // ============================================================================
-  // Helper Methods
+  // Maintenance Operations
   // ============================================================================
 
-  private generateAccountNumber(): AccountNumber {
-    this.storage.accountSequence++;
-    const sequence = this.storage.accountSequence.toString().padStart(8, '0');
-    const bankCode = '01';
-    const branchCode = '000001';
-    const checkDigit = this.calculateCheckDigit(`${bankCode}${branchCode}${sequence}`);
-
-    return {
-      value: `${bankCode}${branchCode}${sequence}${checkDigit}`,
-      bankCode,
-      branchCode,
-      accountSequence: sequence,
-      checkDigit,
-    };
-  }
-
-  private calculateCheckDigit(number: string): string {
-    const sum = number
-      .split('')
-      .map(Number)
-      .reduce((acc, digit, index) => {
-        const weight = index % 2 === 0 ? 1 : 2;
-        const product = digit * weight;
-        return acc + (product > 9 ? product - 9 : product);
-      }, 0);
-    return ((10 - (sum % 10)) % 10).toString().padStart(2, '0');
-  }
-
-  private updateBalancesForTransfer(
-    sourceAccountId: string,
-    destAccountId: string,
-    amount: Money
-  ): void {
-    const sourceBalance = this.storage.balances.get(sourceAccountId)!;
-    const destBalance = this.storage.balances.get(destAccountId)!;
-
-    // Debit source
-    const newSourceBalance: Balance = {
-      ...sourceBalance,
-      availableBalance: {
-        ...sourceBalance.availableBalance,
-        amount: sourceBalance.availableBalance.amount - amount.amount,
-      },
-      ledgerBalance: {
-        ...sourceBalance.ledgerBalance,
-        amount: sourceBalance.ledgerBalance.amount - amount.amount,
-      },
-      lastUpdatedAt: new Date(),
-      lastPostingDate: new Date(),
-      version: sourceBalance.version + 1,
-    };
-
-    // Credit destination
-    const newDestBalance: Balance = {
-      ...destBalance,
-      availableBalance: {
-        ...destBalance.availableBalance,
-        amount: destBalance.availableBalance.amount + amount.amount,
-      },
-      ledgerBalance: {
-        ...destBalance.ledgerBalance,
-        amount: destBalance.ledgerBalance.amount + amount.amount,
-      },
-      lastUpdatedAt: new Date(),
-      lastPostingDate: new Date(),
-      version: destBalance.version + 1,
-    };
+  /**
+   * Delete idempotency keys that expired at or before the given time
+   * @returns number of keys purged
+   */
+  async purgeExpiredIdempotencyKeys(asOf: Date = new Date()): Promise<Result<number>> {
+    await this.context.ready;
 
-    this.storage.balances.set(sourceAccountId, newSourceBalance);
-    this.storage.balances.set(destAccountId, newDestBalance);
+    const purged = await this.context.repositories.idempotencyKeys.deleteExpired(asOf);
+    return success(purged);
   }
 
-  private createLedgerEntriesForTransfer(
-    sourceAccountId: string,
-    destAccountId: string,
-    transactionId: string,
-    amount: Money,
-    description: string
-  ): void {
-    const sourceBalance = this.storage.balances.get(sourceAccountId)!;
-    const destBalance = this.storage.balances.get(destAccountId)!;
-
-    // Debit entry for source
-    this.createLedgerEntry(
-      sourceAccountId,
-      transactionId,
-      EntryType.DEBIT,
-      amount,
-      sourceBalance.ledgerBalance,
-      `${description} - To ${destAccountId}`
-    );
+  /**
+   * Delete outbox messages dispatched before the given time, so the outbox holds
+   * little more than the messages still pending
+   * @returns number of messages purged
+   */
+  async purgeDispatchedEvents(before: Date = new Date()): Promise<Result<number>> {
+    await this.context.ready;
 
-    // Credit entry for destination
-    this.createLedgerEntry(
-      destAccountId,
-      transactionId,
-      EntryType.CREDIT,
-      amount,
-      destBalance.ledgerBalance,
-      `${description} - From ${sourceAccountId}`
-    );
+    const purged = await this.context.repositories.outbox.deleteDispatched(before);
+    return success(purged);
   }
 
-  private createLedgerEntry(
-    accountId: string,
-    transactionId: string,
-    entryType: EntryType,
-    amount: Money,
-    balanceAfter: Money,
-    description: string
-  ): void {
-    const entries = this.storage.ledgerEntries.get(accountId) || [];
-    const sequenceNumber = entries.length + 1;
-
-    const entry: LedgerEntry = {
-      id: IdGenerator.ledgerEntryId(),
-      accountId,
-      transactionId,
-      entryType,
-      amount,
-      balance: balanceAfter,
-      createdAt: new Date(),
-      sequenceNumber,
-      relatedEntryId: null,
-      description,
-      postingDate: new Date(),
-      valueDate: new Date(),
-    };
+  /**
+   * Check every account's number against a check-digit scheme (default: the one
+   * numbers are issued under), e.g. before switching schemes
+   */
+  async validateAccountNumbers(
+    scheme: CheckDigitScheme = this.context.accountNumbers.checkDigitScheme
+  ): Promise<Result<AccountNumberCheck[]>> {
+    await this.context.ready;
 
-    entries.push(entry);
-    this.storage.ledgerEntries.set(accountId, entries);
+    const accounts = await this.context.repositories.accounts.findAll();
+    return success(validateAccountNumbers(accounts.map((a) => a.accountNumber.value), scheme));
   }
 }
 
@@ -0,0 +1,903 @@
+/**
+ * Core Banking System - Banking Context
+ *
+ * The unit of work, outbox and ledger postings shared by the BankingAPI services
+ */
+
+import {
+  Account,
+  AccountStatus,
+  Transaction,
+  TransactionType,
+  TransactionStatus,
+  Balance,
+  ProductConfiguration,
+  Money,
+  Currency,
+  LedgerEntry,
+  EntryType,
+  AccountNumber,
+  AccountHolderRole,
+  SigningRule,
+} from '../core/domain';
+import { TransactionValidator } from '../core/validators';
+import {
+  AccountAlreadyExistsError,
+  IdempotencyKeyConflictError,
+  ConcurrencyConflictError,
+  ExchangeRateUnavailableError,
+  InvalidLedgerEntryError,
+} from '../utils/errors';
+import { IdGenerator } from '../utils/id-generator';
+import { AccountNumberGenerator } from '../accounts/account-number-generator';
+import { generateIban, isValidIban, normaliseIban } from '../utils/iban';
+import { addDays, businessDay } from '../utils/business-date';
+import { BankingRepositories, Collections, UnitOfWork } from '../persistence/repositories';
+import { EventBus, BankingEvent, EventErrorHandler } from '../events/event-bus';
+import { DomainEvents } from '../events/domain-events';
+import { OutboxDispatcher, createOutboxMessage } from '../events/outbox-dispatcher';
+import { ExchangeRateProvider, FxConversion, convert } from '../fx';
+import { PostingFee, calculatePostingFee, isFeeBearing } from '../fees';
+import { checkTransactionLimits, limitUsage } from '../limits';
+import { checkSignatures } from '../customers';
+import {
+  chargesOverdraftInterest,
+  dailyInterest,
+  dailyOverdraftInterest,
+  earnsInterest,
+  overdraftUsage,
+  valueDateBalance,
+} from '../interest';
+import { IdempotencyScope } from './idempotency';
+import { Result, success, failure } from './result';
+
+/**
+ * Where the bank issues IBANs
+ */
+export interface IbanConfig {
+  /** ISO 3166-1 alpha-2 country code */
+  country: string;
+  /** National bank identifier at the start of the BBAN */
+  bankCode: string;
+}
+
+/**
+ * Length of the account part of an IBAN: the branch code and account sequence
+ */
+const IBAN_ACCOUNT_IDENTIFIER_LENGTH = 14;
+
+/**
+ * Caller that standing order transfers are initiated by (scopes their idempotency keys)
+ */
+export const STANDING_ORDER_CALLER = 'STANDING_ORDER';
+
+/**
+ * Customer id and product id carried by the bank's own (internal) accounts
+ */
+const INTERNAL_CUSTOMER_ID = 'BANK';
+const INTERNAL_PRODUCT_ID = 'INTERNAL';
+
+/**
+ * What an internal account is used for
+ */
+export type InternalAccountPurpose =
+  | 'FX_POSITION'
+  | 'FEE_INCOME'
+  | 'OUTGOING_PAYMENTS'
+  | 'NOSTRO'
+  | 'DIRECT_DEBITS'
+  | 'INTEREST_EXPENSE'
+  | 'INTEREST_INCOME'
+  | 'CARD_SETTLEMENT'
+  | 'ADJUSTMENTS';
+
+/**
+ * A posting fee that is due, with the id reserved for its FEE transaction
+ */
+export interface FeeCharge {
+  transactionId: string;
+  fee: PostingFee;
+}
+
+/**
+ * Whether an account belongs to the bank rather than a customer
+ */
+export function isInternalAccount(account: Account): boolean {
+  return account.metadata['internal'] === true;
+}
+
+/**
+ * Largest difference between a balance and its ledger that is treated as rounding
+ */
+const BALANCE_TOLERANCE = 0.000001;
+
+/**
+ * Settings shared by every service
+ */
+export interface BankingContextSettings {
+  /** How long an idempotency key is honoured, in milliseconds */
+  idempotencyKeyTtlMs: number;
+  /** How often an operation is re-run after an optimistic-locking conflict */
+  maxConcurrencyRetries: number;
+  /** Source of exchange rates; conversions fail without one */
+  exchangeRates: ExchangeRateProvider | null;
+  /** Spread charged on conversions, as a fraction of the mid rate */
+  fxSpread: number;
+  /** Country and bank code IBANs are issued under */
+  iban: IbanConfig;
+  /** Issues account numbers, internal accounts' included */
+  accountNumbers: AccountNumberGenerator;
+  /** Reports outbox relay failures after commit */
+  onError: EventErrorHandler;
+}
+
+/**
+ * State shared by BankingAPI and its services: the repositories, the unit of
+ * work every state change runs in and the outbox its events are queued to,
+ * with the ledger postings, fees and idempotency records operations build on.
+ */
+export class BankingContext {
+  readonly repositories: BankingRepositories;
+  readonly events: EventBus;
+  readonly outbox: OutboxDispatcher;
+  readonly accountNumbers: AccountNumberGenerator;
+  readonly exchangeRates: ExchangeRateProvider | null;
+  /** Settles once the default products are stored; every operation waits for it */
+  readonly ready: Promise<void>;
+  private readonly idempotencyKeyTtlMs: number;
+  private readonly maxConcurrencyRetries: number;
+  private readonly fxSpread: number;
+  private readonly ibanConfig: IbanConfig;
+  private readonly onError: EventErrorHandler;
+
+  constructor(repositories: BankingRepositories, events: EventBus, settings: BankingContextSettings) {
+    this.repositories = repositories;
+    this.idempotencyKeyTtlMs = settings.idempotencyKeyTtlMs;
+    this.maxConcurrencyRetries = settings.maxConcurrencyRetries;
+    this.exchangeRates = settings.exchangeRates;
+    this.fxSpread = settings.fxSpread;
+    this.ibanConfig = settings.iban;
+    this.accountNumbers = settings.accountNumbers;
+    this.onError = settings.onError;
+    // Fail fast on a country or bank code no account's IBAN would fit under
+    generateIban(
+      this.ibanConfig.country,
+      this.ibanConfig.bankCode,
+      '0'.repeat(IBAN_ACCOUNT_IDENTIFIER_LENGTH)
+    );
+    this.events = events;
+    this.outbox = new OutboxDispatcher(repositories.outbox, events);
+    this.ready = this.initializeDefaultProducts();
+  }
+
+  /**
+   * Initialize default product configurations (only for an empty product store)
+   */
+  private async initializeDefaultProducts(): Promise<void> {
+    const existing = await this.repositories.products.findAll();
+    if (existing.length > 0) {
+      return;
+    }
+
+    const defaultProducts: ProductConfiguration[] = [
+      this.createDefaultProduct('Basic Current Account', 'BASIC_ACCOUNT', 0, null),
+      this.createDefaultProduct('Standard Current Account', 'CURRENT_ACCOUNT', 100, 500),
+      this.createDefaultProduct('Premium Current Account', 'PREMIUM_CURRENT', 1000, 5000),
+      this.createDefaultProduct('Business Current Account', 'BUSINESS_ACCOUNT', 500, 10000),
+      this.createDefaultProduct('Student Account', 'STUDENT_ACCOUNT', 0, 100),
+    ];
+
+    const unitOfWork = this.repositories.beginUnitOfWork();
+    for (const product of defaultProducts) {
+      await unitOfWork.repositories.products.save(product);
+    }
+    await unitOfWork.commit();
+  }
+
+  private createDefaultProduct(
+    name: string,
+    type: string,
+    minBalance: number,
+    overdraft: number | null
+  ): ProductConfiguration {
+    const currency = Currency.USD;
+    return {
+      id: IdGenerator.productId(),
+      name,
+      type: type as any,
+      currency,
+      minimumBalance: { amount: minBalance, currency, scale: 2 },
+      overdraftLimit: overdraft ? { amount: overdraft, currency, scale: 2 } : null,
+      interestRate: 0.001,
+      overdraftInterestRate: overdraft ? 0.18 : null,
+      fees: {
+        monthlyFee: { amount: type === 'PREMIUM_CURRENT' ? 25 : 0, currency, scale: 2 },
+        transactionFee: type === 'BASIC_ACCOUNT' ? { amount: 0.5, currency, scale: 2 } : null,
+        overdraftFee: overdraft ? { amount: 35, currency, scale: 2 } : null,
+        atmFee: type === 'PREMIUM_CURRENT' ? null : { amount: 2, currency, scale: 2 },
+        foreignTransactionFeeRate: 0.03,
+        minimumBalanceFee: minBalance > 0 ? { amount: 15, currency, scale: 2 } : null,
+        monthlyFeeWaiver:
+          type === 'PREMIUM_CURRENT'
+            ? { minimumBalance: { amount: 10000, currency, scale: 2 }, monthlyTransactionCount: 20 }
+            : null,
+      },
+      isActive: true,
+      features: {
+        overdraftAllowed: overdraft !== null,
+        paysInterest: type === 'PREMIUM_CURRENT',
+        freeTransactionsPerMonth: type === 'BASIC_ACCOUNT' ? 10 : null,
+        debitCardIncluded: true,
+        onlineBankingEnabled: true,
+        mobileAppEnabled: true,
+        additionalFeatures: [],
+      },
+      limits: {
+        maxTransactionAmount: { amount: type === 'BUSINESS_ACCOUNT' ? 100000 : 10000, currency, scale: 2 },
+        maxDailyAmount: { amount: type === 'BUSINESS_ACCOUNT' ? 500000 : 50000, currency, scale: 2 },
+        maxMonthlyAmount: null,
+        maxTransactionsPerDay: null,
+        maxAtmWithdrawalPerDay: { amount: 1000, currency, scale: 2 },
+      },
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      version: 1,
+    };
+  }
+
+  /**
+   * Run work against staged repositories; commit only if it succeeds and every
+   * balance it touched still agrees with its ledger, then relay the committed
+   * outbox messages. Every state-changing operation goes through here.
+   * Work that loses an optimistic-locking race is re-run from scratch against
+   * fresh state, up to the configured number of retries.
+   */
+  async inUnitOfWork<T>(
+    work: (repos: BankingRepositories) => Promise<Result<T>>
+  ): Promise<Result<T>> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.runUnitOfWork(work);
+      } catch (error) {
+        // A key another account already holds is a refusal, not a lost race
+        if (error instanceof AccountAlreadyExistsError) {
+          return failure(error);
+        }
+        if (!(error instanceof ConcurrencyConflictError)) {
+          throw error;
+        }
+        if (attempt >= this.maxConcurrencyRetries) {
+          return failure(error);
+        }
+      }
+    }
+  }
+
+  private async runUnitOfWork<T>(
+    work: (repos: BankingRepositories) => Promise<Result<T>>
+  ): Promise<Result<T>> {
+    const unitOfWork = this.repositories.beginUnitOfWork();
+
+    let result: Result<T>;
+    try {
+      result = await work(unitOfWork.repositories);
+      if (result.success) {
+        const consistency = await this.verifyLedgerConsistency(unitOfWork);
+        if (!consistency.success) {
+          result = consistency;
+        }
+      }
+    } catch (error) {
+      unitOfWork.rollback();
+      throw error;
+    }
+
+    if (!result.success) {
+      unitOfWork.rollback();
+      return result;
+    }
+
+    await unitOfWork.commit();
+    // The work is committed: a failing relay must not make callers retry it.
+    // Undelivered messages stay pending for the next dispatch.
+    try {
+      await this.outbox.dispatchPending();
+    } catch (error) {
+      this.onError(error, null);
+    }
+    return result;
+  }
+
+  /**
+   * Check that every balance staged in the unit of work matches the running
+   * balance of its latest ledger entry
+   */
+  private async verifyLedgerConsistency(unitOfWork: UnitOfWork): Promise<Result<void>> {
+    const repos = unitOfWork.repositories;
+
+    for (const accountId of unitOfWork.stagedKeys(Collections.BALANCES)) {
+      const balance = (await repos.balances.findByAccountId(accountId))!;
+      const [lastEntry] = await repos.ledger.findByAccountId(accountId, 1);
+      const ledgerAmount = lastEntry?.balance.amount ?? 0;
+
+      if (Math.abs(balance.ledgerBalance.amount - ledgerAmount) > BALANCE_TOLERANCE) {
+        return failure(
+          new InvalidLedgerEntryError(
+            `balance of account ${accountId} is ${balance.ledgerBalance.amount} but its ledger shows ${ledgerAmount}`
+          )
+        );
+      }
+    }
+
+    return success(undefined);
+  }
+
+  async enqueue(repos: BankingRepositories, ...events: BankingEvent[]): Promise<void> {
+    for (const event of events) {
+      const sequence = await repos.sequences.next('outbox', 0);
+      await repos.outbox.save(createOutboxMessage(event, sequence));
+    }
+  }
+
+  /**
+   * Replay the transaction recorded for an idempotency key.
+   * Reusing a live key with a different payload is a conflict; expired keys are ignored.
+   */
+  async replayIdempotent(
+    repos: BankingRepositories,
+    scope: IdempotencyScope | null
+  ): Promise<Result<Transaction> | null> {
+    if (!scope) {
+      return null;
+    }
+
+    const record = await repos.idempotencyKeys.find(scope.operation, scope.callerId, scope.key);
+    if (!record || record.expiresAt <= new Date()) {
+      return null;
+    }
+    if (record.requestHash !== scope.requestHash) {
+      return failure(new IdempotencyKeyConflictError(scope.key, scope.operation));
+    }
+
+    const existingTx = await repos.transactions.findById(record.transactionId);
+    return existingTx ? success(existingTx) : null;
+  }
+
+  async rememberIdempotent(
+    repos: BankingRepositories,
+    scope: IdempotencyScope | null,
+    transactionId: string
+  ): Promise<void> {
+    if (!scope) {
+      return;
+    }
+
+    const now = new Date();
+    await repos.idempotencyKeys.save({
+      ...scope,
+      transactionId,
+      createdAt: now,
+      expiresAt: new Date(now.getTime() + this.idempotencyKeyTtlMs),
+    });
+  }
+
+  openingBalance(accountId: string, currency: Currency): Balance {
+    return {
+      accountId,
+      availableBalance: { amount: 0, currency, scale: 2 },
+      ledgerBalance: { amount: 0, currency, scale: 2 },
+      pendingBalance: { amount: 0, currency, scale: 2 },
+      heldBalance: { amount: 0, currency, scale: 2 },
+      currency,
+      lastUpdatedAt: new Date(),
+      lastPostingDate: new Date(),
+      overdraftUsage: null,
+      version: 1,
+    };
+  }
+
+  /**
+   * The bank's own account for a purpose and currency, opened on first use
+   */
+  async internalAccount(
+    repos: BankingRepositories,
+    purpose: InternalAccountPurpose,
+    currency: Currency
+  ): Promise<Account> {
+    const accountId = `INT-${purpose}-${currency}`;
+    const existing = await repos.accounts.findById(accountId);
+    if (existing) {
+      return existing;
+    }
+
+    const accountNumber = await this.accountNumbers.generate(repos.sequences);
+    const account: Account = {
+      id: accountId,
+      accountNumber,
+      iban: this.issueIban(accountNumber),
+      customerId: { value: INTERNAL_CUSTOMER_ID, type: 'BUSINESS' },
+      holders: [
+        { customerId: INTERNAL_CUSTOMER_ID, role: AccountHolderRole.PRIMARY, addedAt: new Date() },
+      ],
+      signingRule: SigningRule.ANY_ONE,
+      productId: INTERNAL_PRODUCT_ID,
+      status: AccountStatus.ACTIVE,
+      currency,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      closedAt: null,
+      overdraftLimit: null,
+      metadata: { internal: true, purpose },
+      version: 1,
+    };
+
+    await repos.accounts.save(account);
+    await repos.balances.save(this.openingBalance(accountId, currency));
+    return account;
+  }
+
+  async convertCurrency(amount: Money, target: Currency): Promise<Result<FxConversion>> {
+    const quote = this.exchangeRates ? await this.exchangeRates.getRate(amount.currency, target) : null;
+    if (!quote) {
+      return failure(new ExchangeRateUnavailableError(amount.currency, target));
+    }
+    return success(convert(amount, quote, this.fxSpread));
+  }
+
+  /**
+   * Book a conversion against the FX position accounts: the bank takes in the
+   * source currency and pays out the destination currency, so each currency's
+   * legs balance on their own
+   */
+  async postFxLegs(
+    repos: BankingRepositories,
+    transactionId: string,
+    transactionType: TransactionType,
+    conversion: FxConversion,
+    description: string
+  ): Promise<BankingEvent[]> {
+    const { sourceAmount, destinationAmount } = conversion;
+    const sourcePosition = await this.internalAccount(repos, 'FX_POSITION', sourceAmount.currency);
+    const destinationPosition = await this.internalAccount(
+      repos,
+      'FX_POSITION',
+      destinationAmount.currency
+    );
+
+    return [
+      await this.postEntry(
+        repos,
+        sourcePosition.id,
+        transactionId,
+        transactionType,
+        EntryType.CREDIT,
+        sourceAmount,
+        `${description} - FX ${sourceAmount.currency}/${destinationAmount.currency} at ${conversion.rate}`
+      ),
+      await this.postEntry(
+        repos,
+        destinationPosition.id,
+        transactionId,
+        transactionType,
+        EntryType.DEBIT,
+        destinationAmount,
+        `${description} - FX ${sourceAmount.currency}/${destinationAmount.currency} at ${conversion.rate}`
+      ),
+    ];
+  }
+
+  /**
+   * Work out the product fee due on a customer posting; the paying account's
+   * earlier fee-bearing postings this month count towards its free allowance
+   */
+  async assessPostingFee(
+    repos: BankingRepositories,
+    account: Account,
+    transactionType: TransactionType,
+    amount: Money,
+    options: { atm?: boolean; crossCurrency?: boolean } = {}
+  ): Promise<FeeCharge | null> {
+    const product = await repos.products.findById(account.productId);
+    if (!product) {
+      return null;
+    }
+
+    const now = new Date();
+    const monthStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+    const postingsThisMonth = (
+      await repos.transactions.findByDateRange(account.id, monthStart, now)
+    ).filter((t) => isFeeBearing(t, account.id)).length;
+
+    const fee = calculatePostingFee(product, {
+      transactionType,
+      amount,
+      atm: options.atm ?? false,
+      crossCurrency: options.crossCurrency ?? false,
+      postingsThisMonth,
+    });
+    return fee ? { transactionId: IdGenerator.transactionId(), fee } : null;
+  }
+
+  /**
+   * Check a customer debit against the limits of the account's product, over
+   * rolling windows of the account's earlier debits
+   */
+  async checkTransactionLimits(
+    repos: BankingRepositories,
+    account: Account,
+    amount: Money,
+    atm: boolean = false
+  ): Promise<Result<null>> {
+    const product = await repos.products.findById(account.productId);
+    if (!product) {
+      return success(null);
+    }
+
+    const transactions = await repos.transactions.findByAccountId(account.id);
+    const usage = limitUsage(transactions, account.id, new Date());
+    const breach = checkTransactionLimits(product.limits, usage, { amount, atm });
+    return breach ? failure(breach) : success(null);
+  }
+
+  /**
+   * Check an outgoing instruction's signatures against the account's signing
+   * rule; standing order instalments were signed when the order was set up
+   */
+  checkSigningRule(
+    account: Account,
+    signedBy: string[] | undefined,
+    initiatedBy: string
+  ): Result<null> {
+    if (initiatedBy === STANDING_ORDER_CALLER) {
+      return success(null);
+    }
+    const unsigned = checkSignatures(account, signedBy ?? []);
+    return unsigned ? failure(unsigned) : success(null);
+  }
+
+  signingMetadata(signedBy: string[] | undefined): Record<string, unknown> {
+    return signedBy?.length ? { signedBy: [...new Set(signedBy)] } : {};
+  }
+
+  feeMetadata(charge: FeeCharge | null): Record<string, unknown> {
+    return charge ? { feeTransactionId: charge.transactionId } : {};
+  }
+
+  /**
+   * Post a fee as its own FEE transaction, debiting the customer and crediting
+   * fee income, linked to the parent transaction it was charged on
+   */
+  async postFee(
+    repos: BankingRepositories,
+    account: Account,
+    parent: Transaction,
+    charge: FeeCharge | null
+  ): Promise<Result<BankingEvent[]>> {
+    if (!charge) {
+      return success([]);
+    }
+
+    const { fee, transactionId } = charge;
+    const balance = (await repos.balances.findByAccountId(account.id))!;
+    const funds = TransactionValidator.validateSufficientFunds(
+      balance.availableBalance,
+      fee.total,
+      account.overdraftLimit
+    );
+    if (!funds.isValid) {
+      return failure(funds.errors[0]!);
+    }
+
+    const events = await this.postFeeTransaction(repos, account, transactionId, fee.total, {
+      reference: `FEE-${parent.reference}`,
+      description: `Fee: ${parent.description}`,
+      metadata: {
+        parentTransactionId: parent.id.value,
+        transactionFee: fee.transactionFee,
+        atmFee: fee.atmFee,
+        foreignTransactionFee: fee.foreignTransactionFee,
+      },
+    });
+    return success(events);
+  }
+
+  /**
+   * Post a FEE transaction debiting the customer and crediting fee income
+   */
+  async postFeeTransaction(
+    repos: BankingRepositories,
+    account: Account,
+    transactionId: string,
+    amount: Money,
+    details: { reference: string; description: string; metadata: Record<string, unknown> }
+  ): Promise<BankingEvent[]> {
+    const feeIncome = await this.internalAccount(repos, 'FEE_INCOME', amount.currency);
+    const feeTransaction: Transaction = {
+      id: {
+        value: transactionId,
+        generatedAt: new Date(),
+        source: 'BANKING_API',
+      },
+      sourceAccountId: account.id,
+      destinationAccountId: feeIncome.id,
+      amount,
+      currency: amount.currency,
+      type: TransactionType.FEE,
+      status: TransactionStatus.COMPLETED,
+      reference: details.reference,
+      description: details.description,
+      createdAt: new Date(),
+      completedAt: new Date(),
+      initiatedBy: 'BANKING_API',
+      authorizationCode: null,
+      fee: null,
+      exchangeRate: null,
+      originalTransactionId: null,
+      failureReason: null,
+      metadata: details.metadata,
+      version: 1,
+    };
+
+    const events = [
+      await this.postEntry(
+        repos,
+        account.id,
+        transactionId,
+        TransactionType.FEE,
+        EntryType.DEBIT,
+        amount,
+        feeTransaction.description
+      ),
+      await this.postEntry(
+        repos,
+        feeIncome.id,
+        transactionId,
+        TransactionType.FEE,
+        EntryType.CREDIT,
+        amount,
+        feeTransaction.description
+      ),
+    ];
+    await repos.transactions.save(feeTransaction);
+
+    return [...events, DomainEvents.transactionCompleted(feeTransaction)];
+  }
+
+  describeConversion(conversion: FxConversion): Record<string, unknown> {
+    return {
+      sourceAmount: conversion.sourceAmount,
+      destinationAmount: conversion.destinationAmount,
+      midRate: conversion.midRate,
+      spread: conversion.spread,
+      rateAsOf: conversion.rateAsOf,
+    };
+  }
+
+  /**
+   * IBAN for an account number under the configured country and bank code
+   */
+  issueIban(accountNumber: AccountNumber): string {
+    return generateIban(
+      this.ibanConfig.country,
+      this.ibanConfig.bankCode,
+      `${accountNumber.branchCode}${accountNumber.accountSequence}`
+    );
+  }
+
+  /**
+   * Internal id of an account given by id or IBAN; references that match
+   * neither are returned unchanged and reported as not found by the caller
+   */
+  async resolveAccountId(repos: BankingRepositories, reference: string): Promise<string> {
+    if (!isValidIban(reference) || (await repos.accounts.findById(reference))) {
+      return reference;
+    }
+    return (await repos.accounts.findByIban(normaliseIban(reference)))?.id ?? reference;
+  }
+
+  /**
+   * Apply a single debit or credit to an account balance and record its ledger entry.
+   * The value date defaults to now; a backdated one revalues the interest accrued since.
+   */
+  async postEntry(
+    repos: BankingRepositories,
+    accountId: string,
+    transactionId: string,
+    transactionType: TransactionType,
+    entryType: EntryType,
+    amount: Money,
+    description: string,
+    relatedEntryId: string | null = null,
+    valueDate: Date | null = null
+  ): Promise<BankingEvent> {
+    const balance = (await repos.balances.findByAccountId(accountId))!;
+    const delta = entryType === EntryType.CREDIT ? amount.amount : -amount.amount;
+    const ledgerBalance: Money = {
+      ...balance.ledgerBalance,
+      amount: balance.ledgerBalance.amount + delta,
+    };
+
+    const newBalance: Balance = {
+      ...balance,
+      availableBalance: {
+        ...balance.availableBalance,
+        amount: balance.availableBalance.amount + delta,
+      },
+      ledgerBalance,
+      overdraftUsage: overdraftUsage(ledgerBalance),
+      lastUpdatedAt: new Date(),
+      lastPostingDate: new Date(),
+      version: balance.version + 1,
+    };
+    await repos.balances.save(newBalance);
+
+    await this.createLedgerEntry(
+      repos,
+      accountId,
+      transactionId,
+      entryType,
+      amount,
+      newBalance.ledgerBalance,
+      description,
+      relatedEntryId,
+      valueDate ?? new Date()
+    );
+
+    if (valueDate && valueDate < businessDay(new Date())) {
+      await this.revalueInterest(repos, accountId, businessDay(valueDate));
+    }
+
+    return DomainEvents.balanceUpdated(balance, newBalance, transactionType, transactionId);
+  }
+
+  /**
+   * Recalculate an account's interest and overdraft accruals from a business date
+   * up to yesterday after a backdated posting. Capitalised or charged accruals are
+   * never changed; resolveValueDate refuses value dates that would reach them.
+   */
+  async revalueInterest(
+    repos: BankingRepositories,
+    accountId: string,
+    fromDate: Date
+  ): Promise<void> {
+    const account = await repos.accounts.findById(accountId);
+    const product = account && (await repos.products.findById(account.productId));
+    if (!account || !product) {
+      return;
+    }
+
+    const entries = await repos.ledger.findByAccountId(accountId);
+    const today = businessDay(new Date());
+    for (let day = fromDate; day < today; day = addDays(day, 1)) {
+      const balance = valueDateBalance(entries, day);
+      if (earnsInterest(product)) {
+        await this.revalueAccrual(repos, account, day, balance, product.interestRate);
+      }
+      if (chargesOverdraftInterest(product)) {
+        await this.revalueOverdraftAccrual(repos, account, day, balance, product.overdraftInterestRate!);
+      }
+    }
+  }
+
+  private async revalueAccrual(
+    repos: BankingRepositories,
+    account: Account,
+    accrualDate: Date,
+    balance: number,
+    productRate: number
+  ): Promise<void> {
+    const existing = await repos.interestAccruals.find(account.id, accrualDate);
+    if (existing?.capitalisationTransactionId) {
+      return;
+    }
+
+    const annualRate = existing?.annualRate ?? productRate;
+    const amount = dailyInterest(balance, annualRate);
+    if (existing ? existing.amount === amount : amount === 0) {
+      return;
+    }
+
+    await repos.interestAccruals.save({
+      accountId: account.id,
+      accrualDate,
+      balance: { amount: balance, currency: account.currency, scale: 2 },
+      annualRate,
+      amount,
+      capitalisationTransactionId: null,
+      createdAt: existing?.createdAt ?? new Date(),
+    });
+  }
+
+  private async revalueOverdraftAccrual(
+    repos: BankingRepositories,
+    account: Account,
+    accrualDate: Date,
+    balance: number,
+    productRate: number
+  ): Promise<void> {
+    const existing = await repos.overdraftInterestAccruals.find(account.id, accrualDate);
+    if (existing?.chargeTransactionId) {
+      return;
+    }
+
+    const annualRate = existing?.annualRate ?? productRate;
+    const amount = dailyOverdraftInterest(balance, annualRate);
+    if (existing ? existing.amount === amount : amount === 0) {
+      return;
+    }
+
+    await repos.overdraftInterestAccruals.save({
+      accountId: account.id,
+      accrualDate,
+      overdraftUsage: { amount: Math.max(-balance, 0), currency: account.currency, scale: 2 },
+      annualRate,
+      amount,
+      chargeTransactionId: null,
+      createdAt: existing?.createdAt ?? new Date(),
+    });
+  }
+
+  /**
+   * Move funds between available and held; the ledger balance is unchanged
+   */
+  async adjustHold(
+    repos: BankingRepositories,
+    accountId: string,
+    delta: number
+  ): Promise<BankingEvent> {
+    const balance = (await repos.balances.findByAccountId(accountId))!;
+
+    const newBalance: Balance = {
+      ...balance,
+      heldBalance: {
+        ...balance.heldBalance,
+        amount: balance.heldBalance.amount + delta,
+      },
+      availableBalance: {
+        ...balance.availableBalance,
+        amount: balance.availableBalance.amount - delta,
+      },
+      lastUpdatedAt: new Date(),
+      version: balance.version + 1,
+    };
+    await repos.balances.save(newBalance);
+
+    return DomainEvents.balanceUpdated(
+      balance,
+      newBalance,
+      delta > 0 ? 'AUTHORIZATION_HOLD' : 'AUTHORIZATION_RELEASE'
+    );
+  }
+
+  async createLedgerEntry(
+    repos: BankingRepositories,
+    accountId: string,
+    transactionId: string,
+    entryType: EntryType,
+    amount: Money,
+    balanceAfter: Money,
+    description: string,
+    relatedEntryId: string | null = null,
+    valueDate: Date = new Date()
+  ): Promise<void> {
+    const entries = await repos.ledger.findByAccountId(accountId);
+    const sequenceNumber = entries.length + 1;
+
+    const entry: LedgerEntry = {
+      id: IdGenerator.ledgerEntryId(),
+      accountId,
+      transactionId,
+      entryType,
+      amount,
+      balance: balanceAfter,
+      createdAt: new Date(),
+      sequenceNumber,
+      relatedEntryId,
+      description,
+      postingDate: new Date(),
+      valueDate,
+    };
+
+    await repos.ledger.save(entry);
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * Idempotency Helpers
+ * Scopes idempotency keys and fingerprints request payloads
+ */
+
+import { createHash } from 'crypto';
+
+/**
+ * An idempotency key bound to an operation, caller and request payload
+ */
+export interface IdempotencyScope {
+  operation: string;
+  callerId: string;
+  key: string;
+  requestHash: string;
+}
+
+/**
+ * Build the scope for a request, or null when no key was supplied
+ */
+export function idempotencyScope(
+  operation: string,
+  callerId: string,
+  key: string | undefined,
+  payload: object
+): IdempotencyScope | null {
+  if (!key) {
+    return null;
+  }
+  return { operation, callerId, key, requestHash: requestFingerprint(payload) };
+}
+
+/**
+ * SHA-256 over the canonical JSON of a payload, ignoring the idempotency key itself
+ */
+export function requestFingerprint(payload: object): string {
+  const { idempotencyKey: _ignored, ...rest } = payload as Record<string, unknown>;
+  return createHash('sha256').update(canonicalJson(rest)).digest('hex');
+}
+
+/**
+ * JSON with object keys sorted and undefined values dropped, so equal payloads hash equally
+ */
+function canonicalJson(value: unknown): string {
+  if (value instanceof Date) {
+    return JSON.stringify(value.toISOString());
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
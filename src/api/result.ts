@@ -0,0 +1,28 @@
+/**
+ * Core Banking System - Operation Results
+ *
+ * Outcome of a BankingAPI operation: its data, or the error that refused it
+ */
+
+import { BankingError } from '../utils/errors';
+
+/**
+ * Result type for API operations
+ */
+export type Result<T, E = BankingError> =
+  | { success: true; data: T }
+  | { success: false; error: E };
+
+/**
+ * Create a success result
+ */
+export function success<T>(data: T): Result<T> {
+  return { success: true, data };
+}
+
+/**
+ * Create a failure result
+ */
+export function failure<E extends BankingError>(error: E): Result<never, E> {
+  return { success: false, error };
+}
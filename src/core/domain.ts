@@ -112,6 +112,157 @@ export enum Currency {
   CAD = 'CAD'
 }
 
+/**
+ * Outcome of billing an account for a period
+ */
+export enum BillingOutcome {
+  /** Fees posted */
+  CHARGED = 'CHARGED',
+  /** Fees due but waived */
+  WAIVED = 'WAIVED',
+  /** No fees due */
+  NO_FEE = 'NO_FEE',
+  /** Fees due but the account could not cover them */
+  UNPAID = 'UNPAID'
+}
+
+/**
+ * Direct debit mandate sequence type
+ */
+export enum MandateType {
+  /** Authorises a single collection */
+  ONE_OFF = 'ONE_OFF',
+  /** Authorises repeated collections until revoked */
+  RECURRENT = 'RECURRENT'
+}
+
+/**
+ * Direct debit mandate lifecycle status
+ */
+export enum MandateStatus {
+  /** Collections may be made */
+  ACTIVE = 'ACTIVE',
+  /** One-off mandate whose collection has been made */
+  USED = 'USED',
+  /** Revoked by the debtor */
+  REVOKED = 'REVOKED'
+}
+
+/**
+ * Reason codes for returned direct debits (ISO 20022 / SEPA R-transaction codes)
+ */
+export enum DirectDebitReturnReason {
+  /** Insufficient funds */
+  INSUFFICIENT_FUNDS = 'AM04',
+  /** No valid mandate */
+  NO_MANDATE = 'MD01',
+  /** Debtor account closed */
+  ACCOUNT_CLOSED = 'AC04',
+  /** Debtor account blocked for direct debits */
+  ACCOUNT_BLOCKED = 'AC06',
+  /** Collection exceeds the debtor account's transaction limits */
+  LIMIT_EXCEEDED = 'AM02'
+}
+
+/**
+ * How often a standing order pays out
+ */
+export enum StandingOrderFrequency {
+  WEEKLY = 'WEEKLY',
+  MONTHLY = 'MONTHLY',
+  QUARTERLY = 'QUARTERLY'
+}
+
+/**
+ * Standing order lifecycle status
+ */
+export enum StandingOrderStatus {
+  /** Instalments are executed as they fall due */
+  ACTIVE = 'ACTIVE',
+  /** Every scheduled instalment has been processed */
+  COMPLETED = 'COMPLETED',
+  /** Cancelled by the customer */
+  CANCELLED = 'CANCELLED'
+}
+
+/**
+ * Outcome of one attempt to execute a standing order instalment
+ */
+export enum StandingOrderExecutionStatus {
+  /** Transfer posted */
+  EXECUTED = 'EXECUTED',
+  /** Transfer failed; the instalment will be retried */
+  FAILED = 'FAILED',
+  /** Transfer failed and retries are exhausted; the instalment is not paid */
+  SKIPPED = 'SKIPPED'
+}
+
+/**
+ * Card-style authorisation lifecycle status
+ */
+export enum AuthorizationStatus {
+  /** Funds are held and may be captured */
+  AUTHORIZED = 'AUTHORIZED',
+  /** Captured in full or in part; any remainder was released */
+  CAPTURED = 'CAPTURED',
+  /** Cancelled by the merchant; the hold was released */
+  VOIDED = 'VOIDED',
+  /** Not captured before it expired; the hold was released */
+  EXPIRED = 'EXPIRED'
+}
+
+/**
+ * Customer lifecycle status
+ */
+export enum CustomerStatus {
+  /** Registered; identity not yet checked, so no accounts can be opened */
+  PENDING_VERIFICATION = 'PENDING_VERIFICATION',
+  /** Identity checked; may hold accounts */
+  VERIFIED = 'VERIFIED',
+  /** Temporarily barred from opening accounts (e.g. under investigation) */
+  SUSPENDED = 'SUSPENDED',
+  /** Relationship ended; no further changes allowed */
+  CLOSED = 'CLOSED'
+}
+
+/**
+ * Algorithm an account number's check digits are calculated with
+ */
+export enum CheckDigitScheme {
+  /** Luhn mod 10; one digit, written with a leading zero */
+  LUHN = 'LUHN',
+  /** ISO 7064 MOD 97-10, as used by IBANs; two digits */
+  MOD97_10 = 'MOD97_10',
+  /** Weighted mod 11 (weights 2-7 from the right); 00 to 10 */
+  MOD11 = 'MOD11'
+}
+
+/**
+ * Capacity in which a customer holds an account
+ */
+export enum AccountHolderRole {
+  /** Main account holder; every account has exactly one */
+  PRIMARY = 'PRIMARY',
+  /** Joint owner alongside the primary holder */
+  SECONDARY = 'SECONDARY',
+  /** May sign for the account without owning it */
+  AUTHORIZED_SIGNATORY = 'AUTHORIZED_SIGNATORY',
+  /** Acts for a holder under a power of attorney */
+  POWER_OF_ATTORNEY = 'POWER_OF_ATTORNEY'
+}
+
+/**
+ * Whose signatures an outgoing transaction needs
+ */
+export enum SigningRule {
+  /** Any one holder may sign alone */
+  ANY_ONE = 'ANY_ONE',
+  /** Two different holders must sign together */
+  TWO_TOGETHER = 'TWO_TOGETHER',
+  /** Every holder must sign */
+  ALL_TOGETHER = 'ALL_TOGETHER'
+}
+
 // ============================================================================
 // Value Objects
 // ============================================================================
@@ -131,18 +282,18 @@ export interface Money {
 
 /**
  * Account number value object with validation rules
- * Format: 2-digit bank code + 6-digit branch code + 8-digit account number
+ * Format: 2-digit bank code + 6-digit branch code + 8-digit account number + 2 check digits
  */
 export interface AccountNumber {
-  /** Full account number (16 digits) */
+  /** Full account number (18 digits) */
   readonly value: string;
   /** Bank identifier code (2 digits) */
   readonly bankCode: string;
   /** Branch identifier code (6 digits) */
   readonly branchCode: string;
-  /** Account sequence number (8 digits) */
+  /** Account sequence number within the branch (8 digits) */
   readonly accountSequence: string;
-  /** Check digit for validation */
+  /** Check digits for validation (2 digits) */
   readonly checkDigit: string;
 }
 
@@ -169,6 +320,40 @@ export interface CustomerId {
   readonly type: 'INDIVIDUAL' | 'BUSINESS' | 'JOINT';
 }
 
+/**
+ * Account holder value object
+ */
+export interface AccountHolder {
+  /** Customer identifier of the holder */
+  readonly customerId: string;
+  readonly role: AccountHolderRole;
+  /** When the holder was added to the account */
+  readonly addedAt: Date;
+}
+
+/**
+ * Postal address value object
+ */
+export interface PostalAddress {
+  readonly line1: string;
+  readonly line2: string | null;
+  readonly city: string;
+  /** State, county or province */
+  readonly region: string | null;
+  readonly postalCode: string;
+  /** ISO 3166-1 alpha-2 country code */
+  readonly country: string;
+}
+
+/**
+ * Customer contact details value object
+ */
+export interface ContactDetails {
+  readonly email: string | null;
+  /** Phone number in E.164 format (+ and up to 15 digits) */
+  readonly phone: string | null;
+}
+
 // ============================================================================
 // Domain Entities
 // ============================================================================
@@ -184,9 +369,18 @@ export interface Account {
   /** Account number (value object) */
   readonly accountNumber: AccountNumber;
 
-  /** Customer who owns this account */
+  /** ISO 13616 IBAN (normalised: upper case, no spaces) */
+  readonly iban: string;
+
+  /** Customer who owns this account (the primary holder; JOINT when it has joint owners) */
   readonly customerId: CustomerId;
 
+  /** Everyone who holds the account, primary holder first */
+  readonly holders: readonly AccountHolder[];
+
+  /** Signatures outgoing transactions need */
+  readonly signingRule: SigningRule;
+
   /** Product configuration this account is based on */
   readonly productId: string;
 
@@ -320,6 +514,23 @@ export interface Transaction {
   readonly version: number;
 }
 
+/**
+ * Beneficiary of an outgoing payment
+ */
+export interface PaymentBeneficiary {
+  /** Beneficiary name */
+  readonly name: string;
+
+  /** Beneficiary IBAN (normalised: upper case, no spaces) */
+  readonly iban: string | null;
+
+  /** Beneficiary account number, when paid without an IBAN */
+  readonly accountNumber: string | null;
+
+  /** BIC of the beneficiary's bank */
+  readonly bic: string | null;
+}
+
 /**
  * Balance entity
  * Represents current balance state of an account with different balance types
@@ -382,6 +593,9 @@ export interface ProductConfiguration {
   /** Annual interest rate (percentage, e.g., 0.05 for 5%) */
   readonly interestRate: number;
 
+  /** Annual interest rate charged on overdrawn balances (null if none is charged) */
+  readonly overdraftInterestRate: number | null;
+
   /** Fee structure for this product */
   readonly fees: ProductFees;
 
@@ -425,6 +639,20 @@ export interface ProductFees {
 
   /** Minimum balance fee (charged if below minimum) */
   readonly minimumBalanceFee: Money | null;
+
+  /** Conditions under which the monthly fee is not charged */
+  readonly monthlyFeeWaiver: MonthlyFeeWaiver | null;
+}
+
+/**
+ * Monthly fee waiver conditions; meeting any one waives the fee
+ */
+export interface MonthlyFeeWaiver {
+  /** Lowest end-of-day balance in the month at or above this */
+  readonly minimumBalance: Money | null;
+
+  /** At least this many customer postings in the month */
+  readonly monthlyTransactionCount: number | null;
 }
 
 /**
@@ -473,6 +701,396 @@ export interface TransactionLimits {
   readonly maxAtmWithdrawalPerDay: Money | null;
 }
 
+/**
+ * Direct debit mandate
+ * A debtor's authorisation for a creditor to collect from their account
+ */
+export interface DirectDebitMandate {
+  /** Unique mandate identifier */
+  readonly id: string;
+
+  /** Unique mandate reference assigned by the creditor */
+  readonly mandateReference: string;
+
+  /** Creditor identifier (e.g. SEPA creditor id) */
+  readonly creditorId: string;
+
+  /** Creditor name */
+  readonly creditorName: string;
+
+  /** Account the creditor may debit */
+  readonly debtorAccountId: string;
+
+  /** One-off or recurrent */
+  readonly type: MandateType;
+
+  /** Date the debtor signed the mandate */
+  readonly signatureDate: Date;
+
+  /** Lifecycle status */
+  readonly status: MandateStatus;
+
+  /** Most recent successful collection */
+  readonly lastCollectedAt: Date | null;
+
+  /** When the mandate was revoked */
+  readonly revokedAt: Date | null;
+
+  /** Why the mandate was revoked */
+  readonly revocationReason: string | null;
+
+  readonly createdAt: Date;
+  readonly updatedAt: Date;
+  readonly version: number;
+}
+
+/**
+ * Direct debit collection that was refused and returned to the creditor
+ */
+export interface DirectDebitReturn {
+  /** Unique returned item identifier */
+  readonly id: string;
+
+  /** Mandate the collection was presented under (null if none was found) */
+  readonly mandateId: string | null;
+
+  /** Mandate reference quoted by the creditor */
+  readonly mandateReference: string;
+
+  /** Creditor that presented the collection */
+  readonly creditorId: string;
+
+  /** Account the collection was presented against (null if unknown) */
+  readonly debtorAccountId: string | null;
+
+  /** Amount presented */
+  readonly amount: Money;
+
+  /** Creditor's reference for the collection */
+  readonly collectionReference: string;
+
+  /** Return reason code */
+  readonly reasonCode: DirectDebitReturnReason;
+
+  /** Human-readable return reason */
+  readonly reason: string;
+
+  readonly createdAt: Date;
+}
+
+/**
+ * Standing order
+ * A customer's instruction to transfer a fixed amount on a recurring schedule
+ */
+export interface StandingOrder {
+  /** Unique standing order identifier */
+  readonly id: string;
+
+  /** Account paid from */
+  readonly sourceAccountId: string;
+
+  /** Account paid to */
+  readonly destinationAccountId: string;
+
+  /** Amount of each instalment, in the source account currency */
+  readonly amount: Money;
+
+  /** How often an instalment falls due */
+  readonly frequency: StandingOrderFrequency;
+
+  /** Business date of the first instalment */
+  readonly startDate: Date;
+
+  /** No instalments fall due after this date */
+  readonly endDate: Date | null;
+
+  /** Number of instalments scheduled */
+  readonly maxExecutions: number | null;
+
+  /** Reference carried by every transfer */
+  readonly reference: string;
+
+  readonly description: string;
+
+  /** Lifecycle status */
+  readonly status: StandingOrderStatus;
+
+  /** Zero-based number of the next instalment */
+  readonly nextInstalment: number;
+
+  /** Business date the next instalment falls due (null once completed or cancelled) */
+  readonly nextExecutionDate: Date | null;
+
+  /** Failed attempts at the next instalment */
+  readonly failedAttempts: number;
+
+  /** Instalments paid */
+  readonly executionCount: number;
+
+  readonly createdAt: Date;
+  readonly updatedAt: Date;
+  readonly version: number;
+}
+
+/**
+ * One attempt to execute a standing order instalment
+ */
+export interface StandingOrderExecution {
+  /** Unique execution identifier */
+  readonly id: string;
+
+  readonly standingOrderId: string;
+
+  /** Zero-based instalment number */
+  readonly instalment: number;
+
+  /** Business date the instalment fell due */
+  readonly dueDate: Date;
+
+  /** Business date of the scheduler run that made the attempt */
+  readonly runDate: Date;
+
+  /** Attempt number for this instalment, starting at 1 */
+  readonly attempt: number;
+
+  readonly status: StandingOrderExecutionStatus;
+
+  /** Transfer posted by the attempt */
+  readonly transactionId: string | null;
+
+  /** Why the transfer failed */
+  readonly failureReason: string | null;
+
+  readonly createdAt: Date;
+}
+
+/**
+ * Interest accrued on an account for one business day
+ */
+export interface InterestAccrual {
+  readonly accountId: string;
+
+  /** Business date the interest was earned on */
+  readonly accrualDate: Date;
+
+  /** End-of-day balance interest was calculated on */
+  readonly balance: Money;
+
+  /** Annual rate applied */
+  readonly annualRate: number;
+
+  /** Interest earned, unrounded */
+  readonly amount: number;
+
+  /** INTEREST transaction that paid the accrual (null until capitalised) */
+  readonly capitalisationTransactionId: string | null;
+
+  readonly createdAt: Date;
+}
+
+/**
+ * Overdraft interest charged on an account for one business day
+ */
+export interface OverdraftInterestAccrual {
+  readonly accountId: string;
+
+  /** Business date the account was overdrawn on */
+  readonly accrualDate: Date;
+
+  /** Overdraft used at the close of the day */
+  readonly overdraftUsage: Money;
+
+  /** Annual rate applied */
+  readonly annualRate: number;
+
+  /** Interest owed, unrounded */
+  readonly amount: number;
+
+  /** INTEREST transaction that charged the accrual (null until charged) */
+  readonly chargeTransactionId: string | null;
+
+  readonly createdAt: Date;
+}
+
+/**
+ * Record of an account's monthly fee billing for one period
+ */
+export interface BillingSummary {
+  readonly accountId: string;
+
+  /** Billing period (YYYY-MM) */
+  readonly period: string;
+
+  readonly productId: string;
+
+  /** Lowest end-of-day balance in the period */
+  readonly lowestBalance: Money;
+
+  /** Customer postings made in the period */
+  readonly transactionCount: number;
+
+  /** Maintenance fee charged (0 when waived) */
+  readonly maintenanceFee: number;
+
+  /** Minimum balance fee charged */
+  readonly minimumBalanceFee: number;
+
+  /** Waiver conditions that were met */
+  readonly waivers: string[];
+
+  /** Total fees due */
+  readonly total: Money;
+
+  readonly outcome: BillingOutcome;
+
+  /** FEE transaction posted for the period */
+  readonly feeTransactionId: string | null;
+
+  readonly createdAt: Date;
+}
+
+/**
+ * Audit log entry
+ * Who did what to an entity, and when
+ */
+export interface AuditEntry {
+  readonly id: string;
+
+  /** Kind of entity acted on (e.g. Account) */
+  readonly entityType: string;
+
+  readonly entityId: string;
+
+  /** What was done (e.g. STATUS_CHANGED, MARKED_DORMANT) */
+  readonly action: string;
+
+  /** Staff member, customer or process that acted */
+  readonly actor: string;
+
+  /** Field changes as from/to pairs */
+  readonly changes: Record<string, { from: unknown; to: unknown }>;
+
+  /** Supporting detail */
+  readonly metadata: Record<string, unknown>;
+
+  readonly createdAt: Date;
+}
+
+/**
+ * Authorisation hold
+ * Funds reserved against an account's available balance until they are
+ * captured, voided or the hold expires
+ */
+export interface Authorization {
+  /** Unique authorisation identifier */
+  readonly id: string;
+
+  /** Account the funds are held on */
+  readonly accountId: string;
+
+  /** Amount held */
+  readonly amount: Money;
+
+  /** Amount debited on capture (null until captured) */
+  readonly capturedAmount: Money | null;
+
+  readonly status: AuthorizationStatus;
+
+  /** Approval code returned to the merchant */
+  readonly authorizationCode: string;
+
+  /** The hold is released if not captured by this time */
+  readonly expiresAt: Date;
+
+  /** Merchant or caller reference */
+  readonly reference: string;
+
+  readonly description: string;
+
+  /** Caller that requested the authorisation */
+  readonly initiatedBy: string;
+
+  /** Transaction posted by the capture */
+  readonly captureTransactionId: string | null;
+
+  /** When the authorisation was captured, voided or expired */
+  readonly resolvedAt: Date | null;
+
+  readonly createdAt: Date;
+  readonly updatedAt: Date;
+  readonly version: number;
+}
+
+/**
+ * Customer information file record
+ * An individual or business the bank has a relationship with; accounts refer to
+ * it through their CustomerId
+ */
+export interface Customer {
+  /** Unique customer identifier (the CustomerId value on accounts) */
+  readonly id: string;
+
+  readonly type: 'INDIVIDUAL' | 'BUSINESS';
+
+  readonly status: CustomerStatus;
+
+  /** Individual's given name (null for businesses) */
+  readonly firstName: string | null;
+
+  /** Individual's family name (null for businesses) */
+  readonly lastName: string | null;
+
+  /** Individual's date of birth (null for businesses) */
+  readonly dateOfBirth: Date | null;
+
+  /** Business's registered name (null for individuals) */
+  readonly legalName: string | null;
+
+  /** Business's company registration number (null for individuals) */
+  readonly registrationNumber: string | null;
+
+  readonly address: PostalAddress;
+
+  readonly contact: ContactDetails;
+
+  /** When the customer's identity was verified */
+  readonly verifiedAt: Date | null;
+
+  /** Staff member who verified the customer's identity */
+  readonly verifiedBy: string | null;
+
+  readonly createdAt: Date;
+  readonly updatedAt: Date;
+  readonly version: number;
+}
+
+/**
+ * Idempotency record
+ * Remembers the outcome of a request so a retry with the same key replays it
+ */
+export interface IdempotencyRecord {
+  /** Client-supplied idempotency key */
+  readonly key: string;
+
+  /** Operation the key was used for (e.g. TRANSFER) */
+  readonly operation: string;
+
+  /** Caller that supplied the key */
+  readonly callerId: string;
+
+  /** Hash of the request payload the key was first used with */
+  readonly requestHash: string;
+
+  /** Transaction produced by the original request */
+  readonly transactionId: string;
+
+  /** When the key was first used */
+  readonly createdAt: Date;
+
+  /** When the key stops being honoured and may be purged */
+  readonly expiresAt: Date;
+}
+
 // ============================================================================
 // Domain Events
 // ============================================================================
@@ -534,6 +1152,62 @@ export interface BalanceUpdatedEvent extends DomainEvent {
   readonly reason: string;
 }
 
+/**
+ * Account status changed event
+ */
+export interface AccountStatusChangedEvent extends DomainEvent {
+  readonly eventType: 'ACCOUNT_STATUS_CHANGED';
+  readonly accountId: string;
+  readonly previousStatus: AccountStatus;
+  readonly newStatus: AccountStatus;
+  readonly reason: string | null;
+}
+
+/**
+ * Outbox message delivery status
+ */
+export enum OutboxStatus {
+  /** Written with the state change, not yet relayed to subscribers */
+  PENDING = 'PENDING',
+  /** Relayed to every subscriber */
+  DISPATCHED = 'DISPATCHED',
+  /** Given up on after the maximum relay attempts; left for an operator */
+  DEAD_LETTER = 'DEAD_LETTER'
+}
+
+/**
+ * Outbox message
+ * A domain event persisted in the same unit of work as the state change it describes
+ */
+export interface OutboxMessage {
+  /** Event identifier (deduplication key) */
+  readonly eventId: string;
+
+  /** Monotonic sequence for ordered relay */
+  readonly sequence: number;
+
+  /** The event payload */
+  readonly event: DomainEvent;
+
+  /** Delivery status */
+  readonly status: OutboxStatus;
+
+  /** Subscribers that have handled the event; a retry skips them */
+  readonly handledBy: string[];
+
+  /** Number of relay attempts so far */
+  readonly attempts: number;
+
+  /** When the message was written */
+  readonly createdAt: Date;
+
+  /** When the message was relayed (null while pending) */
+  readonly dispatchedAt: Date | null;
+
+  /** Last relay failure (null if none) */
+  readonly lastError: string | null;
+}
+
 // ============================================================================
 // Validation
 // ============================================================================
@@ -556,7 +1230,9 @@ export interface ValidationResult {
 export interface AccountRepository {
   findById(id: string): Promise<Account | null>;
   findByAccountNumber(accountNumber: AccountNumber): Promise<Account | null>;
+  findByIban(iban: string): Promise<Account | null>;
   findByCustomerId(customerId: CustomerId): Promise<Account[]>;
+  findAll(): Promise<Account[]>;
   save(account: Account): Promise<void>;
   delete(id: string): Promise<void>;
 }
@@ -568,6 +1244,7 @@ export interface TransactionRepository {
   findById(id: string): Promise<Transaction | null>;
   findByAccountId(accountId: string, limit?: number): Promise<Transaction[]>;
   findByDateRange(accountId: string, startDate: Date, endDate: Date): Promise<Transaction[]>;
+  findByStatus(status: TransactionStatus): Promise<Transaction[]>;
   save(transaction: Transaction): Promise<void>;
 }
 
@@ -598,5 +1275,131 @@ export interface ProductRepository {
   findById(id: string): Promise<ProductConfiguration | null>;
   findByType(type: ProductType): Promise<ProductConfiguration[]>;
   findActive(): Promise<ProductConfiguration[]>;
+  findAll(): Promise<ProductConfiguration[]>;
   save(product: ProductConfiguration): Promise<void>;
 }
+
+/**
+ * Idempotency key repository interface
+ * Keys are scoped by operation and caller
+ */
+export interface IdempotencyKeyRepository {
+  find(operation: string, callerId: string, key: string): Promise<IdempotencyRecord | null>;
+  save(record: IdempotencyRecord): Promise<void>;
+  deleteExpired(asOf: Date): Promise<number>;
+}
+
+/**
+ * Direct debit mandate repository interface
+ */
+export interface MandateRepository {
+  findById(id: string): Promise<DirectDebitMandate | null>;
+  findByReference(creditorId: string, mandateReference: string): Promise<DirectDebitMandate | null>;
+  findByDebtorAccountId(accountId: string): Promise<DirectDebitMandate[]>;
+  save(mandate: DirectDebitMandate): Promise<void>;
+}
+
+/**
+ * Returned direct debit repository interface
+ */
+export interface DirectDebitReturnRepository {
+  findById(id: string): Promise<DirectDebitReturn | null>;
+  findByDebtorAccountId(accountId: string): Promise<DirectDebitReturn[]>;
+  findByCreditorId(creditorId: string): Promise<DirectDebitReturn[]>;
+  save(item: DirectDebitReturn): Promise<void>;
+}
+
+/**
+ * Standing order repository interface
+ */
+export interface StandingOrderRepository {
+  findById(id: string): Promise<StandingOrder | null>;
+  findBySourceAccountId(accountId: string): Promise<StandingOrder[]>;
+  findDue(businessDate: Date): Promise<StandingOrder[]>;
+  save(order: StandingOrder): Promise<void>;
+}
+
+/**
+ * Standing order execution history repository interface
+ */
+export interface StandingOrderExecutionRepository {
+  findByStandingOrderId(standingOrderId: string): Promise<StandingOrderExecution[]>;
+  save(execution: StandingOrderExecution): Promise<void>;
+}
+
+/**
+ * Interest accrual repository interface
+ * Holds at most one accrual per account per business date
+ */
+export interface InterestAccrualRepository {
+  find(accountId: string, accrualDate: Date): Promise<InterestAccrual | null>;
+  findByAccountId(accountId: string): Promise<InterestAccrual[]>;
+  save(accrual: InterestAccrual): Promise<void>;
+}
+
+/**
+ * Overdraft interest accrual repository interface
+ * Holds at most one accrual per account per business date
+ */
+export interface OverdraftInterestAccrualRepository {
+  find(accountId: string, accrualDate: Date): Promise<OverdraftInterestAccrual | null>;
+  findByAccountId(accountId: string): Promise<OverdraftInterestAccrual[]>;
+  save(accrual: OverdraftInterestAccrual): Promise<void>;
+}
+
+/**
+ * Billing summary repository interface
+ * Holds at most one summary per account per period
+ */
+export interface BillingSummaryRepository {
+  find(accountId: string, period: string): Promise<BillingSummary | null>;
+  findByPeriod(period: string): Promise<BillingSummary[]>;
+  save(summary: BillingSummary): Promise<void>;
+}
+
+/**
+ * Audit log repository interface
+ * Append-only; entries are returned oldest first
+ */
+export interface AuditLogRepository {
+  findByEntity(entityType: string, entityId: string): Promise<AuditEntry[]>;
+  save(entry: AuditEntry): Promise<void>;
+}
+
+/**
+ * Authorisation hold repository interface
+ */
+export interface AuthorizationRepository {
+  findById(id: string): Promise<Authorization | null>;
+  findByAccountId(accountId: string): Promise<Authorization[]>;
+  findExpired(asOf: Date): Promise<Authorization[]>;
+  save(authorization: Authorization): Promise<void>;
+}
+
+/**
+ * Customer information file repository interface
+ */
+export interface CustomerRepository {
+  findById(id: string): Promise<Customer | null>;
+  findAll(): Promise<Customer[]>;
+  save(customer: Customer): Promise<void>;
+  delete(id: string): Promise<void>;
+}
+
+/**
+ * Outbox repository interface
+ */
+export interface OutboxRepository {
+  findById(eventId: string): Promise<OutboxMessage | null>;
+  findPending(limit?: number): Promise<OutboxMessage[]>;
+  save(message: OutboxMessage): Promise<void>;
+  /** Delete messages dispatched before a time; returns how many were deleted */
+  deleteDispatched(before: Date): Promise<number>;
+}
+
+/**
+ * Sequence repository interface (monotonic counters, e.g. account numbers)
+ */
+export interface SequenceRepository {
+  next(name: string, initialValue: number): Promise<number>;
+}
@@ -14,6 +14,18 @@ import {
   Money,
   Currency,
   Balance,
+  PaymentBeneficiary,
+  DirectDebitMandate,
+  MandateStatus,
+  MandateType,
+  StandingOrder,
+  StandingOrderFrequency,
+  Authorization,
+  Customer,
+  CustomerStatus,
+  AccountHolder,
+  AccountHolderRole,
+  SigningRule,
 } from './domain';
 import {
   ValidationError,
@@ -24,6 +36,7 @@ import {
   CurrencyMismatchError,
   TransactionLimitExceededError,
 } from '../utils/errors';
+import { isValidIban } from '../utils/iban';
 
 /**
  * Validation result with optional error details
@@ -47,6 +60,29 @@ export function invalidResult(...errors: ValidationError[]): ValidationResult {
   return { isValid: false, errors };
 }
 
+/**
+ * Outgoing payment field rules (SEPA credit transfer limits)
+ */
+const MAX_BENEFICIARY_NAME_LENGTH = 70;
+const MAX_REMITTANCE_LENGTH = 140;
+const BIC_FORMAT = /^[A-Z]{4}[A-Z]{2}[A-Z0-9]{2}([A-Z0-9]{3})?$/;
+
+/**
+ * Direct debit mandate field rules (SEPA core scheme limits)
+ */
+const MAX_MANDATE_REFERENCE_LENGTH = 35;
+const MAX_CREDITOR_ID_LENGTH = 35;
+const MANDATE_REFERENCE_FORMAT = /^[A-Za-z0-9+?/\-:().,' ]+$/;
+
+/**
+ * Customer information file field rules
+ */
+const MAX_CUSTOMER_NAME_LENGTH = 140;
+const MAX_ADDRESS_LINE_LENGTH = 70;
+const COUNTRY_CODE_FORMAT = /^[A-Z]{2}$/;
+const EMAIL_FORMAT = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const PHONE_FORMAT = /^\+[1-9][0-9]{6,14}$/;
+
 /**
  * Account validator
  */
@@ -82,7 +118,9 @@ export class AccountValidator {
   static canSendTransaction(account: Account): ValidationResult {
     const errors: ValidationError[] = [];
 
-    if (account.status !== AccountStatus.ACTIVE) {
+    if (account.status === AccountStatus.DORMANT) {
+      errors.push(new ValidationError('status', 'Account is dormant and must be reactivated before outgoing transactions'));
+    } else if (account.status !== AccountStatus.ACTIVE) {
       errors.push(new ValidationError('status', `Account status ${account.status} does not allow outgoing transactions`));
     }
 
@@ -113,6 +151,39 @@ export class AccountValidator {
     return validResult();
   }
 
+  /**
+   * Validate an account's holders against its signing rule: one primary holder,
+   * no customer listed twice, and enough holders to sign
+   */
+  static validateHolders(holders: readonly AccountHolder[], signingRule: SigningRule): ValidationResult {
+    const errors: ValidationError[] = [];
+
+    if (holders.filter((h) => h.role === AccountHolderRole.PRIMARY).length !== 1) {
+      errors.push(new ValidationError('holders', 'An account must have exactly one primary holder'));
+    }
+
+    const unknownRole = holders.find((h) => !Object.values(AccountHolderRole).includes(h.role));
+    if (unknownRole) {
+      errors.push(new ValidationError('holders', `Unknown holder role ${unknownRole.role}`));
+    }
+
+    const customerIds = holders.map((h) => h.customerId);
+    const duplicate = customerIds.find((id, index) => customerIds.indexOf(id) !== index);
+    if (duplicate) {
+      errors.push(new ValidationError('holders', `${duplicate} already holds the account`));
+    }
+
+    if (!Object.values(SigningRule).includes(signingRule)) {
+      errors.push(new ValidationError('signingRule', `Unknown signing rule ${signingRule}`));
+    } else if (signingRule === SigningRule.TWO_TOGETHER && holders.length < 2) {
+      errors.push(
+        new ValidationError('signingRule', 'Two-together signing needs at least two holders')
+      );
+    }
+
+    return errors.length === 0 ? validResult() : invalidResult(...errors);
+  }
+
   /**
    * Validate account closure requirements
    */
@@ -234,12 +305,14 @@ export class TransactionValidator {
 
   /**
    * Validate transfer transaction
+   * (cross-currency transfers pass the converted amount credited to the destination)
    */
   static validateTransfer(
     sourceAccount: Account,
     destinationAccount: Account,
     amount: Money,
-    sourceBalance: Balance
+    sourceBalance: Balance,
+    destinationAmount: Money = amount
   ): ValidationResult {
     const errors: ValidationError[] = [];
 
@@ -266,7 +339,7 @@ export class TransactionValidator {
       errors.push(new ValidationError('currency', 'Transaction currency does not match source account'));
     }
 
-    if (destinationAccount.currency !== amount.currency) {
+    if (destinationAccount.currency !== destinationAmount.currency) {
       errors.push(new ValidationError('currency', 'Transaction currency does not match destination account'));
     }
 
@@ -356,6 +429,73 @@ export class TransactionValidator {
     return errors.length === 0 ? validResult() : invalidResult(...errors);
   }
 
+  /**
+   * Validate outgoing payment
+   */
+  static validatePayment(
+    account: Account,
+    amount: Money,
+    balance: Balance,
+    beneficiary: PaymentBeneficiary,
+    remittanceInformation: string | null
+  ): ValidationResult {
+    const errors: ValidationError[] = [];
+
+    // Same account, amount and funds rules as a withdrawal
+    const debitResult = this.validateWithdrawal(account, amount, balance);
+    if (!debitResult.isValid) {
+      errors.push(...debitResult.errors);
+    }
+
+    const beneficiaryResult = this.validateBeneficiary(beneficiary);
+    if (!beneficiaryResult.isValid) {
+      errors.push(...beneficiaryResult.errors);
+    }
+
+    if (remittanceInformation && remittanceInformation.length > MAX_REMITTANCE_LENGTH) {
+      errors.push(
+        new ValidationError(
+          'remittanceInformation',
+          `Remittance information cannot exceed ${MAX_REMITTANCE_LENGTH} characters`
+        )
+      );
+    }
+
+    return errors.length === 0 ? validResult() : invalidResult(...errors);
+  }
+
+  /**
+   * Validate payment beneficiary details
+   */
+  static validateBeneficiary(beneficiary: PaymentBeneficiary): ValidationResult {
+    const errors: ValidationError[] = [];
+
+    if (!beneficiary.name || beneficiary.name.trim().length === 0) {
+      errors.push(new ValidationError('beneficiaryName', 'Beneficiary name is required'));
+    } else if (beneficiary.name.length > MAX_BENEFICIARY_NAME_LENGTH) {
+      errors.push(
+        new ValidationError(
+          'beneficiaryName',
+          `Beneficiary name cannot exceed ${MAX_BENEFICIARY_NAME_LENGTH} characters`
+        )
+      );
+    }
+
+    if (!beneficiary.iban && !beneficiary.accountNumber) {
+      errors.push(new ValidationError('beneficiaryAccount', 'Beneficiary IBAN or account number is required'));
+    }
+
+    if (beneficiary.iban && !isValidIban(beneficiary.iban)) {
+      errors.push(new ValidationError('beneficiaryIban', 'Beneficiary IBAN is not well formed'));
+    }
+
+    if (beneficiary.bic && !BIC_FORMAT.test(beneficiary.bic)) {
+      errors.push(new ValidationError('beneficiaryBic', 'Beneficiary BIC is not well formed'));
+    }
+
+    return errors.length === 0 ? validResult() : invalidResult(...errors);
+  }
+
   /**
    * Validate transaction status transition
    */
@@ -428,6 +568,364 @@ export class TransactionValidator {
   }
 }
 
+/**
+ * Direct debit mandate validator
+ */
+export class MandateValidator {
+  /**
+   * Validate the details of a new mandate
+   */
+  static validateMandate(
+    mandate: Pick<
+      DirectDebitMandate,
+      'mandateReference' | 'creditorId' | 'creditorName' | 'type' | 'signatureDate'
+    >,
+    asOf: Date = new Date()
+  ): ValidationResult {
+    const errors: ValidationError[] = [];
+
+    if (!mandate.mandateReference) {
+      errors.push(new ValidationError('mandateReference', 'Mandate reference is required'));
+    } else if (mandate.mandateReference.length > MAX_MANDATE_REFERENCE_LENGTH) {
+      errors.push(
+        new ValidationError(
+          'mandateReference',
+          `Mandate reference cannot exceed ${MAX_MANDATE_REFERENCE_LENGTH} characters`
+        )
+      );
+    } else if (!MANDATE_REFERENCE_FORMAT.test(mandate.mandateReference)) {
+      errors.push(new ValidationError('mandateReference', 'Mandate reference contains invalid characters'));
+    }
+
+    if (!mandate.creditorId) {
+      errors.push(new ValidationError('creditorId', 'Creditor identifier is required'));
+    } else if (mandate.creditorId.length > MAX_CREDITOR_ID_LENGTH) {
+      errors.push(
+        new ValidationError(
+          'creditorId',
+          `Creditor identifier cannot exceed ${MAX_CREDITOR_ID_LENGTH} characters`
+        )
+      );
+    }
+
+    if (!mandate.creditorName) {
+      errors.push(new ValidationError('creditorName', 'Creditor name is required'));
+    } else if (mandate.creditorName.length > MAX_BENEFICIARY_NAME_LENGTH) {
+      errors.push(
+        new ValidationError(
+          'creditorName',
+          `Creditor name cannot exceed ${MAX_BENEFICIARY_NAME_LENGTH} characters`
+        )
+      );
+    }
+
+    if (!Object.values(MandateType).includes(mandate.type)) {
+      errors.push(new ValidationError('type', `Unknown mandate type ${mandate.type}`));
+    }
+
+    if (!(mandate.signatureDate instanceof Date) || isNaN(mandate.signatureDate.getTime())) {
+      errors.push(new ValidationError('signatureDate', 'Signature date is required'));
+    } else if (mandate.signatureDate.getTime() > asOf.getTime()) {
+      errors.push(new ValidationError('signatureDate', 'Signature date cannot be in the future'));
+    }
+
+    return errors.length === 0 ? validResult() : invalidResult(...errors);
+  }
+
+  /**
+   * Validate a mandate authorises a collection from the given account
+   */
+  static canCollect(
+    mandate: DirectDebitMandate,
+    debtorAccountId: string,
+    asOf: Date = new Date()
+  ): ValidationResult {
+    const errors: ValidationError[] = [];
+
+    if (mandate.status !== MandateStatus.ACTIVE) {
+      errors.push(new ValidationError('mandate', `Mandate is ${mandate.status}`));
+    }
+
+    if (mandate.debtorAccountId !== debtorAccountId) {
+      errors.push(new ValidationError('mandate', 'Mandate does not cover this account'));
+    }
+
+    if (mandate.signatureDate.getTime() > asOf.getTime()) {
+      errors.push(new ValidationError('mandate', 'Mandate was not signed before the collection date'));
+    }
+
+    return errors.length === 0 ? validResult() : invalidResult(...errors);
+  }
+}
+
+/**
+ * Standing order validator
+ */
+export class StandingOrderValidator {
+  /**
+   * Validate a new standing order
+   */
+  static validateStandingOrder(
+    source: Account,
+    destination: Account,
+    order: Pick<StandingOrder, 'amount' | 'frequency' | 'startDate' | 'endDate' | 'maxExecutions'>
+  ): ValidationResult {
+    const errors: ValidationError[] = [];
+
+    if (source.id === destination.id) {
+      errors.push(new ValidationError('destinationAccountId', 'Cannot pay a standing order to the same account'));
+    }
+
+    const sourceResult = AccountValidator.canSendTransaction(source);
+    if (!sourceResult.isValid) {
+      errors.push(...sourceResult.errors);
+    }
+
+    const destResult = AccountValidator.canReceiveTransaction(destination);
+    if (!destResult.isValid) {
+      errors.push(...destResult.errors);
+    }
+
+    const amountResult = TransactionValidator.validateAmount(order.amount);
+    if (!amountResult.isValid) {
+      errors.push(...amountResult.errors);
+    }
+
+    const currencyResult = TransactionValidator.validateCurrency(order.amount.currency, source.currency);
+    if (!currencyResult.isValid) {
+      errors.push(...currencyResult.errors);
+    }
+
+    if (!Object.values(StandingOrderFrequency).includes(order.frequency)) {
+      errors.push(new ValidationError('frequency', `Unknown frequency ${order.frequency}`));
+    }
+
+    if (!(order.startDate instanceof Date) || isNaN(order.startDate.getTime())) {
+      errors.push(new ValidationError('startDate', 'Start date is required'));
+    } else if (order.endDate !== null && order.endDate < order.startDate) {
+      errors.push(new ValidationError('endDate', 'End date cannot be before the start date'));
+    }
+
+    if (
+      order.maxExecutions !== null &&
+      (!Number.isInteger(order.maxExecutions) || order.maxExecutions < 1)
+    ) {
+      errors.push(new ValidationError('maxExecutions', 'Execution count must be a positive whole number'));
+    }
+
+    return errors.length === 0 ? validResult() : invalidResult(...errors);
+  }
+}
+
+/**
+ * Authorisation hold validator
+ */
+export class AuthorizationValidator {
+  /**
+   * Validate a new hold; the account must be able to pay the amount now
+   */
+  static validateAuthorization(
+    account: Account,
+    amount: Money,
+    balance: Balance,
+    expiresAt: Date,
+    now: Date
+  ): ValidationResult {
+    const errors: ValidationError[] = [];
+
+    const withdrawalResult = TransactionValidator.validateWithdrawal(account, amount, balance);
+    if (!withdrawalResult.isValid) {
+      errors.push(...withdrawalResult.errors);
+    }
+
+    if (!(expiresAt instanceof Date) || isNaN(expiresAt.getTime())) {
+      errors.push(new ValidationError('expiresAt', 'Expiry time is required'));
+    } else if (expiresAt <= now) {
+      errors.push(new ValidationError('expiresAt', 'Expiry time must be in the future'));
+    }
+
+    return errors.length === 0 ? validResult() : invalidResult(...errors);
+  }
+
+  /**
+   * Validate a capture against the amount held
+   */
+  static validateCapture(authorization: Authorization, amount: Money): ValidationResult {
+    const errors: ValidationError[] = [];
+
+    const amountResult = TransactionValidator.validateAmount(amount);
+    if (!amountResult.isValid) {
+      errors.push(...amountResult.errors);
+    }
+
+    const currencyResult = TransactionValidator.validateCurrency(
+      amount.currency,
+      authorization.amount.currency
+    );
+    if (!currencyResult.isValid) {
+      errors.push(...currencyResult.errors);
+    }
+
+    if (amount.amount > authorization.amount.amount) {
+      errors.push(
+        new ValidationError(
+          'amount',
+          `Capture of ${amount.amount} exceeds the authorised ${authorization.amount.amount}`
+        )
+      );
+    }
+
+    return errors.length === 0 ? validResult() : invalidResult(...errors);
+  }
+}
+
+/**
+ * Customer information file validator
+ */
+export class CustomerValidator {
+  /**
+   * Validate a customer's details: individuals need names and a date of birth,
+   * businesses a legal name and registration number
+   */
+  static validateCustomer(
+    customer: Pick<
+      Customer,
+      | 'type'
+      | 'firstName'
+      | 'lastName'
+      | 'dateOfBirth'
+      | 'legalName'
+      | 'registrationNumber'
+      | 'address'
+      | 'contact'
+    >,
+    asOf: Date = new Date()
+  ): ValidationResult {
+    const errors: ValidationError[] = [];
+
+    if (customer.type === 'INDIVIDUAL') {
+      const names: Array<['firstName' | 'lastName', string]> = [
+        ['firstName', 'First name'],
+        ['lastName', 'Last name'],
+      ];
+      for (const [field, label] of names) {
+        const name = customer[field];
+        if (!name) {
+          errors.push(new ValidationError(field, `${label} is required`));
+        } else if (name.length > MAX_CUSTOMER_NAME_LENGTH) {
+          errors.push(
+            new ValidationError(field, `${label} cannot exceed ${MAX_CUSTOMER_NAME_LENGTH} characters`)
+          );
+        }
+      }
+
+      if (!(customer.dateOfBirth instanceof Date) || isNaN(customer.dateOfBirth.getTime())) {
+        errors.push(new ValidationError('dateOfBirth', 'Date of birth is required'));
+      } else if (customer.dateOfBirth.getTime() >= asOf.getTime()) {
+        errors.push(new ValidationError('dateOfBirth', 'Date of birth must be in the past'));
+      }
+
+      if (customer.legalName !== null || customer.registrationNumber !== null) {
+        errors.push(
+          new ValidationError('type', 'Legal name and registration number apply to businesses only')
+        );
+      }
+    } else if (customer.type === 'BUSINESS') {
+      if (!customer.legalName) {
+        errors.push(new ValidationError('legalName', 'Legal name is required'));
+      } else if (customer.legalName.length > MAX_CUSTOMER_NAME_LENGTH) {
+        errors.push(
+          new ValidationError(
+            'legalName',
+            `Legal name cannot exceed ${MAX_CUSTOMER_NAME_LENGTH} characters`
+          )
+        );
+      }
+
+      if (!customer.registrationNumber) {
+        errors.push(new ValidationError('registrationNumber', 'Registration number is required'));
+      }
+
+      if (customer.firstName !== null || customer.lastName !== null || customer.dateOfBirth !== null) {
+        errors.push(
+          new ValidationError('type', 'Personal names and date of birth apply to individuals only')
+        );
+      }
+    } else {
+      errors.push(new ValidationError('type', `Unknown customer type ${customer.type}`));
+    }
+
+    const address = customer.address;
+    if (!address) {
+      errors.push(new ValidationError('address', 'Address is required'));
+    } else {
+      if (!address.line1) {
+        errors.push(new ValidationError('address.line1', 'First address line is required'));
+      }
+      const lines: Array<[string, string | null]> = [
+        ['address.line1', address.line1],
+        ['address.line2', address.line2],
+      ];
+      for (const [field, line] of lines) {
+        if (line && line.length > MAX_ADDRESS_LINE_LENGTH) {
+          errors.push(
+            new ValidationError(
+              field,
+              `Address lines cannot exceed ${MAX_ADDRESS_LINE_LENGTH} characters`
+            )
+          );
+        }
+      }
+      if (!address.city) {
+        errors.push(new ValidationError('address.city', 'City is required'));
+      }
+      if (!address.postalCode) {
+        errors.push(new ValidationError('address.postalCode', 'Postal code is required'));
+      }
+      if (!COUNTRY_CODE_FORMAT.test(address.country ?? '')) {
+        errors.push(
+          new ValidationError('address.country', 'Country must be an ISO 3166-1 alpha-2 code')
+        );
+      }
+    }
+
+    const { email, phone } = customer.contact ?? { email: null, phone: null };
+    if (!email && !phone) {
+      errors.push(new ValidationError('contact', 'An email address or phone number is required'));
+    }
+    if (email && !EMAIL_FORMAT.test(email)) {
+      errors.push(new ValidationError('contact.email', `Invalid email address ${email}`));
+    }
+    if (phone && !PHONE_FORMAT.test(phone)) {
+      errors.push(
+        new ValidationError('contact.phone', 'Phone number must be in E.164 format, e.g. +14155550123')
+      );
+    }
+
+    return errors.length === 0 ? validResult() : invalidResult(...errors);
+  }
+
+  /**
+   * Validate customer status transition
+   */
+  static canTransitionTo(customer: Customer, targetStatus: CustomerStatus): ValidationResult {
+    const allowedTransitions: Record<CustomerStatus, CustomerStatus[]> = {
+      [CustomerStatus.PENDING_VERIFICATION]: [CustomerStatus.VERIFIED, CustomerStatus.CLOSED],
+      [CustomerStatus.VERIFIED]: [CustomerStatus.SUSPENDED, CustomerStatus.CLOSED],
+      [CustomerStatus.SUSPENDED]: [CustomerStatus.VERIFIED, CustomerStatus.CLOSED],
+      [CustomerStatus.CLOSED]: [], // No transitions from closed
+    };
+
+    if (!allowedTransitions[customer.status].includes(targetStatus)) {
+      return invalidResult(
+        new ValidationError('status', `Cannot transition from ${customer.status} to ${targetStatus}`)
+      );
+    }
+
+    return validResult();
+  }
+}
+
 /**
  * Product validator
  */
@@ -448,6 +946,16 @@ export class ProductValidator {
       }
     }
 
+    if (
+      config.overdraftInterestRate !== undefined &&
+      config.overdraftInterestRate !== null &&
+      (config.overdraftInterestRate < 0 || config.overdraftInterestRate > 1)
+    ) {
+      errors.push(
+        new ValidationError('overdraftInterestRate', 'Overdraft interest rate must be between 0 and 1')
+      );
+    }
+
     if (config.minimumBalance && config.minimumBalance.amount < 0) {
       errors.push(new ValidationError('minimumBalance', 'Minimum balance cannot be negative'));
     }
@@ -0,0 +1,79 @@
+/**
+ * Account Holders
+ * Who holds an account, in which role, and whose signatures its outgoing
+ * transactions need
+ */
+
+import { Account, AccountHolder, AccountHolderRole, CustomerId, SigningRule } from '../core/domain';
+import { BankingError, SigningRuleNotMetError, UnauthorizedSignatoryError } from '../utils/errors';
+
+/**
+ * Holders of an account, primary holder first. Accounts opened before joint
+ * holding have no holder list; their customer is the sole primary holder.
+ */
+export function accountHolders(account: Account): readonly AccountHolder[] {
+  if (account.holders?.length) {
+    return account.holders;
+  }
+  return [
+    {
+      customerId: account.customerId.value,
+      role: AccountHolderRole.PRIMARY,
+      addedAt: account.createdAt,
+    },
+  ];
+}
+
+/**
+ * Whether a customer holds an account in any role
+ */
+export function holdsAccount(account: Account, customerId: string): boolean {
+  return accountHolders(account).some((h) => h.customerId === customerId);
+}
+
+/**
+ * Owner type of an account: JOINT while it has a secondary holder, otherwise
+ * the primary holder's own type
+ */
+export function ownerType(
+  holders: readonly AccountHolder[],
+  primaryType: CustomerId['type']
+): CustomerId['type'] {
+  return holders.some((h) => h.role === AccountHolderRole.SECONDARY) ? 'JOINT' : primaryType;
+}
+
+/**
+ * Number of holder signatures a signing rule requires
+ */
+export function signaturesRequired(rule: SigningRule, holders: readonly AccountHolder[]): number {
+  switch (rule) {
+    case SigningRule.TWO_TOGETHER:
+      return 2;
+    case SigningRule.ALL_TOGETHER:
+      return holders.length;
+    default:
+      return 1;
+  }
+}
+
+/**
+ * Check the holders who signed an outgoing transaction against the account's
+ * signing rule; returns why it cannot go ahead, or null if it can. An unsigned
+ * transaction counts as signed by the one holder initiating it.
+ */
+export function checkSignatures(account: Account, signedBy: readonly string[]): BankingError | null {
+  const holders = accountHolders(account);
+  const signers = [...new Set(signedBy)];
+
+  const outsider = signers.find((id) => !holders.some((h) => h.customerId === id));
+  if (outsider) {
+    return new UnauthorizedSignatoryError(account.id, outsider);
+  }
+
+  const rule = account.signingRule ?? SigningRule.ANY_ONE;
+  const required = signaturesRequired(rule, holders);
+  if (Math.max(signers.length, 1) < required) {
+    return new SigningRuleNotMetError(account.id, rule, required, signers.length);
+  }
+  return null;
+}
@@ -0,0 +1,346 @@
+/**
+ * Customer Service
+ * Maintains the customer information file: registration, verification and status
+ */
+
+import { AccountStatus, Customer, CustomerStatus, PostalAddress } from '../core/domain';
+import { CustomerValidator } from '../core/validators';
+import { CustomerNotFoundError, CustomerHasAccountsError, ValidationError } from '../utils/errors';
+import { IdGenerator } from '../utils/id-generator';
+import { BankingRepositories } from '../persistence/repositories';
+import { Result, success, failure } from '../api/result';
+import { BankingContext } from '../api/banking-context';
+import { customerIdOf } from './customer';
+
+/**
+ * Postal address supplied with a customer; optional lines may be left out
+ */
+export interface CustomerAddress {
+  line1: string;
+  line2?: string;
+  city: string;
+  region?: string;
+  postalCode: string;
+  /** ISO 3166-1 alpha-2 country code */
+  country: string;
+}
+
+/**
+ * Customer registration in the customer information file
+ */
+export interface CreateCustomerRequest {
+  type: 'INDIVIDUAL' | 'BUSINESS';
+  /** Individuals only */
+  firstName?: string;
+  lastName?: string;
+  dateOfBirth?: Date;
+  /** Businesses only */
+  legalName?: string;
+  registrationNumber?: string;
+  address: CustomerAddress;
+  /** At least one of email and phone is required */
+  email?: string;
+  phone?: string;
+}
+
+/**
+ * Changes to a customer's details; fields left out are unchanged and an empty
+ * email or phone removes it
+ */
+export interface UpdateCustomerRequest {
+  firstName?: string;
+  lastName?: string;
+  legalName?: string;
+  address?: CustomerAddress;
+  email?: string;
+  phone?: string;
+}
+
+/**
+ * Trim a caller-supplied text field, treating a blank value as absent
+ */
+function optionalText(value: string | null | undefined): string | null {
+  return value?.trim() || null;
+}
+
+/**
+ * Normalise a caller-supplied address; the country code is upper-cased
+ */
+function postalAddress(address: Partial<CustomerAddress>): PostalAddress {
+  return {
+    line1: optionalText(address.line1) ?? '',
+    line2: optionalText(address.line2),
+    city: optionalText(address.city) ?? '',
+    region: optionalText(address.region),
+    postalCode: optionalText(address.postalCode)?.toUpperCase() ?? '',
+    country: optionalText(address.country)?.toUpperCase() ?? '',
+  };
+}
+
+/**
+ * The customers accounts are opened for. Every change is audited, and a
+ * customer is only removed once no account refers to them.
+ */
+export class CustomerService {
+  constructor(private readonly context: BankingContext) {}
+
+  /**
+   * Register a customer in the customer information file. New customers are
+   * PENDING_VERIFICATION until their identity is verified.
+   */
+  async createCustomer(request: CreateCustomerRequest): Promise<Result<Customer>> {
+    await this.context.ready;
+
+    const now = new Date();
+    const customer: Customer = {
+      id: IdGenerator.customerId(),
+      type: request.type,
+      status: CustomerStatus.PENDING_VERIFICATION,
+      firstName: optionalText(request.firstName),
+      lastName: optionalText(request.lastName),
+      dateOfBirth: request.dateOfBirth ?? null,
+      legalName: optionalText(request.legalName),
+      registrationNumber: optionalText(request.registrationNumber)?.toUpperCase() ?? null,
+      address: postalAddress(request.address ?? {}),
+      contact: {
+        email: optionalText(request.email)?.toLowerCase() ?? null,
+        phone: optionalText(request.phone),
+      },
+      verifiedAt: null,
+      verifiedBy: null,
+      createdAt: now,
+      updatedAt: now,
+      version: 1,
+    };
+
+    const validation = CustomerValidator.validateCustomer(customer, now);
+    if (!validation.isValid) {
+      return failure(validation.errors[0]!);
+    }
+
+    return this.context.inUnitOfWork(async (repos) => {
+      await repos.customers.save(customer);
+      return success(customer);
+    });
+  }
+
+  /**
+   * Get customer by ID
+   */
+  async getCustomer(customerId: string): Promise<Result<Customer>> {
+    await this.context.ready;
+
+    const customer = await this.context.repositories.customers.findById(customerId);
+    if (!customer) {
+      return failure(new CustomerNotFoundError(customerId));
+    }
+    return success(customer);
+  }
+
+  /**
+   * List customers, oldest first, optionally only those in one status
+   */
+  async listCustomers(status?: CustomerStatus): Promise<Result<Customer[]>> {
+    await this.context.ready;
+
+    const customers = await this.context.repositories.customers.findAll();
+    return success(status ? customers.filter((c) => c.status === status) : customers);
+  }
+
+  /**
+   * Change a customer's names, address or contact details. A customer's type,
+   * date of birth and registration number are fixed once registered.
+   */
+  async updateCustomer(
+    customerId: string,
+    request: UpdateCustomerRequest,
+    changedBy: string = 'BANKING_API'
+  ): Promise<Result<Customer>> {
+    await this.context.ready;
+
+    return this.context.inUnitOfWork(async (repos) => {
+      const customer = await repos.customers.findById(customerId);
+      if (!customer) {
+        return failure(new CustomerNotFoundError(customerId));
+      }
+      if (customer.status === CustomerStatus.CLOSED) {
+        return failure(new ValidationError('status', `Customer ${customerId} is closed`));
+      }
+
+      const merged = (value: string | undefined, current: string | null): string | null =>
+        value === undefined ? current : optionalText(value);
+      const updated: Customer = {
+        ...customer,
+        firstName: merged(request.firstName, customer.firstName),
+        lastName: merged(request.lastName, customer.lastName),
+        legalName: merged(request.legalName, customer.legalName),
+        address: request.address ? postalAddress(request.address) : customer.address,
+        contact: {
+          email: merged(request.email, customer.contact.email)?.toLowerCase() ?? null,
+          phone: merged(request.phone, customer.contact.phone),
+        },
+        updatedAt: new Date(),
+        version: customer.version + 1,
+      };
+
+      const validation = CustomerValidator.validateCustomer(updated, updated.updatedAt);
+      if (!validation.isValid) {
+        return failure(validation.errors[0]!);
+      }
+
+      const changes: Record<string, { from: unknown; to: unknown }> = {};
+      for (const field of ['firstName', 'lastName', 'legalName', 'address', 'contact'] as const) {
+        if (JSON.stringify(customer[field]) !== JSON.stringify(updated[field])) {
+          changes[field] = { from: customer[field], to: updated[field] };
+        }
+      }
+      if (Object.keys(changes).length === 0) {
+        return success(customer);
+      }
+
+      await repos.customers.save(updated);
+      await repos.auditLog.save({
+        id: IdGenerator.auditId(),
+        entityType: 'Customer',
+        entityId: customerId,
+        action: 'UPDATED',
+        actor: changedBy,
+        changes,
+        metadata: {},
+        createdAt: updated.updatedAt,
+      });
+
+      return success(updated);
+    });
+  }
+
+  /**
+   * Record that a customer's identity has been verified, allowing accounts to be
+   * opened for them
+   */
+  async verifyCustomer(customerId: string, verifiedBy: string): Promise<Result<Customer>> {
+    await this.context.ready;
+
+    const verifier = verifiedBy?.trim();
+    if (!verifier) {
+      return failure(new ValidationError('verifiedBy', 'Verification must be made by a named user'));
+    }
+
+    return this.context.inUnitOfWork(async (repos) => {
+      const customer = await repos.customers.findById(customerId);
+      if (!customer) {
+        return failure(new CustomerNotFoundError(customerId));
+      }
+      if (customer.status !== CustomerStatus.PENDING_VERIFICATION) {
+        return failure(
+          new ValidationError(
+            'status',
+            `Customer ${customerId} is ${customer.status}, not awaiting verification`
+          )
+        );
+      }
+
+      return this.changeCustomerStatus(repos, customer, CustomerStatus.VERIFIED, verifier, null);
+    });
+  }
+
+  /**
+   * Suspend, reinstate or close a customer. New customers become VERIFIED only
+   * through verifyCustomer, and a customer is closed only once all their
+   * accounts are closed.
+   */
+  async updateCustomerStatus(
+    customerId: string,
+    newStatus: CustomerStatus,
+    reason?: string,
+    changedBy: string = 'BANKING_API'
+  ): Promise<Result<Customer>> {
+    await this.context.ready;
+
+    return this.context.inUnitOfWork(async (repos) => {
+      const customer = await repos.customers.findById(customerId);
+      if (!customer) {
+        return failure(new CustomerNotFoundError(customerId));
+      }
+      if (
+        customer.status === CustomerStatus.PENDING_VERIFICATION &&
+        newStatus === CustomerStatus.VERIFIED
+      ) {
+        return failure(
+          new ValidationError('status', 'New customers must be verified with verifyCustomer')
+        );
+      }
+
+      const validation = CustomerValidator.canTransitionTo(customer, newStatus);
+      if (!validation.isValid) {
+        return failure(validation.errors[0]!);
+      }
+
+      if (newStatus === CustomerStatus.CLOSED) {
+        const accounts = await repos.accounts.findByCustomerId(customerIdOf(customer));
+        if (accounts.some((a) => a.status !== AccountStatus.CLOSED)) {
+          return failure(new CustomerHasAccountsError(customerId));
+        }
+      }
+
+      return this.changeCustomerStatus(repos, customer, newStatus, changedBy, reason ?? null);
+    });
+  }
+
+  /**
+   * Remove a customer registered in error. Customers that have held accounts
+   * must be closed instead, so their history is kept.
+   */
+  async deleteCustomer(customerId: string): Promise<Result<null>> {
+    await this.context.ready;
+
+    return this.context.inUnitOfWork(async (repos) => {
+      const customer = await repos.customers.findById(customerId);
+      if (!customer) {
+        return failure(new CustomerNotFoundError(customerId));
+      }
+      if ((await repos.accounts.findByCustomerId(customerIdOf(customer))).length > 0) {
+        return failure(new CustomerHasAccountsError(customerId));
+      }
+
+      await repos.customers.delete(customerId);
+      return success(null);
+    });
+  }
+
+  /**
+   * Change a customer's status, recording who changed it and why in the audit log
+   */
+  private async changeCustomerStatus(
+    repos: BankingRepositories,
+    customer: Customer,
+    newStatus: CustomerStatus,
+    actor: string,
+    reason: string | null
+  ): Promise<Result<Customer>> {
+    const now = new Date();
+    const verifying = newStatus === CustomerStatus.VERIFIED && customer.verifiedAt === null;
+    const updated: Customer = {
+      ...customer,
+      status: newStatus,
+      verifiedAt: verifying ? now : customer.verifiedAt,
+      verifiedBy: verifying ? actor : customer.verifiedBy,
+      updatedAt: now,
+      version: customer.version + 1,
+    };
+
+    await repos.customers.save(updated);
+    await repos.auditLog.save({
+      id: IdGenerator.auditId(),
+      entityType: 'Customer',
+      entityId: customer.id,
+      action: verifying ? 'VERIFIED' : 'STATUS_CHANGED',
+      actor,
+      changes: { status: { from: customer.status, to: newStatus } },
+      metadata: { reason },
+      createdAt: now,
+    });
+
+    return success(updated);
+  }
+}
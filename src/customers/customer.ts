@@ -0,0 +1,32 @@
+/**
+ * Customer Information File
+ * Naming and account-holding rules for customer records
+ */
+
+import { Customer, CustomerId, CustomerStatus } from '../core/domain';
+
+/**
+ * Name a customer is addressed by: a business's legal name, or an
+ * individual's first and last names
+ */
+export function customerName(customer: Customer): string {
+  if (customer.type === 'BUSINESS') {
+    return customer.legalName ?? '';
+  }
+  return [customer.firstName, customer.lastName].filter(Boolean).join(' ');
+}
+
+/**
+ * Whether accounts can be opened for and listed against a customer; only
+ * customers whose identity has been verified qualify
+ */
+export function canHoldAccounts(customer: Customer): boolean {
+  return customer.status === CustomerStatus.VERIFIED;
+}
+
+/**
+ * The identifier accounts held by a customer carry
+ */
+export function customerIdOf(customer: Customer): CustomerId {
+  return { value: customer.id, type: customer.type };
+}
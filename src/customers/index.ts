@@ -0,0 +1,13 @@
+/**
+ * Customers Module Exports
+ * Customer information file records and the rules for holding accounts
+ */
+
+export { customerName, canHoldAccounts, customerIdOf } from './customer';
+export {
+  accountHolders,
+  holdsAccount,
+  ownerType,
+  signaturesRequired,
+  checkSignatures,
+} from './account-holders';
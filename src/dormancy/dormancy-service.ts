@@ -0,0 +1,137 @@
+/**
+ * Dormancy Service
+ * Marks inactive accounts dormant and reactivates them once the holder is verified
+ */
+
+import { Account, AccountStatus } from '../core/domain';
+import {
+  AccountNotFoundError,
+  InvalidAccountStatusTransitionError,
+  ValidationError,
+} from '../utils/errors';
+import { Result, success, failure } from '../api/result';
+import { BankingContext, isInternalAccount } from '../api/banking-context';
+import { AccountLifecycleService } from '../accounts/account-lifecycle-service';
+import { isDormant, lastCustomerActivity } from './dormancy';
+
+/**
+ * How a customer's identity was verified for reactivation
+ */
+export type ReactivationVerification = 'IN_BRANCH' | 'ID_DOCUMENT' | 'VIDEO_CALL';
+
+/**
+ * Verified request to reactivate a dormant account
+ */
+export interface ReactivationRequest {
+  accountId: string;
+  /** Staff member who verified the customer */
+  verifiedBy: string;
+  verificationMethod: ReactivationVerification;
+  /** Evidence of the verification (document number, call ID, ...) */
+  verificationReference: string;
+  reason?: string;
+}
+
+/**
+ * Ways a customer's identity may be verified to reactivate a dormant account
+ */
+const REACTIVATION_VERIFICATIONS: ReactivationVerification[] = ['IN_BRANCH', 'ID_DOCUMENT', 'VIDEO_CALL'];
+
+/**
+ * Dormancy detection and reactivation; both are audited account status changes
+ */
+export class DormancyService {
+  constructor(
+    private readonly context: BankingContext,
+    private readonly accounts: AccountLifecycleService,
+    private readonly dormancyMonths: number
+  ) {}
+
+  /**
+   * Mark ACTIVE accounts without customer activity for the configured number of
+   * months as DORMANT. Activity is money the holder moved out of the account or
+   * cash they paid in; fees, interest, standing orders and third-party credits do
+   * not count. Returns the accounts marked dormant.
+   */
+  async runDormancyCheck(asOf: Date = new Date()): Promise<Result<Account[]>> {
+    await this.context.ready;
+
+    const marked: Account[] = [];
+    for (const candidate of await this.context.repositories.accounts.findAll()) {
+      if (isInternalAccount(candidate) || candidate.status !== AccountStatus.ACTIVE) {
+        continue;
+      }
+
+      const result = await this.context.inUnitOfWork(async (repos) => {
+        const account = (await repos.accounts.findById(candidate.id))!;
+        const lastActivity = lastCustomerActivity(
+          account,
+          await repos.transactions.findByAccountId(account.id)
+        );
+        if (
+          account.status !== AccountStatus.ACTIVE ||
+          !isDormant(lastActivity, asOf, this.dormancyMonths)
+        ) {
+          return success(null);
+        }
+
+        return this.accounts.changeAccountStatus(repos, account.id, AccountStatus.DORMANT, {
+          action: 'MARKED_DORMANT',
+          actor: 'SYSTEM',
+          reason: `No customer activity for ${this.dormancyMonths} months`,
+          details: { lastActivityAt: lastActivity, dormancyMonths: this.dormancyMonths },
+          accountMetadata: { dormantSince: asOf },
+        });
+      });
+      if (!result.success) {
+        return result;
+      }
+      if (result.data) {
+        marked.push(result.data);
+      }
+    }
+
+    return success(marked);
+  }
+
+  /**
+   * Return a dormant account to ACTIVE once the holder's identity has been
+   * verified. The verification is recorded in the audit log and restarts the
+   * dormancy clock.
+   */
+  async reactivateAccount(request: ReactivationRequest): Promise<Result<Account>> {
+    await this.context.ready;
+
+    const verifiedBy = request.verifiedBy?.trim();
+    const verificationReference = request.verificationReference?.trim();
+    if (!verifiedBy) {
+      return failure(new ValidationError('verifiedBy', 'Reactivation must be verified by a named user'));
+    }
+    if (!REACTIVATION_VERIFICATIONS.includes(request.verificationMethod)) {
+      return failure(
+        new ValidationError('verificationMethod', `Unknown verification method ${request.verificationMethod}`)
+      );
+    }
+    if (!verificationReference) {
+      return failure(new ValidationError('verificationReference', 'Verification reference is required'));
+    }
+
+    return this.context.inUnitOfWork(async (repos) => {
+      const account = await repos.accounts.findById(request.accountId);
+      if (!account) {
+        return failure(new AccountNotFoundError(request.accountId));
+      }
+      if (account.status !== AccountStatus.DORMANT) {
+        return failure(new InvalidAccountStatusTransitionError(account.status, AccountStatus.ACTIVE));
+      }
+
+      return this.accounts.changeAccountStatus(repos, account.id, AccountStatus.ACTIVE, {
+        action: 'REACTIVATED',
+        actor: verifiedBy,
+        reason: request.reason?.trim() || null,
+        details: { verificationMethod: request.verificationMethod, verificationReference },
+        accountMetadata: { dormantSince: null, reactivatedAt: new Date() },
+      });
+    });
+  }
+}
@@ -0,0 +1,68 @@
+/**
+ * Dormancy Rules
+ * Decides when an account has gone without customer activity long enough to be dormant
+ */
+
+import { Account, Transaction, TransactionType } from '../core/domain';
+
+/**
+ * Transaction types a customer makes themselves
+ */
+const CUSTOMER_ACTIVITY_TYPES: TransactionType[] = [
+  TransactionType.DEPOSIT,
+  TransactionType.WITHDRAWAL,
+  TransactionType.TRANSFER,
+  TransactionType.PAYMENT,
+];
+
+/**
+ * Callers that act on the bank's behalf rather than the customer's: fees,
+ * reversals, interest and standing order executions do not count as activity
+ */
+const SYSTEM_INITIATORS = ['SYSTEM', 'BANKING_API', 'STANDING_ORDER'];
+
+/**
+ * Whether a transaction is activity by the account holder: money they moved out
+ * of the account, or cash they paid in. Credits from third parties don't count.
+ */
+export function isCustomerActivity(transaction: Transaction, accountId: string): boolean {
+  if (
+    !CUSTOMER_ACTIVITY_TYPES.includes(transaction.type) ||
+    SYSTEM_INITIATORS.includes(transaction.initiatedBy)
+  ) {
+    return false;
+  }
+  return (
+    transaction.sourceAccountId === accountId ||
+    (transaction.type === TransactionType.DEPOSIT && transaction.destinationAccountId === accountId)
+  );
+}
+
+/**
+ * When the dormancy clock last restarted: the latest customer activity, the
+ * account's last reactivation, or its opening, whichever is most recent
+ */
+export function lastCustomerActivity(account: Account, transactions: Transaction[]): Date {
+  let latest = account.createdAt;
+
+  const reactivatedAt = account.metadata['reactivatedAt'];
+  if (reactivatedAt instanceof Date && reactivatedAt > latest) {
+    latest = reactivatedAt;
+  }
+
+  for (const transaction of transactions) {
+    if (isCustomerActivity(transaction, account.id) && transaction.createdAt > latest) {
+      latest = transaction.createdAt;
+    }
+  }
+  return latest;
+}
+
+/**
+ * Whether an account last active at `lastActivity` is dormant as of a date
+ */
+export function isDormant(lastActivity: Date, asOf: Date, dormancyMonths: number): boolean {
+  const cutOff = new Date(asOf);
+  cutOff.setUTCMonth(cutOff.getUTCMonth() - dormancyMonths);
+  return lastActivity <= cutOff;
+}
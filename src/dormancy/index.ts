@@ -0,0 +1,6 @@
+/**
+ * Dormancy Module Exports
+ * Detection of accounts without customer activity
+ */
+
+export { isCustomerActivity, lastCustomerActivity, isDormant } from './dormancy';
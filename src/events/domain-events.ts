@@ -0,0 +1,99 @@
+/**
+ * Domain Event Factory
+ * Builds the domain events declared in core/domain from entity state
+ */
+
+import {
+  Account,
+  AccountOpenedEvent,
+  AccountStatusChangedEvent,
+  Balance,
+  BalanceUpdatedEvent,
+  Transaction,
+  TransactionCompletedEvent,
+} from '../core/domain';
+import { IdGenerator } from '../utils/id-generator';
+
+export class DomainEvents {
+  /**
+   * Account opened; aggregate is the account
+   */
+  static accountOpened(account: Account): AccountOpenedEvent {
+    return {
+      eventId: IdGenerator.eventId(),
+      eventType: 'ACCOUNT_OPENED',
+      aggregateId: account.id,
+      occurredAt: new Date(),
+      version: account.version,
+      metadata: {},
+      accountNumber: account.accountNumber,
+      customerId: account.customerId,
+      productId: account.productId,
+      currency: account.currency,
+    };
+  }
+
+  /**
+   * Account status changed; aggregate is the account, version is the updated account's
+   */
+  static accountStatusChanged(
+    previous: Account,
+    next: Account,
+    reason: string | null
+  ): AccountStatusChangedEvent {
+    return {
+      eventId: IdGenerator.eventId(),
+      eventType: 'ACCOUNT_STATUS_CHANGED',
+      aggregateId: next.id,
+      occurredAt: next.updatedAt,
+      version: next.version,
+      metadata: {},
+      accountId: next.id,
+      previousStatus: previous.status,
+      newStatus: next.status,
+      reason,
+    };
+  }
+
+  /**
+   * Transaction completed; aggregate is the transaction
+   */
+  static transactionCompleted(transaction: Transaction): TransactionCompletedEvent {
+    return {
+      eventId: IdGenerator.eventId(),
+      eventType: 'TRANSACTION_COMPLETED',
+      aggregateId: transaction.id.value,
+      occurredAt: transaction.completedAt ?? new Date(),
+      version: transaction.version,
+      metadata: { reference: transaction.reference },
+      transactionId: transaction.id.value,
+      sourceAccountId: transaction.sourceAccountId,
+      destinationAccountId: transaction.destinationAccountId,
+      amount: transaction.amount,
+      type: transaction.type,
+    };
+  }
+
+  /**
+   * Balance updated; aggregate is the account, version is the new balance version
+   */
+  static balanceUpdated(
+    previous: Balance,
+    next: Balance,
+    reason: string,
+    transactionId: string | null = null
+  ): BalanceUpdatedEvent {
+    return {
+      eventId: IdGenerator.eventId(),
+      eventType: 'BALANCE_UPDATED',
+      aggregateId: next.accountId,
+      occurredAt: next.lastUpdatedAt,
+      version: next.version,
+      metadata: { transactionId },
+      accountId: next.accountId,
+      previousBalance: previous.ledgerBalance,
+      newBalance: next.ledgerBalance,
+      reason,
+    };
+  }
+}
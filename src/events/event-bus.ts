@@ -0,0 +1,179 @@
+/**
+ * Event Bus
+ * In-process publish/subscribe for domain events
+ */
+
+import {
+  AccountOpenedEvent,
+  AccountStatusChangedEvent,
+  BalanceUpdatedEvent,
+  DomainEvent,
+  TransactionCompletedEvent,
+} from '../core/domain';
+import { IdGenerator } from '../utils/id-generator';
+
+/**
+ * All domain events published by the banking system
+ */
+export type BankingEvent =
+  | AccountOpenedEvent
+  | AccountStatusChangedEvent
+  | TransactionCompletedEvent
+  | BalanceUpdatedEvent;
+
+/**
+ * Event type discriminator
+ */
+export type BankingEventType = BankingEvent['eventType'];
+
+/**
+ * Narrow a BankingEvent by its event type
+ */
+export type EventOfType<K extends BankingEventType> = Extract<BankingEvent, { eventType: K }>;
+
+/**
+ * Subscriber callback; may be synchronous or asynchronous
+ */
+export type EventHandler<E extends DomainEvent = BankingEvent> = (event: E) => void | Promise<void>;
+
+/**
+ * Function returned by subscribe that removes the subscription
+ */
+export type Unsubscribe = () => void;
+
+/**
+ * Called with a failure that is not returned to anyone: a subscriber that throws
+ * (with the event it was handling), or an outbox relay that fails after its unit
+ * of work committed (with no event). Neither fails the publisher.
+ */
+export type EventErrorHandler = (error: unknown, event: BankingEvent | null) => void;
+
+/**
+ * Default error handler: logs the failure to the console
+ */
+export const logEventError: EventErrorHandler = (error, event) =>
+  console.error(
+    event
+      ? `Event handler failed for ${event.eventType} ${event.eventId}:`
+      : 'Outbox dispatch failed after commit:',
+    error
+  );
+
+/**
+ * Outcome of delivering one event
+ */
+export interface EventDelivery {
+  /** Whether every subscriber has now handled the event */
+  delivered: boolean;
+  /** Subscribers that have handled the event, including earlier deliveries */
+  handledBy: string[];
+}
+
+/**
+ * A registered handler and the identifier its deliveries are recorded under
+ */
+interface Subscription {
+  readonly subscriberId: string;
+  readonly handler: EventHandler<BankingEvent>;
+}
+
+/**
+ * Typed in-process event bus.
+ *
+ * Every subscription has a subscriber ID. A delivery skips subscribers already
+ * recorded as having handled the event, so at-least-once relays (see
+ * OutboxDispatcher, which persists that record) do not double-notify. Name a
+ * subscriber to keep that guarantee across restarts; unnamed subscribers get
+ * an ID for this process only.
+ */
+export class EventBus {
+  private readonly subscriptions: Map<BankingEventType | '*', Subscription[]> = new Map();
+
+  constructor(private readonly onError: EventErrorHandler = logEventError) {}
+
+  /**
+   * Subscribe to a single event type
+   */
+  subscribe<K extends BankingEventType>(
+    eventType: K,
+    handler: EventHandler<EventOfType<K>>,
+    subscriberId?: string
+  ): Unsubscribe {
+    this.add(eventType, handler, subscriberId);
+    return () => this.unsubscribe(eventType, handler);
+  }
+
+  /**
+   * Subscribe to every event type
+   */
+  subscribeAll(handler: EventHandler, subscriberId?: string): Unsubscribe {
+    this.add('*', handler, subscriberId);
+    return () => this.remove('*', handler);
+  }
+
+  /**
+   * Remove a handler previously registered with subscribe
+   */
+  unsubscribe<K extends BankingEventType>(
+    eventType: K,
+    handler: EventHandler<EventOfType<K>>
+  ): void {
+    this.remove(eventType, handler);
+  }
+
+  /**
+   * Deliver an event in registration order to the subscribers not listed in
+   * `handledBy`, the subscribers that handled it on an earlier delivery
+   */
+  async publish(event: BankingEvent, handledBy: readonly string[] = []): Promise<EventDelivery> {
+    const subscriptions = [
+      ...(this.subscriptions.get(event.eventType) ?? []),
+      ...(this.subscriptions.get('*') ?? []),
+    ];
+
+    const handled = new Set(handledBy);
+    let delivered = true;
+    for (const subscription of subscriptions) {
+      if (handled.has(subscription.subscriberId)) {
+        continue;
+      }
+
+      try {
+        await subscription.handler(event);
+        handled.add(subscription.subscriberId);
+      } catch (error) {
+        delivered = false;
+        this.onError(error, event);
+      }
+    }
+
+    return { delivered, handledBy: Array.from(handled) };
+  }
+
+  /**
+   * Register a handler for the events it is typed for. The bus only hands a
+   * handler events of the type it subscribed to, which makes the widening safe.
+   */
+  private add<E extends BankingEvent>(
+    eventType: BankingEventType | '*',
+    handler: EventHandler<E>,
+    subscriberId: string = IdGenerator.uuid()
+  ): void {
+    const subscriptions = this.subscriptions.get(eventType) ?? [];
+    subscriptions.push({ subscriberId, handler: handler as EventHandler<BankingEvent> });
+    this.subscriptions.set(eventType, subscriptions);
+  }
+
+  private remove<E extends BankingEvent>(
+    eventType: BankingEventType | '*',
+    handler: EventHandler<E>
+  ): void {
+    const subscriptions = this.subscriptions.get(eventType);
+    if (subscriptions) {
+      this.subscriptions.set(
+        eventType,
+        subscriptions.filter((s) => s.handler !== (handler as EventHandler<BankingEvent>))
+      );
+    }
+  }
+}
@@ -0,0 +1,18 @@
+/**
+ * Events Module Exports
+ * In-process domain event publishing and the transactional outbox relay
+ */
+
+export {
+  EventBus,
+  BankingEvent,
+  BankingEventType,
+  EventOfType,
+  EventHandler,
+  EventDelivery,
+  EventErrorHandler,
+  Unsubscribe,
+  logEventError,
+} from './event-bus';
+export { DomainEvents } from './domain-events';
+export { OutboxDispatcher, createOutboxMessage } from './outbox-dispatcher';
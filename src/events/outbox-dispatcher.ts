@@ -0,0 +1,122 @@
+/**
+ * Outbox Dispatcher
+ * Relays committed outbox messages to event bus subscribers
+ */
+
+import { OutboxMessage, OutboxRepository, OutboxStatus } from '../core/domain';
+import { BankingEvent, EventBus } from './event-bus';
+
+/**
+ * Relay attempts after which a message that keeps failing is dead-lettered
+ */
+const DEFAULT_MAX_ATTEMPTS = 10;
+
+/**
+ * Build a pending outbox message for an event
+ */
+export function createOutboxMessage(event: BankingEvent, sequence: number): OutboxMessage {
+  return {
+    eventId: event.eventId,
+    sequence,
+    event,
+    status: OutboxStatus.PENDING,
+    handledBy: [],
+    attempts: 0,
+    createdAt: new Date(),
+    dispatchedAt: null,
+    lastError: null,
+  };
+}
+
+/**
+ * Relays pending outbox messages in sequence order with at-least-once delivery.
+ *
+ * A message is marked DISPATCHED only after every subscriber handled it; on
+ * failure it stays PENDING and is retried on the next run without holding back
+ * later messages, until it has failed `maxAttempts` times and is moved to
+ * DEAD_LETTER. The subscribers that handled it are saved with the message and
+ * skipped on retry, so retries do not duplicate, even after a restart.
+ */
+export class OutboxDispatcher {
+  private running: Promise<number> = Promise.resolve(0);
+
+  constructor(
+    private readonly outbox: OutboxRepository,
+    private readonly eventBus: EventBus,
+    private readonly batchSize: number = 100,
+    private readonly maxAttempts: number = DEFAULT_MAX_ATTEMPTS
+  ) {}
+
+  /**
+   * Relay all pending messages, a batch at a time, trying each once; resolves to
+   * the number dispatched. Concurrent calls are serialised so a message is never
+   * relayed twice at once.
+   */
+  dispatchPending(): Promise<number> {
+    this.running = this.running.then(
+      () => this.relay(),
+      () => this.relay()
+    );
+    return this.running;
+  }
+
+  private async relay(): Promise<number> {
+    let dispatched = 0;
+    const attempted = new Set<string>();
+    let stillPending = 0;
+
+    for (;;) {
+      // Widen the window past messages that failed this run so they do not crowd out later ones
+      const batch = (await this.outbox.findPending(this.batchSize + stillPending)).filter(
+        (m) => !attempted.has(m.eventId)
+      );
+      if (batch.length === 0) {
+        return dispatched;
+      }
+
+      for (const message of batch) {
+        attempted.add(message.eventId);
+        const status = await this.deliver(message);
+        if (status === OutboxStatus.DISPATCHED) {
+          dispatched++;
+        } else if (status === OutboxStatus.PENDING) {
+          stillPending++;
+        }
+      }
+    }
+  }
+
+  /**
+   * Relay one message and save the outcome; resolves to its new status
+   */
+  private async deliver(message: OutboxMessage): Promise<OutboxStatus> {
+    // Messages written before deliveries were recorded carry no handledBy
+    let handledBy = message.handledBy ?? [];
+    let delivered = false;
+    let lastError: string | null = null;
+    try {
+      ({ delivered, handledBy } = await this.eventBus.publish(message.event as BankingEvent, handledBy));
+      if (!delivered) {
+        lastError = 'One or more subscribers failed';
+      }
+    } catch (error) {
+      lastError = error instanceof Error ? error.message : String(error);
+    }
+
+    const attempts = message.attempts + 1;
+    let status = OutboxStatus.DISPATCHED;
+    if (!delivered) {
+      status = attempts >= this.maxAttempts ? OutboxStatus.DEAD_LETTER : OutboxStatus.PENDING;
+    }
+    await this.outbox.save({
+      ...message,
+      handledBy,
+      attempts,
+      status,
+      dispatchedAt: delivered ? new Date() : null,
+      lastError,
+    });
+
+    return status;
+  }
+}
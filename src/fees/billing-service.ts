@@ -0,0 +1,190 @@
+/**
+ * Billing Service
+ * Runs monthly fee billing and keeps a billing summary for every account evaluated
+ */
+
+import { AccountStatus, BillingOutcome, BillingSummary } from '../core/domain';
+import { TransactionValidator } from '../core/validators';
+import { ValidationError } from '../utils/errors';
+import { IdGenerator } from '../utils/id-generator';
+import {
+  addDays,
+  businessDay,
+  endOfMonth,
+  formatBusinessDate,
+  startOfMonth,
+} from '../utils/business-date';
+import { BankingRepositories } from '../persistence/repositories';
+import { BankingEvent } from '../events/event-bus';
+import { endOfDayBalance } from '../interest';
+import { Result, success, failure } from '../api/result';
+import { BankingContext, isInternalAccount } from '../api/banking-context';
+import { calculateMonthlyFees } from './monthly-fees';
+import { isFeeBearing } from './posting-fees';
+
+/**
+ * Result of a monthly billing run
+ */
+export interface BillingRunSummary {
+  /** Billing period (YYYY-MM) */
+  period: string;
+  /** Summaries written by this run; accounts already billed for the period are left out */
+  summaries: BillingSummary[];
+}
+
+/**
+ * The monthly billing run: maintenance and minimum-balance fees assessed per
+ * account for a completed month and posted as one FEE transaction each
+ */
+export class BillingService {
+  constructor(private readonly context: BankingContext) {}
+
+  /**
+   * Bill every active account its monthly fees for the month containing `period`
+   * (default: the previous month). A month can only be billed once it has ended.
+   * The maintenance fee is waived when the account meets any of its product's
+   * waiver conditions (lowest end-of-day balance, number of postings); the
+   * minimum-balance fee is charged when the lowest end-of-day balance fell below
+   * the product minimum. Fees are posted as one FEE transaction per account and a
+   * billing summary is written for every account evaluated. An account that
+   * already has a summary for the period is not billed again, unless its fees were
+   * left UNPAID: those are assessed again and charged once the account can cover them.
+   */
+  async runMonthlyBilling(
+    period: Date = addDays(startOfMonth(new Date()), -1)
+  ): Promise<Result<BillingRunSummary>> {
+    await this.context.ready;
+
+    const periodStart = startOfMonth(period);
+    const billingPeriod = formatBusinessDate(periodStart).slice(0, 7);
+    if (endOfMonth(periodStart) >= businessDay(new Date())) {
+      return failure(new ValidationError('period', `Billing period ${billingPeriod} has not ended`));
+    }
+    const summaries: BillingSummary[] = [];
+
+    for (const account of await this.context.repositories.accounts.findAll()) {
+      if (isInternalAccount(account) || account.status !== AccountStatus.ACTIVE) {
+        continue;
+      }
+
+      const result = await this.context.inUnitOfWork(async (repos) =>
+        success(await this.billAccount(repos, account.id, periodStart, billingPeriod))
+      );
+      if (!result.success) {
+        return result;
+      }
+      if (result.data) {
+        summaries.push(result.data);
+      }
+    }
+
+    return success({ period: billingPeriod, summaries });
+  }
+
+  /**
+   * Get the billing summaries written for the month containing `period`
+   */
+  async getBillingSummaries(period: Date): Promise<Result<BillingSummary[]>> {
+    await this.context.ready;
+
+    const billingPeriod = formatBusinessDate(startOfMonth(period)).slice(0, 7);
+    return success(await this.context.repositories.billingSummaries.findByPeriod(billingPeriod));
+  }
+
+  /**
+   * Assess and post one account's fees for a period; null when the account has
+   * already been billed for it or was opened after it
+   */
+  private async billAccount(
+    repos: BankingRepositories,
+    accountId: string,
+    periodStart: Date,
+    billingPeriod: string
+  ): Promise<BillingSummary | null> {
+    const billed = await repos.billingSummaries.find(accountId, billingPeriod);
+    if (billed && billed.outcome !== BillingOutcome.UNPAID) {
+      return null;
+    }
+
+    const account = (await repos.accounts.findById(accountId))!;
+    const product = await repos.products.findById(account.productId);
+    const periodEnd = endOfMonth(periodStart);
+    const openedOn = businessDay(account.createdAt);
+    const firstDay = openedOn > periodStart ? openedOn : periodStart;
+    if (!product || firstDay > periodEnd) {
+      return null;
+    }
+
+    // Lowest end-of-day balance while the account was open in the period
+    const entries = await repos.ledger.findByAccountId(account.id);
+    let lowestBalance = Infinity;
+    for (let day = firstDay; day <= periodEnd; day = addDays(day, 1)) {
+      lowestBalance = Math.min(lowestBalance, endOfDayBalance(entries, day));
+    }
+
+    const periodClose = new Date(addDays(periodEnd, 1).getTime() - 1);
+    const transactionCount = (
+      await repos.transactions.findByDateRange(account.id, periodStart, periodClose)
+    ).filter((t) => isFeeBearing(t, account.id)).length;
+
+    const assessment = calculateMonthlyFees(product, {
+      lowestBalance: { amount: lowestBalance, currency: account.currency, scale: 2 },
+      transactionCount,
+    });
+
+    let outcome: BillingOutcome;
+    let feeTransactionId: string | null = null;
+    let events: BankingEvent[] = [];
+    if (assessment.total.amount > 0) {
+      const balance = (await repos.balances.findByAccountId(account.id))!;
+      const funds = TransactionValidator.validateSufficientFunds(
+        balance.availableBalance,
+        assessment.total,
+        account.overdraftLimit
+      );
+      if (funds.isValid) {
+        outcome = BillingOutcome.CHARGED;
+        feeTransactionId = IdGenerator.transactionId();
+        events = await this.context.postFeeTransaction(
+          repos,
+          account,
+          feeTransactionId,
+          assessment.total,
+          {
+            reference: `FEE-${billingPeriod}`,
+            description: `Monthly fees ${billingPeriod}`,
+            metadata: {
+              billingPeriod,
+              maintenanceFee: assessment.maintenanceFee,
+              minimumBalanceFee: assessment.minimumBalanceFee,
+            },
+          }
+        );
+      } else {
+        outcome = BillingOutcome.UNPAID;
+      }
+    } else {
+      outcome = assessment.waivedAmount > 0 ? BillingOutcome.WAIVED : BillingOutcome.NO_FEE;
+    }
+
+    const summary: BillingSummary = {
+      accountId: account.id,
+      period: billingPeriod,
+      productId: product.id,
+      lowestBalance: { amount: lowestBalance, currency: account.currency, scale: 2 },
+      transactionCount,
+      maintenanceFee: assessment.maintenanceFee,
+      minimumBalanceFee: assessment.minimumBalanceFee,
+      waivers: assessment.waivers,
+      total: assessment.total,
+      outcome,
+      feeTransactionId,
+      createdAt: new Date(),
+    };
+    await repos.billingSummaries.save(summary);
+
+    await this.context.enqueue(repos, ...events);
+
+    return summary;
+  }
+}
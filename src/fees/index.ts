@@ -0,0 +1,18 @@
+/**
+ * Fees Module Exports
+ * Product fee assessment for customer postings and monthly billing
+ */
+
+export {
+  PostingFeeContext,
+  PostingFee,
+  calculatePostingFee,
+  isFeeBearing,
+} from './posting-fees';
+
+export {
+  MonthlyFeeWaiverReason,
+  MonthlyFeeContext,
+  MonthlyFeeAssessment,
+  calculateMonthlyFees,
+} from './monthly-fees';
@@ -0,0 +1,79 @@
+/**
+ * Monthly Fees
+ * Works out the maintenance and minimum-balance fees due on an account for a month
+ */
+
+import { Money, ProductConfiguration } from '../core/domain';
+
+/**
+ * Waiver condition met by an account
+ */
+export type MonthlyFeeWaiverReason = 'MINIMUM_BALANCE' | 'TRANSACTION_COUNT';
+
+/**
+ * What is known about an account's month when its fees are assessed
+ */
+export interface MonthlyFeeContext {
+  /** Lowest end-of-day balance in the month */
+  lowestBalance: Money;
+  /** Customer postings made in the month */
+  transactionCount: number;
+}
+
+/**
+ * Monthly fees due on an account, itemised by product fee
+ */
+export interface MonthlyFeeAssessment {
+  readonly total: Money;
+  readonly maintenanceFee: number;
+  readonly minimumBalanceFee: number;
+  /** Waiver conditions met; when non-empty the maintenance fee is not charged */
+  readonly waivers: MonthlyFeeWaiverReason[];
+  /** Maintenance fee that would have been charged without the waivers */
+  readonly waivedAmount: number;
+}
+
+/**
+ * Assess the monthly maintenance fee, less any waiver, and the minimum-balance
+ * fee for an account whose balance fell below the product minimum
+ */
+export function calculateMonthlyFees(
+  product: ProductConfiguration,
+  context: MonthlyFeeContext
+): MonthlyFeeAssessment {
+  const { fees } = product;
+  const { lowestBalance, transactionCount } = context;
+
+  const waivers: MonthlyFeeWaiverReason[] = [];
+  const waiver = fees.monthlyFeeWaiver;
+  if (waiver?.minimumBalance && lowestBalance.amount >= waiver.minimumBalance.amount) {
+    waivers.push('MINIMUM_BALANCE');
+  }
+  if (waiver?.monthlyTransactionCount != null && transactionCount >= waiver.monthlyTransactionCount) {
+    waivers.push('TRANSACTION_COUNT');
+  }
+
+  const dueMaintenanceFee = fees.monthlyFee?.amount ?? 0;
+  const maintenanceFee = waivers.length > 0 ? 0 : dueMaintenanceFee;
+  const minimumBalanceFee =
+    fees.minimumBalanceFee && lowestBalance.amount < product.minimumBalance.amount
+      ? fees.minimumBalanceFee.amount
+      : 0;
+
+  return {
+    total: {
+      amount: roundAmount(maintenanceFee + minimumBalanceFee, lowestBalance.scale),
+      currency: lowestBalance.currency,
+      scale: lowestBalance.scale,
+    },
+    maintenanceFee,
+    minimumBalanceFee,
+    waivers,
+    waivedAmount: dueMaintenanceFee - maintenanceFee,
+  };
+}
+
+function roundAmount(amount: number, scale: number): number {
+  const factor = 10 ** scale;
+  return Math.round(amount * factor) / factor;
+}
@@ -0,0 +1,105 @@
+/**
+ * Posting Fees
+ * Works out the product fees due on customer deposits, withdrawals, transfers and payments
+ */
+
+import {
+  Money,
+  ProductConfiguration,
+  Transaction,
+  TransactionType,
+} from '../core/domain';
+
+/**
+ * Transaction types that attract posting fees and count towards the free allowance
+ */
+const FEE_BEARING_TYPES: TransactionType[] = [
+  TransactionType.DEPOSIT,
+  TransactionType.WITHDRAWAL,
+  TransactionType.TRANSFER,
+  TransactionType.PAYMENT,
+];
+
+/**
+ * What is known about a posting when its fee is assessed
+ */
+export interface PostingFeeContext {
+  transactionType: TransactionType;
+  /** Amount posted, in the currency of the account that pays the fee */
+  amount: Money;
+  /** Cash withdrawn at an ATM */
+  atm: boolean;
+  /** Converted into another currency */
+  crossCurrency: boolean;
+  /** Fee-bearing postings already made on the account this month */
+  postingsThisMonth: number;
+}
+
+/**
+ * Fee due on a posting, itemised by product fee
+ */
+export interface PostingFee {
+  readonly total: Money;
+  readonly transactionFee: number;
+  readonly atmFee: number;
+  readonly foreignTransactionFee: number;
+}
+
+/**
+ * Fee due on a posting under the account's product, or null if nothing is due.
+ * Fixed fees are taken at face value in the paying account's currency.
+ */
+export function calculatePostingFee(
+  product: ProductConfiguration,
+  context: PostingFeeContext
+): PostingFee | null {
+  if (!FEE_BEARING_TYPES.includes(context.transactionType)) {
+    return null;
+  }
+
+  const { fees, features } = product;
+  const freeAllowance = features.freeTransactionsPerMonth ?? 0;
+
+  const transactionFee =
+    fees.transactionFee && context.postingsThisMonth >= freeAllowance ? fees.transactionFee.amount : 0;
+  const atmFee = context.atm && fees.atmFee ? fees.atmFee.amount : 0;
+  const foreignTransactionFee =
+    context.crossCurrency && fees.foreignTransactionFeeRate
+      ? roundAmount(context.amount.amount * fees.foreignTransactionFeeRate, context.amount.scale)
+      : 0;
+
+  const total = roundAmount(transactionFee + atmFee + foreignTransactionFee, context.amount.scale);
+  if (total <= 0) {
+    return null;
+  }
+
+  return {
+    total: { amount: total, currency: context.amount.currency, scale: context.amount.scale },
+    transactionFee,
+    atmFee,
+    foreignTransactionFee,
+  };
+}
+
+/**
+ * Whether a transaction counts towards an account's free monthly allowance
+ */
+export function isFeeBearing(transaction: Transaction, accountId: string): boolean {
+  // Held and future-dated transactions are not posted until approved or their value date
+  if (
+    !FEE_BEARING_TYPES.includes(transaction.type) ||
+    transaction.metadata['deferredRequest'] !== undefined
+  ) {
+    return false;
+  }
+  const payer =
+    transaction.type === TransactionType.DEPOSIT
+      ? transaction.destinationAccountId
+      : transaction.sourceAccountId;
+  return payer === accountId;
+}
+
+function roundAmount(amount: number, scale: number): number {
+  const factor = 10 ** scale;
+  return Math.round(amount * factor) / factor;
+}
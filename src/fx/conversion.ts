@@ -0,0 +1,61 @@
+/**
+ * Currency Conversion
+ * Applies the bank's spread to a mid-market rate and converts amounts
+ */
+
+import { Money } from '../core/domain';
+import { ExchangeRateQuote } from './rate-provider';
+
+/**
+ * Decimal places kept on customer exchange rates
+ */
+const RATE_PRECISION = 6;
+
+/**
+ * Outcome of converting an amount between two currencies
+ */
+export interface FxConversion {
+  readonly sourceAmount: Money;
+  readonly destinationAmount: Money;
+  /** Mid-market rate from the provider */
+  readonly midRate: number;
+  /** Spread applied against the customer, as a fraction of the mid rate */
+  readonly spread: number;
+  /** Rate the customer was given */
+  readonly rate: number;
+  readonly rateAsOf: Date;
+}
+
+/**
+ * Customer rate for a mid rate: the customer always receives less than mid
+ */
+export function applySpread(midRate: number, spread: number): number {
+  const factor = 10 ** RATE_PRECISION;
+  return Math.round(midRate * (1 - spread) * factor) / factor;
+}
+
+/**
+ * Convert an amount into the quote currency at the spread-adjusted rate
+ */
+export function convert(amount: Money, quote: ExchangeRateQuote, spread: number): FxConversion {
+  const rate = applySpread(quote.rate, spread);
+  const destinationAmount: Money = {
+    amount: roundAmount(amount.amount * rate, amount.scale),
+    currency: quote.quote,
+    scale: amount.scale,
+  };
+
+  return {
+    sourceAmount: amount,
+    destinationAmount,
+    midRate: quote.rate,
+    spread,
+    rate,
+    rateAsOf: quote.asOf,
+  };
+}
+
+function roundAmount(amount: number, scale: number): number {
+  const factor = 10 ** scale;
+  return Math.round(amount * factor) / factor;
+}
@@ -0,0 +1,12 @@
+/**
+ * FX Module Exports
+ * Exchange rate providers and spread-adjusted currency conversion
+ */
+
+export {
+  ExchangeRateQuote,
+  ExchangeRateProvider,
+  RateTable,
+  JsonRateTableProvider,
+} from './rate-provider';
+export { FxConversion, applySpread, convert } from './conversion';
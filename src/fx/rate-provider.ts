@@ -0,0 +1,70 @@
+/**
+ * Exchange Rate Providers
+ * Sources of mid-market rates used for cross-currency postings
+ */
+
+import * as fs from 'fs';
+import { Currency } from '../core/domain';
+
+/**
+ * Mid-market rate: one unit of `base` buys `rate` units of `quote`
+ */
+export interface ExchangeRateQuote {
+  readonly base: Currency;
+  readonly quote: Currency;
+  readonly rate: number;
+  readonly asOf: Date;
+}
+
+/**
+ * Pluggable source of exchange rates
+ */
+export interface ExchangeRateProvider {
+  getRate(base: Currency, quote: Currency): Promise<ExchangeRateQuote | null>;
+}
+
+/**
+ * Rate table keyed by a single base currency, e.g.
+ * `{ "base": "USD", "asOf": "2024-01-31T16:00:00Z", "rates": { "EUR": 0.92 } }`
+ */
+export interface RateTable {
+  base: Currency;
+  asOf: string;
+  rates: Partial<Record<Currency, number>>;
+}
+
+/**
+ * Provider backed by a local JSON rate table; cross rates are derived via the base currency
+ */
+export class JsonRateTableProvider implements ExchangeRateProvider {
+  private readonly asOf: Date;
+
+  constructor(private readonly table: RateTable) {
+    this.asOf = new Date(table.asOf);
+  }
+
+  /**
+   * Load a rate table from a JSON file
+   */
+  static fromFile(filePath: string): JsonRateTableProvider {
+    return new JsonRateTableProvider(JSON.parse(fs.readFileSync(filePath, 'utf8')) as RateTable);
+  }
+
+  async getRate(base: Currency, quote: Currency): Promise<ExchangeRateQuote | null> {
+    const basePerUnit = this.unitsPerBase(base);
+    const quotePerUnit = this.unitsPerBase(quote);
+    if (basePerUnit === null || quotePerUnit === null) {
+      return null;
+    }
+
+    return { base, quote, rate: quotePerUnit / basePerUnit, asOf: this.asOf };
+  }
+
+  private unitsPerBase(currency: Currency): number | null {
+    if (currency === this.table.base) {
+      return 1;
+    }
+    const rate = this.table.rates[currency];
+    return rate !== undefined && rate > 0 ? rate : null;
+  }
+}
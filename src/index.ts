@@ -7,6 +7,22 @@
  * - Account management
  * - Balance tracking
  * - Product configuration
+ * - Pluggable repositories (in-memory or file-backed)
+ * - Cross-currency transfers with pluggable exchange rates
+ * - Direct debit mandates and collections with returned items
+ * - Standing orders executed by a business-date scheduler run
+ * - Daily interest accrual with month-end capitalisation
+ * - Monthly maintenance and minimum-balance fee billing with waivers
+ * - Dormancy detection with verified, audited reactivation
+ * - Card-style authorisation holds with capture, void and expiry
+ * - Maker-checker approval for high-value transactions and adjustments
+ * - Value-dated postings with a backdating window and future-dated transactions
+ * - Overdraft usage tracking, overdraft fees and monthly overdraft interest
+ * - Rolling daily, monthly, count and ATM transaction limits
+ * - Customer information file with verified customers linked to their accounts
+ * - Joint accounts with holder roles and enforced signing rules
+ * - ISO 13616 IBANs issued for every account and accepted on transfers and payments
+ * - Per-branch persistent account number sequences with selectable check-digit schemes
  *
  * @module core-banking-system
  */
@@ -19,6 +35,8 @@ export * from './core/validators';
 export { Money } from './utils/money';
 export * from './utils/errors';
 export { IdGenerator } from './utils/id-generator';
+export * from './utils/business-date';
+export * from './utils/iban';
 
 // Ledger System
 export * from './ledger';
@@ -26,23 +44,74 @@ export * from './ledger';
 // Account Management
 export * from './accounts';
 
+// Customers
+export * from './customers';
+
 // Transaction Processing
 export * from './transactions';
 
 // Product Configuration
 export * from './products';
 
+// Persistence
+export * from './persistence';
+
+// Domain Events
+export * from './events';
+
+// Statements
+export * from './statements';
+
+// Foreign Exchange
+export * from './fx';
+
+// Fees
+export * from './fees';
+
+// Limits
+export * from './limits';
+
+// Standing Orders
+export * from './standing-orders';
+
+// Interest
+export * from './interest';
+
+// Dormancy
+export * from './dormancy';
+
 // Banking API
 export {
   BankingAPI,
+  BankingAPIOptions,
+  IbanConfig,
   bankingAPI,
   Result,
   success,
   failure,
   CreateAccountRequest,
+  AccountHolderRequest,
+  CustomerAddress,
+  CreateCustomerRequest,
+  UpdateCustomerRequest,
   TransferRequest,
   DepositRequest,
   WithdrawalRequest,
+  WithdrawalChannel,
+  PaymentRequest,
+  PaymentSettlement,
+  AdjustmentRequest,
+  AuthorizationDetails,
+  CreateMandateRequest,
+  DirectDebitCollectionRequest,
+  DirectDebitCollection,
+  CreateStandingOrderRequest,
+  StandingOrderRetryPolicy,
+  InterestRunSummary,
+  InterestReport,
+  BillingRunSummary,
+  ReactivationRequest,
+  ReactivationVerification,
   StatementRequest,
   AccountStatement,
   StatementEntry,
@@ -0,0 +1,90 @@
+/**
+ * Interest Accrual
+ * Works out the interest an account earns each day and what is due at capitalisation
+ */
+
+import { EntryType, InterestAccrual, LedgerEntry, ProductConfiguration } from '../core/domain';
+import { addDays, businessDay } from '../utils/business-date';
+
+/**
+ * Days per year used to turn an annual rate into a daily one (actual/365)
+ */
+export const DAY_COUNT_BASIS = 365;
+
+/**
+ * Decimal places kept on daily accruals; amounts are only rounded to the
+ * currency scale when they are capitalised
+ */
+export const ACCRUAL_PRECISION = 8;
+
+/**
+ * Whether accounts on a product earn interest
+ */
+export function earnsInterest(product: ProductConfiguration): boolean {
+  return product.features.paysInterest && product.interestRate > 0;
+}
+
+/**
+ * Ledger balance at the close of a business date, from an account's entries in
+ * posting sequence order
+ */
+export function endOfDayBalance(entries: LedgerEntry[], businessDate: Date): number {
+  const close = addDays(businessDate, 1);
+  let balance = 0;
+  for (const entry of entries) {
+    if (entry.postingDate >= close) {
+      break;
+    }
+    balance = entry.balance.amount;
+  }
+  return balance;
+}
+
+/**
+ * Value-dated balance at the close of a business date: every entry whose value
+ * date falls on or before it, whenever it was posted. A backdated posting
+ * therefore changes the balance of the days it was backdated over.
+ */
+export function valueDateBalance(entries: LedgerEntry[], businessDate: Date): number {
+  const close = addDays(businessDate, 1);
+  let balance = 0;
+  for (const entry of entries) {
+    if (entry.valueDate < close) {
+      balance += entry.entryType === EntryType.CREDIT ? entry.amount.amount : -entry.amount.amount;
+    }
+  }
+  return roundAmount(balance, ACCRUAL_PRECISION);
+}
+
+/**
+ * Interest earned on a balance for one day; overdrawn balances earn nothing
+ */
+export function dailyInterest(balance: number, annualRate: number): number {
+  if (balance <= 0 || annualRate <= 0) {
+    return 0;
+  }
+  return roundAmount((balance * annualRate) / DAY_COUNT_BASIS, ACCRUAL_PRECISION);
+}
+
+/**
+ * Accruals not yet paid that were earned on or before a business date
+ */
+export function uncapitalisedAccruals(accruals: InterestAccrual[], asOf: Date): InterestAccrual[] {
+  const cutOff = businessDay(asOf);
+  return accruals.filter((a) => a.capitalisationTransactionId === null && a.accrualDate <= cutOff);
+}
+
+/**
+ * Total of a set of accruals, rounded to the currency scale
+ */
+export function totalAccrued(accruals: ReadonlyArray<{ amount: number }>, scale: number): number {
+  return roundAmount(
+    accruals.reduce((sum, accrual) => sum + accrual.amount, 0),
+    scale
+  );
+}
+
+export function roundAmount(amount: number, scale: number): number {
+  const factor = 10 ** scale;
+  return Math.round(amount * factor) / factor;
+}
@@ -0,0 +1,21 @@
+/**
+ * Interest Module Exports
+ * Daily interest accrual and capitalisation, and overdraft interest
+ */
+
+export {
+  DAY_COUNT_BASIS,
+  earnsInterest,
+  endOfDayBalance,
+  valueDateBalance,
+  dailyInterest,
+  uncapitalisedAccruals,
+  totalAccrued,
+} from './accrual';
+
+export {
+  chargesOverdraftInterest,
+  overdraftUsage,
+  dailyOverdraftInterest,
+  unchargedOverdraftAccruals,
+} from './overdraft';
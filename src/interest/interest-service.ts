@@ -0,0 +1,315 @@
+/**
+ * Interest Service
+ * Runs the daily interest accrual and month-end capitalisation, and reports interest paid
+ */
+
+import {
+  Account,
+  AccountStatus,
+  Transaction,
+  TransactionType,
+  TransactionStatus,
+  Money,
+  Currency,
+  EntryType,
+  InterestAccrual,
+  OverdraftInterestAccrual,
+} from '../core/domain';
+import { AccountNotFoundError } from '../utils/errors';
+import { IdGenerator } from '../utils/id-generator';
+import { businessDay, formatBusinessDate, isMonthEnd } from '../utils/business-date';
+import { BankingRepositories } from '../persistence/repositories';
+import { DomainEvents } from '../events/domain-events';
+import { Result, success, failure } from '../api/result';
+import { BankingContext, isInternalAccount } from '../api/banking-context';
+import { OverdraftService } from './overdraft-service';
+import {
+  dailyInterest,
+  earnsInterest,
+  totalAccrued,
+  uncapitalisedAccruals,
+  valueDateBalance,
+} from './accrual';
+
+/**
+ * Result of an interest accrual run
+ */
+export interface InterestRunSummary {
+  businessDate: Date;
+  accruals: InterestAccrual[];
+  /** INTEREST credits posted (month-end runs only) */
+  capitalisations: Transaction[];
+  overdraftAccruals: OverdraftInterestAccrual[];
+  /** INTEREST debits charging overdraft interest (month-end runs only) */
+  overdraftCharges: Transaction[];
+}
+
+/**
+ * Interest earned versus paid on an account over a period
+ */
+export interface InterestReport {
+  accountId: string;
+  currency: Currency;
+  fromDate: Date;
+  toDate: Date;
+  /** Interest earned on business dates in the period */
+  accrued: number;
+  /** Interest credited by capitalisations in the period */
+  paid: number;
+  /** Interest earned up to the end of the period and not yet credited */
+  outstanding: number;
+}
+
+/**
+ * Account statuses that keep earning interest
+ */
+const ACCRUING_STATUSES: AccountStatus[] = [
+  AccountStatus.ACTIVE,
+  AccountStatus.DORMANT,
+  AccountStatus.FROZEN,
+  AccountStatus.SUSPENDED,
+];
+
+/**
+ * The interest run: credit interest accrued daily and capitalised at month end,
+ * with overdraft interest accrued and charged alongside it
+ */
+export class InterestService {
+  constructor(
+    private readonly context: BankingContext,
+    private readonly overdraft: OverdraftService
+  ) {}
+
+  /**
+   * Accrue a business day's interest on every account whose product pays it.
+   * Each account earns its value-dated balance times the product rate over 365;
+   * the day is recorded once per account, so re-running a date adds nothing.
+   * Postings backdated over accrued days revalue those days' accruals.
+   * Overdrawn accounts instead accrue the product's overdraft rate on the overdraft used.
+   * On the last day of a month, each account's unpaid accruals are then
+   * capitalised as an INTEREST credit funded by the bank's interest expense account,
+   * and its overdraft interest charged as an INTEREST debit to interest income.
+   */
+  async runInterestAccrual(businessDate: Date = new Date()): Promise<Result<InterestRunSummary>> {
+    await this.context.ready;
+
+    const accrualDate = businessDay(businessDate);
+    const summary: InterestRunSummary = {
+      businessDate: accrualDate,
+      accruals: [],
+      capitalisations: [],
+      overdraftAccruals: [],
+      overdraftCharges: [],
+    };
+
+    for (const account of await this.context.repositories.accounts.findAll()) {
+      if (isInternalAccount(account) || !ACCRUING_STATUSES.includes(account.status)) {
+        continue;
+      }
+
+      const result = await this.context.inUnitOfWork(async (repos) => {
+        const accrual = await this.accrueInterest(repos, account, accrualDate);
+        const overdraftAccrual = await this.overdraft.accrueOverdraftInterest(
+          repos,
+          account,
+          accrualDate
+        );
+        const capitalisation = isMonthEnd(accrualDate)
+          ? await this.capitaliseInterest(repos, account, accrualDate)
+          : null;
+        const overdraftCharge = isMonthEnd(accrualDate)
+          ? await this.overdraft.chargeOverdraftInterest(repos, account, accrualDate)
+          : null;
+        return success({ accrual, overdraftAccrual, capitalisation, overdraftCharge });
+      });
+      if (!result.success) {
+        return result;
+      }
+
+      if (result.data.accrual) {
+        summary.accruals.push(result.data.accrual);
+      }
+      if (result.data.overdraftAccrual) {
+        summary.overdraftAccruals.push(result.data.overdraftAccrual);
+      }
+      if (result.data.capitalisation) {
+        summary.capitalisations.push(result.data.capitalisation);
+      }
+      if (result.data.overdraftCharge) {
+        summary.overdraftCharges.push(result.data.overdraftCharge);
+      }
+    }
+
+    return success(summary);
+  }
+
+  /**
+   * Interest an account earned and was paid over a period of business dates.
+   * `outstanding` is everything earned up to the end of the period that has not
+   * yet been capitalised.
+   */
+  async getInterestReport(
+    accountId: string,
+    fromDate: Date,
+    toDate: Date
+  ): Promise<Result<InterestReport>> {
+    await this.context.ready;
+
+    const account = await this.context.repositories.accounts.findById(accountId);
+    if (!account) {
+      return failure(new AccountNotFoundError(accountId));
+    }
+
+    const from = businessDay(fromDate);
+    const to = businessDay(toDate);
+    const accruals = await this.context.repositories.interestAccruals.findByAccountId(accountId);
+    const inPeriod = accruals.filter((a) => a.accrualDate >= from && a.accrualDate <= to);
+
+    const transactions = await this.context.repositories.transactions.findByAccountId(accountId);
+    const payments = transactions.filter((t) => {
+      const capitalisedOn = t.metadata['capitalisationDate'];
+      return (
+        t.type === TransactionType.INTEREST &&
+        t.destinationAccountId === accountId &&
+        typeof capitalisedOn === 'string' &&
+        capitalisedOn >= formatBusinessDate(from) &&
+        capitalisedOn <= formatBusinessDate(to)
+      );
+    });
+
+    return success({
+      accountId,
+      currency: account.currency,
+      fromDate: from,
+      toDate: to,
+      accrued: totalAccrued(inPeriod, 2),
+      paid: payments.reduce((sum, t) => sum + t.amount.amount, 0),
+      outstanding: totalAccrued(uncapitalisedAccruals(accruals, to), 2),
+    });
+  }
+
+  /**
+   * Record an account's interest for a business date; null when the product
+   * pays no interest, nothing was earned or the date is already accrued
+   */
+  private async accrueInterest(
+    repos: BankingRepositories,
+    account: Account,
+    accrualDate: Date
+  ): Promise<InterestAccrual | null> {
+    const product = await repos.products.findById(account.productId);
+    if (!product || !earnsInterest(product)) {
+      return null;
+    }
+    if (await repos.interestAccruals.find(account.id, accrualDate)) {
+      return null;
+    }
+
+    const balance = valueDateBalance(await repos.ledger.findByAccountId(account.id), accrualDate);
+    const amount = dailyInterest(balance, product.interestRate);
+    if (amount === 0) {
+      return null;
+    }
+
+    const accrual: InterestAccrual = {
+      accountId: account.id,
+      accrualDate,
+      balance: { amount: balance, currency: account.currency, scale: 2 },
+      annualRate: product.interestRate,
+      amount,
+      capitalisationTransactionId: null,
+      createdAt: new Date(),
+    };
+    await repos.interestAccruals.save(accrual);
+    return accrual;
+  }
+
+  /**
+   * Pay an account's unpaid accruals up to a business date as one INTEREST credit.
+   * Accruals that round to less than a cent are carried forward.
+   */
+  private async capitaliseInterest(
+    repos: BankingRepositories,
+    account: Account,
+    capitalisationDate: Date
+  ): Promise<Transaction | null> {
+    const accruals = uncapitalisedAccruals(
+      await repos.interestAccruals.findByAccountId(account.id),
+      capitalisationDate
+    );
+    const total = totalAccrued(accruals, 2);
+    if (total <= 0) {
+      return null;
+    }
+
+    const amount: Money = { amount: total, currency: account.currency, scale: 2 };
+    const expense = await this.context.internalAccount(repos, 'INTEREST_EXPENSE', account.currency);
+    const transactionId = IdGenerator.transactionId();
+    const description = `Interest to ${formatBusinessDate(capitalisationDate)}`;
+    const transaction: Transaction = {
+      id: {
+        value: transactionId,
+        generatedAt: new Date(),
+        source: 'BANKING_API',
+      },
+      sourceAccountId: expense.id,
+      destinationAccountId: account.id,
+      amount,
+      currency: account.currency,
+      type: TransactionType.INTEREST,
+      status: TransactionStatus.COMPLETED,
+      reference: IdGenerator.reference(),
+      description,
+      createdAt: new Date(),
+      completedAt: new Date(),
+      initiatedBy: 'SYSTEM',
+      authorizationCode: null,
+      fee: null,
+      exchangeRate: null,
+      originalTransactionId: null,
+      failureReason: null,
+      metadata: {
+        capitalisationDate: formatBusinessDate(capitalisationDate),
+        accrualFrom: formatBusinessDate(accruals[0]!.accrualDate),
+        accrualTo: formatBusinessDate(accruals[accruals.length - 1]!.accrualDate),
+        accrualDays: accruals.length,
+      },
+      version: 1,
+    };
+
+    const balanceEvents = [
+      await this.context.postEntry(
+        repos,
+        expense.id,
+        transactionId,
+        TransactionType.INTEREST,
+        EntryType.DEBIT,
+        amount,
+        description
+      ),
+      await this.context.postEntry(
+        repos,
+        account.id,
+        transactionId,
+        TransactionType.INTEREST,
+        EntryType.CREDIT,
+        amount,
+        description
+      ),
+    ];
+
+    for (const accrual of accruals) {
+      await repos.interestAccruals.save({ ...accrual, capitalisationTransactionId: transactionId });
+    }
+
+    await repos.transactions.save(transaction);
+
+    await this.context.enqueue(
+      repos,
+      ...balanceEvents,
+      DomainEvents.transactionCompleted(transaction)
+    );
+
+    return transaction;
+  }
+}
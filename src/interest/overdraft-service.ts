@@ -0,0 +1,197 @@
+/**
+ * Overdraft Service
+ * Accrues and charges overdraft interest and charges the monthly overdraft fee
+ */
+
+import {
+  Account,
+  Transaction,
+  TransactionType,
+  TransactionStatus,
+  Balance,
+  Money,
+  EntryType,
+  OverdraftInterestAccrual,
+} from '../core/domain';
+import { IdGenerator } from '../utils/id-generator';
+import { businessDay, formatBusinessDate } from '../utils/business-date';
+import { BankingRepositories } from '../persistence/repositories';
+import { BankingEvent } from '../events/event-bus';
+import { DomainEvents } from '../events/domain-events';
+import { BankingContext } from '../api/banking-context';
+import {
+  chargesOverdraftInterest,
+  dailyOverdraftInterest,
+  unchargedOverdraftAccruals,
+} from './overdraft';
+import { totalAccrued, valueDateBalance } from './accrual';
+
+/**
+ * Overdraft charging for accounts that go below zero: daily interest on the
+ * overdraft used, charged at month end, and the fee for going overdrawn
+ */
+export class OverdraftService {
+  constructor(private readonly context: BankingContext) {}
+
+  /**
+   * Record an account's overdraft interest for a business date; null when the
+   * product charges none, the account was in credit or the date is already accrued
+   */
+  async accrueOverdraftInterest(
+    repos: BankingRepositories,
+    account: Account,
+    accrualDate: Date
+  ): Promise<OverdraftInterestAccrual | null> {
+    const product = await repos.products.findById(account.productId);
+    if (!product || !chargesOverdraftInterest(product)) {
+      return null;
+    }
+    if (await repos.overdraftInterestAccruals.find(account.id, accrualDate)) {
+      return null;
+    }
+
+    const balance = valueDateBalance(await repos.ledger.findByAccountId(account.id), accrualDate);
+    const annualRate = product.overdraftInterestRate!;
+    const amount = dailyOverdraftInterest(balance, annualRate);
+    if (amount === 0) {
+      return null;
+    }
+
+    const accrual: OverdraftInterestAccrual = {
+      accountId: account.id,
+      accrualDate,
+      overdraftUsage: { amount: -balance, currency: account.currency, scale: 2 },
+      annualRate,
+      amount,
+      chargeTransactionId: null,
+      createdAt: new Date(),
+    };
+    await repos.overdraftInterestAccruals.save(accrual);
+    return accrual;
+  }
+
+  /**
+   * Charge an account's uncharged overdraft accruals up to a business date as one
+   * INTEREST debit. The charge is taken even if it goes past the overdraft limit.
+   */
+  async chargeOverdraftInterest(
+    repos: BankingRepositories,
+    account: Account,
+    chargeDate: Date
+  ): Promise<Transaction | null> {
+    const accruals = unchargedOverdraftAccruals(
+      await repos.overdraftInterestAccruals.findByAccountId(account.id),
+      chargeDate
+    );
+    const total = totalAccrued(accruals, 2);
+    if (total <= 0) {
+      return null;
+    }
+
+    const amount: Money = { amount: total, currency: account.currency, scale: 2 };
+    const income = await this.context.internalAccount(repos, 'INTEREST_INCOME', account.currency);
+    const transactionId = IdGenerator.transactionId();
+    const description = `Overdraft interest to ${formatBusinessDate(chargeDate)}`;
+    const transaction: Transaction = {
+      id: {
+        value: transactionId,
+        generatedAt: new Date(),
+        source: 'BANKING_API',
+      },
+      sourceAccountId: account.id,
+      destinationAccountId: income.id,
+      amount,
+      currency: account.currency,
+      type: TransactionType.INTEREST,
+      status: TransactionStatus.COMPLETED,
+      reference: IdGenerator.reference(),
+      description,
+      createdAt: new Date(),
+      completedAt: new Date(),
+      initiatedBy: 'SYSTEM',
+      authorizationCode: null,
+      fee: null,
+      exchangeRate: null,
+      originalTransactionId: null,
+      failureReason: null,
+      metadata: {
+        overdraftChargeDate: formatBusinessDate(chargeDate),
+        accrualFrom: formatBusinessDate(accruals[0]!.accrualDate),
+        accrualTo: formatBusinessDate(accruals[accruals.length - 1]!.accrualDate),
+        accrualDays: accruals.length,
+      },
+      version: 1,
+    };
+
+    const balanceEvents = [
+      await this.context.postEntry(
+        repos,
+        account.id,
+        transactionId,
+        TransactionType.INTEREST,
+        EntryType.DEBIT,
+        amount,
+        description
+      ),
+      await this.context.postEntry(
+        repos,
+        income.id,
+        transactionId,
+        TransactionType.INTEREST,
+        EntryType.CREDIT,
+        amount,
+        description
+      ),
+    ];
+
+    for (const accrual of accruals) {
+      await repos.overdraftInterestAccruals.save({ ...accrual, chargeTransactionId: transactionId });
+    }
+
+    await repos.transactions.save(transaction);
+    await this.context.enqueue(
+      repos,
+      ...balanceEvents,
+      DomainEvents.transactionCompleted(transaction)
+    );
+
+    return transaction;
+  }
+
+  /**
+   * Charge the product's overdraft fee when a customer debit, once all its legs and
+   * fees are posted, has taken the account from in credit into overdraft. Charged at
+   * most once per calendar month of the debit's business day, even past the limit.
+   */
+  async chargeOverdraftFee(
+    repos: BankingRepositories,
+    account: Account,
+    parent: Transaction,
+    balanceBefore: Balance,
+    valueDate: Date | null
+  ): Promise<BankingEvent[]> {
+    const balance = (await repos.balances.findByAccountId(account.id))!;
+    if (balanceBefore.ledgerBalance.amount < 0 || balance.ledgerBalance.amount >= 0) {
+      return [];
+    }
+    const product = await repos.products.findById(account.productId);
+    const fee = product?.fees.overdraftFee;
+    if (!fee || fee.amount <= 0) {
+      return [];
+    }
+
+    const cycle = formatBusinessDate(businessDay(valueDate ?? new Date())).slice(0, 7);
+    const alreadyCharged = (await repos.transactions.findByAccountId(account.id)).some(
+      (t) => t.type === TransactionType.FEE && t.metadata['overdraftCycle'] === cycle
+    );
+    if (alreadyCharged) {
+      return [];
+    }
+
+    return this.context.postFeeTransaction(repos, account, IdGenerator.transactionId(), fee, {
+      reference: `FEE-OD-${cycle}`,
+      description: `Overdraft fee ${cycle}`,
+      metadata: { parentTransactionId: parent.id.value, overdraftCycle: cycle },
+    });
+  }
+}
@@ -0,0 +1,43 @@
+/**
+ * Overdraft Interest
+ * Works out overdraft usage and the interest an overdrawn account owes each day
+ */
+
+import { Money, OverdraftInterestAccrual, ProductConfiguration } from '../core/domain';
+import { businessDay } from '../utils/business-date';
+import { ACCRUAL_PRECISION, DAY_COUNT_BASIS, roundAmount } from './accrual';
+
+/**
+ * Whether overdrawn accounts on a product are charged interest
+ */
+export function chargesOverdraftInterest(product: ProductConfiguration): boolean {
+  return product.overdraftLimit !== null && (product.overdraftInterestRate ?? 0) > 0;
+}
+
+/**
+ * Overdraft in use at a ledger balance; null while the account is in credit
+ */
+export function overdraftUsage(ledgerBalance: Money): Money | null {
+  return ledgerBalance.amount < 0 ? { ...ledgerBalance, amount: -ledgerBalance.amount } : null;
+}
+
+/**
+ * Interest owed on a balance for one day; balances in credit owe nothing
+ */
+export function dailyOverdraftInterest(balance: number, annualRate: number): number {
+  if (balance >= 0 || annualRate <= 0) {
+    return 0;
+  }
+  return roundAmount((-balance * annualRate) / DAY_COUNT_BASIS, ACCRUAL_PRECISION);
+}
+
+/**
+ * Overdraft accruals not yet charged that were incurred on or before a business date
+ */
+export function unchargedOverdraftAccruals(
+  accruals: OverdraftInterestAccrual[],
+  asOf: Date
+): OverdraftInterestAccrual[] {
+  const cutOff = businessDay(asOf);
+  return accruals.filter((a) => a.chargeTransactionId === null && a.accrualDate <= cutOff);
+}
@@ -0,0 +1,14 @@
+/**
+ * Limits Module Exports
+ * Rolling daily, monthly, count and ATM limits on customer debits
+ */
+
+export {
+  DAILY_LIMIT_WINDOW_MS,
+  MONTHLY_LIMIT_WINDOW_MS,
+  LimitUsage,
+  LimitedDebit,
+  isLimited,
+  limitUsage,
+  checkTransactionLimits,
+} from './transaction-limits';
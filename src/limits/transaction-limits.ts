@@ -0,0 +1,146 @@
+/**
+ * Transaction Limits
+ * Works out how much of a product's transaction limits an account has used and
+ * whether a new debit fits within them
+ */
+
+import {
+  Money,
+  Transaction,
+  TransactionLimits,
+  TransactionStatus,
+  TransactionType,
+} from '../core/domain';
+import { TransactionLimitExceededError } from '../utils/errors';
+
+/**
+ * Length of the rolling window the daily limits apply to
+ */
+export const DAILY_LIMIT_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Length of the rolling window the monthly limit applies to
+ */
+export const MONTHLY_LIMIT_WINDOW_MS = 30 * DAILY_LIMIT_WINDOW_MS;
+
+/**
+ * Customer debits that count towards an account's limits
+ */
+const LIMITED_TYPES: TransactionType[] = [
+  TransactionType.WITHDRAWAL,
+  TransactionType.TRANSFER,
+  TransactionType.PAYMENT,
+  TransactionType.DIRECT_DEBIT,
+];
+
+/**
+ * An account's use of its limits over the rolling windows
+ */
+export interface LimitUsage {
+  dailyAmount: number;
+  monthlyAmount: number;
+  dailyCount: number;
+  atmDailyAmount: number;
+}
+
+/**
+ * A debit being checked against the limits
+ */
+export interface LimitedDebit {
+  amount: Money;
+  /** Cash withdrawn at an ATM */
+  atm: boolean;
+}
+
+/**
+ * Whether a transaction counts towards an account's limits: a customer debit
+ * from the account that has been posted
+ */
+export function isLimited(transaction: Transaction, accountId: string): boolean {
+  // Held and future-dated transactions are not posted until approved or their value date
+  if (
+    !LIMITED_TYPES.includes(transaction.type) ||
+    transaction.sourceAccountId !== accountId ||
+    transaction.metadata['deferredRequest'] !== undefined
+  ) {
+    return false;
+  }
+  return (
+    transaction.status === TransactionStatus.COMPLETED ||
+    transaction.status === TransactionStatus.PENDING
+  );
+}
+
+/**
+ * Total an account's limited debits over the rolling windows ending at a point in time
+ */
+export function limitUsage(transactions: Transaction[], accountId: string, asOf: Date): LimitUsage {
+  const dayStart = asOf.getTime() - DAILY_LIMIT_WINDOW_MS;
+  const monthStart = asOf.getTime() - MONTHLY_LIMIT_WINDOW_MS;
+  const usage: LimitUsage = { dailyAmount: 0, monthlyAmount: 0, dailyCount: 0, atmDailyAmount: 0 };
+
+  for (const transaction of transactions) {
+    const postedAt = transaction.createdAt.getTime();
+    if (!isLimited(transaction, accountId) || postedAt <= monthStart || postedAt > asOf.getTime()) {
+      continue;
+    }
+
+    usage.monthlyAmount += transaction.amount.amount;
+    if (postedAt > dayStart) {
+      usage.dailyAmount += transaction.amount.amount;
+      usage.dailyCount += 1;
+      if (transaction.metadata['channel'] === 'ATM') {
+        usage.atmDailyAmount += transaction.amount.amount;
+      }
+    }
+  }
+
+  return {
+    dailyAmount: roundAmount(usage.dailyAmount),
+    monthlyAmount: roundAmount(usage.monthlyAmount),
+    dailyCount: usage.dailyCount,
+    atmDailyAmount: roundAmount(usage.atmDailyAmount),
+  };
+}
+
+/**
+ * Check a debit against a product's limits; returns the first limit it breaches
+ * with the headroom that was left, or null if it fits within them all
+ */
+export function checkTransactionLimits(
+  limits: TransactionLimits,
+  usage: LimitUsage,
+  debit: LimitedDebit
+): TransactionLimitExceededError | null {
+  const amount = debit.amount.amount;
+
+  const checks: Array<[string, number | null, number, number]> = [
+    ['Single transaction', limits.maxTransactionAmount.amount, 0, amount],
+    ['Daily amount', limits.maxDailyAmount.amount, usage.dailyAmount, amount],
+    ['Monthly amount', limits.maxMonthlyAmount?.amount ?? null, usage.monthlyAmount, amount],
+    ['Daily transaction count', limits.maxTransactionsPerDay, usage.dailyCount, 1],
+    [
+      'Daily ATM withdrawal',
+      debit.atm ? (limits.maxAtmWithdrawalPerDay?.amount ?? null) : null,
+      usage.atmDailyAmount,
+      amount,
+    ],
+  ];
+
+  for (const [limitType, limit, used, requested] of checks) {
+    if (limit !== null && used + requested > limit) {
+      return new TransactionLimitExceededError(
+        limit,
+        roundAmount(used + requested),
+        limitType,
+        roundAmount(Math.max(limit - used, 0))
+      );
+    }
+  }
+
+  return null;
+}
+
+function roundAmount(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
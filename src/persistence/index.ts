@@ -0,0 +1,38 @@
+/**
+ * Persistence Module Exports
+ * Repository implementations for in-memory and file-backed storage
+ */
+
+export {
+  RecordStore,
+  RecordChange,
+  InMemoryRecordStore,
+  JsonLogRecordStore,
+} from './record-store';
+export { StagedRecordStore } from './unit-of-work';
+export {
+  Collections,
+  BankingRepositories,
+  UnitOfWork,
+  StoredAccountRepository,
+  StoredBalanceRepository,
+  StoredTransactionRepository,
+  StoredLedgerRepository,
+  StoredProductRepository,
+  StoredIdempotencyKeyRepository,
+  StoredSequenceRepository,
+  StoredOutboxRepository,
+  StoredMandateRepository,
+  StoredDirectDebitReturnRepository,
+  StoredStandingOrderRepository,
+  StoredStandingOrderExecutionRepository,
+  StoredInterestAccrualRepository,
+  StoredOverdraftInterestAccrualRepository,
+  StoredBillingSummaryRepository,
+  StoredAuditLogRepository,
+  StoredAuthorizationRepository,
+  StoredCustomerRepository,
+  createRepositories,
+  createInMemoryRepositories,
+  createFileRepositories,
+} from './repositories';
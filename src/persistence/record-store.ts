@@ -0,0 +1,250 @@
+/**
+ * Record Store
+ * Low-level keyed storage used by the repository implementations.
+ * Records are grouped into named collections; writes are applied as batches
+ * so a multi-record change is never partially visible.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { ConcurrencyConflictError } from '../utils/errors';
+
+/**
+ * A single write inside a batch.
+ * A write carrying `expectedVersion` only applies if the stored record's
+ * `version` still equals it (null: no record may exist yet).
+ */
+export type RecordChange =
+  | { collection: string; key: string; value: unknown; expectedVersion?: number | null }
+  | { collection: string; key: string; deleted: true };
+
+/**
+ * Keyed record storage grouped by collection
+ */
+export interface RecordStore {
+  get<T>(collection: string, key: string): T | undefined;
+  values<T>(collection: string): T[];
+  entries<T>(collection: string): Array<[string, T]>;
+  commit(changes: RecordChange[]): Promise<void>;
+}
+
+/**
+ * Volatile record store backed by Maps
+ */
+export class InMemoryRecordStore implements RecordStore {
+  protected readonly collections: Map<string, Map<string, unknown>> = new Map();
+
+  get<T>(collection: string, key: string): T | undefined {
+    return this.collections.get(collection)?.get(key) as T | undefined;
+  }
+
+  values<T>(collection: string): T[] {
+    return Array.from(this.collections.get(collection)?.values() ?? []) as T[];
+  }
+
+  entries<T>(collection: string): Array<[string, T]> {
+    return Array.from(this.collections.get(collection)?.entries() ?? []) as Array<[string, T]>;
+  }
+
+  async commit(changes: RecordChange[]): Promise<void> {
+    this.verify(changes);
+    this.apply(changes);
+  }
+
+  /**
+   * Compare-and-set check: throw if any versioned write is based on a stale record
+   */
+  protected verify(changes: RecordChange[]): void {
+    for (const change of changes) {
+      if ('deleted' in change || change.expectedVersion === undefined) {
+        continue;
+      }
+
+      const actualVersion = recordVersion(this.get(change.collection, change.key));
+      if (actualVersion !== change.expectedVersion) {
+        throw new ConcurrencyConflictError(
+          change.collection,
+          change.key,
+          change.expectedVersion,
+          actualVersion
+        );
+      }
+    }
+  }
+
+  protected apply(changes: RecordChange[]): void {
+    for (const change of changes) {
+      let records = this.collections.get(change.collection);
+      if (!records) {
+        records = new Map();
+        this.collections.set(change.collection, records);
+      }
+
+      if ('deleted' in change) {
+        records.delete(change.key);
+      } else {
+        records.set(change.key, change.value);
+      }
+    }
+  }
+}
+
+/**
+ * How long to wait before trying again for a log lock held by another writer
+ */
+const LOCK_RETRY_MS = 5;
+
+/**
+ * Age after which a lock file is taken to belong to a writer that died mid-commit
+ */
+const STALE_LOCK_MS = 10_000;
+
+/**
+ * Durable record store backed by an append-only JSON log on local disk.
+ *
+ * Each committed batch is written as one JSON line, so a batch is either fully
+ * present or (if the process died mid-write) a torn trailing line that is
+ * discarded. State is rebuilt by replaying the log at construction.
+ *
+ * Several processes may share one log. A commit holds an exclusive lock file
+ * while it reads the lines other writers appended since this store last read
+ * the log, checks its versions against that state and appends its own line, so
+ * two processes writing the same record conflict instead of both succeeding.
+ */
+export class JsonLogRecordStore extends InMemoryRecordStore {
+  private readonly lockPath: string;
+  /** Bytes of the log already applied */
+  private offset = 0;
+
+  constructor(private readonly filePath: string) {
+    super();
+    this.lockPath = `${filePath}.lock`;
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    this.catchUp(false);
+  }
+
+  override async commit(changes: RecordChange[]): Promise<void> {
+    if (changes.length === 0) {
+      return;
+    }
+
+    await this.lock();
+    try {
+      this.catchUp(true);
+      this.verify(changes);
+      const line = JSON.stringify({ changes }, encodeDates) + '\n';
+      fs.appendFileSync(this.filePath, line, { encoding: 'utf8' });
+      this.offset += Buffer.byteLength(line, 'utf8');
+      this.apply(changes);
+    } finally {
+      fs.rmSync(this.lockPath, { force: true });
+    }
+  }
+
+  /**
+   * Apply the complete lines appended to the log since it was last read.
+   * A trailing partial line is a write in progress, unless the lock is held:
+   * then its writer died mid-write and the line is cut off.
+   */
+  private catchUp(locked: boolean): void {
+    if (!fs.existsSync(this.filePath)) {
+      return;
+    }
+
+    const size = fs.statSync(this.filePath).size;
+    if (size <= this.offset) {
+      return;
+    }
+
+    const unread = Buffer.alloc(size - this.offset);
+    const fd = fs.openSync(this.filePath, 'r');
+    try {
+      fs.readSync(fd, unread, 0, unread.length, this.offset);
+    } finally {
+      fs.closeSync(fd);
+    }
+
+    const complete = unread.lastIndexOf('\n') + 1;
+    const lines = unread.subarray(0, complete).toString('utf8').split('\n').slice(0, -1);
+    let lineStart = this.offset;
+    for (const line of lines) {
+      if (line.trim() !== '') {
+        let batch: { changes: RecordChange[] };
+        try {
+          batch = JSON.parse(line, decodeDates) as { changes: RecordChange[] };
+        } catch (error) {
+          throw new Error(`Corrupt record log ${this.filePath} at byte ${lineStart}`);
+        }
+        this.apply(batch.changes);
+      }
+      lineStart += Buffer.byteLength(line, 'utf8') + 1;
+    }
+    this.offset += complete;
+
+    if (locked && complete < unread.length) {
+      fs.truncateSync(this.filePath, this.offset);
+    }
+  }
+
+  /**
+   * Take the log's lock file, waiting while another writer holds it
+   */
+  private async lock(): Promise<void> {
+    for (;;) {
+      try {
+        fs.closeSync(fs.openSync(this.lockPath, 'wx'));
+        return;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+          throw error;
+        }
+      }
+
+      if (this.lockIsStale()) {
+        fs.rmSync(this.lockPath, { force: true });
+        continue;
+      }
+      await new Promise((resolve) => setTimeout(resolve, LOCK_RETRY_MS));
+    }
+  }
+
+  private lockIsStale(): boolean {
+    try {
+      return Date.now() - fs.statSync(this.lockPath).mtimeMs > STALE_LOCK_MS;
+    } catch {
+      // Released between the failed open and this check
+      return false;
+    }
+  }
+}
+
+/**
+ * Version of a stored record, or null if there is none
+ */
+export function recordVersion(record: unknown): number | null {
+  if (record && typeof record === 'object' && 'version' in record) {
+    return (record as { version: number }).version;
+  }
+  return null;
+}
+
+/**
+ * JSON replacer that tags Date values so they survive a round trip
+ */
+function encodeDates(this: Record<string, unknown>, key: string, value: unknown): unknown {
+  const raw = this[key];
+  if (raw instanceof Date) {
+    return { $date: raw.toISOString() };
+  }
+  return value;
+}
+
+/**
+ * JSON reviver that restores tagged Date values
+ */
+function decodeDates(_key: string, value: unknown): unknown {
+  if (value && typeof value === 'object' && '$date' in value) {
+    return new Date((value as { $date: string }).$date);
+  }
+  return value;
+}
@@ -0,0 +1,821 @@
+/**
+ * Repository Implementations
+ * Implements the repository interfaces from core/domain on top of a RecordStore
+ */
+
+import {
+  Account,
+  AccountNumber,
+  AccountRepository,
+  Balance,
+  BalanceRepository,
+  Currency,
+  Customer,
+  CustomerId,
+  CustomerRepository,
+  DirectDebitMandate,
+  DirectDebitReturn,
+  DirectDebitReturnRepository,
+  EntryType,
+  IdempotencyKeyRepository,
+  IdempotencyRecord,
+  LedgerEntry,
+  LedgerRepository,
+  MandateRepository,
+  InterestAccrual,
+  InterestAccrualRepository,
+  OverdraftInterestAccrual,
+  OverdraftInterestAccrualRepository,
+  BillingSummary,
+  BillingSummaryRepository,
+  AuditEntry,
+  AuditLogRepository,
+  Authorization,
+  AuthorizationRepository,
+  AuthorizationStatus,
+  Money,
+  StandingOrder,
+  StandingOrderExecution,
+  StandingOrderExecutionRepository,
+  StandingOrderRepository,
+  StandingOrderStatus,
+  OutboxMessage,
+  OutboxRepository,
+  OutboxStatus,
+  ProductConfiguration,
+  ProductRepository,
+  ProductType,
+  SequenceRepository,
+  Transaction,
+  TransactionRepository,
+  TransactionStatus,
+} from '../core/domain';
+import {
+  InMemoryRecordStore,
+  JsonLogRecordStore,
+  RecordChange,
+  RecordStore,
+  recordVersion,
+} from './record-store';
+import { AccountAlreadyExistsError } from '../utils/errors';
+import { StagedRecordStore } from './unit-of-work';
+
+/**
+ * Collection names used in the record store
+ */
+export const Collections = {
+  ACCOUNTS: 'accounts',
+  ACCOUNT_NUMBERS: 'accountNumbers',
+  IBANS: 'ibans',
+  BALANCES: 'balances',
+  TRANSACTIONS: 'transactions',
+  LEDGER_ENTRIES: 'ledgerEntries',
+  PRODUCTS: 'products',
+  IDEMPOTENCY_KEYS: 'idempotencyKeys',
+  SEQUENCES: 'sequences',
+  OUTBOX: 'outbox',
+  MANDATES: 'mandates',
+  DIRECT_DEBIT_RETURNS: 'directDebitReturns',
+  STANDING_ORDERS: 'standingOrders',
+  STANDING_ORDER_EXECUTIONS: 'standingOrderExecutions',
+  INTEREST_ACCRUALS: 'interestAccruals',
+  OVERDRAFT_INTEREST_ACCRUALS: 'overdraftInterestAccruals',
+  BILLING_SUMMARIES: 'billingSummaries',
+  AUDIT_LOG: 'auditLog',
+  AUTHORIZATIONS: 'authorizations',
+  CUSTOMERS: 'customers',
+} as const;
+
+/**
+ * All repositories required by the BankingAPI
+ */
+export interface BankingRepositories {
+  accounts: AccountRepository;
+  balances: BalanceRepository;
+  transactions: TransactionRepository;
+  ledger: LedgerRepository;
+  products: ProductRepository;
+  idempotencyKeys: IdempotencyKeyRepository;
+  sequences: SequenceRepository;
+  outbox: OutboxRepository;
+  mandates: MandateRepository;
+  directDebitReturns: DirectDebitReturnRepository;
+  standingOrders: StandingOrderRepository;
+  standingOrderExecutions: StandingOrderExecutionRepository;
+  interestAccruals: InterestAccrualRepository;
+  overdraftInterestAccruals: OverdraftInterestAccrualRepository;
+  billingSummaries: BillingSummaryRepository;
+  auditLog: AuditLogRepository;
+  authorizations: AuthorizationRepository;
+  customers: CustomerRepository;
+
+  /**
+   * Start a unit of work whose repositories stage writes until commit
+   */
+  beginUnitOfWork(): UnitOfWork;
+}
+
+/**
+ * A set of staged writes that are committed or discarded together
+ */
+export interface UnitOfWork {
+  readonly repositories: BankingRepositories;
+  /** Keys written (not deleted) in a collection so far */
+  stagedKeys(collection: string): string[];
+  commit(): Promise<void>;
+  rollback(): void;
+}
+
+/**
+ * Version a versioned entity must currently have in storage for a write of it
+ * to succeed: version 1 is an insert, anything later replaces its predecessor
+ */
+function previousVersion(entity: { version: number }): number | null {
+  return entity.version > 1 ? entity.version - 1 : null;
+}
+
+/**
+ * Index record reserving a unique account key (its account number or IBAN) for one account
+ */
+interface AccountKeyClaim {
+  accountId: string;
+  version: number;
+}
+
+/**
+ * Account keys no two accounts may share, each reserved in its own index collection
+ */
+const UNIQUE_ACCOUNT_KEYS: Array<{ collection: string; keyOf: (account: Account) => string }> = [
+  { collection: Collections.ACCOUNT_NUMBERS, keyOf: (account) => account.accountNumber.value },
+  { collection: Collections.IBANS, keyOf: (account) => account.iban },
+];
+
+export class StoredAccountRepository implements AccountRepository {
+  constructor(private readonly store: RecordStore) {}
+
+  async findById(id: string): Promise<Account | null> {
+    return this.store.get<Account>(Collections.ACCOUNTS, id) ?? null;
+  }
+
+  async findByAccountNumber(accountNumber: AccountNumber): Promise<Account | null> {
+    return (
+      this.store
+        .values<Account>(Collections.ACCOUNTS)
+        .find((a) => a.accountNumber.value === accountNumber.value) ?? null
+    );
+  }
+
+  async findByIban(iban: string): Promise<Account | null> {
+    return this.store.values<Account>(Collections.ACCOUNTS).find((a) => a.iban === iban) ?? null;
+  }
+
+  async findByCustomerId(customerId: CustomerId): Promise<Account[]> {
+    return this.store
+      .values<Account>(Collections.ACCOUNTS)
+      .filter(
+        (a) =>
+          a.customerId.value === customerId.value ||
+          (a.holders ?? []).some((h) => h.customerId === customerId.value)
+      );
+  }
+
+  async findAll(): Promise<Account[]> {
+    return this.store.values<Account>(Collections.ACCOUNTS);
+  }
+
+  async save(account: Account): Promise<void> {
+    await this.store.commit([
+      {
+        collection: Collections.ACCOUNTS,
+        key: account.id,
+        value: account,
+        expectedVersion: previousVersion(account),
+      },
+      ...this.claimUniqueKeys(account),
+    ]);
+  }
+
+  async delete(id: string): Promise<void> {
+    const account = await this.findById(id);
+    const claims: RecordChange[] = account
+      ? UNIQUE_ACCOUNT_KEYS.map(({ collection, keyOf }) => ({
+          collection,
+          key: keyOf(account),
+          deleted: true as const,
+        }))
+      : [];
+
+    await this.store.commit([{ collection: Collections.ACCOUNTS, key: id, deleted: true }, ...claims]);
+  }
+
+  /**
+   * Index writes reserving an account's unique keys. Each claim is insert-only, so a
+   * unit of work racing to claim the same key fails with a concurrency conflict.
+   * Accounts stored before the index existed are checked by scanning.
+   */
+  private claimUniqueKeys(account: Account): RecordChange[] {
+    const claims: RecordChange[] = [];
+
+    for (const { collection, keyOf } of UNIQUE_ACCOUNT_KEYS) {
+      const key = keyOf(account);
+      const claim = this.store.get<AccountKeyClaim>(collection, key);
+      if (claim?.accountId === account.id) {
+        continue;
+      }
+
+      const taken =
+        claim !== undefined ||
+        this.store
+          .values<Account>(Collections.ACCOUNTS)
+          .some((a) => a.id !== account.id && keyOf(a) === key);
+      if (taken) {
+        throw new AccountAlreadyExistsError(key);
+      }
+
+      const value: AccountKeyClaim = { accountId: account.id, version: 1 };
+      claims.push({ collection, key, value, expectedVersion: null });
+    }
+
+    return claims;
+  }
+}
+
+export class StoredBalanceRepository implements BalanceRepository {
+  constructor(private readonly store: RecordStore) {}
+
+  async findByAccountId(accountId: string): Promise<Balance | null> {
+    return this.store.get<Balance>(Collections.BALANCES, accountId) ?? null;
+  }
+
+  async save(balance: Balance): Promise<void> {
+    await this.store.commit([
+      {
+        collection: Collections.BALANCES,
+        key: balance.accountId,
+        value: balance,
+        expectedVersion: previousVersion(balance),
+      },
+    ]);
+  }
+
+  async updateAvailableBalance(accountId: string, amount: Money): Promise<void> {
+    const balance = await this.findByAccountId(accountId);
+    if (!balance) {
+      throw new Error(`Balance not found for account ${accountId}`);
+    }
+
+    await this.save({
+      ...balance,
+      availableBalance: amount,
+      lastUpdatedAt: new Date(),
+      version: balance.version + 1,
+    });
+  }
+}
+
+export class StoredTransactionRepository implements TransactionRepository {
+  constructor(private readonly store: RecordStore) {}
+
+  async findById(id: string): Promise<Transaction | null> {
+    return this.store.get<Transaction>(Collections.TRANSACTIONS, id) ?? null;
+  }
+
+  async findByAccountId(accountId: string, limit?: number): Promise<Transaction[]> {
+    const transactions = this.store
+      .values<Transaction>(Collections.TRANSACTIONS)
+      .filter((t) => t.sourceAccountId === accountId || t.destinationAccountId === accountId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+
+    return limit !== undefined ? transactions.slice(0, limit) : transactions;
+  }
+
+  async findByDateRange(accountId: string, startDate: Date, endDate: Date): Promise<Transaction[]> {
+    const transactions = await this.findByAccountId(accountId);
+    return transactions.filter((t) => t.createdAt >= startDate && t.createdAt <= endDate);
+  }
+
+  async findByStatus(status: TransactionStatus): Promise<Transaction[]> {
+    return this.store
+      .values<Transaction>(Collections.TRANSACTIONS)
+      .filter((t) => t.status === status)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async save(transaction: Transaction): Promise<void> {
+    await this.store.commit([
+      {
+        collection: Collections.TRANSACTIONS,
+        key: transaction.id.value,
+        value: transaction,
+        expectedVersion: previousVersion(transaction),
+      },
+    ]);
+  }
+}
+
+export class StoredLedgerRepository implements LedgerRepository {
+  constructor(private readonly store: RecordStore) {}
+
+  async findById(id: string): Promise<LedgerEntry | null> {
+    return this.store.get<LedgerEntry>(Collections.LEDGER_ENTRIES, id) ?? null;
+  }
+
+  /**
+   * Entries in posting sequence order; with a limit, the most recent entries
+   */
+  async findByAccountId(accountId: string, limit?: number): Promise<LedgerEntry[]> {
+    const entries = this.store
+      .values<LedgerEntry>(Collections.LEDGER_ENTRIES)
+      .filter((e) => e.accountId === accountId)
+      .sort((a, b) => a.sequenceNumber - b.sequenceNumber);
+
+    return limit !== undefined ? entries.slice(-limit) : entries;
+  }
+
+  async findByTransactionId(transactionId: string): Promise<LedgerEntry[]> {
+    return this.store
+      .values<LedgerEntry>(Collections.LEDGER_ENTRIES)
+      .filter((e) => e.transactionId === transactionId);
+  }
+
+  async save(entry: LedgerEntry): Promise<void> {
+    await this.store.commit([{ collection: Collections.LEDGER_ENTRIES, key: entry.id, value: entry }]);
+  }
+
+  async getAccountBalance(accountId: string): Promise<Money> {
+    const entries = await this.findByAccountId(accountId);
+    const currency = entries[0]?.amount.currency ?? Currency.USD;
+    const amount = entries.reduce(
+      (sum, e) => (e.entryType === EntryType.CREDIT ? sum + e.amount.amount : sum - e.amount.amount),
+      0
+    );
+
+    return { amount: Math.round(amount * 100) / 100, currency, scale: 2 };
+  }
+}
+
+export class StoredProductRepository implements ProductRepository {
+  constructor(private readonly store: RecordStore) {}
+
+  async findById(id: string): Promise<ProductConfiguration | null> {
+    return this.store.get<ProductConfiguration>(Collections.PRODUCTS, id) ?? null;
+  }
+
+  async findByType(type: ProductType): Promise<ProductConfiguration[]> {
+    return (await this.findAll()).filter((p) => p.type === type);
+  }
+
+  async findActive(): Promise<ProductConfiguration[]> {
+    return (await this.findAll()).filter((p) => p.isActive);
+  }
+
+  async findAll(): Promise<ProductConfiguration[]> {
+    return this.store.values<ProductConfiguration>(Collections.PRODUCTS);
+  }
+
+  async save(product: ProductConfiguration): Promise<void> {
+    await this.store.commit([{ collection: Collections.PRODUCTS, key: product.id, value: product }]);
+  }
+}
+
+export class StoredIdempotencyKeyRepository implements IdempotencyKeyRepository {
+  constructor(private readonly store: RecordStore) {}
+
+  async find(operation: string, callerId: string, key: string): Promise<IdempotencyRecord | null> {
+    return (
+      this.store.get<IdempotencyRecord>(
+        Collections.IDEMPOTENCY_KEYS,
+        this.storageKey(operation, callerId, key)
+      ) ?? null
+    );
+  }
+
+  async save(record: IdempotencyRecord): Promise<void> {
+    await this.store.commit([
+      {
+        collection: Collections.IDEMPOTENCY_KEYS,
+        key: this.storageKey(record.operation, record.callerId, record.key),
+        value: record,
+      },
+    ]);
+  }
+
+  async deleteExpired(asOf: Date): Promise<number> {
+    const expired = this.store
+      .entries<IdempotencyRecord>(Collections.IDEMPOTENCY_KEYS)
+      .filter(([, record]) => record.expiresAt <= asOf);
+
+    await this.store.commit(
+      expired.map(([key]) => ({ collection: Collections.IDEMPOTENCY_KEYS, key, deleted: true as const }))
+    );
+    return expired.length;
+  }
+
+  private storageKey(operation: string, callerId: string, key: string): string {
+    return [operation, callerId, key].map(encodeURIComponent).join(':');
+  }
+}
+
+/**
+ * Stored state of a sequence; versioned so two writers drawing the same value conflict
+ */
+interface SequenceRecord {
+  value: number;
+  version: number;
+}
+
+export class StoredSequenceRepository implements SequenceRepository {
+  constructor(private readonly store: RecordStore) {}
+
+  async next(name: string, initialValue: number): Promise<number> {
+    // Sequences written before they were versioned hold the bare counter
+    const stored = this.store.get<SequenceRecord | number>(Collections.SEQUENCES, name);
+    const current = typeof stored === 'number' ? { value: stored, version: 0 } : stored;
+    const record: SequenceRecord = {
+      value: (current?.value ?? initialValue) + 1,
+      version: (current?.version ?? 0) + 1,
+    };
+
+    await this.store.commit([
+      {
+        collection: Collections.SEQUENCES,
+        key: name,
+        value: record,
+        expectedVersion: recordVersion(stored),
+      },
+    ]);
+    return record.value;
+  }
+}
+
+export class StoredOutboxRepository implements OutboxRepository {
+  constructor(private readonly store: RecordStore) {}
+
+  async findById(eventId: string): Promise<OutboxMessage | null> {
+    return this.store.get<OutboxMessage>(Collections.OUTBOX, eventId) ?? null;
+  }
+
+  async findPending(limit?: number): Promise<OutboxMessage[]> {
+    const pending = this.store
+      .values<OutboxMessage>(Collections.OUTBOX)
+      .filter((m) => m.status === OutboxStatus.PENDING)
+      .sort((a, b) => a.sequence - b.sequence);
+
+    return limit !== undefined ? pending.slice(0, limit) : pending;
+  }
+
+  async save(message: OutboxMessage): Promise<void> {
+    await this.store.commit([{ collection: Collections.OUTBOX, key: message.eventId, value: message }]);
+  }
+
+  async deleteDispatched(before: Date): Promise<number> {
+    const dispatched = this.store
+      .values<OutboxMessage>(Collections.OUTBOX)
+      .filter(
+        (m) => m.status === OutboxStatus.DISPATCHED && m.dispatchedAt !== null && m.dispatchedAt < before
+      );
+
+    await this.store.commit(
+      dispatched.map((m) => ({ collection: Collections.OUTBOX, key: m.eventId, deleted: true as const }))
+    );
+    return dispatched.length;
+  }
+}
+
+export class StoredMandateRepository implements MandateRepository {
+  constructor(private readonly store: RecordStore) {}
+
+  async findById(id: string): Promise<DirectDebitMandate | null> {
+    return this.store.get<DirectDebitMandate>(Collections.MANDATES, id) ?? null;
+  }
+
+  async findByReference(
+    creditorId: string,
+    mandateReference: string
+  ): Promise<DirectDebitMandate | null> {
+    return (
+      this.store
+        .values<DirectDebitMandate>(Collections.MANDATES)
+        .find((m) => m.creditorId === creditorId && m.mandateReference === mandateReference) ?? null
+    );
+  }
+
+  async findByDebtorAccountId(accountId: string): Promise<DirectDebitMandate[]> {
+    return this.store
+      .values<DirectDebitMandate>(Collections.MANDATES)
+      .filter((m) => m.debtorAccountId === accountId);
+  }
+
+  async save(mandate: DirectDebitMandate): Promise<void> {
+    await this.store.commit([
+      {
+        collection: Collections.MANDATES,
+        key: mandate.id,
+        value: mandate,
+        expectedVersion: previousVersion(mandate),
+      },
+    ]);
+  }
+}
+
+export class StoredDirectDebitReturnRepository implements DirectDebitReturnRepository {
+  constructor(private readonly store: RecordStore) {}
+
+  async findById(id: string): Promise<DirectDebitReturn | null> {
+    return this.store.get<DirectDebitReturn>(Collections.DIRECT_DEBIT_RETURNS, id) ?? null;
+  }
+
+  async findByDebtorAccountId(accountId: string): Promise<DirectDebitReturn[]> {
+    return this.store
+      .values<DirectDebitReturn>(Collections.DIRECT_DEBIT_RETURNS)
+      .filter((r) => r.debtorAccountId === accountId);
+  }
+
+  async findByCreditorId(creditorId: string): Promise<DirectDebitReturn[]> {
+    return this.store
+      .values<DirectDebitReturn>(Collections.DIRECT_DEBIT_RETURNS)
+      .filter((r) => r.creditorId === creditorId);
+  }
+
+  async save(item: DirectDebitReturn): Promise<void> {
+    await this.store.commit([
+      { collection: Collections.DIRECT_DEBIT_RETURNS, key: item.id, value: item },
+    ]);
+  }
+}
+
+export class StoredStandingOrderRepository implements StandingOrderRepository {
+  constructor(private readonly store: RecordStore) {}
+
+  async findById(id: string): Promise<StandingOrder | null> {
+    return this.store.get<StandingOrder>(Collections.STANDING_ORDERS, id) ?? null;
+  }
+
+  async findBySourceAccountId(accountId: string): Promise<StandingOrder[]> {
+    return this.store
+      .values<StandingOrder>(Collections.STANDING_ORDERS)
+      .filter((o) => o.sourceAccountId === accountId);
+  }
+
+  async findDue(businessDate: Date): Promise<StandingOrder[]> {
+    return this.store
+      .values<StandingOrder>(Collections.STANDING_ORDERS)
+      .filter(
+        (o) =>
+          o.status === StandingOrderStatus.ACTIVE &&
+          o.nextExecutionDate !== null &&
+          o.nextExecutionDate <= businessDate
+      )
+      .sort((a, b) => a.nextExecutionDate!.getTime() - b.nextExecutionDate!.getTime());
+  }
+
+  async save(order: StandingOrder): Promise<void> {
+    await this.store.commit([
+      {
+        collection: Collections.STANDING_ORDERS,
+        key: order.id,
+        value: order,
+        expectedVersion: previousVersion(order),
+      },
+    ]);
+  }
+}
+
+export class StoredStandingOrderExecutionRepository implements StandingOrderExecutionRepository {
+  constructor(private readonly store: RecordStore) {}
+
+  async findByStandingOrderId(standingOrderId: string): Promise<StandingOrderExecution[]> {
+    return this.store
+      .values<StandingOrderExecution>(Collections.STANDING_ORDER_EXECUTIONS)
+      .filter((e) => e.standingOrderId === standingOrderId)
+      .sort((a, b) => a.instalment - b.instalment || a.attempt - b.attempt);
+  }
+
+  async save(execution: StandingOrderExecution): Promise<void> {
+    await this.store.commit([
+      { collection: Collections.STANDING_ORDER_EXECUTIONS, key: execution.id, value: execution },
+    ]);
+  }
+}
+
+export class StoredInterestAccrualRepository implements InterestAccrualRepository {
+  constructor(private readonly store: RecordStore) {}
+
+  async find(accountId: string, accrualDate: Date): Promise<InterestAccrual | null> {
+    return (
+      this.store.get<InterestAccrual>(
+        Collections.INTEREST_ACCRUALS,
+        this.storageKey(accountId, accrualDate)
+      ) ?? null
+    );
+  }
+
+  async findByAccountId(accountId: string): Promise<InterestAccrual[]> {
+    return this.store
+      .values<InterestAccrual>(Collections.INTEREST_ACCRUALS)
+      .filter((a) => a.accountId === accountId)
+      .sort((a, b) => a.accrualDate.getTime() - b.accrualDate.getTime());
+  }
+
+  async save(accrual: InterestAccrual): Promise<void> {
+    await this.store.commit([
+      {
+        collection: Collections.INTEREST_ACCRUALS,
+        key: this.storageKey(accrual.accountId, accrual.accrualDate),
+        value: accrual,
+      },
+    ]);
+  }
+
+  private storageKey(accountId: string, accrualDate: Date): string {
+    return `${accountId}:${accrualDate.toISOString().slice(0, 10)}`;
+  }
+}
+
+export class StoredOverdraftInterestAccrualRepository implements OverdraftInterestAccrualRepository {
+  constructor(private readonly store: RecordStore) {}
+
+  async find(accountId: string, accrualDate: Date): Promise<OverdraftInterestAccrual | null> {
+    return (
+      this.store.get<OverdraftInterestAccrual>(
+        Collections.OVERDRAFT_INTEREST_ACCRUALS,
+        this.storageKey(accountId, accrualDate)
+      ) ?? null
+    );
+  }
+
+  async findByAccountId(accountId: string): Promise<OverdraftInterestAccrual[]> {
+    return this.store
+      .values<OverdraftInterestAccrual>(Collections.OVERDRAFT_INTEREST_ACCRUALS)
+      .filter((a) => a.accountId === accountId)
+      .sort((a, b) => a.accrualDate.getTime() - b.accrualDate.getTime());
+  }
+
+  async save(accrual: OverdraftInterestAccrual): Promise<void> {
+    await this.store.commit([
+      {
+        collection: Collections.OVERDRAFT_INTEREST_ACCRUALS,
+        key: this.storageKey(accrual.accountId, accrual.accrualDate),
+        value: accrual,
+      },
+    ]);
+  }
+
+  private storageKey(accountId: string, accrualDate: Date): string {
+    return `${accountId}:${accrualDate.toISOString().slice(0, 10)}`;
+  }
+}
+
+export class StoredBillingSummaryRepository implements BillingSummaryRepository {
+  constructor(private readonly store: RecordStore) {}
+
+  async find(accountId: string, period: string): Promise<BillingSummary | null> {
+    return (
+      this.store.get<BillingSummary>(Collections.BILLING_SUMMARIES, `${accountId}:${period}`) ?? null
+    );
+  }
+
+  async findByPeriod(period: string): Promise<BillingSummary[]> {
+    return this.store
+      .values<BillingSummary>(Collections.BILLING_SUMMARIES)
+      .filter((s) => s.period === period);
+  }
+
+  async save(summary: BillingSummary): Promise<void> {
+    await this.store.commit([
+      {
+        collection: Collections.BILLING_SUMMARIES,
+        key: `${summary.accountId}:${summary.period}`,
+        value: summary,
+      },
+    ]);
+  }
+}
+
+export class StoredAuditLogRepository implements AuditLogRepository {
+  constructor(private readonly store: RecordStore) {}
+
+  async findByEntity(entityType: string, entityId: string): Promise<AuditEntry[]> {
+    return this.store
+      .values<AuditEntry>(Collections.AUDIT_LOG)
+      .filter((e) => e.entityType === entityType && e.entityId === entityId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async save(entry: AuditEntry): Promise<void> {
+    await this.store.commit([
+      { collection: Collections.AUDIT_LOG, key: entry.id, value: entry },
+    ]);
+  }
+}
+
+export class StoredAuthorizationRepository implements AuthorizationRepository {
+  constructor(private readonly store: RecordStore) {}
+
+  async findById(id: string): Promise<Authorization | null> {
+    return this.store.get<Authorization>(Collections.AUTHORIZATIONS, id) ?? null;
+  }
+
+  async findByAccountId(accountId: string): Promise<Authorization[]> {
+    return this.store
+      .values<Authorization>(Collections.AUTHORIZATIONS)
+      .filter((a) => a.accountId === accountId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async findExpired(asOf: Date): Promise<Authorization[]> {
+    return this.store
+      .values<Authorization>(Collections.AUTHORIZATIONS)
+      .filter((a) => a.status === AuthorizationStatus.AUTHORIZED && a.expiresAt <= asOf)
+      .sort((a, b) => a.expiresAt.getTime() - b.expiresAt.getTime());
+  }
+
+  async save(authorization: Authorization): Promise<void> {
+    await this.store.commit([
+      {
+        collection: Collections.AUTHORIZATIONS,
+        key: authorization.id,
+        value: authorization,
+        expectedVersion: previousVersion(authorization),
+      },
+    ]);
+  }
+}
+
+export class StoredCustomerRepository implements CustomerRepository {
+  constructor(private readonly store: RecordStore) {}
+
+  async findById(id: string): Promise<Customer | null> {
+    return this.store.get<Customer>(Collections.CUSTOMERS, id) ?? null;
+  }
+
+  async findAll(): Promise<Customer[]> {
+    return this.store
+      .values<Customer>(Collections.CUSTOMERS)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async save(customer: Customer): Promise<void> {
+    await this.store.commit([
+      {
+        collection: Collections.CUSTOMERS,
+        key: customer.id,
+        value: customer,
+        expectedVersion: previousVersion(customer),
+      },
+    ]);
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.store.commit([{ collection: Collections.CUSTOMERS, key: id, deleted: true }]);
+  }
+}
+
+/**
+ * Build the full repository set over a record store
+ */
+export function createRepositories(store: RecordStore): BankingRepositories {
+  return {
+    accounts: new StoredAccountRepository(store),
+    balances: new StoredBalanceRepository(store),
+    transactions: new StoredTransactionRepository(store),
+    ledger: new StoredLedgerRepository(store),
+    products: new StoredProductRepository(store),
+    idempotencyKeys: new StoredIdempotencyKeyRepository(store),
+    sequences: new StoredSequenceRepository(store),
+    outbox: new StoredOutboxRepository(store),
+    mandates: new StoredMandateRepository(store),
+    directDebitReturns: new StoredDirectDebitReturnRepository(store),
+    standingOrders: new StoredStandingOrderRepository(store),
+    standingOrderExecutions: new StoredStandingOrderExecutionRepository(store),
+    interestAccruals: new StoredInterestAccrualRepository(store),
+    overdraftInterestAccruals: new StoredOverdraftInterestAccrualRepository(store),
+    billingSummaries: new StoredBillingSummaryRepository(store),
+    auditLog: new StoredAuditLogRepository(store),
+    authorizations: new StoredAuthorizationRepository(store),
+    customers: new StoredCustomerRepository(store),
+    beginUnitOfWork: () => {
+      const staged = new StagedRecordStore(store);
+      return {
+        repositories: createRepositories(staged),
+        stagedKeys: (collection) => staged.stagedKeys(collection),
+        commit: () => staged.flush(),
+        rollback: () => staged.discard(),
+      };
+    },
+  };
+}
+
+/**
+ * Volatile repositories (data is lost when the process exits)
+ */
+export function createInMemoryRepositories(): BankingRepositories {
+  return createRepositories(new InMemoryRecordStore());
+}
+
+/**
+ * Durable repositories backed by an append-only JSON log at the given path
+ */
+export function createFileRepositories(filePath: string): BankingRepositories {
+  return createRepositories(new JsonLogRecordStore(filePath));
+}
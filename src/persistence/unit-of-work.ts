@@ -0,0 +1,133 @@
+/**
+ * Unit of Work
+ * Stages record writes on top of a RecordStore and commits them as one batch
+ */
+
+import { ConcurrencyConflictError } from '../utils/errors';
+import { RecordChange, RecordStore, recordVersion } from './record-store';
+
+/**
+ * Record store view that buffers writes until flushed.
+ * Reads see staged writes first, then fall through to the underlying store.
+ */
+export class StagedRecordStore implements RecordStore {
+  private readonly staged: Map<string, Map<string, RecordChange>> = new Map();
+  private flushed = false;
+
+  constructor(private readonly base: RecordStore) {}
+
+  get<T>(collection: string, key: string): T | undefined {
+    const change = this.staged.get(collection)?.get(key);
+    if (change) {
+      return 'deleted' in change ? undefined : (change.value as T);
+    }
+    return this.base.get<T>(collection, key);
+  }
+
+  values<T>(collection: string): T[] {
+    return this.entries<T>(collection).map(([, value]) => value);
+  }
+
+  entries<T>(collection: string): Array<[string, T]> {
+    const staged = this.staged.get(collection);
+    if (!staged) {
+      return this.base.entries<T>(collection);
+    }
+
+    const result: Array<[string, T]> = [];
+    for (const [key, value] of this.base.entries<T>(collection)) {
+      if (!staged.has(key)) {
+        result.push([key, value]);
+      }
+    }
+    for (const [key, change] of staged) {
+      if (!('deleted' in change)) {
+        result.push([key, change.value as T]);
+      }
+    }
+    return result;
+  }
+
+  async commit(changes: RecordChange[]): Promise<void> {
+    if (this.flushed) {
+      throw new Error('Unit of work has already been committed');
+    }
+
+    this.verify(changes);
+
+    for (const change of changes) {
+      let records = this.staged.get(change.collection);
+      if (!records) {
+        records = new Map();
+        this.staged.set(change.collection, records);
+      }
+
+      // The flushed batch must be checked against the version this unit of work
+      // first read from the base store, not against its own earlier writes
+      const previous = records.get(change.key);
+      let staged = change;
+      if (previous && !('deleted' in previous) && !('deleted' in change)) {
+        const { expectedVersion: _own, ...write } = change;
+        staged =
+          previous.expectedVersion !== undefined
+            ? { ...write, expectedVersion: previous.expectedVersion }
+            : write;
+      }
+
+      // Re-insert so the latest write keeps its position at the end
+      records.delete(change.key);
+      records.set(change.key, staged);
+    }
+  }
+
+  /**
+   * Compare-and-set check against this unit of work's own view
+   */
+  private verify(changes: RecordChange[]): void {
+    for (const change of changes) {
+      if ('deleted' in change || change.expectedVersion === undefined) {
+        continue;
+      }
+
+      const actualVersion = recordVersion(this.get(change.collection, change.key));
+      if (actualVersion !== change.expectedVersion) {
+        throw new ConcurrencyConflictError(
+          change.collection,
+          change.key,
+          change.expectedVersion,
+          actualVersion
+        );
+      }
+    }
+  }
+
+  /**
+   * Keys with a staged (non-delete) write in a collection
+   */
+  stagedKeys(collection: string): string[] {
+    return Array.from(this.staged.get(collection)?.values() ?? [])
+      .filter((change) => !('deleted' in change))
+      .map((change) => change.key);
+  }
+
+  /**
+   * Write every staged change to the underlying store in a single batch
+   */
+  async flush(): Promise<void> {
+    if (this.flushed) {
+      throw new Error('Unit of work has already been committed');
+    }
+
+    const changes = Array.from(this.staged.values()).flatMap((records) => Array.from(records.values()));
+    this.flushed = true;
+    this.staged.clear();
+    await this.base.commit(changes);
+  }
+
+  /**
+   * Drop every staged change
+   */
+  discard(): void {
+    this.staged.clear();
+  }
+}
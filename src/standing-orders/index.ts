@@ -0,0 +1,10 @@
+/**
+ * Standing Orders Module Exports
+ * Scheduling of recurring transfers
+ */
+
+export {
+  instalmentDate,
+  scheduledDate,
+  instalmentIdempotencyKey,
+} from './schedule';
@@ -0,0 +1,76 @@
+/**
+ * Standing Order Schedule
+ * Works out when standing order instalments fall due
+ */
+
+import { StandingOrder, StandingOrderFrequency } from '../core/domain';
+import { businessDay, formatBusinessDate } from '../utils/business-date';
+
+/**
+ * Months between instalments for month-based frequencies
+ */
+const MONTHS_PER_PERIOD: Record<StandingOrderFrequency, number> = {
+  [StandingOrderFrequency.WEEKLY]: 0,
+  [StandingOrderFrequency.MONTHLY]: 1,
+  [StandingOrderFrequency.QUARTERLY]: 3,
+};
+
+const DAYS_PER_WEEK = 7;
+
+/**
+ * Business date an instalment falls due.
+ * Instalments are counted from the start date rather than from the previous
+ * instalment, so a start on the 31st pays on the last day of shorter months
+ * and returns to the 31st afterwards.
+ */
+export function instalmentDate(
+  startDate: Date,
+  frequency: StandingOrderFrequency,
+  instalment: number
+): Date {
+  const start = businessDay(startDate);
+
+  if (frequency === StandingOrderFrequency.WEEKLY) {
+    return new Date(
+      Date.UTC(
+        start.getUTCFullYear(),
+        start.getUTCMonth(),
+        start.getUTCDate() + instalment * DAYS_PER_WEEK
+      )
+    );
+  }
+
+  const months = start.getUTCMonth() + instalment * MONTHS_PER_PERIOD[frequency];
+  const year = start.getUTCFullYear() + Math.floor(months / 12);
+  const month = months % 12;
+  const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  return new Date(Date.UTC(year, month, Math.min(start.getUTCDate(), lastDay)));
+}
+
+/**
+ * Business date of an order's instalment, or null once the order has run its
+ * course (instalment count reached or past the end date)
+ */
+export function scheduledDate(
+  order: Pick<StandingOrder, 'startDate' | 'endDate' | 'frequency' | 'maxExecutions'>,
+  instalment: number
+): Date | null {
+  if (order.maxExecutions !== null && instalment >= order.maxExecutions) {
+    return null;
+  }
+
+  const due = instalmentDate(order.startDate, order.frequency, instalment);
+  if (order.endDate !== null && due > businessDay(order.endDate)) {
+    return null;
+  }
+  return due;
+}
+
+/**
+ * Idempotency key for an instalment's transfer.
+ * Derived from the order and due date so a repeated or overlapping scheduler
+ * run replays the original transfer instead of paying twice.
+ */
+export function instalmentIdempotencyKey(standingOrderId: string, dueDate: Date): string {
+  return `SO:${standingOrderId}:${formatBusinessDate(dueDate)}`;
+}
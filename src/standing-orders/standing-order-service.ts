@@ -0,0 +1,324 @@
+/**
+ * Standing Order Service
+ * Creates and cancels standing orders and executes the instalments that fall due
+ */
+
+import {
+  Transaction,
+  Currency,
+  StandingOrder,
+  StandingOrderExecution,
+  StandingOrderExecutionStatus,
+  StandingOrderFrequency,
+  StandingOrderStatus,
+} from '../core/domain';
+import { StandingOrderValidator } from '../core/validators';
+import { AccountNotFoundError, StandingOrderNotFoundError } from '../utils/errors';
+import { IdGenerator } from '../utils/id-generator';
+import { businessDay } from '../utils/business-date';
+import { BankingRepositories } from '../persistence/repositories';
+import { checkSignatures } from '../customers';
+import { Result, success, failure } from '../api/result';
+import { BankingContext, STANDING_ORDER_CALLER } from '../api/banking-context';
+import { TransactionService } from '../transactions/transaction-service';
+import { instalmentIdempotencyKey, scheduledDate } from './schedule';
+
+/**
+ * Recurring transfer set-up
+ */
+export interface CreateStandingOrderRequest {
+  sourceAccountId: string;
+  destinationAccountId: string;
+  amount: number;
+  currency: Currency;
+  frequency: StandingOrderFrequency;
+  /** Business date of the first instalment */
+  startDate: Date;
+  /** Last business date an instalment may fall due */
+  endDate?: Date;
+  /** Number of instalments to pay */
+  maxExecutions?: number;
+  reference?: string;
+  description?: string;
+  /** Holders signing the order, checked against the source account's signing rule */
+  signedBy?: string[];
+}
+
+/**
+ * Retry policy for standing order instalments
+ */
+export interface StandingOrderRetryPolicy {
+  /** Scheduler runs that may attempt an instalment before it is skipped (1 = skip on first failure) */
+  maxAttempts: number;
+}
+
+/**
+ * Standing orders and the scheduler run that pays their instalments as
+ * transfers, retrying a failed instalment on later runs under the retry policy
+ */
+export class StandingOrderService {
+  constructor(
+    private readonly context: BankingContext,
+    private readonly transactions: TransactionService,
+    private readonly standingOrderRetryPolicy: StandingOrderRetryPolicy
+  ) {}
+
+  /**
+   * Set up a recurring transfer
+   */
+  async createStandingOrder(request: CreateStandingOrderRequest): Promise<Result<StandingOrder>> {
+    await this.context.ready;
+
+    return this.context.inUnitOfWork(async (repos) => {
+      const source = await repos.accounts.findById(request.sourceAccountId);
+      if (!source) {
+        return failure(new AccountNotFoundError(request.sourceAccountId));
+      }
+      const destination = await repos.accounts.findById(request.destinationAccountId);
+      if (!destination) {
+        return failure(new AccountNotFoundError(request.destinationAccountId));
+      }
+
+      const schedule = {
+        amount: { amount: request.amount, currency: request.currency, scale: 2 },
+        frequency: request.frequency,
+        startDate: businessDay(request.startDate),
+        endDate: request.endDate ? businessDay(request.endDate) : null,
+        maxExecutions: request.maxExecutions ?? null,
+      };
+      const validation = StandingOrderValidator.validateStandingOrder(source, destination, schedule);
+      if (!validation.isValid) {
+        return failure(validation.errors[0]!);
+      }
+
+      // Instalments are not signed again, so the order itself must meet the signing rule
+      const unsigned = checkSignatures(source, request.signedBy ?? []);
+      if (unsigned) {
+        return failure(unsigned);
+      }
+
+      const order: StandingOrder = {
+        id: IdGenerator.standingOrderId(),
+        sourceAccountId: source.id,
+        destinationAccountId: destination.id,
+        ...schedule,
+        reference: request.reference || IdGenerator.reference(),
+        description: request.description || 'Standing order',
+        status: StandingOrderStatus.ACTIVE,
+        nextInstalment: 0,
+        nextExecutionDate: scheduledDate(schedule, 0),
+        failedAttempts: 0,
+        executionCount: 0,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        version: 1,
+      };
+      await repos.standingOrders.save(order);
+
+      return success(order);
+    });
+  }
+
+  /**
+   * Cancel a standing order; no further instalments are executed.
+   * Cancelling a finished order returns it unchanged.
+   */
+  async cancelStandingOrder(standingOrderId: string): Promise<Result<StandingOrder>> {
+    await this.context.ready;
+
+    return this.context.inUnitOfWork(async (repos) => {
+      const order = await repos.standingOrders.findById(standingOrderId);
+      if (!order) {
+        return failure(new StandingOrderNotFoundError(standingOrderId));
+      }
+      if (order.status !== StandingOrderStatus.ACTIVE) {
+        return success(order);
+      }
+
+      const cancelled: StandingOrder = {
+        ...order,
+        status: StandingOrderStatus.CANCELLED,
+        nextExecutionDate: null,
+        updatedAt: new Date(),
+        version: order.version + 1,
+      };
+      await repos.standingOrders.save(cancelled);
+
+      return success(cancelled);
+    });
+  }
+
+  /**
+   * Get standing order by ID
+   */
+  async getStandingOrder(standingOrderId: string): Promise<Result<StandingOrder>> {
+    await this.context.ready;
+
+    const order = await this.context.repositories.standingOrders.findById(standingOrderId);
+    if (!order) {
+      return failure(new StandingOrderNotFoundError(standingOrderId));
+    }
+    return success(order);
+  }
+
+  /**
+   * Get the standing orders paid from an account
+   */
+  async getStandingOrdersByAccount(accountId: string): Promise<Result<StandingOrder[]>> {
+    await this.context.ready;
+
+    const account = await this.context.repositories.accounts.findById(accountId);
+    if (!account) {
+      return failure(new AccountNotFoundError(accountId));
+    }
+
+    return success(await this.context.repositories.standingOrders.findBySourceAccountId(accountId));
+  }
+
+  /**
+   * Get every execution attempt made for a standing order
+   */
+  async getStandingOrderExecutions(
+    standingOrderId: string
+  ): Promise<Result<StandingOrderExecution[]>> {
+    await this.context.ready;
+
+    const order = await this.context.repositories.standingOrders.findById(standingOrderId);
+    if (!order) {
+      return failure(new StandingOrderNotFoundError(standingOrderId));
+    }
+
+    return success(await this.context.repositories.standingOrderExecutions.findByStandingOrderId(standingOrderId));
+  }
+
+  /**
+   * Execute every standing order instalment due on or before a business date.
+   * Each instalment is paid with `transfer` under an idempotency key derived from
+   * the order and due date, so running the same date twice never pays twice.
+   * A failed instalment is retried on later runs until the retry policy's attempt
+   * limit is reached, then skipped; instalments missed while the scheduler was
+   * not running are caught up in order. Returns the attempts made by this run.
+   */
+  async runStandingOrders(businessDate: Date = new Date()): Promise<Result<StandingOrderExecution[]>> {
+    await this.context.ready;
+
+    const runDate = businessDay(businessDate);
+    const executions: StandingOrderExecution[] = [];
+    for (const order of await this.context.repositories.standingOrders.findDue(runDate)) {
+      const executed = await this.executeStandingOrder(order, runDate);
+      if (!executed.success) {
+        return executed;
+      }
+      executions.push(...executed.data);
+    }
+
+    return success(executions);
+  }
+
+  private async executeStandingOrder(
+    order: StandingOrder,
+    runDate: Date
+  ): Promise<Result<StandingOrderExecution[]>> {
+    const executions: StandingOrderExecution[] = [];
+
+    let current = order;
+    while (
+      current.status === StandingOrderStatus.ACTIVE &&
+      current.nextExecutionDate !== null &&
+      current.nextExecutionDate <= runDate
+    ) {
+      const dueDate = current.nextExecutionDate;
+      const transfer = await this.transactions.transfer({
+        sourceAccountId: current.sourceAccountId,
+        destinationAccountId: current.destinationAccountId,
+        amount: current.amount.amount,
+        currency: current.amount.currency,
+        reference: current.reference,
+        description: current.description,
+        idempotencyKey: instalmentIdempotencyKey(current.id, dueDate),
+        initiatedBy: STANDING_ORDER_CALLER,
+      });
+
+      const recorded = await this.context.inUnitOfWork((repos) =>
+        this.recordStandingOrderExecution(repos, current.id, dueDate, runDate, transfer)
+      );
+      if (!recorded.success) {
+        return recorded;
+      }
+      if (!recorded.data) {
+        break;
+      }
+
+      executions.push(recorded.data.execution);
+      current = recorded.data.order;
+      if (recorded.data.execution.status === StandingOrderExecutionStatus.FAILED) {
+        break;
+      }
+    }
+
+    return success(executions);
+  }
+
+  /**
+   * Record the outcome of an instalment and move the order on: to the next
+   * instalment when paid or skipped, nowhere when it is to be retried.
+   * Returns null if the order changed underneath the run (e.g. was cancelled).
+   */
+  private async recordStandingOrderExecution(
+    repos: BankingRepositories,
+    standingOrderId: string,
+    dueDate: Date,
+    runDate: Date,
+    transfer: Result<Transaction>
+  ): Promise<Result<{ order: StandingOrder; execution: StandingOrderExecution } | null>> {
+    const order = await repos.standingOrders.findById(standingOrderId);
+    if (
+      !order ||
+      order.status !== StandingOrderStatus.ACTIVE ||
+      order.nextExecutionDate?.getTime() !== dueDate.getTime()
+    ) {
+      return success(null);
+    }
+
+    const attempt = order.failedAttempts + 1;
+    const status = transfer.success
+      ? StandingOrderExecutionStatus.EXECUTED
+      : attempt >= this.standingOrderRetryPolicy.maxAttempts
+        ? StandingOrderExecutionStatus.SKIPPED
+        : StandingOrderExecutionStatus.FAILED;
+
+    const execution: StandingOrderExecution = {
+      id: IdGenerator.executionId(),
+      standingOrderId,
+      instalment: order.nextInstalment,
+      dueDate,
+      runDate,
+      attempt,
+      status,
+      transactionId: transfer.success ? transfer.data.id.value : null,
+      failureReason: transfer.success ? null : transfer.error.message,
+      createdAt: new Date(),
+    };
+    await repos.standingOrderExecutions.save(execution);
+
+    let updated: StandingOrder;
+    if (status === StandingOrderExecutionStatus.FAILED) {
+      updated = { ...order, failedAttempts: attempt };
+    } else {
+      const nextInstalment = order.nextInstalment + 1;
+      const nextExecutionDate = scheduledDate(order, nextInstalment);
+      updated = {
+        ...order,
+        nextInstalment,
+        nextExecutionDate,
+        failedAttempts: 0,
+        executionCount: order.executionCount + (transfer.success ? 1 : 0),
+        status: nextExecutionDate ? StandingOrderStatus.ACTIVE : StandingOrderStatus.COMPLETED,
+      };
+    }
+    updated = { ...updated, updatedAt: new Date(), version: order.version + 1 };
+    await repos.standingOrders.save(updated);
+
+    return success({ order: updated, execution });
+  }
+}
@@ -0,0 +1,123 @@
+/**
+ * camt.053 Statement Renderer
+ * ISO 20022 BankToCustomerStatement (camt.053.001.02) XML
+ */
+
+import { AccountStatement, StatementEntry } from './statement-service';
+import { TransactionType } from '../core/domain';
+import { formatAmount, isoDate, isoDateTime, SWIFT_TRANSACTION_CODES } from './format-utils';
+import { StatementRenderer } from './types';
+
+const NAMESPACE = 'urn:iso:std:iso:20022:tech:xsd:camt.053.001.02';
+
+export class Camt053StatementRenderer implements StatementRenderer {
+  readonly format = 'camt053' as const;
+  readonly contentType = 'application/xml';
+  readonly fileExtension = 'xml';
+
+  render(statement: AccountStatement): string {
+    const created = isoDateTime(new Date());
+    const statementId = `${statement.accountNumber}-${isoDate(statement.toDate).replace(/-/g, '')}-${statement.statementNumber}`;
+    const credits = statement.entries.filter((e) => e.credit !== null);
+    const debits = statement.entries.filter((e) => e.debit !== null);
+
+    const xml = [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      `<Document xmlns="${NAMESPACE}">`,
+      '  <BkToCstmrStmt>',
+      '    <GrpHdr>',
+      `      <MsgId>${escapeXml(statementId)}</MsgId>`,
+      `      <CreDtTm>${created}</CreDtTm>`,
+      '    </GrpHdr>',
+      '    <Stmt>',
+      `      <Id>${escapeXml(statementId)}</Id>`,
+      `      <ElctrncSeqNb>${statement.statementNumber}</ElctrncSeqNb>`,
+      `      <CreDtTm>${created}</CreDtTm>`,
+      '      <FrToDt>',
+      `        <FrDtTm>${isoDateTime(statement.fromDate)}</FrDtTm>`,
+      `        <ToDtTm>${isoDateTime(statement.toDate)}</ToDtTm>`,
+      '      </FrToDt>',
+      '      <Acct>',
+      `        <Id><Othr><Id>${escapeXml(statement.accountNumber)}</Id></Othr></Id>`,
+      `        <Ccy>${statement.currency}</Ccy>`,
+      '      </Acct>',
+      ...this.balance('OPBD', statement.openingBalance, statement.fromDate, statement),
+      ...this.balance('CLBD', statement.closingBalance, statement.toDate, statement),
+      '      <TxsSummry>',
+      '        <TtlNtries>',
+      `          <NbOfNtries>${statement.entries.length}</NbOfNtries>`,
+      `          <Sum>${this.amount(statement.totalCredits + statement.totalDebits, statement)}</Sum>`,
+      `          <TtlNetNtryAmt>${this.amount(statement.totalCredits - statement.totalDebits, statement)}</TtlNetNtryAmt>`,
+      `          <CdtDbtInd>${statement.totalCredits >= statement.totalDebits ? 'CRDT' : 'DBIT'}</CdtDbtInd>`,
+      '        </TtlNtries>',
+      '        <TtlCdtNtries>',
+      `          <NbOfNtries>${credits.length}</NbOfNtries>`,
+      `          <Sum>${this.amount(statement.totalCredits, statement)}</Sum>`,
+      '        </TtlCdtNtries>',
+      '        <TtlDbtNtries>',
+      `          <NbOfNtries>${debits.length}</NbOfNtries>`,
+      `          <Sum>${this.amount(statement.totalDebits, statement)}</Sum>`,
+      '        </TtlDbtNtries>',
+      '      </TxsSummry>',
+      ...statement.entries.flatMap((entry) => this.entry(entry, statement)),
+      '    </Stmt>',
+      '  </BkToCstmrStmt>',
+      '</Document>',
+    ];
+
+    return xml.join('\n') + '\n';
+  }
+
+  private balance(code: 'OPBD' | 'CLBD', amount: number, date: Date, statement: AccountStatement): string[] {
+    return [
+      '      <Bal>',
+      `        <Tp><CdOrPrtry><Cd>${code}</Cd></CdOrPrtry></Tp>`,
+      `        <Amt Ccy="${statement.currency}">${this.amount(amount, statement)}</Amt>`,
+      `        <CdtDbtInd>${amount < 0 ? 'DBIT' : 'CRDT'}</CdtDbtInd>`,
+      `        <Dt><Dt>${isoDate(date)}</Dt></Dt>`,
+      '      </Bal>',
+    ];
+  }
+
+  private entry(entry: StatementEntry, statement: AccountStatement): string[] {
+    const isDebit = entry.debit !== null;
+    const amount = isDebit ? entry.debit! : entry.credit!;
+    const typeCode = entry.transactionType ? SWIFT_TRANSACTION_CODES[entry.transactionType] : 'NMSC';
+
+    return [
+      '      <Ntry>',
+      `        <NtryRef>${escapeXml(entry.transactionId)}</NtryRef>`,
+      `        <Amt Ccy="${statement.currency}">${this.amount(amount, statement)}</Amt>`,
+      `        <CdtDbtInd>${isDebit ? 'DBIT' : 'CRDT'}</CdtDbtInd>`,
+      ...(entry.transactionType === TransactionType.REVERSAL ? ['        <RvslInd>true</RvslInd>'] : []),
+      '        <Sts>BOOK</Sts>',
+      `        <BookgDt><Dt>${isoDate(entry.date)}</Dt></BookgDt>`,
+      `        <ValDt><Dt>${isoDate(entry.valueDate)}</Dt></ValDt>`,
+      `        <AcctSvcrRef>${escapeXml(entry.transactionId)}</AcctSvcrRef>`,
+      `        <BkTxCd><Prtry><Cd>${typeCode}</Cd><Issr>SWIFT</Issr></Prtry></BkTxCd>`,
+      '        <NtryDtls>',
+      '          <TxDtls>',
+      '            <Refs>',
+      `              <AcctSvcrRef>${escapeXml(entry.transactionId)}</AcctSvcrRef>`,
+      `              <EndToEndId>${escapeXml(entry.reference ?? 'NOTPROVIDED')}</EndToEndId>`,
+      '            </Refs>',
+      `            <RmtInf><Ustrd>${escapeXml(entry.description.slice(0, 140))}</Ustrd></RmtInf>`,
+      '          </TxDtls>',
+      '        </NtryDtls>',
+      '      </Ntry>',
+    ];
+  }
+
+  private amount(amount: number, statement: AccountStatement): string {
+    return formatAmount(amount, statement.currency);
+  }
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
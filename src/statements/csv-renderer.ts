@@ -0,0 +1,39 @@
+/**
+ * CSV Statement Renderer
+ * One row per statement entry, RFC 4180 quoting
+ */
+
+import { AccountStatement } from './statement-service';
+import { formatAmount, isoDate } from './format-utils';
+import { StatementRenderer } from './types';
+
+const HEADER = ['Date', 'Value Date', 'Reference', 'Description', 'Debit', 'Credit', 'Balance'];
+
+export class CsvStatementRenderer implements StatementRenderer {
+  readonly format = 'csv' as const;
+  readonly contentType = 'text/csv';
+  readonly fileExtension = 'csv';
+
+  render(statement: AccountStatement): string {
+    const { currency } = statement;
+    const rows = statement.entries.map((entry) => [
+      isoDate(entry.date),
+      isoDate(entry.valueDate),
+      entry.reference ?? '',
+      entry.description,
+      entry.debit !== null ? formatAmount(entry.debit, currency) : '',
+      entry.credit !== null ? formatAmount(entry.credit, currency) : '',
+      this.signed(entry.balance, currency),
+    ]);
+
+    return [HEADER, ...rows].map((row) => row.map(escapeField).join(',')).join('\r\n') + '\r\n';
+  }
+
+  private signed(amount: number, currency: AccountStatement['currency']): string {
+    return `${amount < 0 ? '-' : ''}${formatAmount(amount, currency)}`;
+  }
+}
+
+function escapeField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
@@ -0,0 +1,55 @@
+/**
+ * Statement Formatting Helpers
+ * Shared number, date and text formatting for statement renderers
+ */
+
+import { Currency, TransactionType } from '../core/domain';
+
+/**
+ * Minor unit digits per currency (ISO 4217)
+ */
+const CURRENCY_SCALE: Partial<Record<Currency, number>> = {
+  [Currency.JPY]: 0,
+};
+
+export function currencyScale(currency: Currency): number {
+  return CURRENCY_SCALE[currency] ?? 2;
+}
+
+/**
+ * Format an absolute amount with a fixed number of decimals
+ */
+export function formatAmount(amount: number, currency: Currency, decimalSeparator: string = '.'): string {
+  return Math.abs(amount).toFixed(currencyScale(currency)).replace('.', decimalSeparator);
+}
+
+/**
+ * YYYY-MM-DD (UTC)
+ */
+export function isoDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * YYYY-MM-DDThh:mm:ss (UTC, no milliseconds)
+ */
+export function isoDateTime(date: Date): string {
+  return `${date.toISOString().slice(0, 19)}Z`;
+}
+
+/**
+ * SWIFT transaction type identification codes used in MT940 and as proprietary
+ * bank transaction codes in camt.053
+ */
+export const SWIFT_TRANSACTION_CODES: Record<TransactionType, string> = {
+  [TransactionType.TRANSFER]: 'NTRF',
+  [TransactionType.DEPOSIT]: 'NMSC',
+  [TransactionType.WITHDRAWAL]: 'NMSC',
+  [TransactionType.PAYMENT]: 'NTRF',
+  [TransactionType.DIRECT_DEBIT]: 'NDDT',
+  [TransactionType.STANDING_ORDER]: 'NSTO',
+  [TransactionType.FEE]: 'NCHG',
+  [TransactionType.INTEREST]: 'NINT',
+  [TransactionType.REVERSAL]: 'NRTI',
+  [TransactionType.ADJUSTMENT]: 'NMSC',
+};
@@ -0,0 +1,49 @@
+/**
+ * Statement Module Exports
+ * Renders account statements as CSV, SWIFT MT940 and ISO 20022 camt.053
+ */
+
+import { AccountStatement } from './statement-service';
+import { isoDate } from './format-utils';
+import { CsvStatementRenderer } from './csv-renderer';
+import { Mt940StatementRenderer } from './mt940-renderer';
+import { Camt053StatementRenderer } from './camt053-renderer';
+import { RenderedStatement, StatementFormat, StatementRenderer } from './types';
+
+export { StatementFormat, RenderedStatement, StatementRenderer } from './types';
+export { CsvStatementRenderer } from './csv-renderer';
+export { Mt940StatementRenderer } from './mt940-renderer';
+export { Camt053StatementRenderer } from './camt053-renderer';
+
+/**
+ * JSON renderer; dates are serialised as ISO 8601 strings
+ */
+class JsonStatementRenderer implements StatementRenderer {
+  readonly format = 'json' as const;
+  readonly contentType = 'application/json';
+  readonly fileExtension = 'json';
+
+  render(statement: AccountStatement): string {
+    return JSON.stringify(statement, null, 2);
+  }
+}
+
+const RENDERERS: Record<StatementFormat, StatementRenderer> = {
+  json: new JsonStatementRenderer(),
+  csv: new CsvStatementRenderer(),
+  mt940: new Mt940StatementRenderer(),
+  camt053: new Camt053StatementRenderer(),
+};
+
+/**
+ * Render a statement in the requested format
+ */
+export function renderStatement(statement: AccountStatement, format: StatementFormat): RenderedStatement {
+  const renderer = RENDERERS[format];
+  return {
+    format,
+    contentType: renderer.contentType,
+    fileName: `statement-${statement.accountNumber}-${isoDate(statement.fromDate)}-${isoDate(statement.toDate)}.${renderer.fileExtension}`,
+    content: renderer.render(statement),
+  };
+}
@@ -0,0 +1,112 @@
+/**
+ * MT940 Statement Renderer
+ * SWIFT MT940 customer statement (text block 4)
+ */
+
+import { AccountStatement, StatementEntry } from './statement-service';
+import { TransactionType } from '../core/domain';
+import { formatAmount, SWIFT_TRANSACTION_CODES } from './format-utils';
+import { StatementRenderer } from './types';
+
+/**
+ * Maximum lengths imposed by the MT940 field definitions
+ */
+const MAX_REFERENCE = 16;
+const MAX_NARRATIVE_LINE = 65;
+const MAX_NARRATIVE_LINES = 6;
+
+export class Mt940StatementRenderer implements StatementRenderer {
+  readonly format = 'mt940' as const;
+  readonly contentType = 'text/plain';
+  readonly fileExtension = 'sta';
+
+  render(statement: AccountStatement): string {
+    const { currency } = statement;
+    const statementNumber = statement.statementNumber.toString().padStart(5, '0');
+
+    const lines: string[] = [
+      `:20:${swiftText(`STMT${statement.toDate.toISOString().slice(0, 10).replace(/-/g, '')}`, MAX_REFERENCE)}`,
+      `:25:${swiftText(statement.accountNumber, 35)}`,
+      `:28C:${statementNumber}/001`,
+      `:60F:${balanceField(statement.openingBalance, statement.fromDate, statement)}`,
+    ];
+
+    for (const entry of statement.entries) {
+      lines.push(`:61:${this.statementLine(entry, statement)}`);
+      lines.push(...this.narrative(entry));
+    }
+
+    lines.push(`:62F:${balanceField(statement.closingBalance, statement.toDate, statement)}`);
+    lines.push('-');
+
+    return lines.join('\r\n') + '\r\n';
+  }
+
+  /**
+   * :61: value date, entry date, D/C mark, amount, type code, references
+   */
+  private statementLine(entry: StatementEntry, statement: AccountStatement): string {
+    const isDebit = entry.debit !== null;
+    const amount = isDebit ? entry.debit! : entry.credit!;
+    const isReversal = entry.transactionType === TransactionType.REVERSAL;
+    // A reversal debit cancels an earlier credit (RC) and vice versa (RD)
+    const mark = isReversal ? (isDebit ? 'RC' : 'RD') : isDebit ? 'D' : 'C';
+    const typeCode = entry.transactionType
+      ? SWIFT_TRANSACTION_CODES[entry.transactionType]
+      : 'NMSC';
+    const customerReference = swiftText(entry.reference ?? 'NONREF', MAX_REFERENCE) || 'NONREF';
+    const bankReference = swiftText(entry.transactionId, MAX_REFERENCE);
+
+    return (
+      yymmdd(entry.valueDate) +
+      yymmdd(entry.date).slice(2) +
+      mark +
+      formatAmount(amount, statement.currency, ',') +
+      typeCode +
+      customerReference +
+      `//${bankReference}`
+    );
+  }
+
+  /**
+   * :86: free-format information, at most 6 lines of 65 characters
+   */
+  private narrative(entry: StatementEntry): string[] {
+    const text = swiftText(
+      entry.reference ? `${entry.description} REF ${entry.reference}` : entry.description,
+      MAX_NARRATIVE_LINE * MAX_NARRATIVE_LINES
+    );
+    if (text.length === 0) {
+      return [];
+    }
+
+    const chunks: string[] = [];
+    for (let i = 0; i < text.length; i += MAX_NARRATIVE_LINE) {
+      chunks.push(text.slice(i, i + MAX_NARRATIVE_LINE));
+    }
+    chunks[0] = `:86:${chunks[0]}`;
+    return chunks;
+  }
+}
+
+/**
+ * C/D mark, date, currency and amount for :60F: and :62F:
+ */
+function balanceField(amount: number, date: Date, statement: AccountStatement): string {
+  return `${amount < 0 ? 'D' : 'C'}${yymmdd(date)}${statement.currency}${formatAmount(amount, statement.currency, ',')}`;
+}
+
+function yymmdd(date: Date): string {
+  return date.toISOString().slice(2, 10).replace(/-/g, '');
+}
+
+/**
+ * Restrict to the SWIFT X character set and truncate
+ */
+function swiftText(value: string, maxLength: number): string {
+  return value
+    .replace(/[^A-Za-z0-9/\-?:().,'+ ]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, maxLength);
+}
@@ -0,0 +1,156 @@
+/**
+ * Statement Service
+ * Builds account statements from the ledger and renders them for export
+ */
+
+import { TransactionType, Currency, LedgerEntry, EntryType } from '../core/domain';
+import { AccountNotFoundError, ValidationError } from '../utils/errors';
+import { Result, success, failure } from '../api/result';
+import { BankingContext } from '../api/banking-context';
+import { RenderedStatement, StatementFormat } from './types';
+import { renderStatement } from '.';
+
+/**
+ * Account statement request
+ */
+export interface StatementRequest {
+  accountId: string;
+  fromDate: Date;
+  toDate: Date;
+  format?: StatementFormat;
+  /** Statement sequence number printed on MT940/camt.053 output (default 1) */
+  statementNumber?: number;
+}
+
+/**
+ * Account statement entry
+ */
+export interface StatementEntry {
+  date: Date;
+  valueDate: Date;
+  description: string;
+  reference: string | null;
+  transactionId: string;
+  transactionType: TransactionType | null;
+  debit: number | null;
+  credit: number | null;
+  balance: number;
+}
+
+/**
+ * Account statement response
+ */
+export interface AccountStatement {
+  accountId: string;
+  accountNumber: string;
+  statementNumber: number;
+  currency: Currency;
+  openingBalance: number;
+  closingBalance: number;
+  fromDate: Date;
+  toDate: Date;
+  entries: StatementEntry[];
+  totalDebits: number;
+  totalCredits: number;
+}
+
+/**
+ * Statement formats accepted by exportStatement
+ */
+const STATEMENT_FORMATS: StatementFormat[] = ['json', 'csv', 'mt940', 'camt053'];
+
+/**
+ * Account statements, balanced by value date from the account's ledger entries
+ */
+export class StatementService {
+  constructor(private readonly context: BankingContext) {}
+
+  /**
+   * Get account statement. Entries are listed and balanced by value date, so a
+   * backdated posting appears in the period it takes effect.
+   */
+  async getStatement(request: StatementRequest): Promise<Result<AccountStatement>> {
+    await this.context.ready;
+
+    const account = await this.context.repositories.accounts.findById(request.accountId);
+    if (!account) {
+      return failure(new AccountNotFoundError(request.accountId));
+    }
+
+    const entries = await this.context.repositories.ledger.findByAccountId(request.accountId);
+    const signed = (e: LedgerEntry): number =>
+      e.entryType === EntryType.CREDIT ? e.amount.amount : -e.amount.amount;
+    const filteredEntries = entries
+      .filter((e) => e.valueDate >= request.fromDate && e.valueDate <= request.toDate)
+      .sort(
+        (a, b) => a.valueDate.getTime() - b.valueDate.getTime() || a.sequenceNumber - b.sequenceNumber
+      );
+
+    // Calculate opening balance
+    const openingBalance = entries
+      .filter((e) => e.valueDate < request.fromDate)
+      .reduce((sum, e) => sum + signed(e), 0);
+
+    // Build statement entries
+    let runningBalance = openingBalance;
+    const statementEntries: StatementEntry[] = [];
+    for (const e of filteredEntries) {
+      const isDebit = e.entryType === EntryType.DEBIT;
+      const transaction = await this.context.repositories.transactions.findById(e.transactionId);
+      runningBalance += signed(e);
+      statementEntries.push({
+        date: e.postingDate,
+        valueDate: e.valueDate,
+        description: e.description,
+        reference: transaction?.reference ?? null,
+        transactionId: e.transactionId,
+        transactionType: transaction?.type ?? null,
+        debit: isDebit ? e.amount.amount : null,
+        credit: !isDebit ? e.amount.amount : null,
+        balance: runningBalance,
+      });
+    }
+
+    const totalDebits = filteredEntries
+      .filter((e) => e.entryType === EntryType.DEBIT)
+      .reduce((sum, e) => sum + e.amount.amount, 0);
+
+    const totalCredits = filteredEntries
+      .filter((e) => e.entryType === EntryType.CREDIT)
+      .reduce((sum, e) => sum + e.amount.amount, 0);
+
+    const statement: AccountStatement = {
+      accountId: request.accountId,
+      accountNumber: account.accountNumber.value,
+      statementNumber: request.statementNumber ?? 1,
+      currency: account.currency,
+      openingBalance,
+      closingBalance: runningBalance,
+      fromDate: request.fromDate,
+      toDate: request.toDate,
+      entries: statementEntries,
+      totalDebits,
+      totalCredits,
+    };
+
+    return success(statement);
+  }
+
+  /**
+   * Get an account statement rendered in the requested format
+   * (JSON, CSV, SWIFT MT940 or ISO 20022 camt.053)
+   */
+  async exportStatement(request: StatementRequest): Promise<Result<RenderedStatement>> {
+    const format = request.format ?? 'json';
+    if (!STATEMENT_FORMATS.includes(format)) {
+      return failure(new ValidationError('format', `Unsupported statement format: ${format}`));
+    }
+
+    const statement = await this.getStatement(request);
+    if (!statement.success) {
+      return statement;
+    }
+
+    return success(renderStatement(statement.data, format));
+  }
+}
@@ -0,0 +1,30 @@
+/**
+ * Statement Rendering Types
+ */
+
+import { AccountStatement } from './statement-service';
+
+/**
+ * Supported statement output formats
+ */
+export type StatementFormat = 'json' | 'csv' | 'mt940' | 'camt053';
+
+/**
+ * A statement rendered to a document
+ */
+export interface RenderedStatement {
+  format: StatementFormat;
+  contentType: string;
+  fileName: string;
+  content: string;
+}
+
+/**
+ * Renders an AccountStatement into a document format
+ */
+export interface StatementRenderer {
+  readonly format: StatementFormat;
+  readonly contentType: string;
+  readonly fileExtension: string;
+  render(statement: AccountStatement): string;
+}
@@ -0,0 +1,151 @@
+/**
+ * Approval Service
+ * Maker-checker approval and rejection of transactions held over the approval threshold
+ */
+
+import { Transaction, TransactionStatus } from '../core/domain';
+import {
+  TransactionNotFoundError,
+  TransactionAlreadyProcessedError,
+  SegregationOfDutiesError,
+  ValidationError,
+} from '../utils/errors';
+import { IdGenerator } from '../utils/id-generator';
+import { BankingRepositories } from '../persistence/repositories';
+import { Result, success, failure } from '../api/result';
+import { BankingContext } from '../api/banking-context';
+import { isDeferred, TransactionService } from './transaction-service';
+
+/**
+ * The checker's side of maker-checker control: held transactions are posted on
+ * approval or rejected, by someone other than the user who initiated them
+ */
+export class ApprovalService {
+  constructor(
+    private readonly context: BankingContext,
+    private readonly transactions: TransactionService
+  ) {}
+
+  /**
+   * Get transactions waiting for approval, oldest first
+   */
+  async getPendingApprovals(): Promise<Result<Transaction[]>> {
+    await this.context.ready;
+    const { transactions } = this.context.repositories;
+    return success(await transactions.findByStatus(TransactionStatus.ON_HOLD));
+  }
+
+  /**
+   * Approve a held transaction and post it. The approver must not be the user
+   * who initiated it. The transaction is validated again against the accounts as
+   * they are now; if it no longer passes it stays on hold and may be rejected.
+   */
+  async approveTransaction(transactionId: string, approvedBy: string): Promise<Result<Transaction>> {
+    await this.context.ready;
+
+    return this.context.inUnitOfWork(async (repos) => {
+      const held = await this.heldTransaction(repos, transactionId, approvedBy);
+      if (!held.success) {
+        return held;
+      }
+
+      const checker = approvedBy.trim();
+      const posted = await this.transactions.postDeferred(repos, {
+        held: held.data,
+        trigger: 'APPROVAL',
+        approvedBy: checker,
+      });
+      if (!posted.success) {
+        return posted;
+      }
+
+      await this.auditApproval(repos, posted.data, 'APPROVED', checker, null);
+      return posted;
+    });
+  }
+
+  /**
+   * Reject a held transaction. Nothing is posted; the rejecter must not be the
+   * user who initiated it.
+   */
+  async rejectTransaction(
+    transactionId: string,
+    rejectedBy: string,
+    reason: string
+  ): Promise<Result<Transaction>> {
+    await this.context.ready;
+
+    if (!reason?.trim()) {
+      return failure(new ValidationError('reason', 'Rejection reason is required'));
+    }
+
+    return this.context.inUnitOfWork(async (repos) => {
+      const held = await this.heldTransaction(repos, transactionId, rejectedBy);
+      if (!held.success) {
+        return held;
+      }
+
+      const rejected: Transaction = {
+        ...held.data,
+        status: TransactionStatus.REJECTED,
+        failureReason: reason.trim(),
+        metadata: {
+          ...held.data.metadata,
+          approval: { rejectedBy: rejectedBy.trim(), rejectedAt: new Date() },
+        },
+        version: held.data.version + 1,
+      };
+      await repos.transactions.save(rejected);
+
+      await this.auditApproval(repos, rejected, 'REJECTED', rejectedBy.trim(), reason.trim());
+      return success(rejected);
+    });
+  }
+
+  /**
+   * Load an ON_HOLD transaction for a checker, enforcing four-eyes control.
+   * Anything else (a payment awaiting settlement, a future-dated posting) was
+   * never held and is refused.
+   */
+  private async heldTransaction(
+    repos: BankingRepositories,
+    transactionId: string,
+    checker: string
+  ): Promise<Result<Transaction>> {
+    if (!checker?.trim()) {
+      return failure(new ValidationError('checker', 'Approvals must be made by a named user'));
+    }
+
+    const transaction = await repos.transactions.findById(transactionId);
+    if (!transaction) {
+      return failure(new TransactionNotFoundError(transactionId));
+    }
+    if (transaction.status !== TransactionStatus.ON_HOLD || !isDeferred(transaction)) {
+      return failure(new TransactionAlreadyProcessedError(transactionId));
+    }
+    if (checker.trim() === transaction.initiatedBy) {
+      return failure(new SegregationOfDutiesError(transactionId, transaction.initiatedBy));
+    }
+
+    return success(transaction);
+  }
+
+  private async auditApproval(
+    repos: BankingRepositories,
+    transaction: Transaction,
+    action: 'APPROVED' | 'REJECTED',
+    actor: string,
+    reason: string | null
+  ): Promise<void> {
+    await repos.auditLog.save({
+      id: IdGenerator.auditId(),
+      entityType: 'Transaction',
+      entityId: transaction.id.value,
+      action,
+      actor,
+      changes: { status: { from: TransactionStatus.ON_HOLD, to: transaction.status } },
+      metadata: { reason, initiatedBy: transaction.initiatedBy, amount: transaction.amount },
+      createdAt: new Date(),
+    });
+  }
+}
@@ -0,0 +1,324 @@
+/**
+ * Authorization Service
+ * Card-style authorisation holds, captured as payments, voided or left to expire
+ */
+
+import {
+  Transaction,
+  TransactionType,
+  TransactionStatus,
+  Money,
+  EntryType,
+  Authorization,
+  AuthorizationStatus,
+} from '../core/domain';
+import { AuthorizationValidator } from '../core/validators';
+import {
+  AccountNotFoundError,
+  AuthorizationNotFoundError,
+  AuthorizationNotActiveError,
+} from '../utils/errors';
+import { IdGenerator } from '../utils/id-generator';
+import { BankingRepositories } from '../persistence/repositories';
+import { DomainEvents } from '../events/domain-events';
+import { Result, success, failure } from '../api/result';
+import { BankingContext } from '../api/banking-context';
+
+/**
+ * Merchant details carried by an authorisation hold
+ */
+export interface AuthorizationDetails {
+  /** Merchant or caller reference */
+  reference?: string;
+  description?: string;
+  /** Caller identity (defaults to CUSTOMER) */
+  initiatedBy?: string;
+}
+
+/**
+ * Authorisation holds reduce an account's available balance without posting;
+ * a capture posts the debit and every outcome releases the hold
+ */
+export class AuthorizationService {
+  constructor(private readonly context: BankingContext) {}
+
+  /**
+   * Hold funds for a card-style authorisation.
+   * The hold reduces the available balance only; nothing is posted to the ledger
+   * until the authorisation is captured. Returns the authorisation, whose id is
+   * quoted to capture or void it.
+   */
+  async authorize(
+    accountId: string,
+    amount: number,
+    expiresAt: Date,
+    details: AuthorizationDetails = {}
+  ): Promise<Result<Authorization>> {
+    await this.context.ready;
+
+    return this.context.inUnitOfWork(async (repos) => {
+      const account = await repos.accounts.findById(accountId);
+      if (!account) {
+        return failure(new AccountNotFoundError(accountId));
+      }
+
+      const balance = (await repos.balances.findByAccountId(accountId))!;
+      const held: Money = { amount, currency: account.currency, scale: 2 };
+      const now = new Date();
+
+      const validation = AuthorizationValidator.validateAuthorization(
+        account,
+        held,
+        balance,
+        expiresAt,
+        now
+      );
+      if (!validation.isValid) {
+        return failure(validation.errors[0]!);
+      }
+
+      const authorization: Authorization = {
+        id: IdGenerator.authorizationId(),
+        accountId,
+        amount: held,
+        capturedAmount: null,
+        status: AuthorizationStatus.AUTHORIZED,
+        authorizationCode: IdGenerator.authorizationCode(),
+        expiresAt,
+        reference: details.reference?.trim() || IdGenerator.reference(),
+        description: details.description?.trim() || 'Card authorisation',
+        initiatedBy: details.initiatedBy ?? 'CUSTOMER',
+        captureTransactionId: null,
+        resolvedAt: null,
+        createdAt: now,
+        updatedAt: now,
+        version: 1,
+      };
+      await repos.authorizations.save(authorization);
+
+      const balanceEvent = await this.context.adjustHold(repos, accountId, amount);
+      await this.context.enqueue(repos, balanceEvent);
+
+      return success(authorization);
+    });
+  }
+
+  /**
+   * Capture an authorisation, posting the debit as a PAYMENT to the card
+   * settlement account. The amount may be less than was authorised (partial
+   * capture); the hold is released in full either way, so an authorisation can
+   * be captured only once. Defaults to the authorised amount.
+   */
+  async capture(authorizationId: string, amount?: number): Promise<Result<Transaction>> {
+    await this.context.ready;
+
+    return this.context.inUnitOfWork(async (repos) => {
+      const authorization = await repos.authorizations.findById(authorizationId);
+      if (!authorization) {
+        return failure(new AuthorizationNotFoundError(authorizationId));
+      }
+
+      const now = new Date();
+      const active = this.activeAuthorization(authorization, now);
+      if (!active.success) {
+        return active;
+      }
+
+      const captured: Money = { ...authorization.amount, amount: amount ?? authorization.amount.amount };
+      const validation = AuthorizationValidator.validateCapture(authorization, captured);
+      if (!validation.isValid) {
+        return failure(validation.errors[0]!);
+      }
+
+      const account = (await repos.accounts.findById(authorization.accountId))!;
+      const settlement = await this.context.internalAccount(
+        repos,
+        'CARD_SETTLEMENT',
+        account.currency
+      );
+      const transactionId = IdGenerator.transactionId();
+      const transaction: Transaction = {
+        id: {
+          value: transactionId,
+          generatedAt: now,
+          source: 'BANKING_API',
+        },
+        sourceAccountId: account.id,
+        destinationAccountId: settlement.id,
+        amount: captured,
+        currency: captured.currency,
+        type: TransactionType.PAYMENT,
+        status: TransactionStatus.COMPLETED,
+        reference: authorization.reference,
+        description: authorization.description,
+        createdAt: now,
+        completedAt: now,
+        initiatedBy: authorization.initiatedBy,
+        authorizationCode: authorization.authorizationCode,
+        fee: null,
+        exchangeRate: null,
+        originalTransactionId: null,
+        failureReason: null,
+        metadata: { authorizationId: authorization.id, authorizedAmount: authorization.amount },
+        version: 1,
+      };
+
+      // Release the hold before posting so the debit is not counted twice
+      const balanceEvents = [
+        await this.context.adjustHold(repos, account.id, -authorization.amount.amount),
+        await this.context.postEntry(
+          repos,
+          account.id,
+          transactionId,
+          TransactionType.PAYMENT,
+          EntryType.DEBIT,
+          captured,
+          authorization.description
+        ),
+        await this.context.postEntry(
+          repos,
+          settlement.id,
+          transactionId,
+          TransactionType.PAYMENT,
+          EntryType.CREDIT,
+          captured,
+          authorization.description
+        ),
+      ];
+
+      await repos.transactions.save(transaction);
+      await repos.authorizations.save({
+        ...authorization,
+        status: AuthorizationStatus.CAPTURED,
+        capturedAmount: captured,
+        captureTransactionId: transactionId,
+        resolvedAt: now,
+        updatedAt: now,
+        version: authorization.version + 1,
+      });
+
+      await this.context.enqueue(
+        repos,
+        ...balanceEvents,
+        DomainEvents.transactionCompleted(transaction)
+      );
+
+      return success(transaction);
+    });
+  }
+
+  /**
+   * Cancel an authorisation that has not been captured and release its hold
+   */
+  async void(authorizationId: string): Promise<Result<Authorization>> {
+    await this.context.ready;
+
+    return this.context.inUnitOfWork(async (repos) => {
+      const authorization = await repos.authorizations.findById(authorizationId);
+      if (!authorization) {
+        return failure(new AuthorizationNotFoundError(authorizationId));
+      }
+      if (authorization.status !== AuthorizationStatus.AUTHORIZED) {
+        return failure(new AuthorizationNotActiveError(authorization.id, authorization.status));
+      }
+
+      return this.releaseAuthorization(repos, authorization, AuthorizationStatus.VOIDED, new Date());
+    });
+  }
+
+  /**
+   * Expire authorisations that were not captured before their expiry time and
+   * release their holds. Returns the authorisations expired by this run.
+   */
+  async runAuthorizationExpiry(asOf: Date = new Date()): Promise<Result<Authorization[]>> {
+    await this.context.ready;
+
+    const expired: Authorization[] = [];
+    for (const candidate of await this.context.repositories.authorizations.findExpired(asOf)) {
+      const result = await this.context.inUnitOfWork(async (repos) => {
+        const authorization = (await repos.authorizations.findById(candidate.id))!;
+        if (authorization.status !== AuthorizationStatus.AUTHORIZED) {
+          return success(null);
+        }
+
+        return this.releaseAuthorization(repos, authorization, AuthorizationStatus.EXPIRED, asOf);
+      });
+      if (!result.success) {
+        return result;
+      }
+      if (result.data) {
+        expired.push(result.data);
+      }
+    }
+
+    return success(expired);
+  }
+
+  /**
+   * Get an authorisation by ID
+   */
+  async getAuthorization(authorizationId: string): Promise<Result<Authorization>> {
+    await this.context.ready;
+
+    const authorization = await this.context.repositories.authorizations.findById(authorizationId);
+    if (!authorization) {
+      return failure(new AuthorizationNotFoundError(authorizationId));
+    }
+
+    return success(authorization);
+  }
+
+  /**
+   * Get the authorisations placed on an account, oldest first
+   */
+  async getAuthorizationsByAccount(accountId: string): Promise<Result<Authorization[]>> {
+    await this.context.ready;
+
+    const account = await this.context.repositories.accounts.findById(accountId);
+    if (!account) {
+      return failure(new AccountNotFoundError(accountId));
+    }
+
+    return success(await this.context.repositories.authorizations.findByAccountId(accountId));
+  }
+
+  /**
+   * An authorisation may be captured while it is AUTHORIZED and unexpired.
+   * A hold past its expiry counts as expired even before the sweep releases it.
+   */
+  private activeAuthorization(authorization: Authorization, now: Date): Result<Authorization> {
+    if (authorization.status !== AuthorizationStatus.AUTHORIZED) {
+      return failure(new AuthorizationNotActiveError(authorization.id, authorization.status));
+    }
+    if (authorization.expiresAt <= now) {
+      return failure(new AuthorizationNotActiveError(authorization.id, AuthorizationStatus.EXPIRED));
+    }
+
+    return success(authorization);
+  }
+
+  private async releaseAuthorization(
+    repos: BankingRepositories,
+    authorization: Authorization,
+    status: AuthorizationStatus.VOIDED | AuthorizationStatus.EXPIRED,
+    resolvedAt: Date
+  ): Promise<Result<Authorization>> {
+    const released: Authorization = {
+      ...authorization,
+      status,
+      resolvedAt,
+      updatedAt: new Date(),
+      version: authorization.version + 1,
+    };
+    await repos.authorizations.save(released);
+
+    const balanceEvent = await this.context.adjustHold(
+      repos,
+      authorization.accountId,
+      -authorization.amount.amount
+    );
+    await this.context.enqueue(repos, balanceEvent);
+
+    return success(released);
+  }
+}
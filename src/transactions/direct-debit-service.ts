@@ -0,0 +1,424 @@
+/**
+ * Direct Debit Service
+ * Direct debit mandates and the collections made under them, with returned items
+ */
+
+import {
+  AccountStatus,
+  Transaction,
+  TransactionType,
+  TransactionStatus,
+  Money,
+  Currency,
+  EntryType,
+  DirectDebitMandate,
+  DirectDebitReturn,
+  DirectDebitReturnReason,
+  MandateStatus,
+  MandateType,
+} from '../core/domain';
+import { AccountValidator, TransactionValidator, MandateValidator } from '../core/validators';
+import {
+  AccountNotFoundError,
+  AccountClosedError,
+  MandateNotFoundError,
+  MandateNotActiveError,
+  ValidationError,
+} from '../utils/errors';
+import { IdGenerator } from '../utils/id-generator';
+import { BankingRepositories } from '../persistence/repositories';
+import { DomainEvents } from '../events/domain-events';
+import { idempotencyScope } from '../api/idempotency';
+import { Result, success, failure } from '../api/result';
+import { BankingContext, isInternalAccount } from '../api/banking-context';
+import { OverdraftService } from '../interest/overdraft-service';
+
+/**
+ * Direct debit mandate registration
+ */
+export interface CreateMandateRequest {
+  debtorAccountId: string;
+  creditorId: string;
+  creditorName: string;
+  /** Creditor's unique reference for the mandate */
+  mandateReference: string;
+  type: MandateType;
+  signatureDate: Date;
+}
+
+/**
+ * Direct debit collection presented by a creditor
+ */
+export interface DirectDebitCollectionRequest {
+  creditorId: string;
+  mandateReference: string;
+  debtorAccountId: string;
+  amount: number;
+  currency: Currency;
+  /** Creditor's reference for this collection */
+  collectionReference?: string;
+  description?: string;
+  idempotencyKey?: string;
+  /** Caller identity; scopes idempotency keys (defaults to the creditor id) */
+  initiatedBy?: string;
+}
+
+/**
+ * Outcome of a direct debit collection: posted, or returned unpaid
+ */
+export type DirectDebitCollection =
+  | { status: 'COLLECTED'; transaction: Transaction }
+  | { status: 'RETURNED'; returnedItem: DirectDebitReturn };
+
+/**
+ * Mandates a debtor grants a creditor, and the collections made under them.
+ * A collection that cannot be paid is recorded as a returned item with its
+ * reason code instead of failing.
+ */
+export class DirectDebitService {
+  constructor(
+    private readonly context: BankingContext,
+    private readonly overdraft: OverdraftService
+  ) {}
+
+  /**
+   * Register a debtor's direct debit mandate for a creditor
+   */
+  async createMandate(request: CreateMandateRequest): Promise<Result<DirectDebitMandate>> {
+    await this.context.ready;
+
+    const mandateReference = (request.mandateReference ?? '').trim();
+    const creditorId = (request.creditorId ?? '').trim();
+    const creditorName = (request.creditorName ?? '').trim();
+    const validation = MandateValidator.validateMandate({
+      mandateReference,
+      creditorId,
+      creditorName,
+      type: request.type,
+      signatureDate: request.signatureDate,
+    });
+    if (!validation.isValid) {
+      return failure(validation.errors[0]!);
+    }
+
+    return this.context.inUnitOfWork(async (repos) => {
+      const account = await repos.accounts.findById(request.debtorAccountId);
+      if (!account || isInternalAccount(account)) {
+        return failure(new AccountNotFoundError(request.debtorAccountId));
+      }
+      if (account.status === AccountStatus.CLOSED) {
+        return failure(new AccountClosedError(account.id));
+      }
+
+      if (await repos.mandates.findByReference(creditorId, mandateReference)) {
+        return failure(
+          new ValidationError(
+            'mandateReference',
+            `Mandate ${mandateReference} already exists for creditor ${creditorId}`
+          )
+        );
+      }
+
+      const mandate: DirectDebitMandate = {
+        id: IdGenerator.mandateId(),
+        mandateReference,
+        creditorId,
+        creditorName,
+        debtorAccountId: account.id,
+        type: request.type,
+        signatureDate: request.signatureDate,
+        status: MandateStatus.ACTIVE,
+        lastCollectedAt: null,
+        revokedAt: null,
+        revocationReason: null,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        version: 1,
+      };
+      await repos.mandates.save(mandate);
+
+      return success(mandate);
+    });
+  }
+
+  /**
+   * Revoke a mandate; later collections under it are returned as MD01.
+   * Revoking an already revoked mandate returns it unchanged.
+   */
+  async revokeMandate(mandateId: string, reason?: string): Promise<Result<DirectDebitMandate>> {
+    await this.context.ready;
+
+    return this.context.inUnitOfWork(async (repos) => {
+      const mandate = await repos.mandates.findById(mandateId);
+      if (!mandate) {
+        return failure(new MandateNotFoundError(mandateId));
+      }
+      if (mandate.status === MandateStatus.REVOKED) {
+        return success(mandate);
+      }
+      if (mandate.status !== MandateStatus.ACTIVE) {
+        return failure(new MandateNotActiveError(mandateId));
+      }
+
+      const revoked: DirectDebitMandate = {
+        ...mandate,
+        status: MandateStatus.REVOKED,
+        revokedAt: new Date(),
+        revocationReason: reason?.trim() || null,
+        updatedAt: new Date(),
+        version: mandate.version + 1,
+      };
+      await repos.mandates.save(revoked);
+
+      return success(revoked);
+    });
+  }
+
+  /**
+   * Get mandate by ID
+   */
+  async getMandate(mandateId: string): Promise<Result<DirectDebitMandate>> {
+    await this.context.ready;
+
+    const mandate = await this.context.repositories.mandates.findById(mandateId);
+    if (!mandate) {
+      return failure(new MandateNotFoundError(mandateId));
+    }
+    return success(mandate);
+  }
+
+  /**
+   * Get the mandates granted on an account
+   */
+  async getMandatesByAccount(accountId: string): Promise<Result<DirectDebitMandate[]>> {
+    await this.context.ready;
+
+    const account = await this.context.repositories.accounts.findById(accountId);
+    if (!account) {
+      return failure(new AccountNotFoundError(accountId));
+    }
+
+    return success(await this.context.repositories.mandates.findByDebtorAccountId(accountId));
+  }
+
+  /**
+   * Collect a direct debit presented by a creditor.
+   * The mandate must be active and cover the debtor account; the debit then
+   * follows the normal withdrawal rules. A collection the bank refuses (no valid
+   * mandate, closed or blocked account, insufficient funds, over the account's
+   * limits) is not an error: it is recorded as a returned item with its reason
+   * code for the creditor.
+   * Only collections that are posted are remembered under their idempotency key.
+   */
+  async collectDirectDebit(
+    request: DirectDebitCollectionRequest
+  ): Promise<Result<DirectDebitCollection>> {
+    await this.context.ready;
+    return this.context.inUnitOfWork((repos) => this.postDirectDebit(repos, request));
+  }
+
+  private async postDirectDebit(
+    repos: BankingRepositories,
+    request: DirectDebitCollectionRequest
+  ): Promise<Result<DirectDebitCollection>> {
+    const initiatedBy = request.initiatedBy ?? request.creditorId;
+
+    // Check idempotency
+    const idempotency = idempotencyScope(
+      TransactionType.DIRECT_DEBIT,
+      initiatedBy,
+      request.idempotencyKey,
+      request
+    );
+    const replayed = await this.context.replayIdempotent(repos, idempotency);
+    if (replayed) {
+      return replayed.success
+        ? success({ status: 'COLLECTED', transaction: replayed.data })
+        : replayed;
+    }
+
+    const amount: Money = { amount: request.amount, currency: request.currency, scale: 2 };
+    const amountResult = TransactionValidator.validateAmount(amount);
+    if (!amountResult.isValid) {
+      return failure(amountResult.errors[0]!);
+    }
+
+    const collectionReference = request.collectionReference || IdGenerator.reference();
+    const returnItem = async (
+      mandate: DirectDebitMandate | null,
+      reasonCode: DirectDebitReturnReason,
+      reason: string
+    ): Promise<Result<DirectDebitCollection>> => {
+      const returnedItem: DirectDebitReturn = {
+        id: IdGenerator.returnedItemId(),
+        mandateId: mandate?.id ?? null,
+        mandateReference: request.mandateReference,
+        creditorId: request.creditorId,
+        debtorAccountId: mandate?.debtorAccountId ?? request.debtorAccountId ?? null,
+        amount,
+        collectionReference,
+        reasonCode,
+        reason,
+        createdAt: new Date(),
+      };
+      await repos.directDebitReturns.save(returnedItem);
+      return success({ status: 'RETURNED', returnedItem });
+    };
+
+    // Check the mandate
+    const mandate = await repos.mandates.findByReference(
+      request.creditorId,
+      request.mandateReference
+    );
+    if (!mandate) {
+      return returnItem(null, DirectDebitReturnReason.NO_MANDATE, 'No mandate found');
+    }
+    const mandateResult = MandateValidator.canCollect(mandate, request.debtorAccountId);
+    if (!mandateResult.isValid) {
+      return returnItem(
+        mandate,
+        DirectDebitReturnReason.NO_MANDATE,
+        mandateResult.errors[0]!.message
+      );
+    }
+
+    // Check the debtor account
+    const account = (await repos.accounts.findById(mandate.debtorAccountId))!;
+    if (account.status === AccountStatus.CLOSED) {
+      return returnItem(mandate, DirectDebitReturnReason.ACCOUNT_CLOSED, 'Account is closed');
+    }
+    const accountResult = AccountValidator.canSendTransaction(account);
+    if (!accountResult.isValid) {
+      return returnItem(
+        mandate,
+        DirectDebitReturnReason.ACCOUNT_BLOCKED,
+        accountResult.errors[0]!.message
+      );
+    }
+
+    // Same rules as a withdrawal; a shortfall or a limit breach is returned, anything else fails
+    const balance = (await repos.balances.findByAccountId(account.id))!;
+    const currencyResult = TransactionValidator.validateCurrency(amount.currency, account.currency);
+    if (!currencyResult.isValid) {
+      return failure(currencyResult.errors[0]!);
+    }
+    const fundsResult = TransactionValidator.validateSufficientFunds(
+      balance.availableBalance,
+      amount,
+      account.overdraftLimit
+    );
+    if (!fundsResult.isValid) {
+      return returnItem(
+        mandate,
+        DirectDebitReturnReason.INSUFFICIENT_FUNDS,
+        fundsResult.errors[0]!.message
+      );
+    }
+    const validation = TransactionValidator.validateWithdrawal(account, amount, balance);
+    if (!validation.isValid) {
+      return failure(validation.errors[0]!);
+    }
+    const limitResult = await this.context.checkTransactionLimits(repos, account, amount);
+    if (!limitResult.success) {
+      return returnItem(
+        mandate,
+        DirectDebitReturnReason.LIMIT_EXCEEDED,
+        limitResult.error.message
+      );
+    }
+
+    // Create transaction
+    const clearing = await this.context.internalAccount(repos, 'DIRECT_DEBITS', amount.currency);
+    const transactionId = IdGenerator.transactionId();
+    const description = request.description || `Direct debit ${mandate.creditorName}`;
+    const transaction: Transaction = {
+      id: {
+        value: transactionId,
+        generatedAt: new Date(),
+        source: 'BANKING_API',
+      },
+      sourceAccountId: account.id,
+      destinationAccountId: clearing.id,
+      amount,
+      currency: request.currency,
+      type: TransactionType.DIRECT_DEBIT,
+      status: TransactionStatus.COMPLETED,
+      reference: collectionReference,
+      description,
+      createdAt: new Date(),
+      completedAt: new Date(),
+      initiatedBy,
+      authorizationCode: null,
+      fee: null,
+      exchangeRate: null,
+      originalTransactionId: null,
+      failureReason: null,
+      metadata: {
+        mandateId: mandate.id,
+        mandateReference: mandate.mandateReference,
+        creditorId: mandate.creditorId,
+        creditorName: mandate.creditorName,
+      },
+      version: 1,
+    };
+
+    // Move the funds to the direct debit settlement account
+    const balanceEvents = [
+      await this.context.postEntry(
+        repos,
+        account.id,
+        transactionId,
+        TransactionType.DIRECT_DEBIT,
+        EntryType.DEBIT,
+        amount,
+        description
+      ),
+      await this.context.postEntry(
+        repos,
+        clearing.id,
+        transactionId,
+        TransactionType.DIRECT_DEBIT,
+        EntryType.CREDIT,
+        amount,
+        description
+      ),
+    ];
+
+    // A one-off mandate is spent by its collection
+    await repos.mandates.save({
+      ...mandate,
+      status: mandate.type === MandateType.ONE_OFF ? MandateStatus.USED : mandate.status,
+      lastCollectedAt: transaction.createdAt,
+      updatedAt: new Date(),
+      version: mandate.version + 1,
+    });
+
+    // Store transaction
+    await repos.transactions.save(transaction);
+
+    await this.context.rememberIdempotent(repos, idempotency, transactionId);
+
+    await this.context.enqueue(
+      repos,
+      ...balanceEvents,
+      DomainEvents.transactionCompleted(transaction)
+    );
+
+    return success({ status: 'COLLECTED', transaction });
+  }
+
+  /**
+   * Get the direct debits returned unpaid from an account
+   */
+  async getReturnedDirectDebits(accountId: string): Promise<Result<DirectDebitReturn[]>> {
+    await this.context.ready;
+
+    const account = await this.context.repositories.accounts.findById(accountId);
+    if (!account) {
+      return failure(new AccountNotFoundError(accountId));
+    }
+
+    const { directDebitReturns } = this.context.repositories;
+    return success(await directDebitReturns.findByDebtorAccountId(accountId));
+  }
+}
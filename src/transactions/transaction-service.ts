@@ -0,0 +1,1495 @@
+/**
+ * Transaction Service
+ * Posts transfers, deposits, withdrawals, payments, adjustments and reversals
+ */
+
+import {
+  Account,
+  AccountStatus,
+  Transaction,
+  TransactionType,
+  TransactionStatus,
+  Money,
+  Currency,
+  EntryType,
+  PaymentBeneficiary,
+} from '../core/domain';
+import { TransactionValidator, combineValidationResults } from '../core/validators';
+import {
+  AccountNotFoundError,
+  AccountClosedError,
+  TransactionNotFoundError,
+  TransactionReversalNotAllowedError,
+  TransactionAlreadyProcessedError,
+  InvalidTransactionError,
+  ValidationError,
+} from '../utils/errors';
+import { IdGenerator } from '../utils/id-generator';
+import { addDays, businessDay, formatBusinessDate } from '../utils/business-date';
+import { BankingRepositories } from '../persistence/repositories';
+import { BankingEvent } from '../events/event-bus';
+import { DomainEvents } from '../events/domain-events';
+import { FxConversion, convert } from '../fx';
+import { IdempotencyScope, idempotencyScope } from '../api/idempotency';
+import { Result, success, failure } from '../api/result';
+import { BankingContext, isInternalAccount } from '../api/banking-context';
+import { OverdraftService } from '../interest/overdraft-service';
+
+/**
+ * Transfer request
+ */
+export interface TransferRequest {
+  sourceAccountId: string;
+  destinationAccountId: string;
+  amount: number;
+  currency: Currency;
+  description?: string;
+  reference?: string;
+  /** Business date the posting takes effect (default today); may be backdated or future-dated */
+  valueDate?: Date;
+  idempotencyKey?: string;
+  /** Caller identity; scopes idempotency keys (defaults to CUSTOMER) */
+  initiatedBy?: string;
+  /** Holders signing the instruction, checked against the account's signing rule */
+  signedBy?: string[];
+}
+
+/**
+ * Deposit request
+ */
+export interface DepositRequest {
+  accountId: string;
+  amount: number;
+  currency: Currency;
+  description?: string;
+  reference?: string;
+  /** Business date the posting takes effect (default today); may be backdated or future-dated */
+  valueDate?: Date;
+  idempotencyKey?: string;
+  /** Caller identity; scopes idempotency keys (defaults to CUSTOMER) */
+  initiatedBy?: string;
+}
+
+/**
+ * Withdrawal request
+ */
+export interface WithdrawalRequest {
+  accountId: string;
+  amount: number;
+  currency: Currency;
+  description?: string;
+  reference?: string;
+  /** Business date the posting takes effect (default today); may be backdated or future-dated */
+  valueDate?: Date;
+  idempotencyKey?: string;
+  /** Caller identity; scopes idempotency keys (defaults to CUSTOMER) */
+  initiatedBy?: string;
+  /** Holders signing the instruction, checked against the account's signing rule */
+  signedBy?: string[];
+  /** Where the cash is withdrawn (defaults to BRANCH) */
+  channel?: WithdrawalChannel;
+}
+
+/**
+ * Channel a withdrawal is made through; ATM withdrawals attract the product ATM fee
+ */
+export type WithdrawalChannel = 'BRANCH' | 'ATM';
+
+/**
+ * Outgoing payment to an external beneficiary
+ */
+export interface PaymentRequest {
+  sourceAccountId: string;
+  amount: number;
+  currency: Currency;
+  beneficiaryName: string;
+  /** Beneficiary IBAN; either this or beneficiaryAccountNumber is required */
+  beneficiaryIban?: string;
+  beneficiaryAccountNumber?: string;
+  beneficiaryBic?: string;
+  /** Unstructured remittance information passed to the beneficiary */
+  remittanceInformation?: string;
+  description?: string;
+  reference?: string;
+  /** Business date the posting takes effect (default today); may be backdated or future-dated */
+  valueDate?: Date;
+  idempotencyKey?: string;
+  /** Caller identity; scopes idempotency keys (defaults to CUSTOMER) */
+  initiatedBy?: string;
+  /** Holders signing the instruction, checked against the account's signing rule */
+  signedBy?: string[];
+}
+
+/**
+ * Manual correction to an account; always waits for a second user's approval
+ */
+export interface AdjustmentRequest {
+  accountId: string;
+  amount: number;
+  currency: Currency;
+  /** CREDIT adds the amount to the account, DEBIT takes it off */
+  entryType: EntryType;
+  /** Why the correction is needed */
+  reason: string;
+  /** Staff member making the adjustment */
+  initiatedBy: string;
+  description?: string;
+  reference?: string;
+  /** Business date the posting takes effect (default today); may be backdated or future-dated */
+  valueDate?: Date;
+  idempotencyKey?: string;
+}
+
+/**
+ * Settlement confirmation for an outgoing payment
+ */
+export interface PaymentSettlement {
+  transactionId: string;
+  outcome: 'SETTLED' | 'REJECTED';
+  /** Reference assigned by the clearing system */
+  settlementReference?: string;
+  /** Why the payment was rejected (required for REJECTED) */
+  reason?: string;
+}
+
+/**
+ * A stored transaction being posted: on its approval, or once its value date arrives
+ */
+export interface DeferredPosting {
+  /** The ON_HOLD or future-dated PENDING transaction; its id, reference and creation time are kept */
+  held: Transaction;
+  trigger: 'APPROVAL' | 'VALUE_DATE';
+  /** Approver, for APPROVAL */
+  approvedBy: string | null;
+}
+
+/**
+ * Whether a transaction is stored unposted: held for approval or future-dated
+ */
+export function isDeferred(transaction: Transaction): boolean {
+  return transaction.metadata['deferredRequest'] !== undefined;
+}
+
+/**
+ * Upper-case an IBAN or BIC and strip the spaces used when writing it out
+ */
+function normaliseIdentifier(value: string): string {
+  return value.replace(/\s+/g, '').toUpperCase();
+}
+
+/**
+ * Customer and bank-initiated postings. Each runs in one unit of work; postings
+ * over the approval threshold are held for approval and future-dated ones wait
+ * for their value date, to be posted later through postDeferred.
+ */
+export class TransactionService {
+  constructor(
+    private readonly context: BankingContext,
+    private readonly overdraft: OverdraftService,
+    private readonly approvalThreshold: Money | null,
+    private readonly backdatingWindowDays: number
+  ) {}
+
+  /**
+   * Process a transfer between accounts; either account may be given by IBAN
+   */
+  async transfer(request: TransferRequest): Promise<Result<Transaction>> {
+    await this.context.ready;
+    return this.context.inUnitOfWork(async (repos) =>
+      this.postTransfer(repos, {
+        ...request,
+        sourceAccountId: await this.context.resolveAccountId(repos, request.sourceAccountId),
+        destinationAccountId: await this.context.resolveAccountId(
+          repos,
+          request.destinationAccountId
+        ),
+      })
+    );
+  }
+
+  private async postTransfer(
+    repos: BankingRepositories,
+    request: TransferRequest,
+    deferred: DeferredPosting | null = null
+  ): Promise<Result<Transaction>> {
+    const initiatedBy = request.initiatedBy ?? 'CUSTOMER';
+
+    // Check idempotency
+    const idempotency = idempotencyScope(
+      TransactionType.TRANSFER,
+      initiatedBy,
+      request.idempotencyKey,
+      request
+    );
+    const replayed = await this.context.replayIdempotent(repos, idempotency);
+    if (replayed) {
+      return replayed;
+    }
+
+    // Get accounts
+    const sourceAccount = await repos.accounts.findById(request.sourceAccountId);
+    const destAccount = await repos.accounts.findById(request.destinationAccountId);
+
+    if (!sourceAccount) {
+      return failure(new AccountNotFoundError(request.sourceAccountId));
+    }
+    if (!destAccount) {
+      return failure(new AccountNotFoundError(request.destinationAccountId));
+    }
+
+    const sourceBalance = (await repos.balances.findByAccountId(request.sourceAccountId))!;
+    const amount: Money = { amount: request.amount, currency: request.currency, scale: 2 };
+
+    // Convert when the accounts are held in different currencies
+    let conversion: FxConversion | null = null;
+    if (destAccount.currency !== sourceAccount.currency) {
+      const converted = await this.context.convertCurrency(amount, destAccount.currency);
+      if (!converted.success) {
+        return converted;
+      }
+      conversion = converted.data;
+    }
+    const destinationAmount = conversion?.destinationAmount ?? amount;
+
+    // Validate transfer
+    const validation = TransactionValidator.validateTransfer(
+      sourceAccount,
+      destAccount,
+      amount,
+      sourceBalance,
+      destinationAmount
+    );
+
+    if (!validation.isValid) {
+      return failure(validation.errors[0]!);
+    }
+
+    // Enforce the account's signing rule
+    const signed = this.context.checkSigningRule(sourceAccount, request.signedBy, initiatedBy);
+    if (!signed.success) {
+      return signed;
+    }
+
+    // Enforce the product's transaction limits
+    const withinLimits = await this.context.checkTransactionLimits(repos, sourceAccount, amount);
+    if (!withinLimits.success) {
+      return withinLimits;
+    }
+
+    // Backdating is limited to the configured window
+    const valueDate = await this.resolveValueDate(
+      repos,
+      request.valueDate,
+      [sourceAccount, destAccount],
+      deferred
+    );
+    if (!valueDate.success) {
+      return valueDate;
+    }
+
+    // Assess the product fee before this posting counts towards the allowance
+    const charge = await this.context.assessPostingFee(repos, sourceAccount, TransactionType.TRANSFER, amount, {
+      crossCurrency: conversion !== null,
+    });
+
+    // Create transaction
+    const transactionId = deferred?.held.id.value ?? IdGenerator.transactionId();
+    const transaction = this.withDeferral(deferred, {
+      id: {
+        value: transactionId,
+        generatedAt: new Date(),
+        source: 'BANKING_API',
+      },
+      sourceAccountId: request.sourceAccountId,
+      destinationAccountId: request.destinationAccountId,
+      amount,
+      currency: request.currency,
+      type: TransactionType.TRANSFER,
+      status: TransactionStatus.COMPLETED,
+      reference: request.reference || IdGenerator.reference(),
+      description: request.description || 'Transfer',
+      createdAt: new Date(),
+      completedAt: new Date(),
+      initiatedBy,
+      authorizationCode: null,
+      fee: charge?.fee.total ?? null,
+      exchangeRate: conversion?.rate ?? null,
+      originalTransactionId: null,
+      failureReason: null,
+      metadata: {
+        ...(conversion ? { fx: this.context.describeConversion(conversion) } : {}),
+        ...this.context.feeMetadata(charge),
+        ...this.context.signingMetadata(request.signedBy),
+      },
+      version: 1,
+    });
+
+    // Hold for approval, or leave a future-dated transaction pending until its value date
+    const deferral = await this.deferralStatus(transaction, valueDate.data, deferred);
+    if (deferral) {
+      return this.deferPosting(repos, transaction, deferral, request, idempotency, valueDate.data);
+    }
+
+    // Post both legs; a conversion books each currency against its FX position account
+    const description = request.description || 'Transfer';
+    const balanceEvents = [
+      await this.context.postEntry(
+        repos,
+        request.sourceAccountId,
+        transactionId,
+        TransactionType.TRANSFER,
+        EntryType.DEBIT,
+        amount,
+        `${description} - To ${request.destinationAccountId}`,
+        null,
+        valueDate.data
+      ),
+    ];
+    if (conversion) {
+      balanceEvents.push(
+        ...(await this.context.postFxLegs(repos, transactionId, TransactionType.TRANSFER, conversion, description))
+      );
+    }
+    balanceEvents.push(
+      await this.context.postEntry(
+        repos,
+        request.destinationAccountId,
+        transactionId,
+        TransactionType.TRANSFER,
+        EntryType.CREDIT,
+        destinationAmount,
+        `${description} - From ${request.sourceAccountId}`,
+        null,
+        valueDate.data
+      )
+    );
+
+    // Charge the fee
+    const feeEvents = await this.context.postFee(repos, sourceAccount, transaction, charge);
+    if (!feeEvents.success) {
+      return feeEvents;
+    }
+    balanceEvents.push(...feeEvents.data);
+    const overdraftFeeEvents = await this.overdraft.chargeOverdraftFee(
+      repos,
+      sourceAccount,
+      transaction,
+      sourceBalance,
+      valueDate.data
+    );
+
+    // Store transaction
+    await repos.transactions.save(transaction);
+
+    // Store idempotency key
+    await this.context.rememberIdempotent(repos, idempotency, transactionId);
+
+    await this.context.enqueue(
+      repos,
+      ...balanceEvents,
+      DomainEvents.transactionCompleted(transaction),
+      ...overdraftFeeEvents
+    );
+
+    return success(transaction);
+  }
+
+  /**
+   * Process a deposit
+   */
+  async deposit(request: DepositRequest): Promise<Result<Transaction>> {
+    await this.context.ready;
+    return this.context.inUnitOfWork((repos) => this.postDeposit(repos, request));
+  }
+
+  async postDeposit(
+    repos: BankingRepositories,
+    request: DepositRequest,
+    deferred: DeferredPosting | null = null
+  ): Promise<Result<Transaction>> {
+    const initiatedBy = request.initiatedBy ?? 'CUSTOMER';
+
+    // Check idempotency
+    const idempotency = idempotencyScope(
+      TransactionType.DEPOSIT,
+      initiatedBy,
+      request.idempotencyKey,
+      request
+    );
+    const replayed = await this.context.replayIdempotent(repos, idempotency);
+    if (replayed) {
+      return replayed;
+    }
+
+    const account = await repos.accounts.findById(request.accountId);
+    if (!account) {
+      return failure(new AccountNotFoundError(request.accountId));
+    }
+
+    const amount: Money = { amount: request.amount, currency: request.currency, scale: 2 };
+
+    // Validate deposit
+    const validation = TransactionValidator.validateDeposit(account, amount);
+    if (!validation.isValid) {
+      return failure(validation.errors[0]!);
+    }
+
+    // Backdating is limited to the configured window
+    const valueDate = await this.resolveValueDate(repos, request.valueDate, [account], deferred);
+    if (!valueDate.success) {
+      return valueDate;
+    }
+
+    // Assess the product fee before this posting counts towards the allowance
+    const charge = await this.context.assessPostingFee(
+      repos,
+      account,
+      TransactionType.DEPOSIT,
+      amount
+    );
+
+    // Create transaction
+    const transactionId = deferred?.held.id.value ?? IdGenerator.transactionId();
+    const transaction = this.withDeferral(deferred, {
+      id: {
+        value: transactionId,
+        generatedAt: new Date(),
+        source: 'BANKING_API',
+      },
+      sourceAccountId: null,
+      destinationAccountId: request.accountId,
+      amount,
+      currency: request.currency,
+      type: TransactionType.DEPOSIT,
+      status: TransactionStatus.COMPLETED,
+      reference: request.reference || IdGenerator.reference(),
+      description: request.description || 'Deposit',
+      createdAt: new Date(),
+      completedAt: new Date(),
+      initiatedBy,
+      authorizationCode: null,
+      fee: charge?.fee.total ?? null,
+      exchangeRate: null,
+      originalTransactionId: null,
+      failureReason: null,
+      metadata: this.context.feeMetadata(charge),
+      version: 1,
+    });
+
+    // Hold for approval, or leave a future-dated transaction pending until its value date
+    const deferral = await this.deferralStatus(transaction, valueDate.data, deferred);
+    if (deferral) {
+      return this.deferPosting(repos, transaction, deferral, request, idempotency, valueDate.data);
+    }
+
+    // Post the credit
+    const balanceEvent = await this.context.postEntry(
+      repos,
+      request.accountId,
+      transactionId,
+      TransactionType.DEPOSIT,
+      EntryType.CREDIT,
+      amount,
+      request.description || 'Deposit',
+      null,
+      valueDate.data
+    );
+
+    // Charge the fee
+    const feeEvents = await this.context.postFee(repos, account, transaction, charge);
+    if (!feeEvents.success) {
+      return feeEvents;
+    }
+
+    // Store transaction
+    await repos.transactions.save(transaction);
+
+    await this.context.rememberIdempotent(repos, idempotency, transactionId);
+
+    await this.context.enqueue(
+      repos,
+      balanceEvent,
+      ...feeEvents.data,
+      DomainEvents.transactionCompleted(transaction)
+    );
+
+    return success(transaction);
+  }
+
+  /**
+   * Process a withdrawal
+   */
+  async withdraw(request: WithdrawalRequest): Promise<Result<Transaction>> {
+    await this.context.ready;
+    return this.context.inUnitOfWork((repos) => this.postWithdrawal(repos, request));
+  }
+
+  private async postWithdrawal(
+    repos: BankingRepositories,
+    request: WithdrawalRequest,
+    deferred: DeferredPosting | null = null
+  ): Promise<Result<Transaction>> {
+    const initiatedBy = request.initiatedBy ?? 'CUSTOMER';
+
+    // Check idempotency
+    const idempotency = idempotencyScope(
+      TransactionType.WITHDRAWAL,
+      initiatedBy,
+      request.idempotencyKey,
+      request
+    );
+    const replayed = await this.context.replayIdempotent(repos, idempotency);
+    if (replayed) {
+      return replayed;
+    }
+
+    const account = await repos.accounts.findById(request.accountId);
+    if (!account) {
+      return failure(new AccountNotFoundError(request.accountId));
+    }
+
+    const balance = (await repos.balances.findByAccountId(request.accountId))!;
+    const amount: Money = { amount: request.amount, currency: request.currency, scale: 2 };
+
+    // Validate withdrawal
+    const validation = TransactionValidator.validateWithdrawal(account, amount, balance);
+    if (!validation.isValid) {
+      return failure(validation.errors[0]!);
+    }
+
+    // Enforce the account's signing rule
+    const signed = this.context.checkSigningRule(account, request.signedBy, initiatedBy);
+    if (!signed.success) {
+      return signed;
+    }
+
+    // Enforce the product's transaction limits
+    const atm = request.channel === 'ATM';
+    const withinLimits = await this.context.checkTransactionLimits(repos, account, amount, atm);
+    if (!withinLimits.success) {
+      return withinLimits;
+    }
+
+    // Backdating is limited to the configured window
+    const valueDate = await this.resolveValueDate(repos, request.valueDate, [account], deferred);
+    if (!valueDate.success) {
+      return valueDate;
+    }
+
+    // Assess the product fee before this posting counts towards the allowance
+    const channel = request.channel ?? 'BRANCH';
+    const charge = await this.context.assessPostingFee(
+      repos,
+      account,
+      TransactionType.WITHDRAWAL,
+      amount,
+      { atm: channel === 'ATM' }
+    );
+
+    // Create transaction
+    const transactionId = deferred?.held.id.value ?? IdGenerator.transactionId();
+    const transaction = this.withDeferral(deferred, {
+      id: {
+        value: transactionId,
+        generatedAt: new Date(),
+        source: 'BANKING_API',
+      },
+      sourceAccountId: request.accountId,
+      destinationAccountId: null,
+      amount,
+      currency: request.currency,
+      type: TransactionType.WITHDRAWAL,
+      status: TransactionStatus.COMPLETED,
+      reference: request.reference || IdGenerator.reference(),
+      description: request.description || 'Withdrawal',
+      createdAt: new Date(),
+      completedAt: new Date(),
+      initiatedBy,
+      authorizationCode: null,
+      fee: charge?.fee.total ?? null,
+      exchangeRate: null,
+      originalTransactionId: null,
+      failureReason: null,
+      metadata: {
+        channel,
+        ...this.context.feeMetadata(charge),
+        ...this.context.signingMetadata(request.signedBy),
+      },
+      version: 1,
+    });
+
+    // Hold for approval, or leave a future-dated transaction pending until its value date
+    const deferral = await this.deferralStatus(transaction, valueDate.data, deferred);
+    if (deferral) {
+      return this.deferPosting(repos, transaction, deferral, request, idempotency, valueDate.data);
+    }
+
+    // Post the debit
+    const balanceEvent = await this.context.postEntry(
+      repos,
+      request.accountId,
+      transactionId,
+      TransactionType.WITHDRAWAL,
+      EntryType.DEBIT,
+      amount,
+      request.description || 'Withdrawal',
+      null,
+      valueDate.data
+    );
+
+    // Charge the fee
+    const feeEvents = await this.context.postFee(repos, account, transaction, charge);
+    if (!feeEvents.success) {
+      return feeEvents;
+    }
+    const overdraftFeeEvents = await this.overdraft.chargeOverdraftFee(
+      repos,
+      account,
+      transaction,
+      balance,
+      valueDate.data
+    );
+
+    // Store transaction
+    await repos.transactions.save(transaction);
+
+    await this.context.rememberIdempotent(repos, idempotency, transactionId);
+
+    await this.context.enqueue(
+      repos,
+      balanceEvent,
+      ...feeEvents.data,
+      DomainEvents.transactionCompleted(transaction),
+      ...overdraftFeeEvents
+    );
+
+    return success(transaction);
+  }
+
+  /**
+   * Send a payment to an external beneficiary.
+   * The customer is debited and the funds are parked on the outgoing-payments
+   * clearing account; the payment stays PENDING until its settlement is confirmed.
+   * The source account may be given by IBAN.
+   */
+  async pay(request: PaymentRequest): Promise<Result<Transaction>> {
+    await this.context.ready;
+    return this.context.inUnitOfWork(async (repos) =>
+      this.postPayment(repos, {
+        ...request,
+        sourceAccountId: await this.context.resolveAccountId(repos, request.sourceAccountId),
+      })
+    );
+  }
+
+  private async postPayment(
+    repos: BankingRepositories,
+    request: PaymentRequest,
+    deferred: DeferredPosting | null = null
+  ): Promise<Result<Transaction>> {
+    const initiatedBy = request.initiatedBy ?? 'CUSTOMER';
+
+    // Check idempotency
+    const idempotency = idempotencyScope(
+      TransactionType.PAYMENT,
+      initiatedBy,
+      request.idempotencyKey,
+      request
+    );
+    const replayed = await this.context.replayIdempotent(repos, idempotency);
+    if (replayed) {
+      return replayed;
+    }
+
+    const account = await repos.accounts.findById(request.sourceAccountId);
+    if (!account) {
+      return failure(new AccountNotFoundError(request.sourceAccountId));
+    }
+
+    const balance = (await repos.balances.findByAccountId(request.sourceAccountId))!;
+    const amount: Money = { amount: request.amount, currency: request.currency, scale: 2 };
+    const beneficiary: PaymentBeneficiary = {
+      name: (request.beneficiaryName ?? '').trim(),
+      iban: request.beneficiaryIban ? normaliseIdentifier(request.beneficiaryIban) : null,
+      accountNumber: request.beneficiaryAccountNumber?.trim() || null,
+      bic: request.beneficiaryBic ? normaliseIdentifier(request.beneficiaryBic) : null,
+    };
+    const remittanceInformation = request.remittanceInformation?.trim() || null;
+
+    // Validate payment
+    const validation = TransactionValidator.validatePayment(
+      account,
+      amount,
+      balance,
+      beneficiary,
+      remittanceInformation
+    );
+    if (!validation.isValid) {
+      return failure(validation.errors[0]!);
+    }
+
+    // Enforce the account's signing rule
+    const signed = this.context.checkSigningRule(account, request.signedBy, initiatedBy);
+    if (!signed.success) {
+      return signed;
+    }
+
+    // Enforce the product's transaction limits
+    const withinLimits = await this.context.checkTransactionLimits(repos, account, amount);
+    if (!withinLimits.success) {
+      return withinLimits;
+    }
+
+    // Backdating is limited to the configured window
+    const valueDate = await this.resolveValueDate(repos, request.valueDate, [account], deferred);
+    if (!valueDate.success) {
+      return valueDate;
+    }
+
+    // Assess the product fee before this posting counts towards the allowance
+    const charge = await this.context.assessPostingFee(
+      repos,
+      account,
+      TransactionType.PAYMENT,
+      amount
+    );
+
+    // Create transaction
+    const clearing = await this.context.internalAccount(
+      repos,
+      'OUTGOING_PAYMENTS',
+      amount.currency
+    );
+    const transactionId = deferred?.held.id.value ?? IdGenerator.transactionId();
+    const description = request.description || `Payment to ${beneficiary.name}`;
+    const transaction = this.withDeferral(deferred, {
+      id: {
+        value: transactionId,
+        generatedAt: new Date(),
+        source: 'BANKING_API',
+      },
+      sourceAccountId: account.id,
+      destinationAccountId: clearing.id,
+      amount,
+      currency: request.currency,
+      type: TransactionType.PAYMENT,
+      status: TransactionStatus.PENDING,
+      reference: request.reference || IdGenerator.reference(),
+      description,
+      createdAt: new Date(),
+      completedAt: null,
+      initiatedBy,
+      authorizationCode: null,
+      fee: charge?.fee.total ?? null,
+      exchangeRate: null,
+      originalTransactionId: null,
+      failureReason: null,
+      metadata: {
+        beneficiary,
+        remittanceInformation,
+        ...this.context.feeMetadata(charge),
+        ...this.context.signingMetadata(request.signedBy),
+      },
+      version: 1,
+    });
+
+    // Hold for approval, or leave a future-dated transaction pending until its value date
+    const deferral = await this.deferralStatus(transaction, valueDate.data, deferred);
+    if (deferral) {
+      return this.deferPosting(repos, transaction, deferral, request, idempotency, valueDate.data);
+    }
+
+    // Move the funds to the clearing account
+    const balanceEvents = [
+      await this.context.postEntry(
+        repos,
+        account.id,
+        transactionId,
+        TransactionType.PAYMENT,
+        EntryType.DEBIT,
+        amount,
+        description,
+        null,
+        valueDate.data
+      ),
+      await this.context.postEntry(
+        repos,
+        clearing.id,
+        transactionId,
+        TransactionType.PAYMENT,
+        EntryType.CREDIT,
+        amount,
+        description,
+        null,
+        valueDate.data
+      ),
+    ];
+
+    // Charge the fee
+    const feeEvents = await this.context.postFee(repos, account, transaction, charge);
+    if (!feeEvents.success) {
+      return feeEvents;
+    }
+    const overdraftFeeEvents = await this.overdraft.chargeOverdraftFee(
+      repos,
+      account,
+      transaction,
+      balance,
+      valueDate.data
+    );
+
+    // Store transaction
+    await repos.transactions.save(transaction);
+
+    await this.context.rememberIdempotent(repos, idempotency, transactionId);
+
+    await this.context.enqueue(repos, ...balanceEvents, ...feeEvents.data, ...overdraftFeeEvents);
+
+    return success(transaction);
+  }
+
+  /**
+   * Apply a settlement confirmation to a pending payment.
+   * SETTLED moves the funds from the clearing account to the nostro account and
+   * completes the payment; REJECTED returns them to the customer. Repeating a
+   * confirmation that has already been applied returns the payment unchanged.
+   */
+  async confirmPaymentSettlement(settlement: PaymentSettlement): Promise<Result<Transaction>> {
+    await this.context.ready;
+    return this.context.inUnitOfWork((repos) => this.settlePayment(repos, settlement));
+  }
+
+  private async settlePayment(
+    repos: BankingRepositories,
+    settlement: PaymentSettlement
+  ): Promise<Result<Transaction>> {
+    const payment = await repos.transactions.findById(settlement.transactionId);
+    if (!payment) {
+      return failure(new TransactionNotFoundError(settlement.transactionId));
+    }
+    if (payment.type !== TransactionType.PAYMENT) {
+      return failure(
+        new InvalidTransactionError(`${settlement.transactionId} is not a payment`)
+      );
+    }
+    if (isDeferred(payment)) {
+      return failure(
+        new InvalidTransactionError(`${settlement.transactionId} has not been sent yet`)
+      );
+    }
+
+    const settled = settlement.outcome === 'SETTLED';
+    const targetStatus = settled ? TransactionStatus.COMPLETED : TransactionStatus.REJECTED;
+    if (payment.status === targetStatus) {
+      return success(payment);
+    }
+    if (payment.status !== TransactionStatus.PENDING) {
+      return failure(new TransactionAlreadyProcessedError(settlement.transactionId));
+    }
+
+    const reason = settlement.reason?.trim();
+    if (!settled && !reason) {
+      return failure(new ValidationError('reason', 'Rejection reason is required'));
+    }
+
+    // Clear the funds out of the clearing account: onwards to the nostro
+    // account when settled, back to the customer when rejected
+    const clearingAccountId = payment.destinationAccountId!;
+    const counterpartId = settled
+      ? (await this.context.internalAccount(repos, 'NOSTRO', payment.currency)).id
+      : payment.sourceAccountId!;
+    const description = settled
+      ? `Settlement: ${payment.description}`
+      : `Returned payment: ${reason}`;
+
+    const balanceEvents = [
+      await this.context.postEntry(
+        repos,
+        clearingAccountId,
+        payment.id.value,
+        TransactionType.PAYMENT,
+        EntryType.DEBIT,
+        payment.amount,
+        description
+      ),
+      await this.context.postEntry(
+        repos,
+        counterpartId,
+        payment.id.value,
+        TransactionType.PAYMENT,
+        EntryType.CREDIT,
+        payment.amount,
+        description
+      ),
+    ];
+
+    const updated: Transaction = {
+      ...payment,
+      status: targetStatus,
+      completedAt: settled ? new Date() : null,
+      failureReason: settled ? null : reason!,
+      metadata: {
+        ...payment.metadata,
+        settlementReference: settlement.settlementReference ?? null,
+      },
+      version: payment.version + 1,
+    };
+    await repos.transactions.save(updated);
+
+    await this.context.enqueue(
+      repos,
+      ...balanceEvents,
+      ...(settled ? [DomainEvents.transactionCompleted(updated)] : [])
+    );
+
+    return success(updated);
+  }
+
+  /**
+   * Correct an account balance against the adjustments account.
+   * Adjustments are held for approval by a second user and only posted once approved.
+   */
+  async adjust(request: AdjustmentRequest): Promise<Result<Transaction>> {
+    await this.context.ready;
+    return this.context.inUnitOfWork((repos) => this.postAdjustment(repos, request));
+  }
+
+  private async postAdjustment(
+    repos: BankingRepositories,
+    request: AdjustmentRequest,
+    deferred: DeferredPosting | null = null
+  ): Promise<Result<Transaction>> {
+    const initiatedBy = request.initiatedBy?.trim();
+    const reason = request.reason?.trim();
+    if (!initiatedBy) {
+      return failure(new ValidationError('initiatedBy', 'Adjustments must be made by a named user'));
+    }
+    if (!reason) {
+      return failure(new ValidationError('reason', 'Adjustment reason is required'));
+    }
+    if (request.entryType !== EntryType.CREDIT && request.entryType !== EntryType.DEBIT) {
+      return failure(new ValidationError('entryType', `Unknown entry type ${request.entryType}`));
+    }
+
+    // Check idempotency
+    const idempotency = idempotencyScope(
+      TransactionType.ADJUSTMENT,
+      initiatedBy,
+      request.idempotencyKey,
+      request
+    );
+    const replayed = await this.context.replayIdempotent(repos, idempotency);
+    if (replayed) {
+      return replayed;
+    }
+
+    const account = await repos.accounts.findById(request.accountId);
+    if (!account) {
+      return failure(new AccountNotFoundError(request.accountId));
+    }
+    if (account.status === AccountStatus.CLOSED) {
+      return failure(new AccountClosedError(account.id));
+    }
+
+    const amount: Money = { amount: request.amount, currency: request.currency, scale: 2 };
+    const validation = combineValidationResults(
+      TransactionValidator.validateAmount(amount),
+      TransactionValidator.validateCurrency(amount.currency, account.currency)
+    );
+    if (!validation.isValid) {
+      return failure(validation.errors[0]!);
+    }
+
+    // Backdating is limited to the configured window
+    const valueDate = await this.resolveValueDate(repos, request.valueDate, [account], deferred);
+    if (!valueDate.success) {
+      return valueDate;
+    }
+
+    // Create transaction
+    const adjustments = await this.context.internalAccount(repos, 'ADJUSTMENTS', amount.currency);
+    const credit = request.entryType === EntryType.CREDIT;
+    const transactionId = deferred?.held.id.value ?? IdGenerator.transactionId();
+    const description = request.description || `Adjustment: ${reason}`;
+    const transaction = this.withDeferral(deferred, {
+      id: {
+        value: transactionId,
+        generatedAt: new Date(),
+        source: 'BANKING_API',
+      },
+      sourceAccountId: credit ? adjustments.id : account.id,
+      destinationAccountId: credit ? account.id : adjustments.id,
+      amount,
+      currency: request.currency,
+      type: TransactionType.ADJUSTMENT,
+      status: TransactionStatus.COMPLETED,
+      reference: request.reference || IdGenerator.reference(),
+      description,
+      createdAt: new Date(),
+      completedAt: new Date(),
+      initiatedBy,
+      authorizationCode: null,
+      fee: null,
+      exchangeRate: null,
+      originalTransactionId: null,
+      failureReason: null,
+      metadata: { reason },
+      version: 1,
+    });
+
+    // Hold for approval, or leave a future-dated transaction pending until its value date
+    const deferral = await this.deferralStatus(transaction, valueDate.data, deferred);
+    if (deferral) {
+      return this.deferPosting(repos, transaction, deferral, request, idempotency, valueDate.data);
+    }
+
+    const balanceEvents = [
+      await this.context.postEntry(
+        repos,
+        transaction.sourceAccountId!,
+        transactionId,
+        TransactionType.ADJUSTMENT,
+        EntryType.DEBIT,
+        amount,
+        description,
+        null,
+        valueDate.data
+      ),
+      await this.context.postEntry(
+        repos,
+        transaction.destinationAccountId!,
+        transactionId,
+        TransactionType.ADJUSTMENT,
+        EntryType.CREDIT,
+        amount,
+        description,
+        null,
+        valueDate.data
+      ),
+    ];
+
+    // Store transaction
+    await repos.transactions.save(transaction);
+
+    await this.context.rememberIdempotent(repos, idempotency, transactionId);
+
+    await this.context.enqueue(
+      repos,
+      ...balanceEvents,
+      DomainEvents.transactionCompleted(transaction)
+    );
+
+    return success(transaction);
+  }
+
+  /**
+   * Reverse a completed deposit, withdrawal or transfer.
+   * Posts a mirror ledger entry for every entry of the original transaction and
+   * links the two transactions; the original is marked REVERSED.
+   */
+  async reverseTransaction(
+    transactionId: string,
+    reason: string,
+    idempotencyKey?: string
+  ): Promise<Result<Transaction>> {
+    await this.context.ready;
+    return this.context.inUnitOfWork((repos) =>
+      this.postReversal(repos, transactionId, reason, idempotencyKey)
+    );
+  }
+
+  private async postReversal(
+    repos: BankingRepositories,
+    transactionId: string,
+    reason: string,
+    idempotencyKey: string | undefined
+  ): Promise<Result<Transaction>> {
+    // Check idempotency
+    const idempotency = idempotencyScope(
+      TransactionType.REVERSAL,
+      'BANKING_API',
+      idempotencyKey,
+      { transactionId, reason }
+    );
+    const replayed = await this.context.replayIdempotent(repos, idempotency);
+    if (replayed) {
+      return replayed;
+    }
+
+    if (!reason || reason.trim().length === 0) {
+      return failure(new ValidationError('reason', 'Reversal reason is required'));
+    }
+
+    const original = await repos.transactions.findById(transactionId);
+    if (!original) {
+      return failure(new TransactionNotFoundError(transactionId));
+    }
+
+    if (original.status === TransactionStatus.REVERSED) {
+      return failure(
+        new TransactionReversalNotAllowedError(transactionId, 'Transaction has already been reversed')
+      );
+    }
+
+    const reversible = TransactionValidator.canReverse(original);
+    if (!reversible.isValid) {
+      return failure(
+        new TransactionReversalNotAllowedError(transactionId, reversible.errors[0]!.message)
+      );
+    }
+
+    // Every account touched by the original must still be open, and accounts
+    // that were credited must be able to fund the compensating debit
+    const originalEntries = await repos.ledger.findByTransactionId(transactionId);
+    for (const entry of originalEntries) {
+      const account = (await repos.accounts.findById(entry.accountId))!;
+      if (account.status === AccountStatus.CLOSED) {
+        return failure(
+          new TransactionReversalNotAllowedError(transactionId, `Account ${account.id} is closed`)
+        );
+      }
+
+      if (entry.entryType === EntryType.CREDIT && !isInternalAccount(account)) {
+        const balance = (await repos.balances.findByAccountId(entry.accountId))!;
+        const funds = TransactionValidator.validateSufficientFunds(
+          balance.availableBalance,
+          entry.amount,
+          account.overdraftLimit
+        );
+        if (!funds.isValid) {
+          return failure(funds.errors[0]!);
+        }
+      }
+    }
+
+    // Create reversal transaction
+    const reversalId = IdGenerator.transactionId();
+    const reversal: Transaction = {
+      id: {
+        value: reversalId,
+        generatedAt: new Date(),
+        source: 'BANKING_API',
+      },
+      sourceAccountId: original.destinationAccountId,
+      destinationAccountId: original.sourceAccountId,
+      amount: original.amount,
+      currency: original.currency,
+      type: TransactionType.REVERSAL,
+      status: TransactionStatus.COMPLETED,
+      reference: `REVERSAL-${original.reference}`,
+      description: `Reversal: ${reason}`,
+      createdAt: new Date(),
+      completedAt: new Date(),
+      initiatedBy: 'BANKING_API',
+      authorizationCode: null,
+      fee: null,
+      exchangeRate: original.exchangeRate,
+      originalTransactionId: transactionId,
+      failureReason: null,
+      metadata: { reason },
+      version: 1,
+    };
+
+    // Post mirror entries
+    const balanceEvents: BankingEvent[] = [];
+    for (const entry of originalEntries) {
+      const mirrorType = entry.entryType === EntryType.DEBIT ? EntryType.CREDIT : EntryType.DEBIT;
+      balanceEvents.push(
+        await this.context.postEntry(
+          repos,
+          entry.accountId,
+          reversalId,
+          TransactionType.REVERSAL,
+          mirrorType,
+          entry.amount,
+          `Reversal of ${entry.description}`,
+          entry.id
+        )
+      );
+    }
+
+    // Link the two transactions
+    const reversedOriginal: Transaction = {
+      ...original,
+      status: TransactionStatus.REVERSED,
+      metadata: { ...original.metadata, reversalTransactionId: reversalId, reversalReason: reason },
+      version: original.version + 1,
+    };
+
+    await repos.transactions.save(reversal);
+    await repos.transactions.save(reversedOriginal);
+
+    await this.context.rememberIdempotent(repos, idempotency, reversalId);
+
+    await this.context.enqueue(
+      repos,
+      ...balanceEvents,
+      DomainEvents.transactionCompleted(reversal)
+    );
+
+    return success(reversal);
+  }
+
+  /**
+   * Get transaction by ID
+   */
+  async getTransaction(transactionId: string): Promise<Result<Transaction>> {
+    await this.context.ready;
+
+    const transaction = await this.context.repositories.transactions.findById(transactionId);
+    if (!transaction) {
+      return failure(new TransactionNotFoundError(transactionId));
+    }
+    return success(transaction);
+  }
+
+  /**
+   * Get transactions for an account
+   */
+  async getTransactions(
+    accountId: string,
+    limit: number = 50
+  ): Promise<Result<Transaction[]>> {
+    await this.context.ready;
+
+    const account = await this.context.repositories.accounts.findById(accountId);
+    if (!account) {
+      return failure(new AccountNotFoundError(accountId));
+    }
+
+    const { transactions } = this.context.repositories;
+    return success(await transactions.findByAccountId(accountId, limit));
+  }
+
+  /**
+   * Whether a transaction must be approved by a second user before it is posted.
+   * An amount in another currency than the threshold is converted at the mid rate,
+   * and waits when there is no rate to convert it with. Direct debit collections
+   * and card captures are never held: the debtor's mandate or the authorisation
+   * already approved them.
+   */
+  private async requiresApproval(transaction: Transaction): Promise<boolean> {
+    const threshold = this.approvalThreshold;
+    if (transaction.type === TransactionType.ADJUSTMENT) {
+      return true;
+    }
+    if (!threshold) {
+      return false;
+    }
+    if (transaction.amount.currency === threshold.currency) {
+      return transaction.amount.amount > threshold.amount;
+    }
+
+    const quote = this.context.exchangeRates
+      ? await this.context.exchangeRates.getRate(transaction.amount.currency, threshold.currency)
+      : null;
+    return !quote || convert(transaction.amount, quote, 0).destinationAmount.amount > threshold.amount;
+  }
+
+  /**
+   * Post every future-dated transaction whose value date has arrived by a business
+   * date. A transaction that no longer passes validation (e.g. the funds are not
+   * there) is REJECTED. Returns the transactions posted or rejected by this run.
+   */
+  async runFutureDatedPostings(businessDate: Date = new Date()): Promise<Result<Transaction[]>> {
+    await this.context.ready;
+
+    const runDate = businessDay(businessDate);
+    const processed: Transaction[] = [];
+    const due = (await this.context.repositories.transactions.findByStatus(TransactionStatus.PENDING)).filter(
+      (t) => isDeferred(t) && (t.metadata['valueDate'] as Date) <= runDate
+    );
+
+    for (const candidate of due) {
+      const posted = await this.context.inUnitOfWork(async (repos) => {
+        const held = (await repos.transactions.findById(candidate.id.value))!;
+        if (held.status !== TransactionStatus.PENDING || !isDeferred(held)) {
+          return success(null);
+        }
+        return this.postDeferred(repos, { held, trigger: 'VALUE_DATE', approvedBy: null });
+      });
+      if (posted.success) {
+        if (posted.data) {
+          processed.push(posted.data);
+        }
+        continue;
+      }
+
+      const rejected = await this.context.inUnitOfWork(async (repos) => {
+        const held = (await repos.transactions.findById(candidate.id.value))!;
+        const updated: Transaction = {
+          ...held,
+          status: TransactionStatus.REJECTED,
+          failureReason: posted.error.message,
+          version: held.version + 1,
+        };
+        await repos.transactions.save(updated);
+        return success(updated);
+      });
+      if (!rejected.success) {
+        return rejected;
+      }
+      processed.push(rejected.data);
+    }
+
+    return success(processed);
+  }
+
+  /**
+   * Post a held or future-dated transaction from the request it was stored with
+   */
+  async postDeferred(
+    repos: BankingRepositories,
+    deferred: DeferredPosting
+  ): Promise<Result<Transaction>> {
+    if (!isDeferred(deferred.held)) {
+      return failure(new TransactionAlreadyProcessedError(deferred.held.id.value));
+    }
+
+    // The idempotency key was remembered against the stored transaction
+    const { idempotencyKey: _ignored, ...request } = deferred.held.metadata['deferredRequest'] as Record<
+      string,
+      unknown
+    >;
+
+    switch (deferred.held.type) {
+      case TransactionType.TRANSFER:
+        return this.postTransfer(repos, request as unknown as TransferRequest, deferred);
+      case TransactionType.DEPOSIT:
+        return this.postDeposit(repos, request as unknown as DepositRequest, deferred);
+      case TransactionType.WITHDRAWAL:
+        return this.postWithdrawal(repos, request as unknown as WithdrawalRequest, deferred);
+      case TransactionType.PAYMENT:
+        return this.postPayment(repos, request as unknown as PaymentRequest, deferred);
+      case TransactionType.ADJUSTMENT:
+        return this.postAdjustment(repos, request as unknown as AdjustmentRequest, deferred);
+      default:
+        return failure(new InvalidTransactionError(`${deferred.held.type} transactions cannot be deferred`));
+    }
+  }
+
+  /**
+   * Whether a transaction must wait before it is posted: ON_HOLD for a second
+   * user's approval, or PENDING until a future value date. Approval comes first;
+   * an approved transaction can still be future-dated.
+   */
+  private async deferralStatus(
+    transaction: Transaction,
+    valueDate: Date | null,
+    deferred: DeferredPosting | null
+  ): Promise<TransactionStatus | null> {
+    if (!deferred && (await this.requiresApproval(transaction))) {
+      return TransactionStatus.ON_HOLD;
+    }
+    if (deferred?.trigger !== 'VALUE_DATE' && valueDate && valueDate > businessDay(new Date())) {
+      return TransactionStatus.PENDING;
+    }
+    return null;
+  }
+
+  /**
+   * Store a transaction unposted with the request needed to post it later.
+   * Fees and exchange rates are worked out when it is posted.
+   */
+  private async deferPosting(
+    repos: BankingRepositories,
+    transaction: Transaction,
+    status: TransactionStatus,
+    request: object,
+    idempotency: IdempotencyScope | null,
+    valueDate: Date | null
+  ): Promise<Result<Transaction>> {
+    const approval = transaction.metadata['approval'];
+    const stored: Transaction = {
+      ...transaction,
+      status,
+      completedAt: null,
+      fee: null,
+      exchangeRate: null,
+      metadata: {
+        deferredRequest: request,
+        ...(valueDate ? { valueDate } : {}),
+        ...(approval ? { approval } : {}),
+      },
+    };
+    await repos.transactions.save(stored);
+
+    await this.context.rememberIdempotent(repos, idempotency, stored.id.value);
+
+    return success(stored);
+  }
+
+  /**
+   * Carry a stored transaction's identity and approval record onto the
+   * transaction posted for it
+   */
+  private withDeferral(deferred: DeferredPosting | null, transaction: Transaction): Transaction {
+    if (!deferred) {
+      return transaction;
+    }
+
+    const { held } = deferred;
+    const approval = deferred.approvedBy
+      ? { approvedBy: deferred.approvedBy, approvedAt: new Date() }
+      : held.metadata['approval'];
+    return {
+      ...transaction,
+      id: held.id,
+      reference: held.reference,
+      createdAt: held.createdAt,
+      metadata: { ...transaction.metadata, ...(approval ? { approval } : {}) },
+      version: held.version + 1,
+    };
+  }
+
+  /**
+   * Check a requested value date. Dates more than the backdating window in the
+   * past are refused when the transaction is submitted, as are dates inside an
+   * interest period already capitalised on one of the accounts. Returns the
+   * value date as a business date, or null to value the posting now.
+   */
+  private async resolveValueDate(
+    repos: BankingRepositories,
+    requested: Date | undefined,
+    accounts: Account[],
+    deferred: DeferredPosting | null
+  ): Promise<Result<Date | null>> {
+    if (requested === undefined) {
+      return success(null);
+    }
+    if (!(requested instanceof Date) || isNaN(requested.getTime())) {
+      return failure(new ValidationError('valueDate', 'Value date must be a valid date'));
+    }
+
+    const valueDate = businessDay(requested);
+    const today = businessDay(new Date());
+    if (!deferred && valueDate < addDays(today, -this.backdatingWindowDays)) {
+      return failure(
+        new ValidationError(
+          'valueDate',
+          `Value date cannot be more than ${this.backdatingWindowDays} days in the past`
+        )
+      );
+    }
+
+    if (valueDate < today) {
+      for (const account of accounts) {
+        const accruals = await repos.interestAccruals.findByAccountId(account.id);
+        const overdraftAccruals = await repos.overdraftInterestAccruals.findByAccountId(account.id);
+        if (
+          accruals.some((a) => a.capitalisationTransactionId !== null && a.accrualDate >= valueDate) ||
+          overdraftAccruals.some((a) => a.chargeTransactionId !== null && a.accrualDate >= valueDate)
+        ) {
+          return failure(
+            new ValidationError(
+              'valueDate',
+              `Interest on account ${account.id} has been capitalised after ${formatBusinessDate(valueDate)}`
+            )
+          );
+        }
+      }
+    }
+
+    return success(valueDate);
+  }
+}
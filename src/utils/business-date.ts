@@ -0,0 +1,48 @@
+/**
+ * Business Date Utilities
+ * Business dates are calendar days with no time of day, held as midnight UTC
+ */
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Midnight UTC of the day a date falls on
+ */
+export function businessDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+/**
+ * Business date formatted as YYYY-MM-DD
+ */
+export function formatBusinessDate(date: Date): string {
+  return businessDay(date).toISOString().slice(0, 10);
+}
+
+/**
+ * Business date a number of days after (or before, if negative) another
+ */
+export function addDays(date: Date, days: number): Date {
+  return new Date(businessDay(date).getTime() + days * MS_PER_DAY);
+}
+
+/**
+ * Whether a business date is the last day of its month
+ */
+export function isMonthEnd(date: Date): boolean {
+  return addDays(date, 1).getUTCDate() === 1;
+}
+
+/**
+ * First business date of the month a date falls in
+ */
+export function startOfMonth(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+}
+
+/**
+ * Last business date of the month a date falls in
+ */
+export function endOfMonth(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0));
+}
@@ -91,14 +91,19 @@ export class DuplicateTransactionError extends BankingError {
 export class TransactionLimitExceededError extends BankingError {
   public readonly limit: number;
   public readonly attempted: number;
+  public readonly limitType: string;
+  /** Headroom left under the limit before this transaction */
+  public readonly remaining: number;
 
-  constructor(limit: number, attempted: number, limitType: string) {
+  constructor(limit: number, attempted: number, limitType: string, remaining: number) {
     super(
-      `${limitType} limit exceeded: limit ${limit}, attempted ${attempted}`,
+      `${limitType} limit exceeded: limit ${limit}, attempted ${attempted}, remaining ${remaining}`,
       'TRANSACTION_LIMIT_EXCEEDED'
     );
     this.limit = limit;
     this.attempted = attempted;
+    this.limitType = limitType;
+    this.remaining = remaining;
   }
 }
 
@@ -114,6 +119,27 @@ export class TransactionAlreadyProcessedError extends BankingError {
   }
 }
 
+export class SegregationOfDutiesError extends BankingError {
+  constructor(transactionId: string, user: string) {
+    super(
+      `Transaction ${transactionId} was initiated by ${user} and must be approved or rejected by someone else`,
+      'SEGREGATION_OF_DUTIES'
+    );
+  }
+}
+
+export class IdempotencyKeyConflictError extends BankingError {
+  public readonly idempotencyKey: string;
+
+  constructor(idempotencyKey: string, operation: string) {
+    super(
+      `Idempotency key ${idempotencyKey} was already used for a different ${operation} request`,
+      'IDEMPOTENCY_KEY_CONFLICT'
+    );
+    this.idempotencyKey = idempotencyKey;
+  }
+}
+
 export class TransactionReversalNotAllowedError extends BankingError {
   constructor(transactionId: string, reason: string) {
     super(
@@ -123,6 +149,103 @@ export class TransactionReversalNotAllowedError extends BankingError {
   }
 }
 
+export class ConcurrencyConflictError extends BankingError {
+  public readonly expectedVersion: number | null;
+  public readonly actualVersion: number | null;
+
+  constructor(entity: string, id: string, expectedVersion: number | null, actualVersion: number | null) {
+    super(
+      `Concurrent modification of ${entity} ${id}: expected version ${expectedVersion ?? 'none'}, found ${actualVersion ?? 'none'}`,
+      'CONCURRENCY_CONFLICT'
+    );
+    this.expectedVersion = expectedVersion;
+    this.actualVersion = actualVersion;
+  }
+}
+
+/**
+ * Direct debit errors
+ */
+export class MandateNotFoundError extends BankingError {
+  constructor(mandateId: string) {
+    super(`Mandate not found: ${mandateId}`, 'MANDATE_NOT_FOUND');
+  }
+}
+
+export class MandateNotActiveError extends BankingError {
+  constructor(mandateId: string) {
+    super(`Mandate is no longer active: ${mandateId}`, 'MANDATE_NOT_ACTIVE');
+  }
+}
+
+/**
+ * Standing order errors
+ */
+export class StandingOrderNotFoundError extends BankingError {
+  constructor(standingOrderId: string) {
+    super(`Standing order not found: ${standingOrderId}`, 'STANDING_ORDER_NOT_FOUND');
+  }
+}
+
+/**
+ * Authorisation hold errors
+ */
+export class AuthorizationNotFoundError extends BankingError {
+  constructor(authorizationId: string) {
+    super(`Authorization not found: ${authorizationId}`, 'AUTHORIZATION_NOT_FOUND');
+  }
+}
+
+export class AuthorizationNotActiveError extends BankingError {
+  constructor(authorizationId: string, status: string) {
+    super(`Authorization ${authorizationId} is ${status} and can no longer be changed`, 'AUTHORIZATION_NOT_ACTIVE');
+  }
+}
+
+/**
+ * Customer errors
+ */
+export class CustomerNotFoundError extends BankingError {
+  constructor(customerId: string) {
+    super(`Customer not found: ${customerId}`, 'CUSTOMER_NOT_FOUND');
+  }
+}
+
+export class CustomerNotVerifiedError extends BankingError {
+  constructor(customerId: string, status: string) {
+    super(`Customer ${customerId} is ${status}, not VERIFIED`, 'CUSTOMER_NOT_VERIFIED');
+  }
+}
+
+export class CustomerHasAccountsError extends BankingError {
+  constructor(customerId: string) {
+    super(`Customer ${customerId} still holds accounts`, 'CUSTOMER_HAS_ACCOUNTS');
+  }
+}
+
+/**
+ * Account holder errors
+ */
+export class UnauthorizedSignatoryError extends BankingError {
+  constructor(accountId: string, customerId: string) {
+    super(`${customerId} is not a holder of account ${accountId}`, 'UNAUTHORIZED_SIGNATORY');
+  }
+}
+
+export class SigningRuleNotMetError extends BankingError {
+  public readonly required: number;
+  public readonly signed: number;
+
+  constructor(accountId: string, signingRule: string, required: number, signed: number) {
+    super(
+      `Account ${accountId} requires ${required} signatures (${signingRule}), got ${signed}`,
+      'SIGNING_RULE_NOT_MET'
+    );
+    this.required = required;
+    this.signed = signed;
+  }
+}
+
 /**
  * Product-related errors
  */
@@ -185,6 +308,12 @@ export class UnsupportedCurrencyError extends BankingError {
   }
 }
 
+export class ExchangeRateUnavailableError extends BankingError {
+  constructor(base: string, quote: string) {
+    super(`No exchange rate available for ${base}/${quote}`, 'EXCHANGE_RATE_UNAVAILABLE');
+  }
+}
+
 /**
  * Validation errors
  */
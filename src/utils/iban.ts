@@ -0,0 +1,111 @@
+/**
+ * IBAN Utilities
+ * ISO 13616 International Bank Account Numbers: a country code, two mod-97
+ * check digits and a national BBAN (bank code followed by the account)
+ */
+
+/**
+ * IBAN length by country (ISO 13616 registry) for the countries accounts can be issued in
+ */
+export const IBAN_LENGTHS: Readonly<Record<string, number>> = {
+  AT: 20,
+  BE: 16,
+  CH: 21,
+  DE: 22,
+  DK: 18,
+  ES: 24,
+  FI: 18,
+  FR: 27,
+  GB: 22,
+  IE: 22,
+  IT: 27,
+  LU: 20,
+  NL: 18,
+  NO: 15,
+  PL: 28,
+  PT: 25,
+  SE: 24,
+};
+
+const IBAN_STRUCTURE = /^[A-Z]{2}[0-9]{2}[A-Z0-9]{11,30}$/;
+
+/**
+ * Upper-case an IBAN and strip the spaces used when writing it out
+ */
+export function normaliseIban(iban: string): string {
+  return iban.replace(/\s+/g, '').toUpperCase();
+}
+
+/**
+ * Remainder of an alphanumeric string modulo 97 as ISO 7064 computes it:
+ * letters count as two digits (A = 10 ... Z = 35)
+ */
+export function mod97(value: string): number {
+  let remainder = 0;
+  for (const char of value) {
+    const digits = /[A-Z]/.test(char) ? (char.charCodeAt(0) - 55).toString() : char;
+    for (const digit of digits) {
+      remainder = (remainder * 10 + Number(digit)) % 97;
+    }
+  }
+  return remainder;
+}
+
+/**
+ * Check digits of an IBAN for a country and BBAN
+ */
+export function ibanCheckDigits(country: string, bban: string): string {
+  const remainder = mod97(`${bban}${country}00`);
+  return (98 - remainder).toString().padStart(2, '0');
+}
+
+/**
+ * Build an IBAN from a country, a bank code and an account identifier. The
+ * account identifier is zero-padded to fill the rest of the country's BBAN.
+ */
+export function generateIban(country: string, bankCode: string, accountIdentifier: string): string {
+  const length = IBAN_LENGTHS[country];
+  if (length === undefined) {
+    throw new Error(`IBANs are not issued for country ${country}`);
+  }
+  if (!/^[A-Z0-9]+$/.test(bankCode)) {
+    throw new Error(`Bank code ${bankCode} must be upper-case letters and digits`);
+  }
+
+  const accountLength = length - 4 - bankCode.length;
+  if (accountIdentifier.length > accountLength) {
+    throw new Error(
+      `Account identifier ${accountIdentifier} does not fit a ${country} IBAN ` +
+        `after bank code ${bankCode}`
+    );
+  }
+
+  const bban = `${bankCode}${accountIdentifier.padStart(accountLength, '0')}`;
+  return `${country}${ibanCheckDigits(country, bban)}${bban}`;
+}
+
+/**
+ * Whether an IBAN is well formed, has its country's length and passes the
+ * mod-97 check. Countries outside the length table are checked on structure
+ * and check digits only.
+ */
+export function isValidIban(iban: string): boolean {
+  const value = normaliseIban(iban);
+  if (!IBAN_STRUCTURE.test(value)) {
+    return false;
+  }
+
+  const length = IBAN_LENGTHS[value.slice(0, 2)];
+  if (length !== undefined && value.length !== length) {
+    return false;
+  }
+
+  return mod97(`${value.slice(4)}${value.slice(0, 4)}`) === 1;
+}
+
+/**
+ * IBAN in its printed form: groups of four characters separated by spaces
+ */
+export function formatIban(iban: string): string {
+  return normaliseIban(iban).replace(/(.{4})(?=.)/g, '$1 ');
+}
@@ -47,6 +47,85 @@ export class IdGenerator {
     return `PRD-${timestamp}-${random}`.toUpperCase();
   }
 
+  /**
+   * Generate a domain event ID with prefix
+   */
+  static eventId(): string {
+    const timestamp = Date.now().toString(36);
+    const random = Math.random().toString(36).substring(2, 8);
+    return `EVT-${timestamp}-${random}`.toUpperCase();
+  }
+
+  /**
+   * Generate a direct debit mandate ID with prefix
+   */
+  static mandateId(): string {
+    const timestamp = Date.now().toString(36);
+    const random = Math.random().toString(36).substring(2, 8);
+    return `MND-${timestamp}-${random}`.toUpperCase();
+  }
+
+  /**
+   * Generate a returned direct debit ID with prefix
+   */
+  static returnedItemId(): string {
+    const timestamp = Date.now().toString(36);
+    const random = Math.random().toString(36).substring(2, 8);
+    return `RTN-${timestamp}-${random}`.toUpperCase();
+  }
+
+  /**
+   * Generate a standing order ID with prefix
+   */
+  static standingOrderId(): string {
+    const timestamp = Date.now().toString(36);
+    const random = Math.random().toString(36).substring(2, 8);
+    return `SO-${timestamp}-${random}`.toUpperCase();
+  }
+
+  /**
+   * Generate a standing order execution ID with prefix
+   */
+  static executionId(): string {
+    const timestamp = Date.now().toString(36);
+    const random = Math.random().toString(36).substring(2, 8);
+    return `EXE-${timestamp}-${random}`.toUpperCase();
+  }
+
+  /**
+   * Generate an audit log entry ID with prefix
+   */
+  static auditId(): string {
+    const timestamp = Date.now().toString(36);
+    const random = Math.random().toString(36).substring(2, 8);
+    return `AUD-${timestamp}-${random}`.toUpperCase();
+  }
+
+  /**
+   * Generate an authorisation hold ID with prefix
+   */
+  static authorizationId(): string {
+    const timestamp = Date.now().toString(36);
+    const random = Math.random().toString(36).substring(2, 8);
+    return `AUTH-${timestamp}-${random}`.toUpperCase();
+  }
+
+  /**
+   * Generate a customer ID with prefix
+   */
+  static customerId(): string {
+    const timestamp = Date.now().toString(36);
+    const random = Math.random().toString(36).substring(2, 8);
+    return `CUS-${timestamp}-${random}`.toUpperCase();
+  }
+
+  /**
+   * Generate a six-character approval code for an authorisation
+   */
+  static authorizationCode(): string {
+    return Math.random().toString(36).substring(2, 8).padEnd(6, '0').toUpperCase();
+  }
+
   /**
    * Generate a reference number for transactions
    */
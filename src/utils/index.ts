@@ -5,3 +5,5 @@
 export { Money } from './money';
 export * from './errors';
 export { IdGenerator } from './id-generator';
+export * from './business-date';
+export * from './iban';
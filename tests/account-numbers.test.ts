@@ -0,0 +1,155 @@
+/**
+ * Core Banking System - Account Number Tests
+ *
+ * Tests for check-digit schemes, bulk validation and per-branch account number sequences
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { BankingAPI, CreateAccountRequest } from '../src/api/banking-api';
+import { AccountNumberGenerator } from '../src/accounts/account-number-generator';
+import {
+  calculateCheckDigits,
+  luhnCheckDigit,
+  mod11CheckDigit,
+  mod97CheckDigits,
+  validateAccountNumbers,
+} from '../src/accounts/check-digits';
+import {
+  BankingRepositories,
+  createFileRepositories,
+  createInMemoryRepositories,
+} from '../src/persistence';
+import { CheckDigitScheme, Currency } from '../src/core/domain';
+import { AccountAlreadyExistsError } from '../src/utils/errors';
+
+describe('Check-digit schemes', () => {
+  it('should compute Luhn, ISO 7064 mod 97-10 and weighted mod 11 check digits', () => {
+    expect(luhnCheckDigit('7992739871')).toBe(3);
+    expect(mod97CheckDigits('WEST12345698765432GB')).toBe(82);
+    expect(mod11CheckDigit('12345')).toBe(5);
+    expect(calculateCheckDigits(CheckDigitScheme.LUHN, '7992739871')).toBe('03');
+    expect(calculateCheckDigits(CheckDigitScheme.MOD11, '6')).toBe('10');
+  });
+
+  it('should report why account numbers fail bulk validation', () => {
+    const checks = validateAccountNumbers(
+      ['01-000001-10000001-03', '010000011000000104', '0100000110000001', '01000001100000010X'],
+      CheckDigitScheme.LUHN
+    );
+
+    expect(checks.map((c) => c.valid)).toEqual([true, false, false, false]);
+    expect(checks[1]!.reason).toBe('Check digits do not match LUHN');
+    expect(checks[2]!.reason).toBe('Account number must be 18 digits');
+    expect(checks[0]!.accountNumber).toBe('01-000001-10000001-03');
+  });
+});
+
+describe('AccountNumberGenerator', () => {
+  it('should keep an independent sequence per branch', async () => {
+    const { sequences } = createInMemoryRepositories();
+    const generator = new AccountNumberGenerator({ checkDigitScheme: CheckDigitScheme.MOD97_10 });
+
+    const first = await generator.generate(sequences);
+    const otherBranch = await generator.generate(sequences, '000042');
+    const second = await generator.generate(sequences);
+
+    expect([first.accountSequence, otherBranch.accountSequence, second.accountSequence]).toEqual([
+      '10000001',
+      '10000001',
+      '10000002',
+    ]);
+    expect(otherBranch.value).toMatch(/^0100004210000001\d{2}$/);
+    expect(generator.validate(otherBranch.value)).toBe(true);
+    expect(generator.extractBranchCode(otherBranch.value)).toBe('000042');
+    await expect(generator.generate(sequences, '42')).rejects.toThrow('6 digits');
+  });
+});
+
+describe('BankingAPI account numbers', () => {
+  let repositories: BankingRepositories;
+  let api: BankingAPI;
+
+  async function openAccount(
+    bank: BankingAPI,
+    request: Partial<CreateAccountRequest> = {}
+  ): Promise<string> {
+    const products = await bank.getProducts();
+    if (!products.success) throw products.error;
+    const account = await bank.createAccount({
+      customerId: 'cust-numbers',
+      customerType: 'INDIVIDUAL',
+      productId: products.data.find((p) => p.name === 'Basic Current Account')!.id,
+      currency: Currency.USD,
+      ...request,
+    });
+    if (!account.success) throw account.error;
+    return account.data.accountNumber.value;
+  }
+
+  beforeEach(() => {
+    repositories = createInMemoryRepositories();
+    api = new BankingAPI(repositories);
+  });
+
+  it('should issue numbers under the requested branch and refuse malformed branch codes', async () => {
+    const first = await openAccount(api, { branchCode: '000207' });
+    const second = await openAccount(api, { branchCode: '000207' });
+
+    expect(first.slice(0, 16)).toBe('0100020710000001');
+    expect(second.slice(0, 16)).toBe('0100020710000002');
+    await expect(openAccount(api, { branchCode: '207' })).rejects.toMatchObject({
+      field: 'branchCode',
+    });
+  });
+
+  it('should issue distinct numbers and IBANs to accounts opened concurrently', async () => {
+    const numbers = await Promise.all([openAccount(api), openAccount(api), openAccount(api)]);
+    const accounts = await repositories.accounts.findAll();
+
+    expect(new Set(numbers).size).toBe(3);
+    expect(new Set(accounts.map((a) => a.iban)).size).toBe(accounts.length);
+  });
+
+  it('should refuse to store a second account under an issued number', async () => {
+    const number = await openAccount(api);
+    const existing = (await repositories.accounts.findAll()).find(
+      (a) => a.accountNumber.value === number
+    )!;
+
+    await expect(
+      repositories.accounts.save({ ...existing, id: 'ACC-copy', version: 1 })
+    ).rejects.toBeInstanceOf(AccountAlreadyExistsError);
+  });
+
+  it('should not reissue numbers after a restart', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'core-banking-numbers-'));
+    const logPath = path.join(dir, 'bank.log');
+
+    const before = await openAccount(new BankingAPI(createFileRepositories(logPath)));
+    const after = await openAccount(new BankingAPI(createFileRepositories(logPath)));
+    fs.rmSync(dir, { recursive: true, force: true });
+
+    expect(after).not.toBe(before);
+    expect(after.slice(8, 16)).toBe('10000002');
+  });
+
+  it('should validate existing numbers against another scheme before switching', async () => {
+    const bank = new BankingAPI(repositories, undefined, {
+      accountNumbering: {
+        bankCode: '07',
+        branchCode: '000300',
+        checkDigitScheme: CheckDigitScheme.MOD11,
+      },
+    });
+    const number = await openAccount(bank);
+
+    const current = await bank.validateAccountNumbers();
+    const underMod97 = await bank.validateAccountNumbers(CheckDigitScheme.MOD97_10);
+
+    expect(number.slice(0, 8)).toBe('07000300');
+    expect(current.success && current.data.every((c) => c.valid)).toBe(true);
+    expect(underMod97.success && underMod97.data.some((c) => !c.valid)).toBe(true);
+  });
+});
@@ -0,0 +1,310 @@
+/**
+ * Core Banking System - Approval Tests
+ *
+ * Tests for the maker-checker approval queue
+ */
+
+import { AdjustmentRequest, BankingAPI } from '../src/api/banking-api';
+import { BankingRepositories, createInMemoryRepositories } from '../src/persistence';
+import {
+  Currency,
+  EntryType,
+  MandateType,
+  TransactionStatus,
+  TransactionType,
+} from '../src/core/domain';
+import { JsonRateTableProvider } from '../src/fx';
+
+describe('BankingAPI approvals', () => {
+  let repositories: BankingRepositories;
+  let api: BankingAPI;
+  let payerId: string;
+  let payeeId: string;
+
+  async function openAccount(
+    customerId: string,
+    initialDeposit: number,
+    currency: Currency = Currency.USD
+  ): Promise<string> {
+    const products = await api.getProducts();
+    if (!products.success) throw products.error;
+    const result = await api.createAccount({
+      customerId,
+      customerType: 'INDIVIDUAL',
+      productId: products.data.find((p) => p.name === 'Basic Current Account')!.id,
+      currency,
+      initialDeposit,
+    });
+    if (!result.success) throw result.error;
+    return result.data.id;
+  }
+
+  const balanceOf = async (accountId: string): Promise<number | false> => {
+    const balance = await api.getBalance(accountId);
+    return balance.success && balance.data.ledgerBalance.amount;
+  };
+
+  const correction = (overrides: Partial<AdjustmentRequest> = {}): AdjustmentRequest => ({
+    accountId: payeeId,
+    amount: 25,
+    currency: Currency.USD,
+    entryType: EntryType.CREDIT,
+    reason: 'Refund of duplicated charge',
+    initiatedBy: 'ops-maker',
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    repositories = createInMemoryRepositories();
+    api = new BankingAPI(repositories, undefined, {
+      approvalThreshold: { amount: 5000, currency: Currency.USD, scale: 2 },
+    });
+    payerId = await openAccount('cust-approval-payer', 4000);
+    payeeId = await openAccount('cust-approval-payee', 0);
+  });
+
+  it('should post transactions at or below the threshold straight away', async () => {
+    const result = await api.deposit({ accountId: payerId, amount: 5000, currency: Currency.USD });
+
+    expect(result.success && result.data.status).toBe(TransactionStatus.COMPLETED);
+    expect(await balanceOf(payerId)).toBe(9000);
+  });
+
+  it('should hold transactions above the threshold without posting them', async () => {
+    await api.deposit({ accountId: payerId, amount: 5000, currency: Currency.USD });
+    const held = await api.transfer({
+      sourceAccountId: payerId,
+      destinationAccountId: payeeId,
+      amount: 6000,
+      currency: Currency.USD,
+      initiatedBy: 'teller-1',
+    });
+
+    expect(held.success && held.data.status).toBe(TransactionStatus.ON_HOLD);
+    expect(await balanceOf(payerId)).toBe(9000);
+    expect(await balanceOf(payeeId)).toBe(0);
+
+    const queue = await api.getPendingApprovals();
+    expect(queue.success && queue.data.map((t) => t.id.value)).toEqual([held.success && held.data.id.value]);
+  });
+
+  it('should post a held transaction only when a different user approves it', async () => {
+    await api.deposit({ accountId: payerId, amount: 5000, currency: Currency.USD });
+    const held = await api.transfer({
+      sourceAccountId: payerId,
+      destinationAccountId: payeeId,
+      amount: 6000,
+      currency: Currency.USD,
+      initiatedBy: 'teller-1',
+    });
+    if (!held.success) throw held.error;
+
+    const selfApproval = await api.approveTransaction(held.data.id.value, 'teller-1');
+    expect(selfApproval.success).toBe(false);
+    if (!selfApproval.success) {
+      expect(selfApproval.error.code).toBe('SEGREGATION_OF_DUTIES');
+    }
+
+    const approved = await api.approveTransaction(held.data.id.value, 'supervisor-1');
+
+    expect(approved.success).toBe(true);
+    if (!approved.success) return;
+    expect(approved.data).toMatchObject({
+      id: held.data.id,
+      status: TransactionStatus.COMPLETED,
+      reference: held.data.reference,
+      metadata: { approval: { approvedBy: 'supervisor-1' } },
+    });
+    expect(await balanceOf(payerId)).toBe(3000);
+    expect(await balanceOf(payeeId)).toBe(6000);
+
+    const again = await api.approveTransaction(held.data.id.value, 'supervisor-2');
+    expect(again.success).toBe(false);
+    expect(await balanceOf(payeeId)).toBe(6000);
+
+    const audit = await repositories.auditLog.findByEntity('Transaction', held.data.id.value);
+    expect(audit.map((e) => [e.action, e.actor])).toEqual([['APPROVED', 'supervisor-1']]);
+  });
+
+  it('should leave a rejected transaction unposted', async () => {
+    const held = await api.deposit({
+      accountId: payerId,
+      amount: 7500,
+      currency: Currency.USD,
+      initiatedBy: 'teller-1',
+    });
+    if (!held.success) throw held.error;
+
+    const rejected = await api.rejectTransaction(
+      held.data.id.value,
+      'supervisor-1',
+      'Source of funds not evidenced'
+    );
+
+    expect(rejected.success && rejected.data).toMatchObject({
+      status: TransactionStatus.REJECTED,
+      failureReason: 'Source of funds not evidenced',
+    });
+    expect(await balanceOf(payerId)).toBe(4000);
+    expect((await api.approveTransaction(held.data.id.value, 'supervisor-2')).success).toBe(false);
+  });
+
+  it('should hold every adjustment regardless of amount', async () => {
+    const held = await api.adjust(correction());
+
+    expect(held.success && held.data).toMatchObject({
+      type: TransactionType.ADJUSTMENT,
+      status: TransactionStatus.ON_HOLD,
+    });
+    expect(await balanceOf(payeeId)).toBe(0);
+
+    const approved = await api.approveTransaction(held.success ? held.data.id.value : '', 'ops-checker');
+
+    expect(approved.success && approved.data.destinationAccountId).toBe(payeeId);
+    expect(await balanceOf(payeeId)).toBe(25);
+    expect(await balanceOf('INT-ADJUSTMENTS-USD')).toBe(-25);
+  });
+
+  it('should keep a held transaction on hold if it no longer passes validation', async () => {
+    await api.deposit({ accountId: payerId, amount: 2000, currency: Currency.USD });
+    const held = await api.withdraw({
+      accountId: payerId,
+      amount: 5500,
+      currency: Currency.USD,
+      initiatedBy: 'teller-1',
+    });
+    expect(held.success && held.data.status).toBe(TransactionStatus.ON_HOLD);
+    if (!held.success) return;
+    await api.withdraw({ accountId: payerId, amount: 1000, currency: Currency.USD });
+
+    const approved = await api.approveTransaction(held.data.id.value, 'supervisor-1');
+
+    expect(approved.success).toBe(false);
+    const stored = await api.getTransaction(held.data.id.value);
+    expect(stored.success && stored.data.status).toBe(TransactionStatus.ON_HOLD);
+  });
+
+  it('should replay the held transaction for a repeated idempotency key', async () => {
+    const request = {
+      accountId: payerId,
+      amount: 8000,
+      currency: Currency.USD,
+      idempotencyKey: 'deposit-8000',
+    };
+
+    const first = await api.deposit(request);
+    const retry = await api.deposit(request);
+
+    expect(retry.success && retry.data.id.value).toBe(first.success && first.data.id.value);
+    const queue = await api.getPendingApprovals();
+    expect(queue.success && queue.data).toHaveLength(1);
+  });
+
+  it('should convert amounts in other currencies before comparing them with the threshold', async () => {
+    api = new BankingAPI(repositories, undefined, {
+      approvalThreshold: { amount: 5000, currency: Currency.USD, scale: 2 },
+      exchangeRates: new JsonRateTableProvider({
+        base: Currency.USD,
+        asOf: '2024-01-31T16:00:00Z',
+        rates: { [Currency.EUR]: 0.92 },
+      }),
+    });
+    const euroAccountId = await openAccount('cust-approval-euro', 0, Currency.EUR);
+
+    const below = await api.deposit({ accountId: euroAccountId, amount: 4500, currency: Currency.EUR });
+    const above = await api.deposit({ accountId: euroAccountId, amount: 4700, currency: Currency.EUR });
+
+    expect(below.success && below.data.status).toBe(TransactionStatus.COMPLETED);
+    expect(above.success && above.data.status).toBe(TransactionStatus.ON_HOLD);
+  });
+
+  it('should hold amounts in other currencies when there is no rate to convert them', async () => {
+    const euroAccountId = await openAccount('cust-approval-euro', 0, Currency.EUR);
+
+    const result = await api.deposit({ accountId: euroAccountId, amount: 10, currency: Currency.EUR });
+
+    expect(result.success && result.data.status).toBe(TransactionStatus.ON_HOLD);
+  });
+
+  it('should not hold direct debits or card captures above the threshold', async () => {
+    await api.deposit({ accountId: payerId, amount: 5000, currency: Currency.USD });
+    await api.deposit({ accountId: payerId, amount: 5000, currency: Currency.USD });
+    await api.createMandate({
+      debtorAccountId: payerId,
+      creditorId: 'DE98ZZZ09999999999',
+      creditorName: 'City Utilities',
+      mandateReference: 'UTIL-000123',
+      type: MandateType.RECURRENT,
+      signatureDate: new Date('2024-01-15'),
+    });
+    const authorization = await api.authorize(payerId, 6000, new Date(Date.now() + 3600000));
+    if (!authorization.success) throw authorization.error;
+
+    const collection = await api.collectDirectDebit({
+      creditorId: 'DE98ZZZ09999999999',
+      mandateReference: 'UTIL-000123',
+      debtorAccountId: payerId,
+      amount: 5500,
+      currency: Currency.USD,
+    });
+    const capture = await api.capture(authorization.data.id);
+
+    expect(collection.success && collection.data.status).toBe('COLLECTED');
+    expect(capture.success && capture.data.status).toBe(TransactionStatus.COMPLETED);
+    expect(await balanceOf(payerId)).toBe(14000 - 5500 - 6000);
+    const queue = await api.getPendingApprovals();
+    expect(queue.success && queue.data).toHaveLength(0);
+  });
+
+  describe('transactions that were never held', () => {
+    const clearingBalance = async (): Promise<number | undefined> =>
+      (await repositories.balances.findByAccountId('INT-OUTGOING_PAYMENTS-USD'))?.ledgerBalance.amount;
+
+    async function pendingPayment(): Promise<string> {
+      const payment = await api.pay({
+        sourceAccountId: payerId,
+        amount: 200,
+        currency: Currency.USD,
+        beneficiaryName: 'Acme Supplies Ltd',
+        beneficiaryIban: 'DE89370400440532013000',
+        initiatedBy: 'teller-1',
+      });
+      if (!payment.success) throw payment.error;
+      expect(payment.data.status).toBe(TransactionStatus.PENDING);
+      return payment.data.id.value;
+    }
+
+    it('should refuse to reject a payment awaiting settlement so its refund still happens', async () => {
+      const transactionId = await pendingPayment();
+
+      const rejected = await api.rejectTransaction(transactionId, 'ops-checker', 'Not wanted');
+
+      expect(rejected.success).toBe(false);
+      if (!rejected.success) {
+        expect(rejected.error.code).toBe('TRANSACTION_ALREADY_PROCESSED');
+      }
+      const returned = await api.confirmPaymentSettlement({
+        transactionId,
+        outcome: 'REJECTED',
+        reason: 'AC04 Closed account number',
+      });
+      expect(returned.success && returned.data.status).toBe(TransactionStatus.REJECTED);
+      expect(await balanceOf(payerId)).toBe(4000);
+      expect(await clearingBalance()).toBe(0);
+    });
+
+    it('should refuse to approve a payment awaiting settlement', async () => {
+      const transactionId = await pendingPayment();
+
+      const approved = await api.approveTransaction(transactionId, 'ops-checker');
+
+      expect(approved.success).toBe(false);
+      if (!approved.success) {
+        expect(approved.error.code).toBe('TRANSACTION_ALREADY_PROCESSED');
+      }
+      const payment = await repositories.transactions.findById(transactionId);
+      expect(payment?.status).toBe(TransactionStatus.PENDING);
+      expect(await balanceOf(payerId)).toBe(3800);
+    });
+  });
+});
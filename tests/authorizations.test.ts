@@ -0,0 +1,141 @@
+/**
+ * Core Banking System - Authorization Tests
+ *
+ * Tests for card-style authorisation holds, capture, void and expiry
+ */
+
+import { BankingAPI } from '../src/api/banking-api';
+import { BankingRepositories, createInMemoryRepositories } from '../src/persistence';
+import { AuthorizationStatus, Currency, TransactionType } from '../src/core/domain';
+
+describe('BankingAPI authorizations', () => {
+  let repositories: BankingRepositories;
+  let api: BankingAPI;
+  let accountId: string;
+
+  const inOneHour = (): Date => new Date(Date.now() + 60 * 60 * 1000);
+
+  const balances = async (): Promise<[number, number, number]> => {
+    const balance = await api.getBalance(accountId);
+    if (!balance.success) throw balance.error;
+    return [
+      balance.data.ledgerBalance.amount,
+      balance.data.availableBalance.amount,
+      balance.data.heldBalance.amount,
+    ];
+  };
+
+  beforeEach(async () => {
+    repositories = createInMemoryRepositories();
+    api = new BankingAPI(repositories);
+    const products = await api.getProducts();
+    if (!products.success) throw products.error;
+    const account = await api.createAccount({
+      customerId: 'cust-cards',
+      customerType: 'INDIVIDUAL',
+      productId: products.data.find((p) => p.name === 'Basic Current Account')!.id,
+      currency: Currency.USD,
+      initialDeposit: 500,
+    });
+    if (!account.success) throw account.error;
+    accountId = account.data.id;
+  });
+
+  it('should reduce the available balance only', async () => {
+    const auth = await api.authorize(accountId, 120, inOneHour(), { reference: 'HOTEL-1' });
+
+    expect(auth.success && auth.data).toMatchObject({
+      status: AuthorizationStatus.AUTHORIZED,
+      amount: { amount: 120 },
+      reference: 'HOTEL-1',
+    });
+    expect(await balances()).toEqual([500, 380, 120]);
+
+    const withdrawal = await api.withdraw({ accountId, amount: 400, currency: Currency.USD });
+    expect(withdrawal.success).toBe(false);
+  });
+
+  it('should refuse a hold the account cannot cover', async () => {
+    const result = await api.authorize(accountId, 501, inOneHour());
+
+    expect(result.success).toBe(false);
+    expect(await balances()).toEqual([500, 500, 0]);
+  });
+
+  it('should capture part of a hold and release the remainder', async () => {
+    const auth = await api.authorize(accountId, 120, inOneHour());
+    if (!auth.success) throw auth.error;
+
+    const capture = await api.capture(auth.data.id, 95.5);
+
+    expect(capture.success).toBe(true);
+    if (!capture.success) return;
+    expect(capture.data).toMatchObject({
+      type: TransactionType.PAYMENT,
+      amount: { amount: 95.5 },
+      authorizationCode: auth.data.authorizationCode,
+      destinationAccountId: 'INT-CARD_SETTLEMENT-USD',
+    });
+    expect(await balances()).toEqual([404.5, 404.5, 0]);
+
+    const captured = await api.getAuthorization(auth.data.id);
+    expect(captured.success && captured.data).toMatchObject({
+      status: AuthorizationStatus.CAPTURED,
+      capturedAmount: { amount: 95.5 },
+      captureTransactionId: capture.data.id.value,
+    });
+
+    const again = await api.capture(auth.data.id, 10);
+    expect(again.success).toBe(false);
+  });
+
+  it('should not capture more than was authorised', async () => {
+    const auth = await api.authorize(accountId, 120, inOneHour());
+    if (!auth.success) throw auth.error;
+
+    const result = await api.capture(auth.data.id, 120.01);
+
+    expect(result.success).toBe(false);
+    expect(await balances()).toEqual([500, 380, 120]);
+  });
+
+  it('should release the hold when voided', async () => {
+    const auth = await api.authorize(accountId, 120, inOneHour());
+    if (!auth.success) throw auth.error;
+
+    const voided = await api.void(auth.data.id);
+
+    expect(voided.success && voided.data.status).toBe(AuthorizationStatus.VOIDED);
+    expect(await balances()).toEqual([500, 500, 0]);
+    expect((await api.capture(auth.data.id)).success).toBe(false);
+  });
+
+  it('should expire stale holds in the sweep', async () => {
+    const stale = await api.authorize(accountId, 100, inOneHour());
+    const fresh = await api.authorize(accountId, 50, new Date(Date.now() + 3 * 60 * 60 * 1000));
+    if (!stale.success || !fresh.success) throw new Error('authorisation failed');
+
+    const sweep = await api.runAuthorizationExpiry(new Date(Date.now() + 2 * 60 * 60 * 1000));
+
+    expect(sweep.success && sweep.data.map((a) => [a.id, a.status])).toEqual([
+      [stale.data.id, AuthorizationStatus.EXPIRED],
+    ]);
+    expect(await balances()).toEqual([500, 450, 50]);
+
+    const rerun = await api.runAuthorizationExpiry(new Date(Date.now() + 2 * 60 * 60 * 1000));
+    expect(rerun.success && rerun.data).toEqual([]);
+  });
+
+  it('should not capture a hold past its expiry', async () => {
+    const auth = await api.authorize(accountId, 100, new Date(Date.now() + 50));
+    if (!auth.success) throw auth.error;
+
+    await new Promise((resolve) => setTimeout(resolve, 60));
+    const result = await api.capture(auth.data.id);
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.message).toContain('EXPIRED');
+    }
+  });
+});
@@ -11,7 +11,16 @@ import {
   DepositRequest,
   WithdrawalRequest,
 } from '../src/api/banking-api';
-import { Currency, AccountStatus, TransactionType, TransactionStatus } from '../src/core/domain';
+import {
+  Currency,
+  AccountStatus,
+  TransactionType,
+  TransactionStatus,
+  AccountOpenedEvent,
+  BalanceUpdatedEvent,
+  TransactionCompletedEvent,
+} from '../src/core/domain';
+import { EventBus } from '../src/events';
 
 describe('BankingAPI', () => {
   let api: BankingAPI;
@@ -546,4 +555,336 @@ describe('BankingAPI', () => {
       }
     });
   });
+
+  describe('Domain Events', () => {
+    let productId: string;
+
+    beforeEach(async () => {
+      const productsResult = await api.getProducts();
+      if (productsResult.success) {
+        productId = productsResult.data[0]!.id;
+      }
+    });
+
+    it('should publish ACCOUNT_OPENED when an account is created', async () => {
+      const events: AccountOpenedEvent[] = [];
+      api.events.subscribe('ACCOUNT_OPENED', (event) => {
+        events.push(event);
+      });
+
+      const result = await api.createAccount({
+        customerId: 'cust-events',
+        customerType: 'INDIVIDUAL',
+        productId,
+      });
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(events).toHaveLength(1);
+        expect(events[0]!.aggregateId).toBe(result.data.id);
+        expect(events[0]!.version).toBe(result.data.version);
+        expect(events[0]!.occurredAt).toBeInstanceOf(Date);
+      }
+    });
+
+    it('should publish balance and transaction events for a transfer', async () => {
+      const source = await api.createAccount({
+        customerId: 'cust-events-src',
+        customerType: 'INDIVIDUAL',
+        productId,
+        initialDeposit: 1000,
+      });
+      const dest = await api.createAccount({
+        customerId: 'cust-events-dst',
+        customerType: 'INDIVIDUAL',
+        productId,
+      });
+      if (!source.success || !dest.success) throw new Error('setup failed');
+
+      const balanceEvents: BalanceUpdatedEvent[] = [];
+      const completed: TransactionCompletedEvent[] = [];
+      api.events.subscribe('BALANCE_UPDATED', (event) => {
+        balanceEvents.push(event);
+      });
+      api.events.subscribe('TRANSACTION_COMPLETED', (event) => {
+        completed.push(event);
+      });
+
+      const result = await api.transfer({
+        sourceAccountId: source.data.id,
+        destinationAccountId: dest.data.id,
+        amount: 400,
+        currency: Currency.USD,
+      });
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(completed).toHaveLength(1);
+        expect(completed[0]!.aggregateId).toBe(result.data.id.value);
+        expect(completed[0]!.type).toBe(TransactionType.TRANSFER);
+
+        expect(balanceEvents.map((e) => e.aggregateId)).toEqual([source.data.id, dest.data.id]);
+        expect(balanceEvents[0]!.previousBalance.amount).toBe(1000);
+        expect(balanceEvents[0]!.newBalance.amount).toBe(600);
+        expect(balanceEvents[1]!.newBalance.amount).toBe(400);
+
+        const sourceBalance = await api.getBalance(source.data.id);
+        if (sourceBalance.success) {
+          expect(balanceEvents[0]!.version).toBe(sourceBalance.data.version);
+        }
+      }
+    });
+
+    it('should stop delivering after unsubscribe and isolate failing handlers', async () => {
+      const received: string[] = [];
+      const unsubscribe = api.events.subscribe('ACCOUNT_OPENED', (event) => {
+        received.push(event.aggregateId);
+      });
+      const bus = new EventBus(() => undefined);
+      bus.subscribe('ACCOUNT_OPENED', () => {
+        throw new Error('subscriber failure');
+      });
+      const isolated = new BankingAPI(undefined, bus);
+      const products = await isolated.getProducts();
+
+      await api.createAccount({ customerId: 'cust-a', customerType: 'INDIVIDUAL', productId });
+      unsubscribe();
+      await api.createAccount({ customerId: 'cust-b', customerType: 'INDIVIDUAL', productId });
+
+      expect(received).toHaveLength(1);
+
+      if (products.success) {
+        const result = await isolated.createAccount({
+          customerId: 'cust-c',
+          customerType: 'INDIVIDUAL',
+          productId: products.data[0]!.id,
+        });
+        expect(result.success).toBe(true);
+      }
+    });
+  });
+
+  describe('Transaction Reversal', () => {
+    let sourceAccountId: string;
+    let destAccountId: string;
+
+    beforeEach(async () => {
+      const productsResult = await api.getProducts();
+      if (productsResult.success) {
+        const product = productsResult.data[0]!;
+        const sourceResult = await api.createAccount({
+          customerId: 'cust-reversal-src',
+          customerType: 'INDIVIDUAL',
+          productId: product.id,
+          initialDeposit: 1000,
+          currency: Currency.USD,
+        });
+        const destResult = await api.createAccount({
+          customerId: 'cust-reversal-dst',
+          customerType: 'INDIVIDUAL',
+          productId: product.id,
+          currency: Currency.USD,
+        });
+        if (sourceResult.success && destResult.success) {
+          sourceAccountId = sourceResult.data.id;
+          destAccountId = destResult.data.id;
+        }
+      }
+    });
+
+    it('should reverse a transfer and restore both balances', async () => {
+      const transfer = await api.transfer({
+        sourceAccountId,
+        destinationAccountId: destAccountId,
+        amount: 300,
+        currency: Currency.USD,
+      });
+      expect(transfer.success).toBe(true);
+      if (!transfer.success) return;
+
+      const result = await api.reverseTransaction(transfer.data.id.value, 'Customer dispute');
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.type).toBe(TransactionType.REVERSAL);
+        expect(result.data.originalTransactionId).toBe(transfer.data.id.value);
+        expect(result.data.sourceAccountId).toBe(destAccountId);
+        expect(result.data.destinationAccountId).toBe(sourceAccountId);
+
+        const original = await api.getTransaction(transfer.data.id.value);
+        expect(original.success && original.data.status).toBe(TransactionStatus.REVERSED);
+        expect(original.success && original.data.metadata.reversalTransactionId).toBe(
+          result.data.id.value
+        );
+      }
+
+      const sourceBalance = await api.getBalance(sourceAccountId);
+      const destBalance = await api.getBalance(destAccountId);
+      expect(sourceBalance.success && sourceBalance.data.ledgerBalance.amount).toBe(1000);
+      expect(destBalance.success && destBalance.data.availableBalance.amount).toBe(0);
+
+      const statement = await api.getStatement({
+        accountId: sourceAccountId,
+        fromDate: new Date(Date.now() - 60_000),
+        toDate: new Date(Date.now() + 60_000),
+      });
+      expect(statement.success && statement.data.closingBalance).toBe(1000);
+    });
+
+    it('should reverse a withdrawal', async () => {
+      const withdrawal = await api.withdraw({
+        accountId: sourceAccountId,
+        amount: 250,
+        currency: Currency.USD,
+      });
+      if (!withdrawal.success) throw withdrawal.error;
+
+      const result = await api.reverseTransaction(withdrawal.data.id.value, 'ATM did not dispense');
+
+      expect(result.success).toBe(true);
+      const balance = await api.getBalance(sourceAccountId);
+      expect(balance.success && balance.data.availableBalance.amount).toBe(1000);
+    });
+
+    it('should refuse to reverse twice or reverse a reversal', async () => {
+      const deposit = await api.deposit({ accountId: destAccountId, amount: 50, currency: Currency.USD });
+      if (!deposit.success) throw deposit.error;
+
+      const first = await api.reverseTransaction(deposit.data.id.value, 'Duplicate deposit');
+      expect(first.success).toBe(true);
+
+      const second = await api.reverseTransaction(deposit.data.id.value, 'Duplicate deposit');
+      expect(second.success).toBe(false);
+      if (!second.success) {
+        expect(second.error.code).toBe('REVERSAL_NOT_ALLOWED');
+      }
+
+      if (first.success) {
+        const reverseReversal = await api.reverseTransaction(first.data.id.value, 'Undo');
+        expect(reverseReversal.success).toBe(false);
+      }
+
+      const balance = await api.getBalance(destAccountId);
+      expect(balance.success && balance.data.ledgerBalance.amount).toBe(0);
+    });
+
+    it('should return the same reversal for a repeated idempotency key', async () => {
+      const deposit = await api.deposit({ accountId: destAccountId, amount: 75, currency: Currency.USD });
+      if (!deposit.success) throw deposit.error;
+
+      const first = await api.reverseTransaction(deposit.data.id.value, 'Error', 'rev-key-1');
+      const second = await api.reverseTransaction(deposit.data.id.value, 'Error', 'rev-key-1');
+
+      expect(first.success && second.success).toBe(true);
+      if (first.success && second.success) {
+        expect(second.data.id.value).toBe(first.data.id.value);
+      }
+    });
+
+    it('should refuse to reverse a deposit whose funds were already spent', async () => {
+      const deposit = await api.deposit({ accountId: destAccountId, amount: 100, currency: Currency.USD });
+      if (!deposit.success) throw deposit.error;
+      await api.withdraw({ accountId: destAccountId, amount: 100, currency: Currency.USD });
+
+      const result = await api.reverseTransaction(deposit.data.id.value, 'Chargeback');
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.message).toContain('Insufficient funds');
+      }
+    });
+  });
+
+  describe('Idempotency', () => {
+    let accountId: string;
+
+    const openAccount = async (target: BankingAPI): Promise<string> => {
+      const productsResult = await target.getProducts();
+      if (!productsResult.success) throw productsResult.error;
+      const accountResult = await target.createAccount({
+        customerId: 'cust-idempotency',
+        customerType: 'INDIVIDUAL',
+        productId: productsResult.data[0]!.id,
+        initialDeposit: 500,
+        currency: Currency.USD,
+      });
+      if (!accountResult.success) throw accountResult.error;
+      return accountResult.data.id;
+    };
+
+    beforeEach(async () => {
+      accountId = await openAccount(api);
+    });
+
+    it('should reject a reused key with a different payload', async () => {
+      const first = await api.deposit({ accountId, amount: 100, currency: Currency.USD, idempotencyKey: 'idem-1' });
+      const second = await api.deposit({ accountId, amount: 150, currency: Currency.USD, idempotencyKey: 'idem-1' });
+
+      expect(first.success).toBe(true);
+      expect(second.success).toBe(false);
+      if (!second.success) {
+        expect(second.error.code).toBe('IDEMPOTENCY_KEY_CONFLICT');
+      }
+
+      const balance = await api.getBalance(accountId);
+      expect(balance.success && balance.data.availableBalance.amount).toBe(600);
+    });
+
+    it('should scope keys by operation', async () => {
+      const deposit = await api.deposit({ accountId, amount: 100, currency: Currency.USD, idempotencyKey: 'idem-2' });
+      const withdrawal = await api.withdraw({ accountId, amount: 100, currency: Currency.USD, idempotencyKey: 'idem-2' });
+
+      expect(deposit.success && withdrawal.success).toBe(true);
+      if (deposit.success && withdrawal.success) {
+        expect(withdrawal.data.id.value).not.toBe(deposit.data.id.value);
+        expect(withdrawal.data.type).toBe(TransactionType.WITHDRAWAL);
+      }
+    });
+
+    it('should scope keys by caller', async () => {
+      const request: DepositRequest = { accountId, amount: 50, currency: Currency.USD, idempotencyKey: 'idem-3' };
+
+      const byCustomer = await api.deposit(request);
+      const byBranch = await api.deposit({ ...request, initiatedBy: 'BRANCH-001' });
+
+      expect(byCustomer.success && byBranch.success).toBe(true);
+      if (byCustomer.success && byBranch.success) {
+        expect(byBranch.data.id.value).not.toBe(byCustomer.data.id.value);
+        expect(byBranch.data.initiatedBy).toBe('BRANCH-001');
+      }
+
+      const balance = await api.getBalance(accountId);
+      expect(balance.success && balance.data.availableBalance.amount).toBe(600);
+    });
+
+    it('should stop honouring a key once its TTL has elapsed', async () => {
+      const shortLived = new BankingAPI(undefined, undefined, { idempotencyKeyTtlMs: 0 });
+      const shortLivedAccountId = await openAccount(shortLived);
+      const request: DepositRequest = {
+        accountId: shortLivedAccountId,
+        amount: 100,
+        currency: Currency.USD,
+        idempotencyKey: 'idem-4',
+      };
+
+      const first = await shortLived.deposit(request);
+      const second = await shortLived.deposit({ ...request, amount: 200 });
+
+      expect(first.success && second.success).toBe(true);
+      if (first.success && second.success) {
+        expect(second.data.id.value).not.toBe(first.data.id.value);
+      }
+    });
+
+    it('should purge expired keys', async () => {
+      await api.deposit({ accountId, amount: 10, currency: Currency.USD, idempotencyKey: 'idem-5' });
+      await api.deposit({ accountId, amount: 20, currency: Currency.USD, idempotencyKey: 'idem-6' });
+
+      const notYet = await api.purgeExpiredIdempotencyKeys();
+      const later = await api.purgeExpiredIdempotencyKeys(new Date(Date.now() + 2 * 24 * 60 * 60 * 1000));
+
+      expect(notYet.success && notYet.data).toBe(0);
+      expect(later.success && later.data).toBe(2);
+    });
+  });
 });
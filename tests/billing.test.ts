@@ -0,0 +1,196 @@
+/**
+ * Core Banking System - Billing Tests
+ *
+ * Tests for the monthly maintenance and minimum-balance fee billing run
+ */
+
+import { BankingAPI } from '../src/api/banking-api';
+import { calculateMonthlyFees } from '../src/fees';
+import { BankingRepositories, createInMemoryRepositories } from '../src/persistence';
+import { BillingOutcome, Currency, ProductConfiguration, TransactionType } from '../src/core/domain';
+
+const usd = (amount: number) => ({ amount, currency: Currency.USD, scale: 2 });
+
+describe('calculateMonthlyFees', () => {
+  let premium: ProductConfiguration;
+
+  beforeAll(async () => {
+    const products = await new BankingAPI().getProducts();
+    if (!products.success) throw products.error;
+    premium = products.data.find((p) => p.name === 'Premium Current Account')!;
+  });
+
+  it('should charge the maintenance fee when no waiver applies', () => {
+    const fees = calculateMonthlyFees(premium, { lowestBalance: usd(2000), transactionCount: 3 });
+
+    expect(fees.total).toEqual(usd(25));
+    expect(fees.waivers).toEqual([]);
+  });
+
+  it('should waive the maintenance fee on balance or activity', () => {
+    const byBalance = calculateMonthlyFees(premium, { lowestBalance: usd(10000), transactionCount: 0 });
+    const byActivity = calculateMonthlyFees(premium, { lowestBalance: usd(2000), transactionCount: 20 });
+
+    expect(byBalance.waivers).toEqual(['MINIMUM_BALANCE']);
+    expect(byActivity.waivers).toEqual(['TRANSACTION_COUNT']);
+    expect(byBalance.total.amount).toBe(0);
+    expect(byActivity.waivedAmount).toBe(25);
+  });
+
+  it('should add the minimum-balance fee below the product minimum', () => {
+    const fees = calculateMonthlyFees(premium, { lowestBalance: usd(500), transactionCount: 0 });
+
+    expect(fees.minimumBalanceFee).toBe(15);
+    expect(fees.total).toEqual(usd(40));
+  });
+});
+
+describe('BankingAPI monthly billing', () => {
+  let repositories: BankingRepositories;
+  let api: BankingAPI;
+  let products: ProductConfiguration[];
+
+  async function openAccount(productName: string, initialDeposit: number): Promise<string> {
+    const result = await api.createAccount({
+      customerId: 'cust-billing',
+      customerType: 'INDIVIDUAL',
+      productId: products.find((p) => p.name === productName)!.id,
+      currency: Currency.USD,
+      initialDeposit,
+    });
+    if (!result.success) throw result.error;
+    return result.data.id;
+  }
+
+  const balanceOf = async (accountId: string): Promise<number | false> => {
+    const balance = await api.getBalance(accountId);
+    return balance.success && balance.data.ledgerBalance.amount;
+  };
+
+  /**
+   * Bill March 2024, in which the accounts were opened, once it has ended
+   */
+  async function billMarch(): ReturnType<BankingAPI['runMonthlyBilling']> {
+    jest.setSystemTime(new Date('2024-04-01T09:00:00Z'));
+    return api.runMonthlyBilling();
+  }
+
+  beforeEach(async () => {
+    jest.useFakeTimers({
+      now: new Date('2024-03-15T12:00:00Z'),
+      doNotFake: ['nextTick', 'queueMicrotask'],
+    });
+    repositories = createInMemoryRepositories();
+    api = new BankingAPI(repositories);
+    const result = await api.getProducts();
+    if (!result.success) throw result.error;
+    products = result.data;
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should post each account its fees as a FEE transaction and summarise the run', async () => {
+    const premiumId = await openAccount('Premium Current Account', 2000);
+    const standardId = await openAccount('Standard Current Account', 50);
+    const basicId = await openAccount('Basic Current Account', 50);
+
+    const run = await billMarch();
+
+    expect(run.success).toBe(true);
+    if (!run.success) return;
+    const byAccount = new Map(run.data.summaries.map((s) => [s.accountId, s]));
+    expect(byAccount.get(premiumId)).toMatchObject({ outcome: BillingOutcome.CHARGED, maintenanceFee: 25 });
+    expect(byAccount.get(standardId)).toMatchObject({ outcome: BillingOutcome.CHARGED, minimumBalanceFee: 15 });
+    expect(byAccount.get(basicId)).toMatchObject({ outcome: BillingOutcome.NO_FEE, feeTransactionId: null });
+
+    expect(await balanceOf(premiumId)).toBe(1975);
+    expect(await balanceOf(standardId)).toBe(35);
+    const fee = await api.getTransaction(byAccount.get(premiumId)!.feeTransactionId!);
+    expect(fee.success && fee.data.type).toBe(TransactionType.FEE);
+    expect(fee.success && fee.data.metadata['billingPeriod']).toBe(run.data.period);
+
+    expect(run.data.period).toBe('2024-03');
+    const stored = await api.getBillingSummaries(new Date('2024-03-31'));
+    expect(stored.success && stored.data).toHaveLength(3);
+  });
+
+  it('should waive the maintenance fee for a high balance', async () => {
+    const accountId = await openAccount('Premium Current Account', 9000);
+    await api.deposit({ accountId, amount: 3000, currency: Currency.USD });
+
+    const run = await billMarch();
+
+    expect(run.success && run.data.summaries[0]).toMatchObject({
+      outcome: BillingOutcome.WAIVED,
+      waivers: ['MINIMUM_BALANCE'],
+      total: usd(0),
+    });
+    expect(await balanceOf(accountId)).toBe(12000);
+  });
+
+  it('should bill an account only once per period', async () => {
+    const accountId = await openAccount('Premium Current Account', 2000);
+
+    await billMarch();
+    const rerun = await billMarch();
+
+    expect(rerun.success && rerun.data.summaries).toEqual([]);
+    expect(await balanceOf(accountId)).toBe(1975);
+  });
+
+  it('should record fees an account cannot cover as unpaid', async () => {
+    const premium = products.find((p) => p.name === 'Premium Current Account')!;
+    const noOverdraft = await api.createProduct({ ...premium, name: 'No Overdraft Premium', overdraftLimit: null });
+    if (!noOverdraft.success) throw noOverdraft.error;
+    products.push(noOverdraft.data);
+    const accountId = await openAccount('No Overdraft Premium', 10);
+
+    const run = await billMarch();
+
+    expect(run.success && run.data.summaries[0]).toMatchObject({
+      outcome: BillingOutcome.UNPAID,
+      total: usd(40),
+      feeTransactionId: null,
+    });
+    expect(await balanceOf(accountId)).toBe(10);
+  });
+
+  it('should charge unpaid fees on a later run once the account is funded', async () => {
+    const premium = products.find((p) => p.name === 'Premium Current Account')!;
+    const noOverdraft = await api.createProduct({ ...premium, name: 'No Overdraft Premium', overdraftLimit: null });
+    if (!noOverdraft.success) throw noOverdraft.error;
+    products.push(noOverdraft.data);
+    const accountId = await openAccount('No Overdraft Premium', 10);
+    await billMarch();
+
+    await api.deposit({ accountId, amount: 100, currency: Currency.USD });
+    const rerun = await billMarch();
+
+    expect(rerun.success && rerun.data.summaries[0]).toMatchObject({
+      outcome: BillingOutcome.CHARGED,
+      total: usd(40),
+    });
+    expect(await balanceOf(accountId)).toBe(70);
+    const stored = await api.getBillingSummaries(new Date('2024-03-31'));
+    expect(stored.success && stored.data.map((s) => s.outcome)).toEqual([BillingOutcome.CHARGED]);
+  });
+
+  it('should default to the previous month and refuse a month that has not ended', async () => {
+    const accountId = await openAccount('Premium Current Account', 2000);
+
+    const early = await api.runMonthlyBilling(new Date());
+    const previous = await api.runMonthlyBilling();
+
+    expect(early.success).toBe(false);
+    if (!early.success) {
+      expect(early.error).toMatchObject({ field: 'period' });
+    }
+    expect(previous.success && previous.data).toEqual({ period: '2024-02', summaries: [] });
+    expect(await balanceOf(accountId)).toBe(2000);
+
+    const monthEnd = await billMarch();
+    expect(monthEnd.success && monthEnd.data.summaries).toHaveLength(1);
+  });
+});
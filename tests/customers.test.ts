@@ -0,0 +1,219 @@
+/**
+ * Core Banking System - Customer Information File Tests
+ *
+ * Tests for customer registration, validation, verification and account holdings
+ */
+
+import { BankingAPI, CreateCustomerRequest } from '../src/api/banking-api';
+import { CustomerValidator } from '../src/core/validators';
+import { customerName } from '../src/customers';
+import { BankingRepositories, createInMemoryRepositories } from '../src/persistence';
+import { AccountStatus, Currency, CustomerStatus } from '../src/core/domain';
+
+const individual: CreateCustomerRequest = {
+  type: 'INDIVIDUAL',
+  firstName: ' Ada ',
+  lastName: 'Lovelace',
+  dateOfBirth: new Date('1985-12-10'),
+  address: { line1: '12 St James Square', city: 'London', postalCode: 'sw1y 4jh', country: 'gb' },
+  email: 'Ada@Example.com',
+};
+
+const business: CreateCustomerRequest = {
+  type: 'BUSINESS',
+  legalName: 'Acme Supplies Ltd',
+  registrationNumber: '09876543',
+  address: { line1: '1 Market Street', city: 'Leeds', postalCode: 'LS1 6DT', country: 'GB' },
+  phone: '+441130000000',
+};
+
+describe('CustomerValidator', () => {
+  const now = new Date('2024-03-15T12:00:00Z');
+  const valid = {
+    type: 'INDIVIDUAL' as const,
+    firstName: 'Ada',
+    lastName: 'Lovelace',
+    dateOfBirth: new Date('1985-12-10'),
+    legalName: null,
+    registrationNumber: null,
+    address: {
+      line1: '12 St James Square',
+      line2: null,
+      city: 'London',
+      region: null,
+      postalCode: 'SW1Y 4JH',
+      country: 'GB',
+    },
+    contact: { email: 'ada@example.com', phone: null },
+  };
+
+  it('should accept a complete individual', () => {
+    expect(CustomerValidator.validateCustomer(valid, now).isValid).toBe(true);
+  });
+
+  it('should reject missing names, future dates of birth and malformed contact details', () => {
+    const result = CustomerValidator.validateCustomer(
+      {
+        ...valid,
+        lastName: null,
+        dateOfBirth: new Date('2030-01-01'),
+        address: { ...valid.address, country: 'GBR' },
+        contact: { email: 'ada.example.com', phone: '020 7946 0000' },
+      },
+      now
+    );
+
+    expect(result.errors.map((e) => e.field)).toEqual([
+      'lastName',
+      'dateOfBirth',
+      'address.country',
+      'contact.email',
+      'contact.phone',
+    ]);
+  });
+
+  it('should require a registration number for businesses', () => {
+    const result = CustomerValidator.validateCustomer(
+      {
+        ...valid,
+        type: 'BUSINESS',
+        firstName: null,
+        lastName: null,
+        dateOfBirth: null,
+        legalName: 'Acme Supplies Ltd',
+      },
+      now
+    );
+
+    expect(result.errors.map((e) => e.field)).toEqual(['registrationNumber']);
+  });
+});
+
+describe('BankingAPI customers', () => {
+  let repositories: BankingRepositories;
+  let api: BankingAPI;
+  let productId: string;
+
+  beforeEach(async () => {
+    repositories = createInMemoryRepositories();
+    api = new BankingAPI(repositories);
+    const products = await api.getProducts();
+    if (!products.success) throw products.error;
+    productId = products.data.find((p) => p.name === 'Basic Current Account')!.id;
+  });
+
+  async function registerVerified(request: CreateCustomerRequest): Promise<string> {
+    const created = await api.createCustomer(request);
+    if (!created.success) throw created.error;
+    const verified = await api.verifyCustomer(created.data.id, 'kyc-officer');
+    if (!verified.success) throw verified.error;
+    return created.data.id;
+  }
+
+  it('should register customers pending verification with normalised details', async () => {
+    const result = await api.createCustomer(individual);
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.data).toMatchObject({
+      status: CustomerStatus.PENDING_VERIFICATION,
+      firstName: 'Ada',
+      legalName: null,
+      address: { postalCode: 'SW1Y 4JH', country: 'GB', line2: null },
+      contact: { email: 'ada@example.com', phone: null },
+    });
+    expect(customerName(result.data)).toBe('Ada Lovelace');
+
+    const invalid = await api.createCustomer({ ...business, registrationNumber: ' ' });
+    expect(invalid.success).toBe(false);
+    if (!invalid.success) {
+      expect(invalid.error).toMatchObject({ field: 'registrationNumber' });
+    }
+  });
+
+  it('should open accounts only for verified customers and list their holdings', async () => {
+    const pending = await api.createCustomer(business);
+    if (!pending.success) throw pending.error;
+
+    const refused = await api.createAccount({ customerId: pending.data.id, productId });
+    expect(refused.success).toBe(false);
+    if (!refused.success) {
+      expect(refused.error.code).toBe('CUSTOMER_NOT_VERIFIED');
+    }
+    const hidden = await api.getAccountsByCustomer(pending.data.id);
+    expect(hidden.success).toBe(false);
+
+    await api.verifyCustomer(pending.data.id, 'kyc-officer');
+    const account = await api.createAccount({ customerId: pending.data.id, productId });
+    expect(account.success && account.data.customerId).toEqual({
+      value: pending.data.id,
+      type: 'BUSINESS',
+    });
+
+    const holdings = await api.getAccountsByCustomer(pending.data.id);
+    expect(holdings.success && holdings.data.map((a) => a.id)).toEqual([
+      account.success && account.data.id,
+    ]);
+  });
+
+  it('should update details and audit the changes', async () => {
+    const customerId = await registerVerified(individual);
+
+    const result = await api.updateCustomer(
+      customerId,
+      { lastName: 'King', email: '', phone: '+447700900123' },
+      'branch-42'
+    );
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.data).toMatchObject({
+      lastName: 'King',
+      contact: { email: null, phone: '+447700900123' },
+      version: 3,
+    });
+    const trail = await repositories.auditLog.findByEntity('Customer', customerId);
+    expect(trail.map((e) => e.action)).toEqual(['VERIFIED', 'UPDATED']);
+    expect(trail[1]!.changes['lastName']).toEqual({ from: 'Lovelace', to: 'King' });
+
+    const cleared = await api.updateCustomer(customerId, { phone: '' });
+    expect(cleared.success).toBe(false);
+  });
+
+  it('should close or delete customers only once they hold no open accounts', async () => {
+    const customerId = await registerVerified(individual);
+    const account = await api.createAccount({ customerId, productId });
+    if (!account.success) throw account.error;
+
+    const closeEarly = await api.updateCustomerStatus(customerId, CustomerStatus.CLOSED);
+    expect(closeEarly.success).toBe(false);
+    if (!closeEarly.success) {
+      expect(closeEarly.error.code).toBe('CUSTOMER_HAS_ACCOUNTS');
+    }
+    expect((await api.deleteCustomer(customerId)).success).toBe(false);
+
+    await api.updateAccountStatus(account.data.id, AccountStatus.CLOSED);
+    const closed = await api.updateCustomerStatus(customerId, CustomerStatus.CLOSED, 'Moved abroad');
+    expect(closed.success && closed.data.status).toBe(CustomerStatus.CLOSED);
+
+    const unused = await api.createCustomer(business);
+    if (!unused.success) throw unused.error;
+    expect((await api.deleteCustomer(unused.data.id)).success).toBe(true);
+    expect((await api.getCustomer(unused.data.id)).success).toBe(false);
+  });
+
+  it('should keep listing accounts for identifiers outside the customer file', async () => {
+    const account = await api.createAccount({
+      customerId: 'legacy-123',
+      customerType: 'INDIVIDUAL',
+      productId,
+    });
+    expect(account.success).toBe(true);
+
+    const holdings = await api.getAccountsByCustomer('legacy-123');
+    expect(holdings.success && holdings.data).toHaveLength(1);
+
+    const untyped = await api.createAccount({ customerId: 'legacy-456', productId });
+    expect(untyped.success).toBe(false);
+  });
+});
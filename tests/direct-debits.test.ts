@@ -0,0 +1,220 @@
+/**
+ * Core Banking System - Direct Debit Tests
+ *
+ * Tests for direct debit mandates, collections and returned items
+ */
+
+import {
+  BankingAPI,
+  CreateMandateRequest,
+  DirectDebitCollectionRequest,
+} from '../src/api/banking-api';
+import { BankingRepositories, createInMemoryRepositories } from '../src/persistence';
+import {
+  AccountStatus,
+  Currency,
+  DirectDebitReturnReason,
+  MandateStatus,
+  MandateType,
+  TransactionType,
+} from '../src/core/domain';
+
+describe('BankingAPI direct debits', () => {
+  let repositories: BankingRepositories;
+  let api: BankingAPI;
+  let accountId: string;
+
+  const mandateFor = (overrides: Partial<CreateMandateRequest> = {}): CreateMandateRequest => ({
+    debtorAccountId: accountId,
+    creditorId: 'DE98ZZZ09999999999',
+    creditorName: 'City Utilities',
+    mandateReference: 'UTIL-000123',
+    type: MandateType.RECURRENT,
+    signatureDate: new Date('2024-01-15'),
+    ...overrides,
+  });
+
+  const collection = (
+    overrides: Partial<DirectDebitCollectionRequest> = {}
+  ): DirectDebitCollectionRequest => ({
+    creditorId: 'DE98ZZZ09999999999',
+    mandateReference: 'UTIL-000123',
+    debtorAccountId: accountId,
+    amount: 80,
+    currency: Currency.USD,
+    collectionReference: 'INV-2024-02',
+    ...overrides,
+  });
+
+  const availableBalance = async (): Promise<number | false> => {
+    const balance = await api.getBalance(accountId);
+    return balance.success && balance.data.availableBalance.amount;
+  };
+
+  beforeEach(async () => {
+    repositories = createInMemoryRepositories();
+    api = new BankingAPI(repositories);
+
+    const products = await api.getProducts();
+    if (!products.success) throw products.error;
+    const account = await api.createAccount({
+      customerId: 'cust-direct-debit',
+      customerType: 'INDIVIDUAL',
+      productId: products.data.find((p) => p.name === 'Standard Current Account')!.id,
+      currency: Currency.USD,
+      initialDeposit: 100,
+    });
+    if (!account.success) throw account.error;
+    accountId = account.data.id;
+  });
+
+  it('should register a mandate on the debtor account', async () => {
+    const result = await api.createMandate(mandateFor());
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.data.status).toBe(MandateStatus.ACTIVE);
+
+    const mandates = await api.getMandatesByAccount(accountId);
+    expect(mandates.success && mandates.data.map((m) => m.id)).toEqual([result.data.id]);
+  });
+
+  it('should reject a mandate signed in the future or reusing a reference', async () => {
+    await api.createMandate(mandateFor());
+
+    const future = await api.createMandate(
+      mandateFor({ mandateReference: 'UTIL-000124', signatureDate: new Date(Date.now() + 86400000) })
+    );
+    const duplicate = await api.createMandate(mandateFor());
+
+    expect(future.success).toBe(false);
+    expect(duplicate.success).toBe(false);
+  });
+
+  it('should debit the account under an active mandate', async () => {
+    const mandate = await api.createMandate(mandateFor());
+    if (!mandate.success) throw mandate.error;
+
+    const result = await api.collectDirectDebit(collection());
+
+    expect(result.success).toBe(true);
+    if (!result.success || result.data.status !== 'COLLECTED') {
+      throw new Error('expected a collected direct debit');
+    }
+    expect(result.data.transaction.type).toBe(TransactionType.DIRECT_DEBIT);
+    expect(result.data.transaction.reference).toBe('INV-2024-02');
+    expect(result.data.transaction.metadata['mandateId']).toBe(mandate.data.id);
+    expect(await availableBalance()).toBe(20);
+
+    const updated = await api.getMandate(mandate.data.id);
+    expect(updated.success && updated.data.status).toBe(MandateStatus.ACTIVE);
+    expect(updated.success && updated.data.lastCollectedAt).toBeInstanceOf(Date);
+  });
+
+  it('should return a collection that exceeds the available funds as AM04', async () => {
+    await api.createMandate(mandateFor());
+
+    const result = await api.collectDirectDebit(collection({ amount: 5000 }));
+
+    expect(result.success).toBe(true);
+    if (!result.success || result.data.status !== 'RETURNED') {
+      throw new Error('expected a returned direct debit');
+    }
+    expect(result.data.returnedItem.reasonCode).toBe(DirectDebitReturnReason.INSUFFICIENT_FUNDS);
+    expect(await availableBalance()).toBe(100);
+
+    const returned = await api.getReturnedDirectDebits(accountId);
+    expect(returned.success && returned.data.map((r) => r.collectionReference)).toEqual(['INV-2024-02']);
+  });
+
+  it('should spend a one-off mandate on its first collection', async () => {
+    await api.createMandate(mandateFor({ type: MandateType.ONE_OFF }));
+
+    const first = await api.collectDirectDebit(collection({ amount: 10 }));
+    const second = await api.collectDirectDebit(collection({ amount: 10, collectionReference: 'INV-2024-03' }));
+
+    expect(first.success && first.data.status).toBe('COLLECTED');
+    expect(second.success && second.data.status === 'RETURNED' && second.data.returnedItem.reasonCode).toBe(
+      DirectDebitReturnReason.NO_MANDATE
+    );
+    expect(await availableBalance()).toBe(90);
+  });
+
+  it('should return collections under a revoked or unknown mandate as MD01', async () => {
+    const mandate = await api.createMandate(mandateFor());
+    if (!mandate.success) throw mandate.error;
+    const revoked = await api.revokeMandate(mandate.data.id, 'Customer switched supplier');
+    expect(revoked.success && revoked.data.status).toBe(MandateStatus.REVOKED);
+
+    const underRevoked = await api.collectDirectDebit(collection());
+    const unknown = await api.collectDirectDebit(collection({ mandateReference: 'NOPE-1' }));
+
+    for (const result of [underRevoked, unknown]) {
+      expect(result.success && result.data.status === 'RETURNED' && result.data.returnedItem.reasonCode).toBe(
+        DirectDebitReturnReason.NO_MANDATE
+      );
+    }
+    expect(await availableBalance()).toBe(100);
+
+    const returned = await api.getReturnedDirectDebits(accountId);
+    expect(returned.success && returned.data).toHaveLength(2);
+  });
+
+  it('should return collections from a frozen account as AC06', async () => {
+    await api.createMandate(mandateFor());
+    await api.updateAccountStatus(accountId, AccountStatus.FROZEN, 'Fraud investigation');
+
+    const result = await api.collectDirectDebit(collection());
+
+    expect(result.success && result.data.status === 'RETURNED' && result.data.returnedItem.reasonCode).toBe(
+      DirectDebitReturnReason.ACCOUNT_BLOCKED
+    );
+  });
+
+  it('should return a collection over the account limits as AM02', async () => {
+    const products = await api.getProducts();
+    if (!products.success) throw products.error;
+    const standard = products.data.find((p) => p.name === 'Standard Current Account')!;
+    const product = await api.createProduct({
+      ...standard,
+      name: 'Capped Current Account',
+      limits: {
+        ...standard.limits,
+        maxTransactionAmount: { amount: 50, currency: Currency.USD, scale: 2 },
+      },
+    });
+    if (!product.success) throw product.error;
+    const capped = await api.createAccount({
+      customerId: 'cust-direct-debit',
+      customerType: 'INDIVIDUAL',
+      productId: product.data.id,
+      currency: Currency.USD,
+      initialDeposit: 100,
+    });
+    if (!capped.success) throw capped.error;
+    await api.createMandate(mandateFor({ debtorAccountId: capped.data.id }));
+
+    const result = await api.collectDirectDebit(collection({ debtorAccountId: capped.data.id }));
+
+    expect(result.success && result.data.status === 'RETURNED' && result.data.returnedItem.reasonCode).toBe(
+      DirectDebitReturnReason.LIMIT_EXCEEDED
+    );
+    const balance = await api.getBalance(capped.data.id);
+    expect(balance.success && balance.data.availableBalance.amount).toBe(100);
+  });
+
+  it('should replay a collection with the same idempotency key', async () => {
+    await api.createMandate(mandateFor());
+
+    const first = await api.collectDirectDebit(collection({ idempotencyKey: 'dd-1' }));
+    const replay = await api.collectDirectDebit(collection({ idempotencyKey: 'dd-1' }));
+
+    expect(first.success && replay.success).toBe(true);
+    if (!first.success || !replay.success) return;
+    expect(first.data.status === 'COLLECTED' && replay.data.status === 'COLLECTED').toBe(true);
+    if (first.data.status === 'COLLECTED' && replay.data.status === 'COLLECTED') {
+      expect(replay.data.transaction.id.value).toBe(first.data.transaction.id.value);
+    }
+    expect(await availableBalance()).toBe(20);
+  });
+});
@@ -0,0 +1,182 @@
+/**
+ * Core Banking System - Dormancy Tests
+ *
+ * Tests for dormancy detection, dormant account restrictions and verified reactivation
+ */
+
+import { BankingAPI, ReactivationRequest } from '../src/api/banking-api';
+import { isCustomerActivity, isDormant, lastCustomerActivity } from '../src/dormancy';
+import {
+  Account,
+  AccountStatus,
+  AccountStatusChangedEvent,
+  Currency,
+  Transaction,
+  TransactionStatus,
+  TransactionType,
+} from '../src/core/domain';
+
+const monthsFromNow = (months: number): Date => {
+  const date = new Date();
+  date.setUTCMonth(date.getUTCMonth() + months);
+  return date;
+};
+
+describe('Dormancy rules', () => {
+  const account = {
+    id: 'ACC-1',
+    createdAt: new Date('2023-01-10T00:00:00Z'),
+    metadata: {},
+  } as unknown as Account;
+
+  const transaction = (overrides: Partial<Transaction>): Transaction =>
+    ({
+      id: { value: 'TXN-1', generatedAt: new Date(), source: 'TEST' },
+      sourceAccountId: null,
+      destinationAccountId: null,
+      amount: { amount: 10, currency: Currency.USD, scale: 2 },
+      currency: Currency.USD,
+      type: TransactionType.TRANSFER,
+      status: TransactionStatus.COMPLETED,
+      initiatedBy: 'CUSTOMER',
+      createdAt: new Date('2023-06-01T00:00:00Z'),
+      metadata: {},
+      ...overrides,
+    }) as Transaction;
+
+  it('should count money the holder moves out and cash they pay in', () => {
+    expect(isCustomerActivity(transaction({ sourceAccountId: 'ACC-1' }), 'ACC-1')).toBe(true);
+    expect(
+      isCustomerActivity(
+        transaction({ type: TransactionType.DEPOSIT, destinationAccountId: 'ACC-1' }),
+        'ACC-1'
+      )
+    ).toBe(true);
+  });
+
+  it('should ignore third-party credits and bank-initiated postings', () => {
+    expect(isCustomerActivity(transaction({ destinationAccountId: 'ACC-1' }), 'ACC-1')).toBe(false);
+    expect(
+      isCustomerActivity(transaction({ sourceAccountId: 'ACC-1', initiatedBy: 'STANDING_ORDER' }), 'ACC-1')
+    ).toBe(false);
+    expect(
+      isCustomerActivity(transaction({ sourceAccountId: 'ACC-1', type: TransactionType.FEE }), 'ACC-1')
+    ).toBe(false);
+  });
+
+  it('should restart the clock at the latest activity', () => {
+    const last = lastCustomerActivity(account, [
+      transaction({ sourceAccountId: 'ACC-1' }),
+      transaction({ destinationAccountId: 'ACC-1', createdAt: new Date('2023-09-01T00:00:00Z') }),
+    ]);
+
+    expect(last).toEqual(new Date('2023-06-01T00:00:00Z'));
+    expect(isDormant(last, new Date('2024-05-31T00:00:00Z'), 12)).toBe(false);
+    expect(isDormant(last, new Date('2024-06-01T00:00:00Z'), 12)).toBe(true);
+  });
+});
+
+describe('BankingAPI dormancy', () => {
+  let api: BankingAPI;
+  let accountId: string;
+
+  const verified = (overrides: Partial<ReactivationRequest> = {}): ReactivationRequest => ({
+    accountId,
+    verifiedBy: 'teller-042',
+    verificationMethod: 'IN_BRANCH',
+    verificationReference: 'PASSPORT-X1234567',
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    api = new BankingAPI();
+    const products = await api.getProducts();
+    if (!products.success) throw products.error;
+    const account = await api.createAccount({
+      customerId: 'cust-dormancy',
+      customerType: 'INDIVIDUAL',
+      productId: products.data[0]!.id,
+      currency: Currency.USD,
+      initialDeposit: 100,
+    });
+    if (!account.success) throw account.error;
+    accountId = account.data.id;
+  });
+
+  it('should mark an account dormant only after the dormancy period', async () => {
+    const early = await api.runDormancyCheck(monthsFromNow(11));
+    expect(early.success && early.data).toEqual([]);
+
+    const changes: AccountStatusChangedEvent[] = [];
+    api.events.subscribe('ACCOUNT_STATUS_CHANGED', (event) => {
+      changes.push(event);
+    });
+
+    const due = await api.runDormancyCheck(monthsFromNow(13));
+
+    expect(due.success && due.data.map((a) => [a.id, a.status])).toEqual([[accountId, AccountStatus.DORMANT]]);
+    expect(changes.map((e) => e.newStatus)).toEqual([AccountStatus.DORMANT]);
+
+    const trail = await api.getAccountAuditTrail(accountId);
+    expect(trail.success && trail.data.map((e) => [e.action, e.actor])).toEqual([['MARKED_DORMANT', 'SYSTEM']]);
+  });
+
+  it('should block outgoing transactions but accept credits while dormant', async () => {
+    await api.runDormancyCheck(monthsFromNow(13));
+
+    const withdrawal = await api.withdraw({ accountId, amount: 10, currency: Currency.USD });
+    const deposit = await api.deposit({ accountId, amount: 10, currency: Currency.USD });
+
+    expect(withdrawal.success).toBe(false);
+    if (!withdrawal.success) {
+      expect(withdrawal.error.message).toContain('dormant');
+    }
+    expect(deposit.success).toBe(true);
+
+    const account = await api.getAccount(accountId);
+    expect(account.success && account.data.status).toBe(AccountStatus.DORMANT);
+  });
+
+  it('should only reactivate through a verified reactivation', async () => {
+    await api.runDormancyCheck(monthsFromNow(13));
+
+    const direct = await api.updateAccountStatus(accountId, AccountStatus.ACTIVE);
+    const unverified = await api.reactivateAccount(verified({ verificationReference: ' ' }));
+    expect(direct.success).toBe(false);
+    expect(unverified.success).toBe(false);
+
+    const reactivated = await api.reactivateAccount(verified({ reason: 'Customer visited branch' }));
+    expect(reactivated.success && reactivated.data.status).toBe(AccountStatus.ACTIVE);
+
+    const trail = await api.getAccountAuditTrail(accountId);
+    expect(trail.success).toBe(true);
+    if (!trail.success) return;
+    expect(trail.data.map((e) => e.action)).toEqual(['MARKED_DORMANT', 'REACTIVATED']);
+    expect(trail.data[1]).toMatchObject({
+      actor: 'teller-042',
+      changes: { status: { from: AccountStatus.DORMANT, to: AccountStatus.ACTIVE } },
+      metadata: {
+        reason: 'Customer visited branch',
+        verificationMethod: 'IN_BRANCH',
+        verificationReference: 'PASSPORT-X1234567',
+      },
+    });
+  });
+
+  it('should refuse to reactivate an account that is not dormant', async () => {
+    const result = await api.reactivateAccount(verified());
+
+    expect(result.success).toBe(false);
+  });
+
+  it('should audit manual status changes', async () => {
+    await api.updateAccountStatus(accountId, AccountStatus.FROZEN, 'Fraud investigation', 'ops-7');
+
+    const trail = await api.getAccountAuditTrail(accountId);
+    expect(trail.success && trail.data[0]).toMatchObject({
+      action: 'STATUS_CHANGED',
+      actor: 'ops-7',
+      metadata: { reason: 'Fraud investigation' },
+    });
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * Core Banking System - Posting Fee Tests
+ *
+ * Tests for product fees charged on deposits, withdrawals and transfers
+ */
+
+import { BankingAPI } from '../src/api/banking-api';
+import { calculatePostingFee } from '../src/fees';
+import { BankingRepositories, createInMemoryRepositories } from '../src/persistence';
+import { Currency, ProductConfiguration, TransactionType } from '../src/core/domain';
+
+describe('calculatePostingFee', () => {
+  let basic: ProductConfiguration;
+
+  beforeAll(async () => {
+    const products = await new BankingAPI().getProducts();
+    if (!products.success) throw products.error;
+    basic = products.data.find((p) => p.name === 'Basic Current Account')!;
+  });
+
+  const context = {
+    transactionType: TransactionType.WITHDRAWAL,
+    amount: { amount: 100, currency: Currency.USD, scale: 2 },
+    atm: false,
+    crossCurrency: false,
+    postingsThisMonth: 0,
+  };
+
+  it('should waive the transaction fee within the free allowance', () => {
+    expect(calculatePostingFee(basic, { ...context, postingsThisMonth: 9 })).toBeNull();
+  });
+
+  it('should charge the transaction fee once the allowance is used up', () => {
+    const fee = calculatePostingFee(basic, { ...context, postingsThisMonth: 10 });
+
+    expect(fee?.total).toEqual({ amount: 0.5, currency: Currency.USD, scale: 2 });
+    expect(fee?.transactionFee).toBe(0.5);
+  });
+
+  it('should add the ATM fee and foreign transaction fee', () => {
+    const fee = calculatePostingFee(basic, { ...context, atm: true, crossCurrency: true });
+
+    expect(fee?.atmFee).toBe(2);
+    expect(fee?.foreignTransactionFee).toBe(3);
+    expect(fee?.total.amount).toBe(5);
+  });
+
+  it('should not charge fees on other transaction types', () => {
+    expect(
+      calculatePostingFee(basic, { ...context, transactionType: TransactionType.FEE, atm: true })
+    ).toBeNull();
+  });
+});
+
+describe('BankingAPI posting fees', () => {
+  let repositories: BankingRepositories;
+  let api: BankingAPI;
+
+  async function openAccount(productName: string, initialDeposit: number): Promise<string> {
+    const products = await api.getProducts();
+    if (!products.success) throw products.error;
+    const result = await api.createAccount({
+      customerId: 'cust-fees',
+      customerType: 'INDIVIDUAL',
+      productId: products.data.find((p) => p.name === productName)!.id,
+      currency: Currency.USD,
+      initialDeposit,
+    });
+    if (!result.success) throw result.error;
+    return result.data.id;
+  }
+
+  beforeEach(() => {
+    repositories = createInMemoryRepositories();
+    api = new BankingAPI(repositories);
+  });
+
+  it('should charge a basic account once its free postings are used up', async () => {
+    const accountId = await openAccount('Basic Current Account', 100);
+
+    // The initial deposit is the first of ten free postings
+    for (let i = 0; i < 9; i++) {
+      const result = await api.deposit({ accountId, amount: 10, currency: Currency.USD });
+      expect(result.success && result.data.fee).toBeNull();
+    }
+
+    const charged = await api.withdraw({ accountId, amount: 20, currency: Currency.USD });
+    expect(charged.success).toBe(true);
+    if (!charged.success) return;
+    expect(charged.data.fee).toEqual({ amount: 0.5, currency: Currency.USD, scale: 2 });
+
+    const feeTransactionId = charged.data.metadata['feeTransactionId'] as string;
+    const feeTransaction = await api.getTransaction(feeTransactionId);
+    expect(feeTransaction.success).toBe(true);
+    if (feeTransaction.success) {
+      expect(feeTransaction.data.type).toBe(TransactionType.FEE);
+      expect(feeTransaction.data.amount.amount).toBe(0.5);
+      expect(feeTransaction.data.metadata['parentTransactionId']).toBe(charged.data.id.value);
+    }
+
+    const balance = await api.getBalance(accountId);
+    expect(balance.success && balance.data.availableBalance.amount).toBe(169.5);
+
+    const feeIncome = await repositories.balances.findByAccountId('INT-FEE_INCOME-USD');
+    expect(feeIncome?.ledgerBalance.amount).toBe(0.5);
+  });
+
+  it('should charge the ATM fee on ATM withdrawals only', async () => {
+    const accountId = await openAccount('Standard Current Account', 200);
+
+    const branch = await api.withdraw({ accountId, amount: 20, currency: Currency.USD });
+    const atm = await api.withdraw({ accountId, amount: 20, currency: Currency.USD, channel: 'ATM' });
+
+    expect(branch.success && branch.data.fee).toBeNull();
+    expect(atm.success && atm.data.fee).toEqual({ amount: 2, currency: Currency.USD, scale: 2 });
+    expect(atm.success && atm.data.metadata['channel']).toBe('ATM');
+
+    const balance = await api.getBalance(accountId);
+    expect(balance.success && balance.data.availableBalance.amount).toBe(158);
+  });
+
+  it('should reject a withdrawal whose fee cannot be covered', async () => {
+    const accountId = await openAccount('Basic Current Account', 20);
+
+    const result = await api.withdraw({ accountId, amount: 20, currency: Currency.USD, channel: 'ATM' });
+
+    expect(result.success).toBe(false);
+    const balance = await api.getBalance(accountId);
+    expect(balance.success && balance.data.availableBalance.amount).toBe(20);
+    expect(await repositories.ledger.findByAccountId(accountId)).toHaveLength(1);
+  });
+});
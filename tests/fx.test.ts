@@ -0,0 +1,202 @@
+/**
+ * Core Banking System - FX Tests
+ *
+ * Tests for exchange rate providers, conversion and cross-currency transfers
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { BankingAPI } from '../src/api/banking-api';
+import { JsonRateTableProvider, RateTable, applySpread, convert } from '../src/fx';
+import { BankingRepositories, createInMemoryRepositories } from '../src/persistence';
+import { Currency, EntryType, TransactionStatus } from '../src/core/domain';
+
+const RATES: RateTable = {
+  base: Currency.USD,
+  asOf: '2024-01-31T16:00:00Z',
+  rates: { [Currency.EUR]: 0.92, [Currency.GBP]: 0.8 },
+};
+
+describe('JsonRateTableProvider', () => {
+  const provider = new JsonRateTableProvider(RATES);
+
+  it('should quote rates against the base currency', async () => {
+    const quote = await provider.getRate(Currency.USD, Currency.EUR);
+
+    expect(quote?.rate).toBe(0.92);
+    expect(quote?.asOf.toISOString()).toBe('2024-01-31T16:00:00.000Z');
+  });
+
+  it('should derive cross rates via the base currency', async () => {
+    const quote = await provider.getRate(Currency.GBP, Currency.EUR);
+
+    expect(quote?.rate).toBeCloseTo(1.15, 10);
+  });
+
+  it('should return null for a currency missing from the table', async () => {
+    expect(await provider.getRate(Currency.USD, Currency.JPY)).toBeNull();
+  });
+
+  it('should load a rate table from a JSON file', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'core-banking-fx-'));
+    const file = path.join(dir, 'rates.json');
+    fs.writeFileSync(file, JSON.stringify(RATES));
+
+    const quote = await JsonRateTableProvider.fromFile(file).getRate(Currency.EUR, Currency.USD);
+    fs.rmSync(dir, { recursive: true, force: true });
+
+    expect(quote?.rate).toBeCloseTo(1 / 0.92, 10);
+  });
+});
+
+describe('convert', () => {
+  it('should apply the spread against the customer', () => {
+    expect(applySpread(0.92, 0.01)).toBe(0.9108);
+  });
+
+  it('should round the converted amount to the source scale', () => {
+    const conversion = convert(
+      { amount: 33.33, currency: Currency.USD, scale: 2 },
+      { base: Currency.USD, quote: Currency.EUR, rate: 0.92, asOf: new Date() },
+      0.01
+    );
+
+    expect(conversion.destinationAmount).toEqual({ amount: 30.36, currency: Currency.EUR, scale: 2 });
+    expect(conversion.rate).toBe(0.9108);
+  });
+});
+
+describe('Cross-currency transfers', () => {
+  let repositories: BankingRepositories;
+  let api: BankingAPI;
+  let usdAccountId: string;
+  let eurAccountId: string;
+
+  async function openAccount(target: BankingAPI, currency: Currency, initialDeposit?: number): Promise<string> {
+    const products = await target.getProducts();
+    if (!products.success) throw products.error;
+    const result = await target.createAccount({
+      customerId: `cust-fx-${currency}`,
+      customerType: 'INDIVIDUAL',
+      productId: products.data[0]!.id,
+      currency,
+      ...(initialDeposit !== undefined ? { initialDeposit } : {}),
+    });
+    if (!result.success) throw result.error;
+    return result.data.id;
+  }
+
+  beforeEach(async () => {
+    repositories = createInMemoryRepositories();
+    api = new BankingAPI(repositories, undefined, {
+      exchangeRates: new JsonRateTableProvider(RATES),
+      fxSpread: 0.01,
+    });
+    usdAccountId = await openAccount(api, Currency.USD, 500);
+    eurAccountId = await openAccount(api, Currency.EUR);
+  });
+
+  it('should credit the converted amount and record the rate', async () => {
+    const result = await api.transfer({
+      sourceAccountId: usdAccountId,
+      destinationAccountId: eurAccountId,
+      amount: 100,
+      currency: Currency.USD,
+    });
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.data.exchangeRate).toBe(0.9108);
+    expect(result.data.fee).toEqual({ amount: 3, currency: Currency.USD, scale: 2 });
+    expect(result.data.metadata['fx']).toMatchObject({
+      sourceAmount: { amount: 100, currency: Currency.USD },
+      destinationAmount: { amount: 91.08, currency: Currency.EUR },
+      midRate: 0.92,
+      spread: 0.01,
+    });
+
+    const usd = await api.getBalance(usdAccountId);
+    const eur = await api.getBalance(eurAccountId);
+    expect(usd.success && usd.data.availableBalance.amount).toBe(397);
+    expect(eur.success && eur.data.availableBalance).toMatchObject({ amount: 91.08, currency: Currency.EUR });
+  });
+
+  it('should balance the ledger legs of each currency through the FX position accounts', async () => {
+    const result = await api.transfer({
+      sourceAccountId: usdAccountId,
+      destinationAccountId: eurAccountId,
+      amount: 100,
+      currency: Currency.USD,
+    });
+    if (!result.success) throw result.error;
+
+    const entries = await repositories.ledger.findByTransactionId(result.data.id.value);
+    expect(entries).toHaveLength(4);
+
+    const net = new Map<Currency, number>();
+    for (const entry of entries) {
+      const signed = entry.entryType === EntryType.CREDIT ? entry.amount.amount : -entry.amount.amount;
+      net.set(entry.amount.currency, (net.get(entry.amount.currency) ?? 0) + signed);
+    }
+    expect(net.get(Currency.USD)).toBeCloseTo(0, 10);
+    expect(net.get(Currency.EUR)).toBeCloseTo(0, 10);
+
+    const usdPosition = await repositories.balances.findByAccountId('INT-FX_POSITION-USD');
+    const eurPosition = await repositories.balances.findByAccountId('INT-FX_POSITION-EUR');
+    expect(usdPosition?.ledgerBalance.amount).toBe(100);
+    expect(eurPosition?.ledgerBalance.amount).toBe(-91.08);
+  });
+
+  it('should reject a transfer in a currency other than the source account', async () => {
+    const result = await api.transfer({
+      sourceAccountId: usdAccountId,
+      destinationAccountId: eurAccountId,
+      amount: 100,
+      currency: Currency.EUR,
+    });
+
+    expect(result.success).toBe(false);
+  });
+
+  it('should fail when no rate is available', async () => {
+    const withoutRates = new BankingAPI();
+    const sourceId = await openAccount(withoutRates, Currency.USD, 500);
+    const destId = await openAccount(withoutRates, Currency.EUR);
+
+    const result = await withoutRates.transfer({
+      sourceAccountId: sourceId,
+      destinationAccountId: destId,
+      amount: 100,
+      currency: Currency.USD,
+    });
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.code).toBe('EXCHANGE_RATE_UNAVAILABLE');
+    }
+  });
+
+  it('should unwind every leg when an FX transfer is reversed, leaving the fee charged', async () => {
+    const transfer = await api.transfer({
+      sourceAccountId: usdAccountId,
+      destinationAccountId: eurAccountId,
+      amount: 100,
+      currency: Currency.USD,
+    });
+    if (!transfer.success) throw transfer.error;
+
+    const reversal = await api.reverseTransaction(transfer.data.id.value, 'Customer request');
+    expect(reversal.success).toBe(true);
+
+    const original = await api.getTransaction(transfer.data.id.value);
+    expect(original.success && original.data.status).toBe(TransactionStatus.REVERSED);
+
+    const usd = await api.getBalance(usdAccountId);
+    const eur = await api.getBalance(eurAccountId);
+    const eurPosition = await repositories.balances.findByAccountId('INT-FX_POSITION-EUR');
+    expect(usd.success && usd.data.availableBalance.amount).toBe(497);
+    expect(eur.success && eur.data.availableBalance.amount).toBe(0);
+    expect(eurPosition?.ledgerBalance.amount).toBe(0);
+  });
+});
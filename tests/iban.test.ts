@@ -0,0 +1,161 @@
+/**
+ * Core Banking System - IBAN Tests
+ *
+ * Tests for IBAN generation, mod-97 validation and IBAN addressing of accounts
+ */
+
+import { BankingAPI } from '../src/api/banking-api';
+import { BankingRepositories, createInMemoryRepositories } from '../src/persistence';
+import { Currency } from '../src/core/domain';
+import { formatIban, generateIban, ibanCheckDigits, isValidIban } from '../src/utils/iban';
+
+describe('IBAN utilities', () => {
+  it('should compute ISO 13616 check digits', () => {
+    expect(ibanCheckDigits('GB', 'WEST12345698765432')).toBe('82');
+    expect(ibanCheckDigits('DE', '370400440532013000')).toBe('89');
+  });
+
+  it('should generate IBANs that fill the country length', () => {
+    const iban = generateIban('DE', '37040044', '532013000');
+
+    expect(iban).toBe('DE89370400440532013000');
+    expect(formatIban(iban)).toBe('DE89 3704 0044 0532 0130 00');
+    expect(() => generateIban('US', '021000021', '1')).toThrow('not issued for country US');
+    expect(() => generateIban('NL', 'ABNA', '12345678901')).toThrow('does not fit');
+  });
+
+  it('should validate structure, country length and mod-97 check digits', () => {
+    expect(isValidIban('gb82 west 1234 5698 7654 32')).toBe(true);
+    expect(isValidIban('GB82WEST12345698765433')).toBe(false);
+    expect(isValidIban('GB82WEST1234569876543')).toBe(false);
+    expect(isValidIban('ACC-123')).toBe(false);
+  });
+});
+
+describe('BankingAPI IBANs', () => {
+  let repositories: BankingRepositories;
+  let api: BankingAPI;
+
+  async function openAccount(
+    bank: BankingAPI,
+    initialDeposit: number
+  ): Promise<{ id: string; iban: string }> {
+    const products = await bank.getProducts();
+    if (!products.success) throw products.error;
+    const account = await bank.createAccount({
+      customerId: 'cust-iban',
+      customerType: 'INDIVIDUAL',
+      productId: products.data.find((p) => p.name === 'Basic Current Account')!.id,
+      currency: Currency.USD,
+      initialDeposit,
+    });
+    if (!account.success) throw account.error;
+    return account.data;
+  }
+
+  beforeEach(() => {
+    repositories = createInMemoryRepositories();
+    api = new BankingAPI(repositories);
+  });
+
+  it('should issue every account a valid IBAN under the configured bank', async () => {
+    const irish = new BankingAPI(createInMemoryRepositories(), undefined, {
+      iban: { country: 'IE', bankCode: 'CORE' },
+    });
+
+    const account = await openAccount(irish, 0);
+
+    expect(account.iban).toMatch(/^IE\d{2}CORE000001\d{8}$/);
+    expect(isValidIban(account.iban)).toBe(true);
+    for (const country of ['NL', 'BE']) {
+      expect(
+        () => new BankingAPI(undefined, undefined, { iban: { country, bankCode: 'CORE' } })
+      ).toThrow();
+    }
+  });
+
+  it('should find accounts by IBAN', async () => {
+    const account = await openAccount(api, 0);
+
+    const found = await api.getAccountByIban(formatIban(account.iban).toLowerCase());
+
+    expect(found.success && found.data.id).toBe(account.id);
+    expect((await api.getAccountByIban('GB82WEST12345698765432')).success).toBe(false);
+  });
+
+  it('should accept IBANs in place of account ids on transfers and payments', async () => {
+    const source = await openAccount(api, 500);
+    const destination = await openAccount(api, 0);
+
+    const transfer = await api.transfer({
+      sourceAccountId: formatIban(source.iban),
+      destinationAccountId: destination.iban,
+      amount: 100,
+      currency: Currency.USD,
+    });
+    const payment = await api.pay({
+      sourceAccountId: source.iban,
+      amount: 50,
+      currency: Currency.USD,
+      beneficiaryName: 'Acme Supplies Ltd',
+      beneficiaryIban: 'DE89370400440532013000',
+    });
+
+    expect(transfer.success && transfer.data.sourceAccountId).toBe(source.id);
+    expect(transfer.success && transfer.data.destinationAccountId).toBe(destination.id);
+    expect(payment.success && payment.data.sourceAccountId).toBe(source.id);
+    const balance = await api.getBalance(destination.id);
+    expect(balance.success && balance.data.ledgerBalance.amount).toBe(100);
+  });
+
+  it('should route transfers by IBAN to the right account when accounts open concurrently', async () => {
+    const source = await openAccount(api, 600);
+    const payees = await Promise.all([openAccount(api, 0), openAccount(api, 0), openAccount(api, 0)]);
+
+    for (const [index, payee] of payees.entries()) {
+      const transfer = await api.transfer({
+        sourceAccountId: source.iban,
+        destinationAccountId: payee.iban,
+        amount: (index + 1) * 100,
+        currency: Currency.USD,
+      });
+      expect(transfer.success && transfer.data.destinationAccountId).toBe(payee.id);
+    }
+
+    for (const [index, payee] of payees.entries()) {
+      const balance = await api.getBalance(payee.id);
+      expect(balance.success && balance.data.ledgerBalance.amount).toBe((index + 1) * 100);
+    }
+  });
+
+  it('should refuse to store a second account under an issued IBAN', async () => {
+    const account = await openAccount(api, 0);
+    const existing = (await repositories.accounts.findById(account.id))!;
+
+    await expect(
+      repositories.accounts.save({
+        ...existing,
+        id: 'ACC-copy',
+        accountNumber: { ...existing.accountNumber, value: '010000019999999900' },
+        version: 1,
+      })
+    ).rejects.toMatchObject({ code: 'ACCOUNT_ALREADY_EXISTS' });
+  });
+
+  it('should refuse payments to beneficiary IBANs failing the mod-97 check', async () => {
+    const source = await openAccount(api, 500);
+
+    const result = await api.pay({
+      sourceAccountId: source.id,
+      amount: 50,
+      currency: Currency.USD,
+      beneficiaryName: 'Acme Supplies Ltd',
+      beneficiaryIban: 'DE89370400440532013001',
+    });
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error).toMatchObject({ field: 'beneficiaryIban' });
+    }
+  });
+});
@@ -0,0 +1,154 @@
+/**
+ * Core Banking System - Interest Tests
+ *
+ * Tests for daily interest accrual, month-end capitalisation and the interest report
+ */
+
+import { BankingAPI } from '../src/api/banking-api';
+import { dailyInterest, endOfDayBalance } from '../src/interest';
+import { BankingRepositories, createInMemoryRepositories } from '../src/persistence';
+import { Currency, EntryType, LedgerEntry, TransactionType } from '../src/core/domain';
+import { addDays, businessDay } from '../src/utils/business-date';
+
+describe('Interest accrual calculations', () => {
+  const entry = (postingDate: string, balance: number): LedgerEntry => ({
+    id: `LE-${postingDate}`,
+    accountId: 'ACC-1',
+    transactionId: 'TXN-1',
+    entryType: EntryType.CREDIT,
+    amount: { amount: 0, currency: Currency.USD, scale: 2 },
+    balance: { amount: balance, currency: Currency.USD, scale: 2 },
+    createdAt: new Date(postingDate),
+    sequenceNumber: 1,
+    relatedEntryId: null,
+    description: 'test',
+    postingDate: new Date(postingDate),
+    valueDate: new Date(postingDate),
+  });
+
+  it('should take the last balance posted before the close of the day', () => {
+    const entries = [
+      entry('2024-03-01T09:00:00Z', 100),
+      entry('2024-03-01T17:00:00Z', 250),
+      entry('2024-03-02T08:00:00Z', 40),
+    ];
+
+    expect(endOfDayBalance(entries, new Date('2024-02-29T00:00:00Z'))).toBe(0);
+    expect(endOfDayBalance(entries, new Date('2024-03-01T00:00:00Z'))).toBe(250);
+  });
+
+  it('should accrue on positive balances only', () => {
+    expect(dailyInterest(36500, 0.05)).toBe(5);
+    expect(dailyInterest(-500, 0.05)).toBe(0);
+  });
+});
+
+describe('BankingAPI interest', () => {
+  let repositories: BankingRepositories;
+  let api: BankingAPI;
+  let accountId: string;
+
+  // Dates in the month after next, so every posting made by the test is already on the books
+  const today = businessDay(new Date());
+  const monthEnd = new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth() + 2, 0));
+  const dayBefore = addDays(monthEnd, -1);
+
+  async function openAccount(productId: string, initialDeposit: number): Promise<string> {
+    const result = await api.createAccount({
+      customerId: 'cust-interest',
+      customerType: 'INDIVIDUAL',
+      productId,
+      currency: Currency.USD,
+      initialDeposit,
+    });
+    if (!result.success) throw result.error;
+    return result.data.id;
+  }
+
+  beforeEach(async () => {
+    repositories = createInMemoryRepositories();
+    api = new BankingAPI(repositories);
+
+    const products = await api.getProducts();
+    if (!products.success) throw products.error;
+    const premium = products.data.find((p) => p.name === 'Premium Current Account')!;
+    const savings = await api.createProduct({
+      ...premium,
+      name: 'Test Saver',
+      interestRate: 0.0365,
+      features: { ...premium.features, paysInterest: true },
+    });
+    if (!savings.success) throw savings.error;
+
+    accountId = await openAccount(savings.data.id, 10000);
+  });
+
+  it('should accrue a day of interest on the end-of-day balance once', async () => {
+    const first = await api.runInterestAccrual(dayBefore);
+    const rerun = await api.runInterestAccrual(dayBefore);
+
+    expect(first.success).toBe(true);
+    if (!first.success) return;
+    expect(first.data.accruals).toHaveLength(1);
+    expect(first.data.accruals[0]).toMatchObject({
+      accountId,
+      balance: { amount: 10000 },
+      annualRate: 0.0365,
+      amount: 1,
+    });
+    expect(first.data.capitalisations).toEqual([]);
+    expect(rerun.success && rerun.data.accruals).toEqual([]);
+  });
+
+  it('should not accrue on products that pay no interest', async () => {
+    const products = await api.getProducts();
+    if (!products.success) throw products.error;
+    await openAccount(products.data.find((p) => p.name === 'Standard Current Account')!.id, 10000);
+
+    const result = await api.runInterestAccrual(dayBefore);
+
+    expect(result.success && result.data.accruals.map((a) => a.accountId)).toEqual([accountId]);
+  });
+
+  it('should capitalise unpaid accruals as an INTEREST credit at month end', async () => {
+    await api.runInterestAccrual(dayBefore);
+    const result = await api.runInterestAccrual(monthEnd);
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.data.capitalisations).toHaveLength(1);
+    const interest = result.data.capitalisations[0]!;
+    expect(interest.type).toBe(TransactionType.INTEREST);
+    expect(interest.destinationAccountId).toBe(accountId);
+    expect(interest.amount.amount).toBe(2);
+    expect(interest.metadata['accrualDays']).toBe(2);
+
+    const balance = await api.getBalance(accountId);
+    expect(balance.success && balance.data.ledgerBalance.amount).toBe(10002);
+    const expense = await repositories.balances.findByAccountId('INT-INTEREST_EXPENSE-USD');
+    expect(expense?.ledgerBalance.amount).toBe(-2);
+
+    const rerun = await api.runInterestAccrual(monthEnd);
+    expect(rerun.success && rerun.data.capitalisations).toEqual([]);
+  });
+
+  it('should report accrued against paid interest', async () => {
+    await api.runInterestAccrual(dayBefore);
+
+    const beforeMonthEnd = await api.getInterestReport(accountId, dayBefore, dayBefore);
+    expect(beforeMonthEnd.success && beforeMonthEnd.data).toMatchObject({
+      accrued: 1,
+      paid: 0,
+      outstanding: 1,
+    });
+
+    await api.runInterestAccrual(monthEnd);
+
+    const afterMonthEnd = await api.getInterestReport(accountId, dayBefore, monthEnd);
+    expect(afterMonthEnd.success && afterMonthEnd.data).toMatchObject({
+      accrued: 2,
+      paid: 2,
+      outstanding: 0,
+    });
+  });
+});
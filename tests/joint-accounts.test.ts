@@ -0,0 +1,231 @@
+/**
+ * Core Banking System - Joint Account Tests
+ *
+ * Tests for account holders, holder roles and signing rules on outgoing transactions
+ */
+
+import { BankingAPI, CreateCustomerRequest } from '../src/api/banking-api';
+import { checkSignatures } from '../src/customers';
+import { BankingRepositories, createInMemoryRepositories } from '../src/persistence';
+import {
+  Account,
+  AccountHolderRole,
+  AccountStatus,
+  Currency,
+  SigningRule,
+  StandingOrderFrequency,
+} from '../src/core/domain';
+
+const person = (firstName: string): CreateCustomerRequest => ({
+  type: 'INDIVIDUAL',
+  firstName,
+  lastName: 'Example',
+  dateOfBirth: new Date('1980-01-01'),
+  address: { line1: '1 High Street', city: 'Bristol', postalCode: 'BS1 1AA', country: 'GB' },
+  email: `${firstName.toLowerCase()}@example.com`,
+});
+
+describe('Signing rule checks', () => {
+  const account = {
+    id: 'ACC-1',
+    customerId: { value: 'alice', type: 'JOINT' },
+    holders: [
+      { customerId: 'alice', role: AccountHolderRole.PRIMARY, addedAt: new Date() },
+      { customerId: 'bob', role: AccountHolderRole.SECONDARY, addedAt: new Date() },
+      { customerId: 'carol', role: AccountHolderRole.POWER_OF_ATTORNEY, addedAt: new Date() },
+    ],
+    signingRule: SigningRule.ALL_TOGETHER,
+  } as unknown as Account;
+
+  it('should require every holder to sign under ALL_TOGETHER', () => {
+    expect(checkSignatures(account, ['alice', 'bob', 'bob'])).toMatchObject({
+      code: 'SIGNING_RULE_NOT_MET',
+      required: 3,
+      signed: 2,
+    });
+    expect(checkSignatures(account, ['alice', 'bob', 'carol'])).toBeNull();
+  });
+
+  it('should refuse signatures from customers who do not hold the account', () => {
+    expect(checkSignatures(account, ['alice', 'mallory'])?.code).toBe('UNAUTHORIZED_SIGNATORY');
+  });
+});
+
+describe('BankingAPI joint accounts', () => {
+  let repositories: BankingRepositories;
+  let api: BankingAPI;
+  let productId: string;
+  let alice: string;
+  let bob: string;
+
+  async function register(firstName: string): Promise<string> {
+    const created = await api.createCustomer(person(firstName));
+    if (!created.success) throw created.error;
+    await api.verifyCustomer(created.data.id, 'kyc-officer');
+    return created.data.id;
+  }
+
+  async function openJoint(signingRule: SigningRule): Promise<string> {
+    const account = await api.createAccount({
+      customerId: alice,
+      holders: [{ customerId: bob, role: AccountHolderRole.SECONDARY }],
+      signingRule,
+      productId,
+      initialDeposit: 1000,
+    });
+    if (!account.success) throw account.error;
+    return account.data.id;
+  }
+
+  beforeEach(async () => {
+    repositories = createInMemoryRepositories();
+    api = new BankingAPI(repositories);
+    const products = await api.getProducts();
+    if (!products.success) throw products.error;
+    productId = products.data.find((p) => p.name === 'Basic Current Account')!.id;
+    alice = await register('Alice');
+    bob = await register('Bob');
+  });
+
+  it('should open a joint account listed under every holder', async () => {
+    const carol = await register('Carol');
+    const account = await api.createAccount({
+      customerId: alice,
+      holders: [
+        { customerId: bob, role: AccountHolderRole.SECONDARY },
+        { customerId: carol, role: AccountHolderRole.POWER_OF_ATTORNEY },
+      ],
+      productId,
+    });
+
+    expect(account.success).toBe(true);
+    if (!account.success) return;
+    expect(account.data.customerId).toEqual({ value: alice, type: 'JOINT' });
+    expect(account.data.holders.map((h) => h.role)).toEqual([
+      AccountHolderRole.PRIMARY,
+      AccountHolderRole.SECONDARY,
+      AccountHolderRole.POWER_OF_ATTORNEY,
+    ]);
+    for (const customerId of [alice, bob, carol]) {
+      const holdings = await api.getAccountsByCustomer(customerId);
+      expect(holdings.success && holdings.data.map((a) => a.id)).toEqual([account.data.id]);
+    }
+  });
+
+  it('should refuse unverified holders and duplicate holders', async () => {
+    const pending = await api.createCustomer(person('Dave'));
+    if (!pending.success) throw pending.error;
+
+    const unverified = await api.createAccount({
+      customerId: alice,
+      holders: [{ customerId: pending.data.id, role: AccountHolderRole.AUTHORIZED_SIGNATORY }],
+      productId,
+    });
+    const duplicate = await api.createAccount({
+      customerId: alice,
+      holders: [{ customerId: alice, role: AccountHolderRole.SECONDARY }],
+      productId,
+    });
+
+    expect(unverified.success).toBe(false);
+    if (!unverified.success) {
+      expect(unverified.error.code).toBe('CUSTOMER_NOT_VERIFIED');
+    }
+    expect(duplicate.success).toBe(false);
+  });
+
+  it('should need two holders to sign outgoing transactions under TWO_TOGETHER', async () => {
+    const accountId = await openJoint(SigningRule.TWO_TOGETHER);
+
+    const unsigned = await api.withdraw({ accountId, amount: 100, currency: Currency.USD });
+    const oneSigner = await api.withdraw({
+      accountId,
+      amount: 100,
+      currency: Currency.USD,
+      signedBy: [alice],
+    });
+    const bothSigned = await api.withdraw({
+      accountId,
+      amount: 100,
+      currency: Currency.USD,
+      signedBy: [alice, bob],
+    });
+
+    expect(unsigned.success).toBe(false);
+    if (!unsigned.success) {
+      expect(unsigned.error.code).toBe('SIGNING_RULE_NOT_MET');
+    }
+    expect(oneSigner.success).toBe(false);
+    expect(bothSigned.success).toBe(true);
+    expect(bothSigned.success && bothSigned.data.metadata['signedBy']).toEqual([alice, bob]);
+    expect((await api.deposit({ accountId, amount: 50, currency: Currency.USD })).success).toBe(
+      true
+    );
+  });
+
+  it('should check standing orders when set up rather than on each instalment', async () => {
+    const accountId = await openJoint(SigningRule.TWO_TOGETHER);
+    const payee = await api.createAccount({ customerId: bob, productId });
+    if (!payee.success) throw payee.error;
+    const order = {
+      sourceAccountId: accountId,
+      destinationAccountId: payee.data.id,
+      amount: 25,
+      currency: Currency.USD,
+      frequency: StandingOrderFrequency.MONTHLY,
+      startDate: new Date(),
+    };
+
+    expect((await api.createStandingOrder(order)).success).toBe(false);
+    const signed = await api.createStandingOrder({ ...order, signedBy: [alice, bob] });
+    expect(signed.success).toBe(true);
+
+    const run = await api.runStandingOrders();
+    expect(run.success && run.data.map((e) => e.status)).toEqual(['EXECUTED']);
+  });
+
+  it('should add and remove holders and change the signing rule with an audit trail', async () => {
+    const account = await api.createAccount({ customerId: alice, productId });
+    if (!account.success) throw account.error;
+    const accountId = account.data.id;
+
+    const tooFew = await api.setSigningRule(accountId, SigningRule.TWO_TOGETHER);
+    expect(tooFew.success).toBe(false);
+
+    const added = await api.addAccountHolder(accountId, bob, AccountHolderRole.SECONDARY, 'branch-7');
+    expect(added.success && added.data.customerId.type).toBe('JOINT');
+    await api.setSigningRule(accountId, SigningRule.TWO_TOGETHER, 'branch-7');
+
+    expect((await api.removeAccountHolder(accountId, alice)).success).toBe(false);
+    await api.setSigningRule(accountId, SigningRule.ANY_ONE, 'branch-7');
+    const removed = await api.removeAccountHolder(accountId, bob, 'branch-7');
+
+    expect(removed.success).toBe(true);
+    if (!removed.success) return;
+    expect(removed.data.customerId.type).toBe('INDIVIDUAL');
+    expect(removed.data.holders.map((h) => h.customerId)).toEqual([alice]);
+    const bobsHoldings = await api.getAccountsByCustomer(bob);
+    expect(bobsHoldings.success && bobsHoldings.data).toEqual([]);
+
+    const trail = await repositories.auditLog.findByEntity('Account', accountId);
+    expect(trail.map((e) => e.action)).toEqual([
+      'HOLDER_ADDED',
+      'SIGNING_RULE_CHANGED',
+      'SIGNING_RULE_CHANGED',
+      'HOLDER_REMOVED',
+    ]);
+    expect(trail[1]!.changes).toEqual({
+      signingRule: { from: SigningRule.ANY_ONE, to: SigningRule.TWO_TOGETHER },
+    });
+  });
+
+  it('should not add holders to closed accounts', async () => {
+    const account = await api.createAccount({ customerId: alice, productId });
+    if (!account.success) throw account.error;
+    await api.updateAccountStatus(account.data.id, AccountStatus.CLOSED);
+
+    const result = await api.addAccountHolder(account.data.id, bob, AccountHolderRole.SECONDARY);
+
+    expect(result.success).toBe(false);
+  });
+});
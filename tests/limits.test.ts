@@ -0,0 +1,188 @@
+/**
+ * Core Banking System - Transaction Limit Tests
+ *
+ * Tests for rolling daily, monthly, count and ATM limits on customer debits
+ */
+
+import { BankingAPI } from '../src/api/banking-api';
+import { checkTransactionLimits, limitUsage } from '../src/limits';
+import { BankingRepositories, createInMemoryRepositories } from '../src/persistence';
+import {
+  Currency,
+  Transaction,
+  TransactionLimits,
+  TransactionStatus,
+  TransactionType,
+} from '../src/core/domain';
+
+const usd = (amount: number) => ({ amount, currency: Currency.USD, scale: 2 });
+
+const limits: TransactionLimits = {
+  maxTransactionAmount: usd(1000),
+  maxDailyAmount: usd(1500),
+  maxMonthlyAmount: usd(4000),
+  maxTransactionsPerDay: 3,
+  maxAtmWithdrawalPerDay: usd(300),
+};
+
+describe('Transaction limit calculations', () => {
+  const now = new Date('2024-03-15T12:00:00Z');
+
+  const debit = (
+    hoursAgo: number,
+    amount: number,
+    overrides: Partial<Transaction> = {}
+  ): Transaction => ({
+    id: { value: `TXN-${hoursAgo}`, generatedAt: now, source: 'TEST' },
+    sourceAccountId: 'ACC-1',
+    destinationAccountId: null,
+    amount: usd(amount),
+    currency: Currency.USD,
+    type: TransactionType.WITHDRAWAL,
+    status: TransactionStatus.COMPLETED,
+    reference: `REF-${hoursAgo}`,
+    description: 'test',
+    createdAt: new Date(now.getTime() - hoursAgo * 60 * 60 * 1000),
+    completedAt: null,
+    initiatedBy: 'test',
+    authorizationCode: null,
+    fee: null,
+    exchangeRate: null,
+    originalTransactionId: null,
+    failureReason: null,
+    metadata: {},
+    version: 1,
+    ...overrides,
+  });
+
+  it('should total debits over rolling day and 30-day windows', () => {
+    const usage = limitUsage(
+      [
+        debit(1, 100, { metadata: { channel: 'ATM' } }),
+        debit(23, 200),
+        debit(25, 400),
+        debit(24 * 29, 800),
+        debit(24 * 31, 1600),
+        debit(2, 50, { status: TransactionStatus.REJECTED }),
+        debit(3, 75, {
+          type: TransactionType.DEPOSIT,
+          sourceAccountId: null,
+          destinationAccountId: 'ACC-1',
+        }),
+      ],
+      'ACC-1',
+      now
+    );
+
+    expect(usage).toEqual({ dailyAmount: 300, monthlyAmount: 1500, dailyCount: 2, atmDailyAmount: 100 });
+  });
+
+  it('should report the monthly limit with its remaining headroom', () => {
+    const breach = checkTransactionLimits(
+      limits,
+      { dailyAmount: 0, monthlyAmount: 3500, dailyCount: 0, atmDailyAmount: 0 },
+      { amount: usd(600), atm: false }
+    );
+
+    expect(breach).toMatchObject({
+      code: 'TRANSACTION_LIMIT_EXCEEDED',
+      limitType: 'Monthly amount',
+      limit: 4000,
+      attempted: 4100,
+      remaining: 500,
+    });
+  });
+});
+
+describe('BankingAPI transaction limits', () => {
+  let repositories: BankingRepositories;
+  let api: BankingAPI;
+  let accountId: string;
+  let payeeId: string;
+
+  beforeEach(async () => {
+    repositories = createInMemoryRepositories();
+    api = new BankingAPI(repositories);
+
+    const products = await api.getProducts();
+    if (!products.success) throw products.error;
+    const premium = products.data.find((p) => p.name === 'Premium Current Account')!;
+    const product = await api.createProduct({ ...premium, name: 'Limited Account', limits });
+    if (!product.success) throw product.error;
+
+    const open = async (customerId: string, initialDeposit: number): Promise<string> => {
+      const account = await api.createAccount({
+        customerId,
+        customerType: 'INDIVIDUAL',
+        productId: product.data.id,
+        currency: Currency.USD,
+        initialDeposit,
+      });
+      if (!account.success) throw account.error;
+      return account.data.id;
+    };
+    accountId = await open('cust-limits', 5000);
+    payeeId = await open('cust-limits-payee', 1000);
+  });
+
+  it('should refuse a debit above the single transaction limit', async () => {
+    const result = await api.withdraw({ accountId, amount: 1000.01, currency: Currency.USD });
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.message).toBe(
+        'Single transaction limit exceeded: limit 1000, attempted 1000.01, remaining 1000'
+      );
+    }
+  });
+
+  it('should count transfers, withdrawals and payments towards the daily amount', async () => {
+    await api.transfer({
+      sourceAccountId: accountId,
+      destinationAccountId: payeeId,
+      amount: 600,
+      currency: Currency.USD,
+    });
+    await api.withdraw({ accountId, amount: 500, currency: Currency.USD });
+
+    const result = await api.pay({
+      sourceAccountId: accountId,
+      amount: 450,
+      currency: Currency.USD,
+      beneficiaryName: 'Acme Supplies Ltd',
+      beneficiaryIban: 'DE89370400440532013000',
+    });
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error).toMatchObject({ limitType: 'Daily amount', remaining: 400 });
+    }
+    expect((await api.deposit({ accountId, amount: 450, currency: Currency.USD })).success).toBe(true);
+  });
+
+  it('should limit the number of debits per day', async () => {
+    for (let i = 0; i < 3; i++) {
+      await api.withdraw({ accountId, amount: 10, currency: Currency.USD });
+    }
+
+    const result = await api.withdraw({ accountId, amount: 10, currency: Currency.USD });
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error).toMatchObject({ limitType: 'Daily transaction count', remaining: 0 });
+    }
+  });
+
+  it('should apply the ATM limit to ATM withdrawals only', async () => {
+    await api.withdraw({ accountId, amount: 200, currency: Currency.USD, channel: 'ATM' });
+
+    const atm = await api.withdraw({ accountId, amount: 150, currency: Currency.USD, channel: 'ATM' });
+    const branch = await api.withdraw({ accountId, amount: 150, currency: Currency.USD });
+
+    expect(atm.success).toBe(false);
+    if (!atm.success) {
+      expect(atm.error).toMatchObject({ limitType: 'Daily ATM withdrawal', remaining: 100 });
+    }
+    expect(branch.success).toBe(true);
+  });
+});
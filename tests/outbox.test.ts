@@ -0,0 +1,273 @@
+/**
+ * Core Banking System - Transactional Outbox Tests
+ *
+ * Tests that domain events commit with their state change and are relayed at least once
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { BankingAPI } from '../src/api/banking-api';
+import { EventBus, BankingEvent, OutboxDispatcher, createOutboxMessage } from '../src/events';
+import { createFileRepositories, createInMemoryRepositories } from '../src/persistence';
+import { Currency, OutboxStatus } from '../src/core/domain';
+
+describe('Transactional outbox', () => {
+  async function defaultProductId(api: BankingAPI): Promise<string> {
+    const products = await api.getProducts();
+    if (!products.success) throw new Error('no products');
+    return products.data[0]!.id;
+  }
+
+  it('should not publish events for an account opening that was rolled back', async () => {
+    const repositories = createInMemoryRepositories();
+    const api = new BankingAPI(repositories);
+    const received: BankingEvent[] = [];
+    api.events.subscribeAll((event) => {
+      received.push(event);
+    });
+
+    const result = await api.createAccount({
+      customerId: 'cust-rollback',
+      customerType: 'INDIVIDUAL',
+      productId: await defaultProductId(api),
+      initialDeposit: Infinity,
+    });
+
+    expect(result.success).toBe(false);
+    expect(received).toHaveLength(0);
+    expect(await repositories.outbox.findPending()).toHaveLength(0);
+    const accounts = await api.getAccountsByCustomer('cust-rollback');
+    expect(accounts.success && accounts.data).toHaveLength(0);
+  });
+
+  it('should report subscriber and relay failures to the onError option', async () => {
+    const repositories = createInMemoryRepositories();
+    const reported: Array<[string, string | null]> = [];
+    const api = new BankingAPI(repositories, undefined, {
+      onError: (error, event) => reported.push([(error as Error).message, event?.eventType ?? null]),
+    });
+    const productId = await defaultProductId(api);
+    api.events.subscribe('ACCOUNT_OPENED', () => {
+      throw new Error('downstream unavailable');
+    });
+
+    await api.createAccount({ customerId: 'cust-on-error', customerType: 'INDIVIDUAL', productId });
+    jest.spyOn(repositories.outbox, 'findPending').mockRejectedValue(new Error('outbox unavailable'));
+    const second = await api.createAccount({
+      customerId: 'cust-on-error',
+      customerType: 'INDIVIDUAL',
+      productId,
+    });
+
+    expect(second.success).toBe(true);
+    expect(reported).toEqual([
+      ['downstream unavailable', 'ACCOUNT_OPENED'],
+      ['outbox unavailable', null],
+    ]);
+  });
+
+  it('should retry failed deliveries without re-notifying successful subscribers', async () => {
+    const repositories = createInMemoryRepositories();
+    const api = new BankingAPI(repositories, new EventBus(() => undefined));
+    const healthy: string[] = [];
+    let flakyCalls = 0;
+    api.events.subscribe('ACCOUNT_OPENED', (event) => {
+      healthy.push(event.eventId);
+    });
+    api.events.subscribe('ACCOUNT_OPENED', () => {
+      flakyCalls++;
+      if (flakyCalls === 1) {
+        throw new Error('downstream unavailable');
+      }
+    });
+
+    await api.createAccount({
+      customerId: 'cust-retry',
+      customerType: 'INDIVIDUAL',
+      productId: await defaultProductId(api),
+    });
+
+    const pending = await repositories.outbox.findPending();
+    expect(pending).toHaveLength(1);
+    expect(pending[0]!.attempts).toBe(1);
+    expect(pending[0]!.lastError).not.toBeNull();
+
+    const dispatched = await api.outbox.dispatchPending();
+
+    expect(dispatched).toBe(1);
+    expect(flakyCalls).toBe(2);
+    expect(healthy).toHaveLength(1);
+    const message = await repositories.outbox.findById(healthy[0]!);
+    expect(message?.status).toBe(OutboxStatus.DISPATCHED);
+  });
+
+  it('should relay committed but undelivered events after a restart', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'core-banking-outbox-'));
+    const logPath = path.join(dir, 'bank.log');
+    try {
+      const first = new BankingAPI(createFileRepositories(logPath), new EventBus(() => undefined));
+      first.events.subscribeAll(() => {
+        throw new Error('consumer down');
+      });
+      const account = await first.createAccount({
+        customerId: 'cust-restart',
+        customerType: 'INDIVIDUAL',
+        productId: await defaultProductId(first),
+        initialDeposit: 100,
+      });
+      expect(account.success).toBe(true);
+
+      const restarted = new BankingAPI(createFileRepositories(logPath));
+      const types: string[] = [];
+      restarted.events.subscribeAll((event) => {
+        types.push(event.eventType);
+      });
+
+      await restarted.outbox.dispatchPending();
+
+      expect(types).toEqual(['ACCOUNT_OPENED', 'BALANCE_UPDATED', 'TRANSACTION_COMPLETED']);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should not re-notify named subscribers that handled an event before a restart', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'core-banking-outbox-'));
+    const logPath = path.join(dir, 'bank.log');
+    try {
+      const first = new BankingAPI(createFileRepositories(logPath), new EventBus(() => undefined));
+      first.events.subscribe('ACCOUNT_OPENED', () => undefined, 'ledger-feed');
+      first.events.subscribe(
+        'ACCOUNT_OPENED',
+        () => {
+          throw new Error('consumer down');
+        },
+        'crm-sync'
+      );
+      await first.createAccount({
+        customerId: 'cust-named',
+        customerType: 'INDIVIDUAL',
+        productId: await defaultProductId(first),
+      });
+
+      const restarted = new BankingAPI(createFileRepositories(logPath));
+      const calls: string[] = [];
+      restarted.events.subscribe('ACCOUNT_OPENED', () => void calls.push('ledger-feed'), 'ledger-feed');
+      restarted.events.subscribe('ACCOUNT_OPENED', () => void calls.push('crm-sync'), 'crm-sync');
+
+      expect(await restarted.outbox.dispatchPending()).toBe(1);
+      expect(calls).toEqual(['crm-sync']);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should purge dispatched messages and keep pending ones', async () => {
+    const repositories = createInMemoryRepositories();
+    const api = new BankingAPI(repositories, new EventBus(() => undefined));
+    const productId = await defaultProductId(api);
+    await api.createAccount({ customerId: 'cust-purge', customerType: 'INDIVIDUAL', productId });
+    const unsubscribe = api.events.subscribeAll(() => {
+      throw new Error('consumer down');
+    });
+    await api.createAccount({ customerId: 'cust-purge', customerType: 'INDIVIDUAL', productId });
+    unsubscribe();
+
+    const purged = await api.purgeDispatchedEvents(new Date(Date.now() + 1000));
+
+    expect(purged.success && purged.data).toBe(1);
+    const pending = await repositories.outbox.findPending();
+    expect(pending).toHaveLength(1);
+    expect(await api.outbox.dispatchPending()).toBe(1);
+  });
+
+  it('should not fail a committed operation when the relay fails', async () => {
+    const repositories = createInMemoryRepositories();
+    const api = new BankingAPI(repositories);
+    const productId = await defaultProductId(api);
+    const findPending = jest
+      .spyOn(repositories.outbox, 'findPending')
+      .mockRejectedValueOnce(new Error('outbox unavailable'));
+    const logged = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    try {
+      const result = await api.createAccount({
+        customerId: 'cust-relay-down',
+        customerType: 'INDIVIDUAL',
+        productId,
+      });
+
+      expect(result.success).toBe(true);
+      expect(logged).toHaveBeenCalled();
+      const accounts = await api.getAccountsByCustomer('cust-relay-down');
+      expect(accounts.success && accounts.data).toHaveLength(1);
+      expect(await api.outbox.dispatchPending()).toBe(1);
+    } finally {
+      findPending.mockRestore();
+      logged.mockRestore();
+    }
+  });
+
+  it('should relay a backlog larger than a batch and dead-letter a message that keeps failing', async () => {
+    const repositories = createInMemoryRepositories();
+    const bus = new EventBus(() => undefined);
+    const dispatcher = new OutboxDispatcher(repositories.outbox, bus, 2, 2);
+    const relayed: string[] = [];
+    bus.subscribeAll((event) => {
+      if (event.eventId === 'evt-0') {
+        throw new Error('poison message');
+      }
+      relayed.push(event.eventId);
+    });
+    for (let i = 0; i < 5; i++) {
+      const event = {
+        eventId: `evt-${i}`,
+        eventType: 'ACCOUNT_OPENED',
+        aggregateId: `ACC-${i}`,
+        occurredAt: new Date(),
+        version: 1,
+        metadata: {},
+      } as unknown as BankingEvent;
+      await repositories.outbox.save(createOutboxMessage(event, i + 1));
+    }
+
+    expect(await dispatcher.dispatchPending()).toBe(4);
+    expect(relayed).toEqual(['evt-1', 'evt-2', 'evt-3', 'evt-4']);
+    expect((await repositories.outbox.findById('evt-0'))?.status).toBe(OutboxStatus.PENDING);
+
+    expect(await dispatcher.dispatchPending()).toBe(0);
+    const parked = await repositories.outbox.findById('evt-0');
+    expect(parked).toMatchObject({ status: OutboxStatus.DEAD_LETTER, attempts: 2 });
+    expect(parked?.lastError).not.toBeNull();
+    expect(await repositories.outbox.findPending()).toEqual([]);
+  });
+
+  it('should deliver events for committed transfers exactly once per subscriber', async () => {
+    const api = new BankingAPI();
+    const productId = await defaultProductId(api);
+    const source = await api.createAccount({
+      customerId: 'cust-src',
+      customerType: 'INDIVIDUAL',
+      productId,
+      initialDeposit: 500,
+    });
+    const dest = await api.createAccount({ customerId: 'cust-dst', customerType: 'INDIVIDUAL', productId });
+    if (!source.success || !dest.success) throw new Error('setup failed');
+
+    const completed: string[] = [];
+    api.events.subscribe('TRANSACTION_COMPLETED', (event) => {
+      completed.push(event.transactionId);
+    });
+
+    await api.transfer({
+      sourceAccountId: source.data.id,
+      destinationAccountId: dest.data.id,
+      amount: 100,
+      currency: Currency.USD,
+    });
+    await api.outbox.dispatchPending();
+
+    expect(completed).toHaveLength(1);
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * Core Banking System - Overdraft Tests
+ *
+ * Tests for overdraft usage tracking, the overdraft fee and overdraft interest
+ */
+
+import { BankingAPI } from '../src/api/banking-api';
+import { dailyOverdraftInterest, overdraftUsage } from '../src/interest';
+import { BankingRepositories, createInMemoryRepositories } from '../src/persistence';
+import { BalanceUpdatedEvent, Currency, TransactionType } from '../src/core/domain';
+import { BankingEvent } from '../src/events';
+import { addDays, businessDay } from '../src/utils/business-date';
+
+describe('Overdraft calculations', () => {
+  it('should report overdraft usage only for negative balances', () => {
+    expect(overdraftUsage({ amount: -120.5, currency: Currency.USD, scale: 2 })).toEqual({
+      amount: 120.5,
+      currency: Currency.USD,
+      scale: 2,
+    });
+    expect(overdraftUsage({ amount: 0, currency: Currency.USD, scale: 2 })).toBeNull();
+  });
+
+  it('should charge interest on overdrawn balances only', () => {
+    expect(dailyOverdraftInterest(-36500, 0.05)).toBe(5);
+    expect(dailyOverdraftInterest(500, 0.05)).toBe(0);
+  });
+});
+
+describe('BankingAPI overdrafts', () => {
+  let repositories: BankingRepositories;
+  let api: BankingAPI;
+
+  // Dates in the month after next, so every posting made by the test is already on the books
+  const today = businessDay(new Date());
+  const monthEnd = new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth() + 2, 0));
+  const dayBefore = addDays(monthEnd, -1);
+
+  async function openAccount(productName: string, initialDeposit: number): Promise<string> {
+    const products = await api.getProducts();
+    if (!products.success) throw products.error;
+    const result = await api.createAccount({
+      customerId: 'cust-overdraft',
+      customerType: 'INDIVIDUAL',
+      productId: products.data.find((p) => p.name === productName)!.id,
+      currency: Currency.USD,
+      initialDeposit,
+    });
+    if (!result.success) throw result.error;
+    return result.data.id;
+  }
+
+  const overdraftFees = async (accountId: string): Promise<number[]> =>
+    (await repositories.transactions.findByAccountId(accountId))
+      .filter((t) => t.type === TransactionType.FEE && t.metadata['overdraftCycle'])
+      .map((t) => t.amount.amount);
+
+  beforeEach(async () => {
+    repositories = createInMemoryRepositories();
+    api = new BankingAPI(repositories);
+  });
+
+  it('should track overdraft usage and charge the fee on entering overdraft', async () => {
+    const accountId = await openAccount('Standard Current Account', 100);
+
+    const withdrawal = await api.withdraw({ accountId, amount: 300, currency: Currency.USD });
+
+    expect(withdrawal.success).toBe(true);
+    expect(await overdraftFees(accountId)).toEqual([35]);
+    const balance = await api.getBalance(accountId);
+    expect(balance.success && balance.data.ledgerBalance.amount).toBe(-235);
+    expect(balance.success && balance.data.overdraftUsage?.amount).toBe(235);
+    const feeIncome = await repositories.balances.findByAccountId('INT-FEE_INCOME-USD');
+    expect(feeIncome?.ledgerBalance.amount).toBe(35);
+
+    await api.deposit({ accountId, amount: 500, currency: Currency.USD });
+    const repaid = await api.getBalance(accountId);
+    expect(repaid.success && repaid.data.overdraftUsage).toBeNull();
+  });
+
+  it('should charge the overdraft fee once per cycle', async () => {
+    const accountId = await openAccount('Standard Current Account', 100);
+
+    await api.withdraw({ accountId, amount: 200, currency: Currency.USD });
+    await api.deposit({ accountId, amount: 300, currency: Currency.USD });
+    await api.withdraw({ accountId, amount: 300, currency: Currency.USD });
+
+    expect(await overdraftFees(accountId)).toEqual([35]);
+  });
+
+  it('should publish the overdraft fee after the debit that caused it', async () => {
+    const accountId = await openAccount('Standard Current Account', 100);
+    const received: BankingEvent[] = [];
+    api.events.subscribeAll((event) => {
+      received.push(event);
+    });
+
+    const withdrawal = await api.withdraw({ accountId, amount: 300, currency: Currency.USD });
+
+    if (!withdrawal.success) throw withdrawal.error;
+    const balances = received
+      .filter((e): e is BalanceUpdatedEvent => e.eventType === 'BALANCE_UPDATED')
+      .filter((e) => e.accountId === accountId)
+      .map((e) => [e.previousBalance.amount, e.newBalance.amount]);
+    expect(balances).toEqual([
+      [100, -200],
+      [-200, -235],
+    ]);
+    const completed = received.findIndex(
+      (e) => e.eventType === 'TRANSACTION_COMPLETED' && e.aggregateId === withdrawal.data.id.value
+    );
+    const feeCharged = received.findIndex(
+      (e) => e.eventType === 'BALANCE_UPDATED' && e.newBalance.amount === -235
+    );
+    expect(completed).toBeGreaterThanOrEqual(0);
+    expect(feeCharged).toBeGreaterThan(completed);
+  });
+
+  it('should not charge the overdraft fee for debits the customer did not initiate', async () => {
+    const accountId = await openAccount('Standard Current Account', 100);
+    const deposit = await api.deposit({ accountId, amount: 300, currency: Currency.USD });
+    await api.withdraw({ accountId, amount: 350, currency: Currency.USD });
+    if (!deposit.success) throw deposit.error;
+
+    const reversal = await api.reverseTransaction(deposit.data.id.value, 'Cheque bounced');
+
+    expect(reversal.success).toBe(true);
+    expect(await overdraftFees(accountId)).toEqual([]);
+    const balance = await api.getBalance(accountId);
+    expect(balance.success && balance.data.ledgerBalance.amount).toBe(-250);
+  });
+
+  it('should accrue overdraft interest daily and charge it at month end', async () => {
+    const products = await api.getProducts();
+    if (!products.success) throw products.error;
+    const standard = products.data.find((p) => p.name === 'Standard Current Account')!;
+    const product = await api.createProduct({
+      ...standard,
+      name: 'Test Overdraft',
+      minimumBalance: { ...standard.minimumBalance, amount: 0 },
+      overdraftLimit: { ...standard.overdraftLimit!, amount: 5000 },
+      overdraftInterestRate: 0.365,
+      fees: { ...standard.fees, overdraftFee: null },
+    });
+    if (!product.success) throw product.error;
+    const accountId = await openAccount('Test Overdraft', 0);
+    await api.withdraw({ accountId, amount: 1000, currency: Currency.USD });
+    expect(await overdraftFees(accountId)).toEqual([]);
+
+    const accrued = await api.runInterestAccrual(dayBefore);
+    expect(accrued.success && accrued.data.overdraftAccruals).toMatchObject([
+      { accountId, overdraftUsage: { amount: 1000 }, annualRate: 0.365, amount: 1 },
+    ]);
+    expect(accrued.success && accrued.data.accruals).toEqual([]);
+
+    const charged = await api.runInterestAccrual(monthEnd);
+
+    expect(charged.success).toBe(true);
+    if (!charged.success) return;
+    expect(charged.data.overdraftCharges).toHaveLength(1);
+    expect(charged.data.overdraftCharges[0]).toMatchObject({
+      type: TransactionType.INTEREST,
+      sourceAccountId: accountId,
+      amount: { amount: 2 },
+    });
+    const balance = await api.getBalance(accountId);
+    expect(balance.success && balance.data.ledgerBalance.amount).toBe(-1002);
+    const income = await repositories.balances.findByAccountId('INT-INTEREST_INCOME-USD');
+    expect(income?.ledgerBalance.amount).toBe(2);
+
+    const rerun = await api.runInterestAccrual(monthEnd);
+    expect(rerun.success && rerun.data.overdraftCharges).toEqual([]);
+  });
+});
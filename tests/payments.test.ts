@@ -0,0 +1,176 @@
+/**
+ * Core Banking System - Payment Tests
+ *
+ * Tests for outgoing payments and their settlement lifecycle
+ */
+
+import { BankingAPI, PaymentRequest } from '../src/api/banking-api';
+import { BankingRepositories, createInMemoryRepositories } from '../src/persistence';
+import { Currency, TransactionCompletedEvent, TransactionStatus, TransactionType } from '../src/core/domain';
+
+describe('BankingAPI payments', () => {
+  let repositories: BankingRepositories;
+  let api: BankingAPI;
+  let accountId: string;
+
+  const clearingBalance = async (): Promise<number | undefined> =>
+    (await repositories.balances.findByAccountId('INT-OUTGOING_PAYMENTS-USD'))?.ledgerBalance.amount;
+
+  const paymentTo = (overrides: Partial<PaymentRequest> = {}): PaymentRequest => ({
+    sourceAccountId: accountId,
+    amount: 250,
+    currency: Currency.USD,
+    beneficiaryName: 'Acme Supplies Ltd',
+    beneficiaryIban: 'de89 3704 0044 0532 0130 00',
+    beneficiaryBic: 'cobadeffxxx',
+    remittanceInformation: 'Invoice 2024-117',
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    repositories = createInMemoryRepositories();
+    api = new BankingAPI(repositories);
+
+    const products = await api.getProducts();
+    if (!products.success) throw products.error;
+    const account = await api.createAccount({
+      customerId: 'cust-payments',
+      customerType: 'INDIVIDUAL',
+      productId: products.data.find((p) => p.name === 'Standard Current Account')!.id,
+      currency: Currency.USD,
+      initialDeposit: 1000,
+    });
+    if (!account.success) throw account.error;
+    accountId = account.data.id;
+  });
+
+  it('should debit the customer and hold the funds on the clearing account', async () => {
+    const result = await api.pay(paymentTo());
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.data.type).toBe(TransactionType.PAYMENT);
+    expect(result.data.status).toBe(TransactionStatus.PENDING);
+    expect(result.data.completedAt).toBeNull();
+    expect(result.data.metadata['beneficiary']).toEqual({
+      name: 'Acme Supplies Ltd',
+      iban: 'DE89370400440532013000',
+      accountNumber: null,
+      bic: 'COBADEFFXXX',
+    });
+    expect(result.data.metadata['remittanceInformation']).toBe('Invoice 2024-117');
+
+    const balance = await api.getBalance(accountId);
+    expect(balance.success && balance.data.availableBalance.amount).toBe(750);
+    expect(await clearingBalance()).toBe(250);
+  });
+
+  it('should require a beneficiary account', async () => {
+    const { beneficiaryIban: _omitted, ...withoutAccount } = paymentTo();
+    const result = await api.pay(withoutAccount);
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.message).toContain('IBAN or account number');
+    }
+  });
+
+  it('should reject a malformed BIC', async () => {
+    const result = await api.pay(paymentTo({ beneficiaryBic: 'NOT A BIC' }));
+
+    expect(result.success).toBe(false);
+  });
+
+  it('should complete the payment on a settled confirmation', async () => {
+    const completed: TransactionCompletedEvent[] = [];
+    api.events.subscribe('TRANSACTION_COMPLETED', (event) => {
+      completed.push(event);
+    });
+
+    const payment = await api.pay(paymentTo());
+    if (!payment.success) throw payment.error;
+    expect(completed).toHaveLength(0);
+
+    const result = await api.confirmPaymentSettlement({
+      transactionId: payment.data.id.value,
+      outcome: 'SETTLED',
+      settlementReference: 'CLR-0001',
+    });
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.data.status).toBe(TransactionStatus.COMPLETED);
+    expect(result.data.completedAt).toBeInstanceOf(Date);
+    expect(result.data.metadata['settlementReference']).toBe('CLR-0001');
+    expect(completed.map((e) => e.transactionId)).toEqual([payment.data.id.value]);
+
+    expect(await clearingBalance()).toBe(0);
+    const nostro = await repositories.balances.findByAccountId('INT-NOSTRO-USD');
+    expect(nostro?.ledgerBalance.amount).toBe(250);
+  });
+
+  it('should refund the customer on a rejected confirmation', async () => {
+    const payment = await api.pay(paymentTo());
+    if (!payment.success) throw payment.error;
+
+    const result = await api.confirmPaymentSettlement({
+      transactionId: payment.data.id.value,
+      outcome: 'REJECTED',
+      reason: 'AC01 Incorrect account number',
+    });
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.data.status).toBe(TransactionStatus.REJECTED);
+    expect(result.data.failureReason).toBe('AC01 Incorrect account number');
+
+    const balance = await api.getBalance(accountId);
+    expect(balance.success && balance.data.availableBalance.amount).toBe(1000);
+    expect(await clearingBalance()).toBe(0);
+  });
+
+  it('should require a reason to reject a payment', async () => {
+    const payment = await api.pay(paymentTo());
+    if (!payment.success) throw payment.error;
+
+    const result = await api.confirmPaymentSettlement({
+      transactionId: payment.data.id.value,
+      outcome: 'REJECTED',
+    });
+
+    expect(result.success).toBe(false);
+  });
+
+  it('should accept a repeated confirmation but refuse a contradicting one', async () => {
+    const payment = await api.pay(paymentTo());
+    if (!payment.success) throw payment.error;
+    const transactionId = payment.data.id.value;
+
+    await api.confirmPaymentSettlement({ transactionId, outcome: 'SETTLED' });
+    const repeated = await api.confirmPaymentSettlement({ transactionId, outcome: 'SETTLED' });
+    const contradicting = await api.confirmPaymentSettlement({
+      transactionId,
+      outcome: 'REJECTED',
+      reason: 'Too late',
+    });
+
+    expect(repeated.success && repeated.data.status).toBe(TransactionStatus.COMPLETED);
+    expect(contradicting.success).toBe(false);
+    if (!contradicting.success) {
+      expect(contradicting.error.code).toBe('TRANSACTION_ALREADY_PROCESSED');
+    }
+    expect(await clearingBalance()).toBe(0);
+  });
+
+  it('should not settle a transaction that is not a payment', async () => {
+    const deposit = await api.deposit({ accountId, amount: 10, currency: Currency.USD });
+    if (!deposit.success) throw deposit.error;
+
+    const result = await api.confirmPaymentSettlement({
+      transactionId: deposit.data.id.value,
+      outcome: 'SETTLED',
+    });
+
+    expect(result.success).toBe(false);
+  });
+});
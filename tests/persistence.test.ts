@@ -0,0 +1,144 @@
+/**
+ * Core Banking System - Persistence Tests
+ *
+ * Tests for the file-backed repositories surviving a restart
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { BankingAPI } from '../src/api/banking-api';
+import { createFileRepositories } from '../src/persistence';
+import { AccountNumberGenerator } from '../src/accounts/account-number-generator';
+import { Currency } from '../src/core/domain';
+import { ConcurrencyConflictError } from '../src/utils/errors';
+
+describe('File-backed persistence', () => {
+  let dir: string;
+  let logPath: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'core-banking-'));
+    logPath = path.join(dir, 'bank.log');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  async function openAccount(api: BankingAPI, initialDeposit: number): Promise<string> {
+    const products = await api.getProducts();
+    if (!products.success) throw new Error('no products');
+    const result = await api.createAccount({
+      customerId: 'cust-persist',
+      customerType: 'INDIVIDUAL',
+      productId: products.data[0]!.id,
+      initialDeposit,
+      currency: Currency.USD,
+    });
+    if (!result.success) throw result.error;
+    return result.data.id;
+  }
+
+  it('should restore accounts, balances and ledger history after a restart', async () => {
+    const first = new BankingAPI(createFileRepositories(logPath));
+    const accountId = await openAccount(first, 1000);
+    await first.withdraw({ accountId, amount: 250, currency: Currency.USD });
+
+    const restarted = new BankingAPI(createFileRepositories(logPath));
+
+    const account = await restarted.getAccount(accountId);
+    expect(account.success).toBe(true);
+    if (account.success) {
+      expect(account.data.createdAt).toBeInstanceOf(Date);
+    }
+
+    const balance = await restarted.getBalance(accountId);
+    expect(balance.success && balance.data.ledgerBalance.amount).toBe(750);
+
+    const history = await restarted.getTransactions(accountId);
+    expect(history.success && history.data.length).toBe(2);
+
+    const statement = await restarted.getStatement({
+      accountId,
+      fromDate: new Date(Date.now() - 60_000),
+      toDate: new Date(Date.now() + 60_000),
+    });
+    expect(statement.success && statement.data.closingBalance).toBe(750);
+  });
+
+  it('should not reseed default products or reuse account numbers', async () => {
+    const first = new BankingAPI(createFileRepositories(logPath));
+    const firstAccountId = await openAccount(first, 0);
+    const firstProducts = await first.getProducts();
+
+    const restarted = new BankingAPI(createFileRepositories(logPath));
+    const secondAccountId = await openAccount(restarted, 0);
+    const restartedProducts = await restarted.getProducts();
+
+    if (firstProducts.success && restartedProducts.success) {
+      expect(restartedProducts.data.map((p) => p.id).sort()).toEqual(
+        firstProducts.data.map((p) => p.id).sort()
+      );
+    }
+
+    const a = await restarted.getAccount(firstAccountId);
+    const b = await restarted.getAccount(secondAccountId);
+    if (a.success && b.success) {
+      expect(a.data.accountNumber.value).not.toBe(b.data.accountNumber.value);
+    }
+  });
+
+  it('should not issue the same account number from two stores sharing one log', async () => {
+    const generator = new AccountNumberGenerator();
+    const first = createFileRepositories(logPath);
+    const second = createFileRepositories(logPath);
+
+    const a = await generator.generate(first.sequences);
+    // Each store only sees the other's writes once its own commit conflicts with them
+    await expect(generator.generate(second.sequences)).rejects.toBeInstanceOf(ConcurrencyConflictError);
+    const b = await generator.generate(second.sequences);
+    await expect(generator.generate(first.sequences)).rejects.toBeInstanceOf(ConcurrencyConflictError);
+    const c = await generator.generate(first.sequences);
+
+    expect(new Set([a.value, b.value, c.value]).size).toBe(3);
+    expect([a, b, c].map((n) => n.accountSequence)).toEqual(['10000001', '10000002', '10000003']);
+  });
+
+  it('should retry account openings that lose to another process sharing the log', async () => {
+    const first = new BankingAPI(createFileRepositories(logPath));
+    await first.getProducts();
+    const second = new BankingAPI(createFileRepositories(logPath));
+
+    const ids = [
+      await openAccount(first, 0),
+      await openAccount(second, 0),
+      await openAccount(first, 0),
+      await openAccount(second, 0),
+    ];
+
+    const restarted = new BankingAPI(createFileRepositories(logPath));
+    const numbers: string[] = [];
+    for (const id of ids) {
+      const account = await restarted.getAccount(id);
+      if (!account.success) throw account.error;
+      numbers.push(account.data.accountNumber.value);
+    }
+    expect(new Set(numbers).size).toBe(4);
+  });
+
+  it('should discard a torn trailing write on replay', async () => {
+    const first = new BankingAPI(createFileRepositories(logPath));
+    const accountId = await openAccount(first, 500);
+    fs.appendFileSync(logPath, '{"changes":[{"collection":"bal');
+
+    const restarted = new BankingAPI(createFileRepositories(logPath));
+    const balance = await restarted.getBalance(accountId);
+    expect(balance.success && balance.data.ledgerBalance.amount).toBe(500);
+
+    await restarted.deposit({ accountId, amount: 1, currency: Currency.USD });
+    const again = new BankingAPI(createFileRepositories(logPath));
+    const after = await again.getBalance(accountId);
+    expect(after.success && after.data.ledgerBalance.amount).toBe(501);
+  });
+});
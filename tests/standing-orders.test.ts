@@ -0,0 +1,172 @@
+/**
+ * Core Banking System - Standing Order Tests
+ *
+ * Tests for standing order schedules and the scheduler run
+ */
+
+import { BankingAPI, CreateStandingOrderRequest } from '../src/api/banking-api';
+import { instalmentDate, scheduledDate } from '../src/standing-orders';
+import {
+  Currency,
+  StandingOrderExecutionStatus,
+  StandingOrderFrequency,
+  StandingOrderStatus,
+} from '../src/core/domain';
+
+const day = (iso: string): Date => new Date(`${iso}T00:00:00.000Z`);
+
+describe('Standing order schedule', () => {
+  it('should keep monthly instalments on the start day, clamped to short months', () => {
+    const dates = [0, 1, 2].map((i) => instalmentDate(day('2024-01-31'), StandingOrderFrequency.MONTHLY, i));
+
+    expect(dates).toEqual([day('2024-01-31'), day('2024-02-29'), day('2024-03-31')]);
+  });
+
+  it('should step weekly and quarterly instalments', () => {
+    expect(instalmentDate(day('2024-12-30'), StandingOrderFrequency.WEEKLY, 1)).toEqual(day('2025-01-06'));
+    expect(instalmentDate(day('2024-11-15'), StandingOrderFrequency.QUARTERLY, 1)).toEqual(day('2025-02-15'));
+  });
+
+  it('should stop at the end date or instalment count', () => {
+    const order = {
+      startDate: day('2024-01-10'),
+      endDate: day('2024-03-09'),
+      frequency: StandingOrderFrequency.MONTHLY,
+      maxExecutions: null,
+    };
+
+    expect(scheduledDate(order, 1)).toEqual(day('2024-02-10'));
+    expect(scheduledDate(order, 2)).toBeNull();
+    expect(scheduledDate({ ...order, endDate: null, maxExecutions: 2 }, 2)).toBeNull();
+  });
+});
+
+describe('BankingAPI standing orders', () => {
+  let api: BankingAPI;
+  let payerId: string;
+  let payeeId: string;
+
+  async function openAccount(customerId: string, initialDeposit: number): Promise<string> {
+    const products = await api.getProducts();
+    if (!products.success) throw products.error;
+    const result = await api.createAccount({
+      customerId,
+      customerType: 'INDIVIDUAL',
+      productId: products.data.find((p) => p.name === 'Basic Current Account')!.id,
+      currency: Currency.USD,
+      initialDeposit,
+    });
+    if (!result.success) throw result.error;
+    return result.data.id;
+  }
+
+  const monthlyRent = (overrides: Partial<CreateStandingOrderRequest> = {}): CreateStandingOrderRequest => ({
+    sourceAccountId: payerId,
+    destinationAccountId: payeeId,
+    amount: 100,
+    currency: Currency.USD,
+    frequency: StandingOrderFrequency.MONTHLY,
+    startDate: day('2024-01-05'),
+    reference: 'RENT',
+    ...overrides,
+  });
+
+  const balanceOf = async (accountId: string): Promise<number | false> => {
+    const balance = await api.getBalance(accountId);
+    return balance.success && balance.data.availableBalance.amount;
+  };
+
+  beforeEach(async () => {
+    api = new BankingAPI(undefined, undefined, { standingOrderRetryPolicy: { maxAttempts: 2 } });
+    payerId = await openAccount('cust-so-payer', 250);
+    payeeId = await openAccount('cust-so-payee', 0);
+  });
+
+  it('should execute an instalment on its due date only', async () => {
+    const order = await api.createStandingOrder(monthlyRent());
+    if (!order.success) throw order.error;
+
+    const early = await api.runStandingOrders(day('2024-01-04'));
+    const due = await api.runStandingOrders(day('2024-01-05'));
+
+    expect(early.success && early.data).toEqual([]);
+    expect(due.success && due.data.map((e) => e.status)).toEqual([StandingOrderExecutionStatus.EXECUTED]);
+    expect(await balanceOf(payeeId)).toBe(100);
+
+    const updated = await api.getStandingOrder(order.data.id);
+    expect(updated.success && updated.data.nextExecutionDate).toEqual(day('2024-02-05'));
+    expect(updated.success && updated.data.executionCount).toBe(1);
+  });
+
+  it('should not pay twice when a business date is run again', async () => {
+    await api.createStandingOrder(monthlyRent());
+
+    await api.runStandingOrders(day('2024-01-05'));
+    const rerun = await api.runStandingOrders(day('2024-01-05'));
+
+    expect(rerun.success && rerun.data).toEqual([]);
+    expect(await balanceOf(payeeId)).toBe(100);
+  });
+
+  it('should catch up missed instalments in order', async () => {
+    const order = await api.createStandingOrder(monthlyRent({ maxExecutions: 2 }));
+    if (!order.success) throw order.error;
+
+    const result = await api.runStandingOrders(day('2024-04-01'));
+
+    expect(result.success && result.data.map((e) => e.dueDate)).toEqual([day('2024-01-05'), day('2024-02-05')]);
+    expect(await balanceOf(payeeId)).toBe(200);
+
+    const completed = await api.getStandingOrder(order.data.id);
+    expect(completed.success && completed.data.status).toBe(StandingOrderStatus.COMPLETED);
+  });
+
+  it('should retry a failed instalment and skip it once attempts run out', async () => {
+    const order = await api.createStandingOrder(monthlyRent({ amount: 300 }));
+    if (!order.success) throw order.error;
+
+    const first = await api.runStandingOrders(day('2024-01-05'));
+    const second = await api.runStandingOrders(day('2024-01-06'));
+
+    expect(first.success && first.data.map((e) => e.status)).toEqual([StandingOrderExecutionStatus.FAILED]);
+    expect(second.success && second.data.map((e) => e.status)).toEqual([StandingOrderExecutionStatus.SKIPPED]);
+    expect(await balanceOf(payerId)).toBe(250);
+
+    const history = await api.getStandingOrderExecutions(order.data.id);
+    expect(history.success && history.data.map((e) => e.attempt)).toEqual([1, 2]);
+    expect(history.success && history.data[0]!.failureReason).toContain('Insufficient funds');
+
+    const updated = await api.getStandingOrder(order.data.id);
+    expect(updated.success && updated.data.nextExecutionDate).toEqual(day('2024-02-05'));
+    expect(updated.success && updated.data.executionCount).toBe(0);
+  });
+
+  it('should pay the instalment when a retry succeeds', async () => {
+    await api.createStandingOrder(monthlyRent({ amount: 300 }));
+
+    await api.runStandingOrders(day('2024-01-05'));
+    await api.deposit({ accountId: payerId, amount: 100, currency: Currency.USD });
+    const retry = await api.runStandingOrders(day('2024-01-06'));
+
+    expect(retry.success && retry.data.map((e) => e.status)).toEqual([StandingOrderExecutionStatus.EXECUTED]);
+    expect(await balanceOf(payeeId)).toBe(300);
+  });
+
+  it('should not execute a cancelled order', async () => {
+    const order = await api.createStandingOrder(monthlyRent());
+    if (!order.success) throw order.error;
+
+    const cancelled = await api.cancelStandingOrder(order.data.id);
+    const run = await api.runStandingOrders(day('2024-01-05'));
+
+    expect(cancelled.success && cancelled.data.status).toBe(StandingOrderStatus.CANCELLED);
+    expect(run.success && run.data).toEqual([]);
+    expect(await balanceOf(payeeId)).toBe(0);
+  });
+
+  it('should reject a standing order paid to its own account', async () => {
+    const result = await api.createStandingOrder(monthlyRent({ destinationAccountId: payerId }));
+
+    expect(result.success).toBe(false);
+  });
+});
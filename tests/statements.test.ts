@@ -0,0 +1,112 @@
+/**
+ * Core Banking System - Statement Export Tests
+ *
+ * Tests for CSV, MT940 and camt.053 statement rendering
+ */
+
+import { BankingAPI, StatementRequest } from '../src/api/banking-api';
+import { Currency } from '../src/core/domain';
+
+describe('Statement export', () => {
+  let api: BankingAPI;
+  let accountId: string;
+  let request: StatementRequest;
+
+  beforeEach(async () => {
+    api = new BankingAPI();
+    const products = await api.getProducts();
+    if (!products.success) throw new Error('no products');
+    const account = await api.createAccount({
+      customerId: 'cust-statement-export',
+      customerType: 'BUSINESS',
+      productId: products.data[0]!.id,
+      initialDeposit: 1000,
+      currency: Currency.USD,
+    });
+    if (!account.success) throw account.error;
+    accountId = account.data.id;
+
+    await api.deposit({
+      accountId,
+      amount: 250.5,
+      currency: Currency.USD,
+      description: 'Invoice 42, "urgent"',
+      reference: 'INV-42',
+    });
+    await api.withdraw({ accountId, amount: 100, currency: Currency.USD, reference: 'WD-1' });
+
+    request = {
+      accountId,
+      fromDate: new Date(Date.now() - 60_000),
+      toDate: new Date(Date.now() + 60_000),
+    };
+  });
+
+  it('should fill entry references from the posting transaction', async () => {
+    const result = await api.getStatement(request);
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data.entries.map((e) => e.reference)).toEqual([
+        expect.stringMatching(/^REF-/),
+        'INV-42',
+        'WD-1',
+      ]);
+    }
+  });
+
+  it('should render CSV with quoted fields', async () => {
+    const result = await api.exportStatement({ ...request, format: 'csv' });
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      const lines = result.data.content.trim().split('\r\n');
+      expect(result.data.contentType).toBe('text/csv');
+      expect(lines[0]).toBe('Date,Value Date,Reference,Description,Debit,Credit,Balance');
+      expect(lines).toHaveLength(4);
+      expect(lines[2]).toContain('INV-42,"Invoice 42, ""urgent""",,250.50,1250.50');
+      expect(lines[3]).toContain('WD-1,Withdrawal,100.00,,1150.50');
+    }
+  });
+
+  it('should render MT940 with balances and statement lines', async () => {
+    const result = await api.exportStatement({ ...request, format: 'mt940', statementNumber: 7 });
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      const lines = result.data.content.trim().split('\r\n');
+      expect(lines).toContain(':28C:00007/001');
+      expect(lines.find((l) => l.startsWith(':60F:'))).toMatch(/^:60F:C\d{6}USD0,00$/);
+      expect(lines.find((l) => l.startsWith(':62F:'))).toMatch(/^:62F:C\d{6}USD1150,50$/);
+      const statementLines = lines.filter((l) => l.startsWith(':61:'));
+      expect(statementLines).toHaveLength(3);
+      expect(statementLines[1]).toMatch(/^:61:\d{10}C250,50NMSCINV-42\/\/TXN-/);
+      expect(statementLines[2]).toMatch(/^:61:\d{10}D100,00NMSCWD-1\/\/TXN-/);
+      expect(lines[lines.length - 1]).toBe('-');
+    }
+  });
+
+  it('should render camt.053 XML with entries and totals', async () => {
+    const result = await api.exportStatement({ ...request, format: 'camt053' });
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      const xml = result.data.content;
+      expect(xml).toContain('xmlns="urn:iso:std:iso:20022:tech:xsd:camt.053.001.02"');
+      expect(xml.match(/<Ntry>/g)).toHaveLength(3);
+      expect(xml).toContain('<EndToEndId>INV-42</EndToEndId>');
+      expect(xml).toContain('<Ustrd>Invoice 42, &quot;urgent&quot;</Ustrd>');
+      expect(xml).toMatch(/<Cd>CLBD<\/Cd><\/CdOrPrtry><\/Tp>\s*<Amt Ccy="USD">1150.50<\/Amt>/);
+      expect(xml).toMatch(/<TtlDbtNtries>\s*<NbOfNtries>1<\/NbOfNtries>\s*<Sum>100.00<\/Sum>/);
+    }
+  });
+
+  it('should reject unsupported formats', async () => {
+    const result = await api.exportStatement({ ...request, format: 'pdf' as any });
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.code).toBe('VALIDATION_ERROR');
+    }
+  });
+});
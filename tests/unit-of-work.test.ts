@@ -0,0 +1,233 @@
+/**
+ * Core Banking System - Unit of Work Tests
+ *
+ * Tests that multi-step postings commit or roll back as a whole, and that
+ * concurrent writers are serialised by optimistic locking
+ */
+
+import { BankingAPI } from '../src/api/banking-api';
+import {
+  BankingRepositories,
+  InMemoryRecordStore,
+  StagedRecordStore,
+  StoredBalanceRepository,
+  StoredLedgerRepository,
+  StoredTransactionRepository,
+  createInMemoryRepositories,
+} from '../src/persistence';
+import { Balance, Currency } from '../src/core/domain';
+import { ConcurrencyConflictError } from '../src/utils/errors';
+
+describe('StagedRecordStore', () => {
+  it('should keep staged writes invisible to the base store until flushed', async () => {
+    const base = new InMemoryRecordStore();
+    const staged = new StagedRecordStore(base);
+
+    await staged.commit([{ collection: 'things', key: 'a', value: 1 }]);
+
+    expect(staged.get('things', 'a')).toBe(1);
+    expect(base.get('things', 'a')).toBeUndefined();
+
+    await staged.flush();
+    expect(base.get('things', 'a')).toBe(1);
+  });
+
+  it('should drop staged writes on discard', async () => {
+    const base = new InMemoryRecordStore();
+    const staged = new StagedRecordStore(base);
+
+    await staged.commit([{ collection: 'things', key: 'a', value: 1 }]);
+    staged.discard();
+
+    expect(staged.get('things', 'a')).toBeUndefined();
+    expect(staged.stagedKeys('things')).toEqual([]);
+  });
+});
+
+describe('BankingAPI unit of work', () => {
+  let repositories: BankingRepositories;
+  let api: BankingAPI;
+
+  async function openAccount(customerId: string, initialDeposit?: number): Promise<string> {
+    const products = await api.getProducts();
+    if (!products.success) throw products.error;
+    const result = await api.createAccount({
+      customerId,
+      customerType: 'INDIVIDUAL',
+      productId: products.data[0]!.id,
+      currency: Currency.USD,
+      ...(initialDeposit !== undefined ? { initialDeposit } : {}),
+    });
+    if (!result.success) throw result.error;
+    return result.data.id;
+  }
+
+  beforeEach(() => {
+    repositories = createInMemoryRepositories();
+    api = new BankingAPI(repositories);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should leave balances and ledger untouched when a transfer fails midway', async () => {
+    const sourceId = await openAccount('cust-uow-src', 500);
+    const destId = await openAccount('cust-uow-dst');
+
+    jest
+      .spyOn(StoredTransactionRepository.prototype, 'save')
+      .mockRejectedValueOnce(new Error('disk full'));
+
+    await expect(
+      api.transfer({
+        sourceAccountId: sourceId,
+        destinationAccountId: destId,
+        amount: 200,
+        currency: Currency.USD,
+      })
+    ).rejects.toThrow('disk full');
+
+    const source = await repositories.balances.findByAccountId(sourceId);
+    const dest = await repositories.balances.findByAccountId(destId);
+    expect(source?.ledgerBalance.amount).toBe(500);
+    expect(dest?.ledgerBalance.amount).toBe(0);
+    expect(await repositories.ledger.findByAccountId(sourceId)).toHaveLength(1);
+    expect(await repositories.ledger.findByAccountId(destId)).toHaveLength(0);
+  });
+
+  it('should not keep an account whose initial deposit failed', async () => {
+    jest
+      .spyOn(StoredLedgerRepository.prototype, 'save')
+      .mockRejectedValueOnce(new Error('disk full'));
+
+    await expect(openAccount('cust-uow-initial', 100)).rejects.toThrow('disk full');
+
+    const accounts = await api.getAccountsByCustomer('cust-uow-initial');
+    expect(accounts.success && accounts.data).toEqual([]);
+  });
+
+  it('should refuse to commit a balance that disagrees with its ledger', async () => {
+    const accountId = await openAccount('cust-uow-drift', 100);
+
+    const save = StoredBalanceRepository.prototype.save;
+    jest
+      .spyOn(StoredBalanceRepository.prototype, 'save')
+      .mockImplementationOnce(function (this: StoredBalanceRepository, balance: Balance) {
+        const drifted = { ...balance, ledgerBalance: { ...balance.ledgerBalance, amount: 999 } };
+        return save.call(this, drifted);
+      });
+
+    const result = await api.deposit({ accountId, amount: 50, currency: Currency.USD });
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.code).toBe('INVALID_LEDGER_ENTRY');
+    }
+
+    const balance = await repositories.balances.findByAccountId(accountId);
+    expect(balance?.ledgerBalance.amount).toBe(100);
+    expect(await repositories.ledger.findByAccountId(accountId)).toHaveLength(1);
+  });
+});
+
+describe('Optimistic locking', () => {
+  it('should reject a versioned write based on a stale record', async () => {
+    const store = new InMemoryRecordStore();
+    await store.commit([{ collection: 'things', key: 'a', value: { version: 1 }, expectedVersion: null }]);
+
+    const first = new StagedRecordStore(store);
+    const second = new StagedRecordStore(store);
+    await first.commit([{ collection: 'things', key: 'a', value: { version: 2 }, expectedVersion: 1 }]);
+    await second.commit([{ collection: 'things', key: 'a', value: { version: 2 }, expectedVersion: 1 }]);
+
+    await first.flush();
+    await expect(second.flush()).rejects.toBeInstanceOf(ConcurrencyConflictError);
+    expect(store.get('things', 'a')).toEqual({ version: 2 });
+  });
+
+  it('should check repeated writes in one unit of work against the first version read', async () => {
+    const store = new InMemoryRecordStore();
+    await store.commit([{ collection: 'things', key: 'a', value: { version: 1 }, expectedVersion: null }]);
+
+    const staged = new StagedRecordStore(store);
+    await staged.commit([{ collection: 'things', key: 'a', value: { version: 2 }, expectedVersion: 1 }]);
+    await staged.commit([{ collection: 'things', key: 'a', value: { version: 3 }, expectedVersion: 2 }]);
+    await staged.flush();
+
+    expect(store.get('things', 'a')).toEqual({ version: 3 });
+  });
+
+  it('should not hand out the same sequence value to concurrent units of work', async () => {
+    const repositories = createInMemoryRepositories();
+    const first = repositories.beginUnitOfWork();
+    const second = repositories.beginUnitOfWork();
+
+    expect(await first.repositories.sequences.next('outbox', 0)).toBe(1);
+    expect(await first.repositories.sequences.next('outbox', 0)).toBe(2);
+    expect(await second.repositories.sequences.next('outbox', 0)).toBe(1);
+    await first.commit();
+
+    await expect(second.commit()).rejects.toBeInstanceOf(ConcurrencyConflictError);
+    expect(await repositories.sequences.next('outbox', 0)).toBe(3);
+  });
+
+  async function fundedAccount(api: BankingAPI, amount: number): Promise<string> {
+    const products = await api.getProducts();
+    if (!products.success) throw products.error;
+    const result = await api.createAccount({
+      customerId: 'cust-locking',
+      customerType: 'INDIVIDUAL',
+      productId: products.data[0]!.id,
+      currency: Currency.USD,
+      initialDeposit: amount,
+    });
+    if (!result.success) throw result.error;
+    return result.data.id;
+  }
+
+  it('should not let concurrent withdrawals spend the same funds twice', async () => {
+    const api = new BankingAPI();
+    const accountId = await fundedAccount(api, 100);
+
+    const results = await Promise.all([
+      api.withdraw({ accountId, amount: 80, currency: Currency.USD }),
+      api.withdraw({ accountId, amount: 80, currency: Currency.USD }),
+    ]);
+
+    expect(results.filter((r) => r.success)).toHaveLength(1);
+    const rejected = results.find((r) => !r.success);
+    expect(rejected && !rejected.success && rejected.error.message).toContain('Insufficient funds');
+
+    const balance = await api.getBalance(accountId);
+    expect(balance.success && balance.data.ledgerBalance.amount).toBe(20);
+  });
+
+  it('should apply concurrent deposits by retrying the loser', async () => {
+    const api = new BankingAPI();
+    const accountId = await fundedAccount(api, 100);
+
+    const results = await Promise.all([
+      api.deposit({ accountId, amount: 10, currency: Currency.USD }),
+      api.deposit({ accountId, amount: 20, currency: Currency.USD }),
+      api.deposit({ accountId, amount: 30, currency: Currency.USD }),
+    ]);
+
+    expect(results.every((r) => r.success)).toBe(true);
+    const balance = await api.getBalance(accountId);
+    expect(balance.success && balance.data.ledgerBalance.amount).toBe(160);
+  });
+
+  it('should report a conflict once retries are exhausted', async () => {
+    const api = new BankingAPI(undefined, undefined, { maxConcurrencyRetries: 0 });
+    const accountId = await fundedAccount(api, 100);
+
+    const results = await Promise.all([
+      api.deposit({ accountId, amount: 10, currency: Currency.USD }),
+      api.deposit({ accountId, amount: 20, currency: Currency.USD }),
+    ]);
+
+    const rejected = results.find((r) => !r.success);
+    expect(rejected && !rejected.success && rejected.error.code).toBe('CONCURRENCY_CONFLICT');
+  });
+});
@@ -12,7 +12,9 @@ import {
 } from '../src/core/validators';
 import {
   Account,
+  AccountHolderRole,
   AccountStatus,
+  SigningRule,
   TransactionStatus,
   Transaction,
   TransactionType,
@@ -35,7 +37,10 @@ function createMockAccount(overrides: Partial<Account> = {}): Account {
       accountSequence: '00000001',
       checkDigit: '01',
     },
+    iban: 'GB94CORE00000000000101',
     customerId: { value: 'cust-123', type: 'INDIVIDUAL' },
+    holders: [{ customerId: 'cust-123', role: AccountHolderRole.PRIMARY, addedAt: new Date() }],
+    signingRule: SigningRule.ANY_ONE,
     productId: 'prod-123',
     status: AccountStatus.ACTIVE,
     currency,
@@ -0,0 +1,143 @@
+/**
+ * Core Banking System - Value Dating Tests
+ *
+ * Tests for backdated and future-dated postings and value-dated balances
+ */
+
+import { BankingAPI } from '../src/api/banking-api';
+import { BankingRepositories, createInMemoryRepositories } from '../src/persistence';
+import { Currency, TransactionStatus } from '../src/core/domain';
+import { addDays, businessDay } from '../src/utils/business-date';
+
+describe('BankingAPI value dating', () => {
+  let repositories: BankingRepositories;
+  let api: BankingAPI;
+  let accountId: string;
+
+  const today = businessDay(new Date());
+  const twoDaysAgo = addDays(today, -2);
+  const tomorrow = addDays(today, 1);
+
+  const ledgerBalance = async (): Promise<number | false> => {
+    const balance = await api.getBalance(accountId);
+    return balance.success && balance.data.ledgerBalance.amount;
+  };
+
+  beforeEach(async () => {
+    repositories = createInMemoryRepositories();
+    api = new BankingAPI(repositories, undefined, { backdatingWindowDays: 5 });
+
+    const products = await api.getProducts();
+    if (!products.success) throw products.error;
+    const premium = products.data.find((p) => p.name === 'Premium Current Account')!;
+    const savings = await api.createProduct({
+      ...premium,
+      name: 'Test Saver',
+      interestRate: 0.0365,
+      features: { ...premium.features, paysInterest: true },
+    });
+    if (!savings.success) throw savings.error;
+
+    const account = await api.createAccount({
+      customerId: 'cust-value-dating',
+      customerType: 'INDIVIDUAL',
+      productId: savings.data.id,
+      currency: Currency.USD,
+      initialDeposit: 10000,
+    });
+    if (!account.success) throw account.error;
+    accountId = account.data.id;
+  });
+
+  it('should accrue interest on the days a backdated deposit covers', async () => {
+    const deposit = await api.deposit({
+      accountId,
+      amount: 36500,
+      currency: Currency.USD,
+      valueDate: twoDaysAgo,
+    });
+
+    expect(deposit.success && deposit.data.status).toBe(TransactionStatus.COMPLETED);
+    const accruals = await repositories.interestAccruals.findByAccountId(accountId);
+    expect(accruals.map((a) => [a.accrualDate, a.amount])).toEqual([
+      [twoDaysAgo, 3.65],
+      [addDays(today, -1), 3.65],
+    ]);
+
+    const report = await api.getInterestReport(accountId, twoDaysAgo, today);
+    expect(report.success && report.data.accrued).toBe(7.3);
+  });
+
+  it('should refuse value dates outside the backdating window', async () => {
+    const result = await api.deposit({
+      accountId,
+      amount: 100,
+      currency: Currency.USD,
+      valueDate: addDays(today, -6),
+    });
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.message).toContain('5 days');
+    }
+    expect(await ledgerBalance()).toBe(10000);
+  });
+
+  it('should leave a future-dated transaction pending until its value date', async () => {
+    const pending = await api.deposit({
+      accountId,
+      amount: 250,
+      currency: Currency.USD,
+      valueDate: tomorrow,
+    });
+
+    expect(pending.success && pending.data.status).toBe(TransactionStatus.PENDING);
+    expect(await ledgerBalance()).toBe(10000);
+    const early = await api.runFutureDatedPostings(today);
+    expect(early.success && early.data).toEqual([]);
+
+    const run = await api.runFutureDatedPostings(tomorrow);
+
+    expect(run.success && run.data.map((t) => [t.id.value, t.status])).toEqual([
+      [pending.success && pending.data.id.value, TransactionStatus.COMPLETED],
+    ]);
+    expect(await ledgerBalance()).toBe(10250);
+    const entries = await repositories.ledger.findByAccountId(accountId);
+    expect(entries[entries.length - 1]!.valueDate).toEqual(tomorrow);
+  });
+
+  it('should reject a future-dated transaction that fails when its date arrives', async () => {
+    const pending = await api.withdraw({
+      accountId,
+      amount: 8000,
+      currency: Currency.USD,
+      valueDate: tomorrow,
+    });
+    if (!pending.success) throw pending.error;
+    await api.withdraw({ accountId, amount: 9000, currency: Currency.USD });
+
+    const run = await api.runFutureDatedPostings(tomorrow);
+
+    expect(run.success && run.data).toHaveLength(1);
+    const stored = await api.getTransaction(pending.data.id.value);
+    expect(stored.success && stored.data.status).toBe(TransactionStatus.REJECTED);
+    expect(stored.success && stored.data.failureReason).toBeTruthy();
+    expect(await ledgerBalance()).toBe(1000);
+  });
+
+  it('should balance statements by value date', async () => {
+    await api.deposit({ accountId, amount: 500, currency: Currency.USD, valueDate: twoDaysAgo });
+
+    const statement = await api.getStatement({
+      accountId,
+      fromDate: addDays(today, -1),
+      toDate: addDays(today, 1),
+    });
+
+    expect(statement.success).toBe(true);
+    if (!statement.success) return;
+    expect(statement.data.openingBalance).toBe(500);
+    expect(statement.data.closingBalance).toBe(10500);
+    expect(statement.data.entries.map((e) => e.credit)).toEqual([10000]);
+  });
+});
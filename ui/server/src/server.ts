@@ -334,7 +334,17 @@ app.get('/api/transactions/:id', (req: Request, res: Response) => {
 
 // Create new transaction
 app.post('/api/transactions', (req: Request, res: Response) => {
-  const { type, sourceAccountId, destinationAccountId, amount, currency = 'USD', description } = req.body;
+  const {
+    type,
+    sourceAccountId,
+    destinationAccountId,
+    amount,
+    currency = 'USD',
+    description,
+    beneficiaryName,
+    beneficiaryIban,
+    beneficiaryAccountNumber,
+  } = req.body;
 
   if (!type) {
     return res.status(400).json({ error: 'Transaction type is required' });
@@ -344,6 +354,16 @@ app.post('/api/transactions', (req: Request, res: Response) => {
     return res.status(400).json({ error: 'Valid amount is required' });
   }
 
+  // Payments leave the bank, so they need somewhere to go
+  if (type === TransactionType.PAYMENT) {
+    if (!beneficiaryName) {
+      return res.status(400).json({ error: 'Beneficiary name is required for payments' });
+    }
+    if (!beneficiaryIban && !beneficiaryAccountNumber) {
+      return res.status(400).json({ error: 'Beneficiary IBAN or account number is required for payments' });
+    }
+  }
+
   // Validate accounts based on transaction type
   let sourceAccount: Account | undefined;
   let destinationAccount: Account | undefined;
@@ -388,7 +408,8 @@ app.post('/api/transactions', (req: Request, res: Response) => {
     currency,
     type,
     status: TransactionStatus.COMPLETED,
-    description: description || `${type} transaction`,
+    description:
+      description || (type === TransactionType.PAYMENT ? `Payment to ${beneficiaryName}` : `${type} transaction`),
     reference: `REF-${Date.now()}`,
     createdAt: new Date(),
     completedAt: new Date()